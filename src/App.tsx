@@ -1,14 +1,31 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useSearchParams } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { SyncProvider } from './contexts/SyncContext';
+import { StudentProvider } from './contexts/StudentContext';
+import { PinLockProvider } from './contexts/PinLockContext';
 import { Login } from './components/Auth/Login';
+import { JoinInvite } from './components/Auth/JoinInvite';
+import { ResetPassword } from './components/Auth/ResetPassword';
+import { VerifyEmail } from './components/Auth/VerifyEmail';
+import { AuthCallback } from './components/Auth/AuthCallback';
+import { Chat } from './pages/Chat';
 import { Homework } from './pages/Homework';
 import { Parent } from './pages/Parent';
 import { Tests } from './pages/Tests';
+import { Settings } from './pages/Settings';
+import { Trash } from './pages/Trash';
+import { Admin } from './pages/Admin';
+import { PromptTemplates } from './pages/PromptTemplates';
+import { AppResource, canView, homePathFor } from './utils/permissions';
 import { BottomTabs } from './components/Layout/BottomTabs';
+import { PinGate } from './components/PinLock/PinGate';
 import './styles/global.css';
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute: React.FC<{ children: React.ReactNode; resource?: AppResource }> = ({
+  children,
+  resource,
+}) => {
+  const { user, role, loading } = useAuth();
 
   if (loading) {
     return (
@@ -46,23 +63,50 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     return <Navigate to="/login" replace />;
   }
 
+  // ロールで見られない画面は、そのロールの最初の画面へ
+  if (resource && !canView(role, resource)) {
+    return <Navigate to={homePathFor(role)} replace />;
+  }
+
   return <>{children}</>;
 };
 
-const AppRoutes: React.FC = () => {
+/** ログイン済みなら最初の画面へ（招待コード付きなら紐付けの確認へ） */
+const LoginRoute: React.FC<{ homePath: string }> = ({ homePath }) => {
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const code = searchParams.get('code');
+
+  if (!user) {
+    return <Login />;
+  }
+  return <Navigate to={code ? `/join/${encodeURIComponent(code)}` : homePath} replace />;
+};
+
+const AppRoutes: React.FC = () => {
+  const { role } = useAuth();
+  const homePath = homePathFor(role);
 
   return (
     <Routes>
-      <Route path="/login" element={user ? <Navigate to="/app/homework" replace /> : <Login />} />
+      <Route path="/login" element={<LoginRoute homePath={homePath} />} />
+      <Route path="/join/:code" element={<JoinInvite />} />
+      <Route path="/reset-password" element={<ResetPassword />} />
+      <Route path="/verify-email" element={<VerifyEmail />} />
+      <Route path="/auth/callback" element={<AuthCallback />} />
       <Route
-        path="/app/chat"
-        element={<Navigate to="/app/homework" replace />}
+        path="/app/chat/:projectId?/:threadId?"
+        element={
+          <ProtectedRoute resource="chat">
+            <Chat />
+            <BottomTabs />
+          </ProtectedRoute>
+        }
       />
       <Route
         path="/app/homework"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute resource="homework">
             <Homework />
             <BottomTabs />
           </ProtectedRoute>
@@ -71,8 +115,10 @@ const AppRoutes: React.FC = () => {
       <Route
         path="/app/lessons"
         element={
-          <ProtectedRoute>
-            <Parent />
+          <ProtectedRoute resource="lessons">
+            <PinGate title="授業管理">
+              <Parent />
+            </PinGate>
             <BottomTabs />
           </ProtectedRoute>
         }
@@ -80,15 +126,59 @@ const AppRoutes: React.FC = () => {
       <Route
         path="/app/tests"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute resource="tests">
             <Tests />
             <BottomTabs />
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/app/settings"
+        element={
+          <ProtectedRoute resource="settings">
+            <PinGate title="設定">
+              <Settings />
+            </PinGate>
+            <BottomTabs />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/app/trash"
+        element={
+          <ProtectedRoute>
+            <PinGate title="ゴミ箱">
+              <Trash />
+            </PinGate>
+            <BottomTabs />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/app/prompts"
+        element={
+          <ProtectedRoute resource="prompts">
+            <PinGate title="AIの指示">
+              <PromptTemplates />
+            </PinGate>
+            <BottomTabs />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin"
+        element={
+          <ProtectedRoute resource="admin">
+            <PinGate title="管理">
+              <Admin />
+            </PinGate>
+            <BottomTabs />
+          </ProtectedRoute>
+        }
+      />
       <Route path="/app/parent" element={<Navigate to="/app/lessons" replace />} />
-      <Route path="/" element={<Navigate to="/app/homework" replace />} />
-      <Route path="*" element={<Navigate to="/app/homework" replace />} />
+      <Route path="/" element={<Navigate to={homePath} replace />} />
+      <Route path="*" element={<Navigate to={homePath} replace />} />
     </Routes>
   );
 };
@@ -96,9 +186,15 @@ const AppRoutes: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <BrowserRouter>
-        <AppRoutes />
-      </BrowserRouter>
+      <StudentProvider>
+        <PinLockProvider>
+          <SyncProvider>
+            <BrowserRouter>
+              <AppRoutes />
+            </BrowserRouter>
+          </SyncProvider>
+        </PinLockProvider>
+      </StudentProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import './Auth.css';
+
+/** Supabase がリンクのエラーを返すときは URL の hash か query に入る */
+const readLinkError = (searchParams: URLSearchParams): string | null => {
+  const hashParams = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  return searchParams.get('error_description') ?? hashParams.get('error_description');
+};
+
+/**
+ * メールのリンク（マジックリンク・登録の確認）から戻ってくる画面（/auth/callback）
+ * Supabase利用時は supabase-js が URL からセッションを作るので、ログインできたら最初の画面へ
+ * モック認証時は ?token= のリンクを確認してログインする
+ */
+export const AuthCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const { user, loading, completeEmailLink } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(() => readLinkError(searchParams));
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || user || loading || startedRef.current) return;
+    startedRef.current = true;
+    completeEmailLink(token).catch((err) => {
+      setError(err instanceof Error ? err.message : 'リンクが無効です');
+    });
+  }, [token, user, loading, completeEmailLink]);
+
+  if (user) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (loading || (token && !error)) {
+    return (
+      <div className="auth-container">
+        <p className="auth-subtitle">ログインしています...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <h1 className="auth-title">ログインできませんでした</h1>
+        <div className="auth-form">
+          <div className="auth-error" role="alert">
+            {error ?? 'リンクが無効か、有効期限が切れています。もう一度送ってください'}
+          </div>
+          <button type="button" className="auth-button" onClick={() => navigate('/login')}>
+            ログインに戻る
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useStudent } from '../../contexts/StudentContext';
+import { InviteService, normalizeInviteCode } from '../../services';
+import { InviteRedemption } from '../../types';
+import { ROLE_LABELS, homePathFor } from '../../utils/permissions';
+import './Auth.css';
+
+/**
+ * 招待リンク（/join/:code）
+ * 未ログインならログイン画面へ（コードを引き継ぐ）。ログイン後に確認してから紐付ける
+ */
+export const JoinInvite: React.FC = () => {
+  const { code: rawCode = '' } = useParams<{ code: string }>();
+  const { user, role, loading, reloadRole } = useAuth();
+  const { reload, selectStudent } = useStudent();
+  const navigate = useNavigate();
+  const inviteService = useMemo(() => new InviteService(), []);
+  const code = normalizeInviteCode(rawCode);
+
+  const [redeeming, setRedeeming] = useState(false);
+  const [result, setResult] = useState<InviteRedemption | null>(null);
+  const [error, setError] = useState('');
+
+  if (loading) {
+    return (
+      <div className="auth-container">
+        <p className="auth-subtitle">読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to={`/login?code=${encodeURIComponent(code)}`} replace />;
+  }
+
+  const handleRedeem = async () => {
+    setRedeeming(true);
+    setError('');
+    try {
+      const redeemed = await inviteService.redeem(user, code);
+      if (redeemed.role !== role) {
+        // 生徒のアカウントは保護者・講師になる。ロールが変わると生徒の一覧は読み直されるので、選ぶ生徒だけ先に決める
+        selectStudent(redeemed.studentId);
+        await reloadRole();
+      } else {
+        await reload(redeemed.studentId);
+      }
+      setResult(redeemed);
+    } catch (err) {
+      console.error('[JoinInvite] 招待コードのエラー:', err);
+      setError(err instanceof Error ? err.message : '招待コードを使えませんでした');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <h1 className="auth-title">招待コード</h1>
+        <p className="auth-subtitle auth-code" aria-label={`招待コード ${code}`}>
+          {code}
+        </p>
+
+        {result ? (
+          <div className="auth-form">
+            <p className="auth-success" role="status">
+              「{result.studentName}」さんと{ROLE_LABELS[result.kind]}として紐付きました
+            </p>
+            <button type="button" className="auth-button" onClick={() => navigate(homePathFor(role))}>
+              はじめる
+            </button>
+          </div>
+        ) : (
+          <div className="auth-form">
+            <p className="auth-note">
+              {user.email}（{ROLE_LABELS[role]}）を、この招待コードの生徒に紐付けます。
+            </p>
+            {error && <div className="auth-error" role="alert">{error}</div>}
+            <button
+              type="button"
+              className="auth-button"
+              onClick={handleRedeem}
+              disabled={redeeming || !code}
+            >
+              {redeeming ? '処理中...' : '紐付ける'}
+            </button>
+            <button
+              type="button"
+              className="auth-toggle"
+              onClick={() => navigate(homePathFor(role))}
+            >
+              キャンセル
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,28 +1,86 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { MIN_PASSWORD_LENGTH, normalizeInviteCode } from '../../services';
 import './Auth.css';
 
+type LoginMode = 'login' | 'register' | 'magic' | 'forgot';
+
+const MODE_SUBTITLES: Record<LoginMode, string> = {
+  login: 'ログイン',
+  register: '新規登録',
+  magic: 'メールでログイン',
+  forgot: 'パスワードの再設定',
+};
+
+const SUBMIT_LABELS: Record<LoginMode, string> = {
+  login: 'ログイン',
+  register: '登録する',
+  magic: 'ログインリンクを送る',
+  forgot: '再設定のメールを送る',
+};
+
 export const Login: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [mode, setMode] = useState<LoginMode>('login');
   const [userId, setUserId] = useState('');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  // 招待リンク（/join/:code）から来た場合はコードを引き継ぐ
+  const [inviteCode, setInviteCode] = useState(searchParams.get('code') ?? '');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, register, sendMagicLink, requestPasswordReset } = useAuth();
   const navigate = useNavigate();
 
+  const changeMode = (next: LoginMode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+  };
+
+  // 招待コードがあれば紐付けの確認へ。なければロールごとの最初の画面へ（/ から振り分ける）
+  const afterSignIn = () => {
+    const code = normalizeInviteCode(inviteCode);
+    navigate(code ? `/join/${code}` : '/');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setLoading(true);
 
     try {
-      // ユーザーIDに@tutor.localを付けてメールアドレス形式にする
-      const email = userId.includes('@') ? userId : `${userId}@tutor.local`;
-      await login(email, password);
-      navigate('/app/chat');
-    } catch (err: any) {
-      setError('IDまたはパスワードが違います');
+      if (mode === 'login') {
+        // ユーザーIDに@tutor.localを付けてメールアドレス形式にする
+        const loginEmail = userId.includes('@') ? userId : `${userId}@tutor.local`;
+        await login(loginEmail, password);
+        afterSignIn();
+      } else if (mode === 'register') {
+        if (password.length < MIN_PASSWORD_LENGTH) {
+          throw new Error(`パスワードは${MIN_PASSWORD_LENGTH}文字以上にしてください`);
+        }
+        const result = await register(email.trim(), password);
+        if (result.needsVerification) {
+          const code = normalizeInviteCode(inviteCode);
+          const params = new URLSearchParams({ email: email.trim() });
+          if (code) params.set('code', code);
+          navigate(`/verify-email?${params.toString()}`);
+        } else {
+          afterSignIn();
+        }
+      } else if (mode === 'magic') {
+        await sendMagicLink(email.trim());
+        setNotice(`${email.trim()} にログインリンクを送りました。メールのリンクを開いてください`);
+      } else {
+        await requestPasswordReset(email.trim());
+        // 登録の有無は出さない
+        setNotice(`登録されているメールアドレスなら、${email.trim()} に再設定のリンクを送りました`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ログインに失敗しました');
     } finally {
       setLoading(false);
     }
@@ -32,48 +90,111 @@ export const Login: React.FC = () => {
     <div className="auth-container">
       <div className="auth-card">
         <h1 className="auth-title">Link学習管理</h1>
-        <p className="auth-subtitle">ログイン</p>
+        <p className="auth-subtitle">{MODE_SUBTITLES[mode]}</p>
 
         <form onSubmit={handleSubmit} className="auth-form">
-          <div className="auth-input-group">
-            <label htmlFor="userId">ユーザーID</label>
-            <input
-              id="userId"
-              type="text"
-              value={userId}
-              onChange={(e) => setUserId(e.target.value)}
-              required
-              autoComplete="username"
-              lang="ja"
-              autoCapitalize="none"
-              spellCheck={false}
-            />
-          </div>
-
-          <div className="auth-input-group">
-            <label htmlFor="password">パスワード</label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              autoComplete="current-password"
-            />
-          </div>
-
-          {error && <div className="auth-error">{error}</div>}
+          {mode === 'login' ? (
+            <div className="auth-input-group">
+              <label htmlFor="userId">ユーザーID</label>
+              <input
+                id="userId"
+                type="text"
+                value={userId}
+                onChange={(e) => setUserId(e.target.value)}
+                required
+                autoComplete="username"
+                lang="ja"
+                autoCapitalize="none"
+                spellCheck={false}
+              />
+            </div>
+          ) : (
+            <div className="auth-input-group">
+              <label htmlFor="email">メールアドレス</label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoComplete="email"
+                lang="ja"
+                autoCapitalize="none"
+                spellCheck={false}
+              />
+            </div>
+          )}
+
+          {(mode === 'login' || mode === 'register') && (
+            <div className="auth-input-group">
+              <label htmlFor="password">パスワード</label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={mode === 'register' ? MIN_PASSWORD_LENGTH : undefined}
+                autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+              />
+            </div>
+          )}
+
+          {mode === 'register' && (
+            <p className="auth-note">
+              保護者・講師の方は、生徒から受け取った招待コードを下に入力してください。コードを使うと保護者・講師のアカウントになります。
+            </p>
+          )}
+
+          {(mode === 'login' || mode === 'register') && (
+            <div className="auth-input-group">
+              <label htmlFor="inviteCode">招待コード（お持ちの方）</label>
+              <input
+                id="inviteCode"
+                type="text"
+                value={inviteCode}
+                onChange={(e) => setInviteCode(e.target.value)}
+                placeholder="例: ABCD2345"
+                autoComplete="off"
+                lang="ja"
+                autoCapitalize="characters"
+                spellCheck={false}
+              />
+            </div>
+          )}
+
+          {error && <div className="auth-error" role="alert">{error}</div>}
+          {notice && <div className="auth-success" role="status">{notice}</div>}
 
           <button
             type="submit"
             className="auth-button"
             disabled={loading}
           >
-            {loading ? '処理中...' : 'ログイン'}
+            {loading ? '処理中...' : SUBMIT_LABELS[mode]}
           </button>
         </form>
+
+        <div className="auth-links">
+          {mode === 'login' ? (
+            <>
+              <button type="button" className="auth-toggle" onClick={() => changeMode('forgot')}>
+                パスワードを忘れた方
+              </button>
+              <button type="button" className="auth-toggle" onClick={() => changeMode('magic')}>
+                パスワードなしでログイン（メール）
+              </button>
+              <button type="button" className="auth-toggle" onClick={() => changeMode('register')}>
+                新規登録
+              </button>
+            </>
+          ) : (
+            <button type="button" className="auth-toggle" onClick={() => changeMode('login')}>
+              ログインに戻る
+            </button>
+          )}
+        </div>
       </div>
     </div>
   );
 };
-
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { MIN_PASSWORD_LENGTH } from '../../services';
+import './Auth.css';
+
+/**
+ * 新しいパスワードの設定（/reset-password）
+ * Supabase利用時は再設定リンクで開いたセッションで、モック認証時は ?token= のリンクで設定する
+ */
+export const ResetPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? undefined;
+  const { user, loading, updatePassword } = useAuth();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  if (loading) {
+    return (
+      <div className="auth-container">
+        <p className="auth-subtitle">読み込み中...</p>
+      </div>
+    );
+  }
+
+  // リンクから開いていない（セッションもトークンも無い）
+  if (!user && !token) {
+    return (
+      <div className="auth-container">
+        <div className="auth-card">
+          <h1 className="auth-title">パスワードの再設定</h1>
+          <div className="auth-form">
+            <div className="auth-error" role="alert">
+              リンクが無効か、有効期限が切れています。ログイン画面の「パスワードを忘れた方」からもう一度送ってください
+            </div>
+            <button type="button" className="auth-button" onClick={() => navigate('/login')}>
+              ログインに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password !== confirmPassword) {
+      setError('パスワードが一致しません');
+      return;
+    }
+    setSaving(true);
+    try {
+      await updatePassword(password, token);
+      navigate('/', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'パスワードを変更できませんでした');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <h1 className="auth-title">パスワードの再設定</h1>
+        <p className="auth-subtitle">新しいパスワードを入力してください</p>
+
+        <form onSubmit={handleSubmit} className="auth-form">
+          <div className="auth-input-group">
+            <label htmlFor="newPassword">新しいパスワード（{MIN_PASSWORD_LENGTH}文字以上）</label>
+            <input
+              id="newPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={MIN_PASSWORD_LENGTH}
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div className="auth-input-group">
+            <label htmlFor="confirmPassword">確認のためもう一度</label>
+            <input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              minLength={MIN_PASSWORD_LENGTH}
+              autoComplete="new-password"
+            />
+          </div>
+
+          {error && <div className="auth-error" role="alert">{error}</div>}
+
+          <button type="submit" className="auth-button" disabled={saving}>
+            {saving ? '変更中...' : 'パスワードを変更'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
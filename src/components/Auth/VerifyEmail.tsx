@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import './Auth.css';
+
+/**
+ * 新規登録後の確認待ち（/verify-email?email=...）
+ * メールのリンクを開くと /auth/callback でログインする
+ */
+export const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const email = searchParams.get('email') ?? '';
+  const code = searchParams.get('code');
+  const { resendVerification } = useAuth();
+  const navigate = useNavigate();
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const handleResend = async () => {
+    setSending(true);
+    setError('');
+    setNotice('');
+    try {
+      await resendVerification(email);
+      setNotice('確認メールを送り直しました');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '確認メールを送れませんでした');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <h1 className="auth-title">メールを確認してください</h1>
+        <div className="auth-form">
+          <p className="auth-note">
+            {email ? `${email} ` : ''}に確認のメールを送りました。メールのリンクを開くと登録が完了し、ログインします。
+            <br />
+            届かないときは迷惑メールのフォルダも確認してください。
+          </p>
+          {error && <div className="auth-error" role="alert">{error}</div>}
+          {notice && <div className="auth-success" role="status">{notice}</div>}
+          <button
+            type="button"
+            className="auth-button"
+            onClick={handleResend}
+            disabled={sending || !email}
+          >
+            {sending ? '送信中...' : '確認メールを送り直す'}
+          </button>
+        </div>
+        <div className="auth-links">
+          <button
+            type="button"
+            className="auth-toggle"
+            onClick={() => navigate(code ? `/login?code=${encodeURIComponent(code)}` : '/login')}
+          >
+            ログインに戻る
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,11 +2,14 @@ import React, { useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Message, Attachment } from '../../types';
 import { createSignedUrl } from '../../services/storage.service';
+import { hintLevelLabel } from '../../services/hint-ladder.service';
 import { isSupabaseConfigured } from '../../lib/supabase';
 import './ChatWindow.css';
 
 interface ChatWindowProps {
   messages: Message[];
+  /** 生成中のAI応答（届いた分だけ表示する） */
+  streamingMessage?: Message | null;
 }
 
 /**
@@ -57,16 +60,16 @@ const AttachmentImage: React.FC<{ attachment: Attachment }> = ({ attachment }) =
   );
 };
 
-export const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
+export const ChatWindow: React.FC<ChatWindowProps> = ({ messages, streamingMessage }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingMessage?.content]);
 
   return (
     <div className="chat-window">
-      {messages.length === 0 ? (
+      {messages.length === 0 && !streamingMessage ? (
         <div className="chat-empty">
           <p>メッセージを送信して会話を始めましょう</p>
         </div>
@@ -85,6 +88,9 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
                     <ReactMarkdown>{message.content}</ReactMarkdown>
                   </div>
                 )}
+                {message.role === 'assistant' && message.meta?.hintLevel && (
+                  <div className="chat-message-hint">{hintLevelLabel(message.meta.hintLevel)}</div>
+                )}
                 {message.attachments && message.attachments.length > 0 && (
                   <div className="chat-attachments">
                     {message.attachments.map((att) => (
@@ -95,6 +101,19 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ messages }) => {
               </div>
             </div>
           ))}
+          {streamingMessage && (
+            <div className="chat-message assistant streaming" aria-live="polite" aria-busy="true">
+              <div className="chat-message-content">
+                {streamingMessage.content ? (
+                  <div className="chat-message-markdown">
+                    <ReactMarkdown>{streamingMessage.content}</ReactMarkdown>
+                  </div>
+                ) : (
+                  <div className="chat-message-thinking">考え中...</div>
+                )}
+              </div>
+            </div>
+          )}
           <div ref={messagesEndRef} />
         </div>
       )}
@@ -1,18 +1,34 @@
 import React, { useState, useRef } from 'react';
-import { Attachment } from '../../types';
+import { Attachment, HintLevel } from '../../types';
 import { generateId } from '../../utils/id';
 import { uploadAttachment, createSignedUrl, removeAttachment as removeStorageAttachment } from '../../services/storage.service';
+import { MAX_HINT_LEVEL, hintLevelLabel } from '../../services/hint-ladder.service';
 import { isSupabaseConfigured } from '../../lib/supabase';
 import './Composer.css';
 
 interface ComposerProps {
   onSend: (content: string, attachments: Attachment[]) => void;
   disabled?: boolean;
+  /** AI応答の生成中（送信ボタンの代わりに停止ボタンを出す） */
+  isGenerating?: boolean;
+  onStop?: () => void;
+  /** 最後のAI応答のヒントの段階（答えまで出ていなければ「もっとヒント」を出す） */
+  hintLevel?: HintLevel | null;
+  onMoreHint?: () => void;
   threadId?: string | null;
   userId?: string;
 }
 
-export const Composer: React.FC<ComposerProps> = ({ onSend, disabled, threadId, userId }) => {
+export const Composer: React.FC<ComposerProps> = ({
+  onSend,
+  disabled,
+  isGenerating,
+  onStop,
+  hintLevel,
+  onMoreHint,
+  threadId,
+  userId,
+}) => {
   const [content, setContent] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isRecording, setIsRecording] = useState(false);
@@ -178,8 +194,24 @@ export const Composer: React.FC<ComposerProps> = ({ onSend, disabled, threadId,
     setAttachments((prev) => prev.filter((a) => a.id !== id));
   };
 
+  const canAskMoreHint = !!hintLevel && hintLevel < MAX_HINT_LEVEL && !!onMoreHint && !isGenerating;
+
   return (
     <div className="composer">
+      {canAskMoreHint && (
+        <div className="composer-hint">
+          <span className="composer-hint-level">{hintLevelLabel(hintLevel)}</span>
+          <button
+            type="button"
+            className="composer-hint-button"
+            onClick={onMoreHint}
+            disabled={disabled}
+          >
+            {hintLevel === MAX_HINT_LEVEL - 1 ? '答えを見る' : 'もっとヒント'}
+          </button>
+        </div>
+      )}
+
       {attachments.length > 0 && (
         <div className="composer-attachments">
           {attachments.map((att) => (
@@ -243,14 +275,25 @@ export const Composer: React.FC<ComposerProps> = ({ onSend, disabled, threadId,
           spellCheck={false}
         />
 
-        <button
-          type="button"
-          className="composer-send"
-          onClick={handleSend}
-          disabled={disabled || isUploading || (!content.trim() && attachments.length === 0)}
-        >
-          {isUploading ? '⏳' : '送信'}
-        </button>
+        {isGenerating && onStop ? (
+          <button
+            type="button"
+            className="composer-send composer-stop"
+            onClick={onStop}
+            aria-label="生成を止める"
+          >
+            停止
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="composer-send"
+            onClick={handleSend}
+            disabled={disabled || isUploading || (!content.trim() && attachments.length === 0)}
+          >
+            {isUploading ? '⏳' : '送信'}
+          </button>
+        )}
       </div>
 
       <input
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import ja from 'date-fns/locale/ja';
+import { FieldChange, HistoryAction, RecordHistoryEntry } from '../../types';
+import './HistoryDialog.css';
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  create: '作成',
+  update: '変更',
+  trash: 'ゴミ箱に移動',
+  restore: 'ゴミ箱から復元',
+  delete: '完全に削除',
+};
+
+type Props = {
+  title: string;
+  /** 履歴の読み込み（新しい順） */
+  load: () => Promise<RecordHistoryEntry[]>;
+  /** カラム名 → 表示名（テストの点数は「教科.カラム」の カラム 部分で引く） */
+  fieldLabels: Record<string, string>;
+  /** 項目ごとに値の見せ方を変えたい場合（例: 宿題のToDo） */
+  formatValue?: (field: string, value: unknown) => string;
+  onClose: () => void;
+};
+
+const defaultFormatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '（なし）';
+  if (Array.isArray(value)) return `${value.length}件`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * 変更履歴ダイアログ
+ * 誰が・いつ・どの項目をどう変えたかを新しい順に表示する
+ */
+export const HistoryDialog: React.FC<Props> = ({ title, load, fieldLabels, formatValue, onClose }) => {
+  const [entries, setEntries] = useState<RecordHistoryEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  // 開いたときに1回だけ読む（呼び出し側で毎回関数を作っても読み直さない）
+  const loadRef = useRef(load);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRef
+      .current()
+      .then((result) => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((error) => {
+        console.error('[HistoryDialog] 履歴の読み込みエラー:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const labelOf = (field: string) => {
+    const separator = field.lastIndexOf('.');
+    if (separator < 0) return fieldLabels[field] ?? field;
+    const column = field.slice(separator + 1);
+    return `${field.slice(0, separator)} ${fieldLabels[column] ?? column}`;
+  };
+
+  const valueOf = (change: FieldChange, value: unknown) =>
+    formatValue ? formatValue(change.field, value) : defaultFormatValue(value);
+
+  return (
+    <div className="history-overlay" onClick={onClose}>
+      <div
+        className="history-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="history-header">
+          <h2 id="history-dialog-title" className="history-title">{title}</h2>
+          <button type="button" className="history-close" onClick={onClose} aria-label="閉じる">
+            <span aria-hidden="true">×</span>
+          </button>
+        </div>
+
+        {failed ? (
+          <p className="history-empty" role="alert">履歴を読み込めませんでした</p>
+        ) : !entries ? (
+          <p className="history-empty">読み込み中...</p>
+        ) : entries.length === 0 ? (
+          <p className="history-empty">まだ履歴がありません</p>
+        ) : (
+          <ol className="history-list">
+            {entries.map((entry) => (
+              <li key={entry.id} className="history-entry">
+                <div className="history-entry-meta">
+                  <span className={`history-action history-action-${entry.action}`}>
+                    {ACTION_LABELS[entry.action]}
+                  </span>
+                  <time dateTime={entry.createdAt}>
+                    {format(new Date(entry.createdAt), 'M/d(E) HH:mm', { locale: ja })}
+                  </time>
+                  <span className="history-actor">{entry.actorEmail || '不明なユーザー'}</span>
+                </div>
+                {entry.action === 'update' && entry.changes.length > 0 && (
+                  <ul className="history-changes">
+                    {entry.changes.map((change) => (
+                      <li key={change.field} className="history-change">
+                        <span className="history-change-label">{labelOf(change.field)}</span>
+                        <span className="history-change-values">
+                          <span className="history-change-before">{valueOf(change, change.before)}</span>
+                          <span aria-label="から">→</span>
+                          <span className="history-change-after">{valueOf(change, change.after)}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
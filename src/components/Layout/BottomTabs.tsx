@@ -1,24 +1,30 @@
 import React from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { AppResource, canView } from '../../utils/permissions';
+import { StudentSwitcher } from './StudentSwitcher';
 import './BottomTabs.css';
 
 type TabItem = {
   path: string;
   label: string;
   icon: string;
+  resource: AppResource;
 };
 
 const TABS: TabItem[] = [
-  { path: '/app/homework', label: '宿題管理', icon: '📝' },
-  { path: '/app/lessons', label: '授業管理', icon: '📖' },
-  { path: '/app/tests', label: 'テスト管理', icon: '🧪' },
+  { path: '/app/homework', label: '宿題管理', icon: '📝', resource: 'homework' },
+  { path: '/app/chat', label: 'チャット', icon: '💬', resource: 'chat' },
+  { path: '/app/lessons', label: '授業管理', icon: '📖', resource: 'lessons' },
+  { path: '/app/tests', label: 'テスト管理', icon: '🧪', resource: 'tests' },
+  { path: '/app/settings', label: '設定', icon: '⚙️', resource: 'settings' },
+  { path: '/admin', label: '管理', icon: '🛠️', resource: 'admin' },
 ];
 
 export const BottomTabs: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { logout } = useAuth();
+  const { logout, role } = useAuth();
 
   const handleLogout = async () => {
     if (!window.confirm('ログアウトしますか？')) return;
@@ -31,32 +37,37 @@ export const BottomTabs: React.FC = () => {
   };
 
   return (
-    <nav className="bottom-tabs" aria-label="メインナビゲーション">
-      {TABS.map((tab) => {
-        const isActive = location.pathname === tab.path;
-        return (
-          <button
-            key={tab.path}
-            className={`bottom-tab ${isActive ? 'active' : ''}`}
-            onClick={() => navigate(tab.path)}
-            aria-label={tab.label}
-            aria-current={isActive ? 'page' : undefined}
-          >
-            <span className="bottom-tab-icon" aria-hidden="true">{tab.icon}</span>
-            <span className="bottom-tab-label">{tab.label}</span>
-          </button>
-        );
-      })}
-      <button
-        type="button"
-        className="bottom-tab bottom-tab-logout"
-        onClick={handleLogout}
-        aria-label="ログアウト"
-      >
-        <span className="bottom-tab-icon" aria-hidden="true">🚪</span>
-        <span className="bottom-tab-label">ログアウト</span>
-      </button>
-    </nav>
+    <div className="bottom-bar">
+      <StudentSwitcher />
+      <nav className="bottom-tabs" aria-label="メインナビゲーション">
+        {TABS.filter((tab) => canView(role, tab.resource)).map((tab) => {
+          // チャットは /app/chat/:projectId/:threadId も同じタブ
+          const isActive =
+            location.pathname === tab.path || location.pathname.startsWith(`${tab.path}/`);
+          return (
+            <button
+              key={tab.path}
+              className={`bottom-tab ${isActive ? 'active' : ''}`}
+              onClick={() => navigate(tab.path)}
+              aria-label={tab.label}
+              aria-current={isActive ? 'page' : undefined}
+            >
+              <span className="bottom-tab-icon" aria-hidden="true">{tab.icon}</span>
+              <span className="bottom-tab-label">{tab.label}</span>
+            </button>
+          );
+        })}
+        <button
+          type="button"
+          className="bottom-tab bottom-tab-logout"
+          onClick={handleLogout}
+          aria-label="ログアウト"
+        >
+          <span className="bottom-tab-icon" aria-hidden="true">🚪</span>
+          <span className="bottom-tab-label">ログアウト</span>
+        </button>
+      </nav>
+    </div>
   );
 };
 
@@ -60,9 +60,11 @@ export const DrawerSidebar: React.FC<DrawerSidebarProps> = ({
     }
   };
 
+  // タイトルとAIの要約の両方から探す
   const filteredThreads = threads.filter(
     (t) =>
       t.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (t.summary ?? '').toLowerCase().includes(searchQuery.toLowerCase()) ||
       searchQuery === ''
   );
 
@@ -121,7 +123,10 @@ export const DrawerSidebar: React.FC<DrawerSidebarProps> = ({
                 }`}
                 onClick={() => onSelectThread(thread.id)}
               >
-                {thread.title}
+                <span className="drawer-item-title">{thread.title}</span>
+                {thread.summary && (
+                  <span className="drawer-item-summary">{thread.summary}</span>
+                )}
               </button>
             ))}
           </div>
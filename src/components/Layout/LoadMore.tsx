@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import './LoadMore.css';
+
+type Props = {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+};
+
+/**
+ * 一覧の末尾に置く「続きを読み込む」目印
+ * 画面に近づいたら自動で読み込み、IntersectionObserver が無い環境ではボタンで読み込む
+ */
+export const LoadMore: React.FC<Props> = ({ hasMore, loading, onLoadMore }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || loading || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      // 末尾に届く少し前から読み込む
+      { rootMargin: '400px 0px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, loading]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={ref} className="load-more">
+      {loading ? (
+        <span className="load-more-status" role="status">
+          読み込み中...
+        </span>
+      ) : (
+        <button type="button" className="load-more-button" onClick={onLoadMore}>
+          もっと見る
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useStudent } from '../../contexts/StudentContext';
+import './StudentSwitcher.css';
+
+/**
+ * 表示する生徒の切り替え
+ * 生徒本人（自分だけ）の場合は出さない。生徒が未登録なら設定画面へ案内する（保護者は招待コードの入力へ）
+ */
+export const StudentSwitcher: React.FC = () => {
+  const navigate = useNavigate();
+  const { role } = useAuth();
+  const { students, activeStudent, selectStudent, loading } = useStudent();
+
+  if (loading) return null;
+
+  if (students.length === 0) {
+    if (role === 'student') return null;
+    return (
+      <div className="student-switcher">
+        <span className="student-switcher-empty">
+          {role === 'parent' ? '生徒と紐付いていません' : '生徒が登録されていません'}
+        </span>
+        <button
+          type="button"
+          className="student-switcher-add"
+          onClick={() => navigate('/app/settings')}
+        >
+          {role === 'parent' ? '招待コードを入力' : '生徒を登録'}
+        </button>
+      </div>
+    );
+  }
+
+  if (role === 'student' && students.length === 1) return null;
+
+  return (
+    <div className="student-switcher">
+      <label className="student-switcher-label" htmlFor="student-switcher-select">
+        <span aria-hidden="true">👤</span> 生徒
+      </label>
+      <select
+        id="student-switcher-select"
+        className="student-switcher-select"
+        value={activeStudent?.id ?? ''}
+        onChange={(e) => selectStudent(e.target.value)}
+        aria-label="表示する生徒"
+      >
+        {students.map((student) => (
+          <option key={student.id} value={student.id}>
+            {student.grade ? `${student.name}（${student.grade}）` : student.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
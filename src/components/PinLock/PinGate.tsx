@@ -0,0 +1,32 @@
+import React from 'react';
+import { usePinLock } from '../../contexts/PinLockContext';
+import { PinUnlockForm } from './PinUnlockForm';
+import './PinLock.css';
+
+type Props = {
+  /** 画面の名前（「授業管理を開くには…」） */
+  title: string;
+  children: React.ReactNode;
+};
+
+/**
+ * PINロック中は中身の代わりにPINの入力を出す（授業管理・設定・ゴミ箱）
+ */
+export const PinGate: React.FC<Props> = ({ title, children }) => {
+  const { locked } = usePinLock();
+
+  if (!locked) {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="pin-gate">
+      <section className="pin-card" aria-labelledby="pin-gate-title">
+        <span className="pin-icon" aria-hidden="true">🔒</span>
+        <h1 id="pin-gate-title" className="pin-title">{title}はロックされています</h1>
+        <p className="pin-description">開くにはPINを入力してください。</p>
+        <PinUnlockForm />
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { PinUnlockForm } from './PinUnlockForm';
+import './PinLock.css';
+
+/**
+ * ロック中に編集ボタンの代わりに出す（押すとPINの入力）
+ */
+export const PinUnlockButton: React.FC = () => {
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  return (
+    <>
+      <button
+        type="button"
+        className="pin-unlock-button"
+        onClick={() => setOpen(true)}
+        aria-label="PINを入力して編集する"
+      >
+        <span aria-hidden="true">🔒</span> 編集するにはPIN
+      </button>
+      {open && (
+        <div className="pin-overlay" onClick={() => setOpen(false)}>
+          <div
+            className="pin-card pin-dialog"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="pin-dialog-title"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 id="pin-dialog-title" className="pin-title">PINを入力</h2>
+            <p className="pin-description">編集・削除するにはPINが必要です。</p>
+            <PinUnlockForm onUnlocked={() => setOpen(false)} />
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
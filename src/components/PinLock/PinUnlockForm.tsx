@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { usePinLock } from '../../contexts/PinLockContext';
+import { PIN_MAX_LENGTH } from '../../services';
+import './PinLock.css';
+
+type Props = {
+  onUnlocked?: () => void;
+};
+
+/**
+ * PINの入力（忘れた場合はアカウントのパスワードでPINロックを解除する）
+ */
+export const PinUnlockForm: React.FC<Props> = ({ onUnlocked }) => {
+  const { unlock, resetWithPassword } = usePinLock();
+  const [mode, setMode] = useState<'pin' | 'password'>('pin');
+  const [pin, setPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setChecking(true);
+    try {
+      if (mode === 'pin') {
+        await unlock(pin);
+      } else {
+        await resetWithPassword(password);
+        alert('PINロックを解除しました。必要なら設定から新しいPINを登録してください');
+      }
+      onUnlocked?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ロックを解除できませんでした');
+      setPin('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const switchMode = (next: 'pin' | 'password') => {
+    setMode(next);
+    setError('');
+  };
+
+  return (
+    <form className="pin-form" onSubmit={handleSubmit}>
+      {mode === 'pin' ? (
+        <input
+          type="password"
+          className="pin-input"
+          inputMode="numeric"
+          pattern="[0-9]*"
+          maxLength={PIN_MAX_LENGTH}
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          aria-label="PIN"
+          autoComplete="off"
+          autoFocus
+        />
+      ) : (
+        <input
+          type="password"
+          className="pin-password-input"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="アカウントのパスワード"
+          aria-label="アカウントのパスワード"
+          autoComplete="current-password"
+          autoFocus
+        />
+      )}
+
+      {error && <p className="pin-error" role="alert">{error}</p>}
+
+      <button
+        type="submit"
+        className="pin-submit"
+        disabled={checking || (mode === 'pin' ? pin.length === 0 : password.length === 0)}
+      >
+        {checking ? '確認中...' : mode === 'pin' ? 'ロックを解除' : 'パスワードでPINを解除'}
+      </button>
+      <button
+        type="button"
+        className="pin-link"
+        onClick={() => switchMode(mode === 'pin' ? 'password' : 'pin')}
+      >
+        {mode === 'pin' ? 'PINを忘れた方' : 'PINを入力する'}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect } from 'react';
+import './ConflictDialog.css';
+
+/** 比較表示する項目（自分の変更 / 相手の変更） */
+export type ConflictField = {
+  label: string;
+  mine: string;
+  theirs: string;
+};
+
+type Props = {
+  title: string;
+  fields: ConflictField[];
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+  /** 指定時のみ「ToDoをまとめる」を表示（宿題用） */
+  onMerge?: () => void;
+  onCancel: () => void;
+};
+
+/**
+ * 競合ダイアログ
+ * 別の端末で先に更新されていた場合に、どちらを残すか選んでもらう
+ */
+export const ConflictDialog: React.FC<Props> = ({
+  title,
+  fields,
+  onKeepMine,
+  onKeepTheirs,
+  onMerge,
+  onCancel,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const changedFields = fields.filter((field) => field.mine !== field.theirs);
+
+  return (
+    <div className="conflict-overlay" onClick={onCancel}>
+      <div
+        className="conflict-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="conflict-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="conflict-dialog-title" className="conflict-title">{title}</h2>
+        <p className="conflict-description">
+          別の端末で先に変更されていました。どちらの内容を残しますか？
+        </p>
+
+        {changedFields.length > 0 && (
+          <div className="conflict-fields">
+            {changedFields.map((field) => (
+              <div key={field.label} className="conflict-field">
+                <div className="conflict-field-label">{field.label}</div>
+                <div className="conflict-field-values">
+                  <div className="conflict-field-value mine">
+                    <span>自分</span>
+                    <p>{field.mine || '（なし）'}</p>
+                  </div>
+                  <div className="conflict-field-value theirs">
+                    <span>相手</span>
+                    <p>{field.theirs || '（なし）'}</p>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="conflict-actions">
+          <button type="button" className="primary" onClick={onKeepMine}>
+            自分の内容を残す
+          </button>
+          <button type="button" onClick={onKeepTheirs}>
+            相手の内容を残す
+          </button>
+          {onMerge && (
+            <button type="button" onClick={onMerge}>
+              ToDoをまとめる
+            </button>
+          )}
+          <button type="button" className="conflict-cancel" onClick={onCancel}>
+            キャンセル
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
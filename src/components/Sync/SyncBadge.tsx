@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useSync } from '../../contexts/SyncContext';
+import { outboxGroupOf } from '../../repositories';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import './SyncBadge.css';
+
+type Props = {
+  recordId: string;
+  /** 競合ダイアログの項目名（カラム名 → 表示名） */
+  fieldLabels?: Record<string, string>;
+  /** 競合を解決した後（一覧の読み直しなど） */
+  onResolved?: () => void;
+};
+
+/**
+ * 未同期バッジ
+ * Supabaseに届いていない書き込みがあるレコードにだけ表示する
+ */
+export const SyncBadge: React.FC<Props> = ({ recordId, fieldLabels, onResolved }) => {
+  const { getStatus, retry, issues, retryEntry } = useSync();
+  const [isConflictOpen, setIsConflictOpen] = useState(false);
+  const status = getStatus(recordId);
+
+  if (status === 'conflict') {
+    const conflict = issues.find(
+      (entry) => entry.status === 'conflict' && outboxGroupOf(entry) === recordId
+    );
+    // ダイアログのクリックを一覧の行に伝えない
+    return (
+      <span onClick={(e) => e.stopPropagation()}>
+        <button
+          type="button"
+          className="sync-badge conflict"
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsConflictOpen(true);
+          }}
+          aria-label="別の端末の変更とぶつかっています。タップで確認"
+        >
+          競合・確認
+        </button>
+        {isConflictOpen && conflict && (
+          <SyncConflictDialog
+            entry={conflict}
+            fieldLabels={fieldLabels}
+            onResolved={onResolved}
+            onClose={() => setIsConflictOpen(false)}
+          />
+        )}
+      </span>
+    );
+  }
+
+  if (status === 'synced') return null;
+
+  if (status === 'failed') {
+    return (
+      <button
+        type="button"
+        className="sync-badge failed"
+        onClick={(e) => {
+          e.stopPropagation();
+          // 受け付けられなかった変更も、タップしたときは送り直す
+          const issue = issues.find((entry) => outboxGroupOf(entry) === recordId);
+          (issue ? retryEntry(issue.id) : retry()).catch((error) =>
+            console.error('[SyncBadge] 再送エラー:', error)
+          );
+        }}
+        aria-label="同期に失敗しました。タップで再送"
+      >
+        同期エラー・再送
+      </button>
+    );
+  }
+
+  return (
+    <span className="sync-badge pending" aria-label="まだ同期されていません">
+      未同期
+    </span>
+  );
+};
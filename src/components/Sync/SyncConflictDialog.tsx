@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSync } from '../../contexts/SyncContext';
+import { OutboxEntry } from '../../types';
+import { ConflictDialog, ConflictField } from './ConflictDialog';
+
+type Props = {
+  /** 競合で止まっている送信待ちの変更 */
+  entry: OutboxEntry;
+  /** カラム名 → 表示名（無い項目はカラム名のまま） */
+  fieldLabels?: Record<string, string>;
+  /** どちらかを選んだ後（相手の内容を残したときは読み直す） */
+  onResolved?: () => void;
+  onClose: () => void;
+};
+
+// 比較しても意味の無い項目
+const HIDDEN_FIELDS = new Set(['id', 'user_id', 'student_id', 'created_at', 'updated_at', 'deleted_at']);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return `${value.length}件`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * 送信待ちの変更の競合ダイアログ
+ * 再送時に別の端末の更新とぶつかった変更を、サーバーの最新の内容と並べて、どちらを残すか選んでもらう
+ */
+export const SyncConflictDialog: React.FC<Props> = ({ entry, fieldLabels = {}, onResolved, onClose }) => {
+  const { loadRemote, keepMine, discardEntry } = useSync();
+  const [remote, setRemote] = useState<Record<string, unknown> | null | undefined>(undefined);
+  // 開いたときに1回だけ読む（呼び出し側で毎回関数を作っても読み直さない）
+  const loadRef = useRef(() => loadRemote(entry));
+  const closeRef = useRef(onClose);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRef
+      .current()
+      .then((row) => {
+        if (!cancelled) setRemote(row);
+      })
+      .catch((error) => {
+        console.error('[SyncConflictDialog] 読み込みエラー:', error);
+        if (!cancelled) closeRef.current();
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (remote === undefined) return null;
+
+  const fields: ConflictField[] = Object.keys(entry.payload ?? {})
+    .filter((key) => !HIDDEN_FIELDS.has(key))
+    .map((key) => ({
+      label: fieldLabels[key] ?? key,
+      mine: formatValue(entry.payload?.[key]),
+      theirs: remote ? formatValue(remote[key]) : '（削除されています）',
+    }));
+
+  const handleKeepMine = () => {
+    keepMine(entry.id, remote?.updated_at as string | undefined)
+      .then(() => onResolved?.())
+      .catch((error) => console.error('[SyncConflictDialog] 再送エラー:', error));
+    onClose();
+  };
+
+  const handleKeepTheirs = () => {
+    discardEntry(entry.id);
+    onResolved?.();
+    onClose();
+  };
+
+  return (
+    <ConflictDialog
+      title="送れなかった変更が別の端末の変更とぶつかっています"
+      fields={fields}
+      onKeepMine={handleKeepMine}
+      onKeepTheirs={handleKeepTheirs}
+      onCancel={onClose}
+    />
+  );
+};
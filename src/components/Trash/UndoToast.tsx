@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import './UndoToast.css';
+
+type Props = {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** 自動で閉じるまでの時間（ミリ秒） */
+  duration?: number;
+};
+
+/**
+ * 「元に戻す」トースト
+ * ゴミ箱に移した直後に表示し、誤タップをすぐ取り消せるようにする
+ */
+export const UndoToast: React.FC<Props> = ({ message, onUndo, onDismiss, duration = 6000 }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div className="undo-toast" role="status">
+      <span className="undo-toast-message">{message}</span>
+      <button type="button" className="undo-toast-button" onClick={onUndo} aria-label="削除を元に戻す">
+        元に戻す
+      </button>
+      <button type="button" className="undo-toast-close" onClick={onDismiss} aria-label="閉じる">
+        <span aria-hidden="true">×</span>
+      </button>
+    </div>
+  );
+};
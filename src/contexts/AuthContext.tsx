@@ -1,205 +1,156 @@
 import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
-import { AuthService, ProjectService } from '../services';
-import { User } from '../types';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { AuthService } from '../services';
+import { RegisterResult, User, UserRole } from '../types';
 
 interface AuthContextType {
   user: User | null;
+  /** 現在のロール（未取得・未ログイン時は生徒） */
+  role: UserRole;
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string) => Promise<void>;
+  /** 確認待ちの間はログインしない（needsVerification） */
+  register: (email: string, password: string) => Promise<RegisterResult>;
+  /** ロールを読み直す（招待コードで保護者・講師になったとき） */
+  reloadRole: () => Promise<void>;
+  resendVerification: (email: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  /** token はモック認証のリンクのみ */
+  updatePassword: (password: string, token?: string) => Promise<void>;
+  /** モック認証のリンク（マジックリンク・確認）でログインする */
+  completeEmailLink: (token: string) => Promise<void>;
   logout: () => Promise<void>;
   loading: boolean;
 }
 
+/** セッションの確認を待つ時間（過ぎたらログイン画面を出す） */
+const RESTORE_TIMEOUT_MS = 5000;
+
+const isSameUser = (a: User | null, b: User | null): boolean =>
+  a === b || (!!a && !!b && a.id === b.id && a.email === b.email && a.role === b.role);
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const authServiceRef = useRef<AuthService>(new AuthService());
-  const projectServiceRef = useRef<ProjectService>(new ProjectService());
-  const projectsInitializedRef = useRef<Set<string>>(new Set());
-
-  // ユーザーのデフォルトプロジェクトを一度だけ初期化
-  const initializeProjectsOnce = useCallback(async (userId: string) => {
-    if (projectsInitializedRef.current.has(userId)) {
-      return;
-    }
-    projectsInitializedRef.current.add(userId);
-    try {
-      await projectServiceRef.current.initializeDefaultProjects(userId);
-    } catch (error) {
-      console.error('[Auth] プロジェクト初期化エラー:', error);
-    }
+  // ロールはバックグラウンドで読み込む（画面の表示を待たせない）。読めたら onUserChanged で届く
+  const refreshRole = useCallback((target: User) => {
+    authServiceRef.current
+      .resolveRole(target)
+      .catch((error) => console.error('[Auth] ロール取得エラー:', error));
   }, []);
 
   useEffect(() => {
-    console.log('[AuthContext] 初期化開始');
-    console.log('[AuthContext] Supabase設定状態:', isSupabaseConfigured());
-    
     let isMounted = true;
-    let loadingResolved = false;
-    
-    // loading解除を一度だけ行うヘルパー
-    const resolveLoading = () => {
-      if (!loadingResolved && isMounted) {
-        loadingResolved = true;
+    const authService = authServiceRef.current;
+
+    // ログイン・ログアウト・ロールの反映はすべてここに届く（他のタブ・メールのリンクも含む）
+    const unsubscribe = authService.onUserChanged((next, change) => {
+      if (!isMounted) return;
+      setUser((prev) => (isSameUser(prev, next) ? prev : next));
+      if (change === 'signed_in' && next) {
         setLoading(false);
+        refreshRole(next);
       }
-    };
-    
-    // タイムアウト保護：5秒後に強制的にloading解除
+    });
+
+    // 確認に時間がかかっても、確かめていない保存済みのユーザーは使わない
+    // 先にログイン画面を出し、セッションを確認できたらそのまま切り替える
     const timeoutId = setTimeout(() => {
-      if (!loadingResolved) {
-        console.warn('[AuthContext] タイムアウト: loading を強制解除');
-        // タイムアウト時はLocalStorageからユーザーを復元
-        const storedUser = localStorage.getItem('tutor_ai_current_user');
-        if (storedUser && isMounted) {
-          try {
-            const parsed = JSON.parse(storedUser);
-            console.log('[AuthContext] タイムアウト時のユーザー復元:', parsed.email);
-            setUser(parsed);
-          } catch (e) {
-            console.error('[AuthContext] ユーザー復元エラー:', e);
-          }
-        }
-        resolveLoading();
+      if (isMounted) {
+        console.warn('[AuthContext] セッションの確認に時間がかかっています');
+        setLoading(false);
       }
-    }, 5000);
-    
-    // Supabase Auth セッションを監視
-    if (isSupabaseConfigured() && supabase) {
-      console.log('[AuthContext] Supabase認証を使用します');
-      // 初期セッションを取得
-      supabase.auth.getSession().then(async ({ data: { session } }) => {
-        console.log('[AuthContext] セッション取得:', session ? 'あり' : 'なし');
-        if (session?.user) {
-          // Supabase Auth の UID を使ってユーザーを作成/更新
-          const localUser: User = {
-            id: session.user.id,
-            email: session.user.email || '',
-            createdAt: new Date().toISOString(),
-          };
-          console.log('[AuthContext] ユーザー設定:', localUser.email, 'ID:', localUser.id);
-          if (isMounted) {
-            setUser(localUser);
-          }
-          localStorage.setItem('tutor_ai_current_user', JSON.stringify(localUser));
-          // 先にloading解除してからプロジェクト初期化（UIをブロックしない）
-          clearTimeout(timeoutId);
-          resolveLoading();
-          // デフォルトプロジェクトを初期化（バックグラウンドで）
-          initializeProjectsOnce(localUser.id).catch(console.error);
-        } else {
-          // Supabase運用時はセッションが無い場合ログインを要求
-          console.log('[AuthContext] Supabaseセッションなし: ログインが必要です');
-          if (isMounted) {
-            setUser(null);
-          }
-          localStorage.removeItem('tutor_ai_current_user');
-          clearTimeout(timeoutId);
-          resolveLoading();
-        }
-      }).catch((error) => {
-        console.error('[AuthContext] セッション取得エラー:', error);
-        clearTimeout(timeoutId);
-        resolveLoading();
-      });
-
-      // セッション変更を監視
-      const { data: { subscription } } = supabase.auth.onAuthStateChange(
-        async (event, session) => {
-          console.log('[Auth] onAuthStateChange:', event, session?.user?.email);
-          
-          if (event === 'SIGNED_IN' && session?.user) {
-            // Supabase Auth の UID を使ってユーザーを設定
-            const localUser: User = {
-              id: session.user.id,
-              email: session.user.email || '',
-              createdAt: new Date().toISOString(),
-            };
-            if (isMounted) {
-              setUser(localUser);
-            }
-            localStorage.setItem('tutor_ai_current_user', JSON.stringify(localUser));
-            // タイムアウトをクリアして loading を解除
-            clearTimeout(timeoutId);
-            resolveLoading();
-            // デフォルトプロジェクトを初期化（バックグラウンドで）
-            initializeProjectsOnce(localUser.id).catch(console.error);
-          } else if (event === 'SIGNED_OUT') {
-            console.log('[Auth] ログアウト完了');
-            if (isMounted) {
-              setUser(null);
-            }
-            localStorage.removeItem('tutor_ai_current_user');
-          }
-        }
-      );
+    }, RESTORE_TIMEOUT_MS);
 
-      return () => {
-        isMounted = false;
+    // 復元できたユーザーも onUserChanged で届く
+    authService
+      .restoreSession()
+      .catch((error) => {
+        console.error('[AuthContext] セッション復元エラー:', error);
+      })
+      .finally(() => {
         clearTimeout(timeoutId);
-        subscription.unsubscribe();
-      };
-    } else {
-      console.log('[AuthContext] ローカルストレージ認証を使用します');
-      // Supabase未設定の場合はローカルストレージのみ
-      const initAuth = async () => {
-        try {
-          const currentUser = await authServiceRef.current.restoreSession();
-          console.log('[AuthContext] セッション復元:', currentUser?.email || 'なし');
-          if (isMounted) {
-            setUser(currentUser);
-          }
-          if (currentUser) {
-            initializeProjectsOnce(currentUser.id).catch(console.error);
-          }
-        } catch (error) {
-          console.error('[Auth] セッション復元エラー:', error);
-          if (isMounted) {
-            setUser(null);
-          }
-        } finally {
-          clearTimeout(timeoutId);
-          resolveLoading();
+        if (isMounted) {
+          setLoading(false);
         }
-      };
-      initAuth();
-      
-      return () => {
-        isMounted = false;
-        clearTimeout(timeoutId);
-      };
-    }
-  }, [initializeProjectsOnce]);
+      });
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timeoutId);
+      unsubscribe();
+    };
+  }, [refreshRole]);
 
   const login = useCallback(async (email: string, password: string) => {
-    const loggedInUser = await authServiceRef.current.login(email, password);
-    setUser(loggedInUser);
-    // デフォルトプロジェクトを初期化
-    await initializeProjectsOnce(loggedInUser.id);
-  }, [initializeProjectsOnce]);
+    await authServiceRef.current.login(email, password);
+  }, []);
 
   const register = useCallback(async (email: string, password: string) => {
-    const newUser = await authServiceRef.current.register(email, password);
-    setUser(newUser);
+    return authServiceRef.current.register(email, password);
+  }, []);
+
+  const reloadRole = useCallback(async () => {
+    const current = authServiceRef.current.getCurrentUser();
+    if (current) {
+      await authServiceRef.current.resolveRole(current);
+    }
+  }, []);
+
+  const resendVerification = useCallback(async (email: string) => {
+    await authServiceRef.current.resendVerification(email);
+  }, []);
+
+  const requestPasswordReset = useCallback(async (email: string) => {
+    await authServiceRef.current.requestPasswordReset(email);
+  }, []);
+
+  const sendMagicLink = useCallback(async (email: string) => {
+    await authServiceRef.current.sendMagicLink(email);
+  }, []);
+
+  const updatePassword = useCallback(async (password: string, token?: string) => {
+    await authServiceRef.current.updatePassword(password, token);
+  }, []);
+
+  const completeEmailLink = useCallback(async (token: string) => {
+    await authServiceRef.current.completeEmailLink(token);
   }, []);
 
   const logout = useCallback(async () => {
     await authServiceRef.current.logout();
-    setUser(null);
   }, []);
 
   const value = useMemo<AuthContextType>(
     () => ({
       user,
+      role: user?.role ?? 'student',
       login,
       register,
+      reloadRole,
+      resendVerification,
+      requestPasswordReset,
+      sendMagicLink,
+      updatePassword,
+      completeEmailLink,
       logout,
       loading,
     }),
-    [user, login, register, logout, loading]
+    [
+      user,
+      login,
+      register,
+      reloadRole,
+      resendVerification,
+      requestPasswordReset,
+      sendMagicLink,
+      updatePassword,
+      completeEmailLink,
+      logout,
+      loading,
+    ]
   );
 
   return (
@@ -0,0 +1,152 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
+import { AuthService, DEFAULT_PIN_TIMEOUT_MINUTES, PinLockService } from '../services';
+import { useAuth } from './AuthContext';
+
+/** 操作が無いかを確かめる間隔（スリープから戻ったときも次の確認でロックする） */
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+interface PinLockContextType {
+  /** この端末でPINロックを使っているか */
+  enabled: boolean;
+  /** ロック中は編集と授業管理・設定を開けない（PINロックを使っていなければ常に false） */
+  locked: boolean;
+  timeoutMinutes: number;
+  unlock: (pin: string) => Promise<void>;
+  lock: () => void;
+  setPin: (pin: string, timeoutMinutes: number) => Promise<void>;
+  changeTimeout: (timeoutMinutes: number) => void;
+  /** 今のPINを確かめてからPINロックをやめる */
+  disablePin: (pin: string) => Promise<void>;
+  /** PINを忘れたとき: アカウントのパスワードを確かめてPINロックをやめる */
+  resetWithPassword: (password: string) => Promise<void>;
+}
+
+const PinLockContext = createContext<PinLockContextType | undefined>(undefined);
+
+export const PinLockProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [enabled, setEnabled] = useState(false);
+  const [unlocked, setUnlocked] = useState(false);
+  const [timeoutMinutes, setTimeoutMinutes] = useState(DEFAULT_PIN_TIMEOUT_MINUTES);
+  const pinLockServiceRef = useRef<PinLockService>(new PinLockService());
+  const authServiceRef = useRef<AuthService>(new AuthService());
+  const lastActivityRef = useRef(Date.now());
+
+  // アカウントが変わったら読み直す（開いた直後はロックした状態から）
+  useEffect(() => {
+    const settings = user ? pinLockServiceRef.current.getSettings(user.id) : null;
+    setEnabled(!!settings);
+    setTimeoutMinutes(settings?.timeoutMinutes ?? DEFAULT_PIN_TIMEOUT_MINUTES);
+    setUnlocked(false);
+  }, [user?.id]);
+
+  // 解除中は操作を見張り、一定時間操作が無ければ再びロックする
+  useEffect(() => {
+    if (!enabled || !unlocked) return;
+    lastActivityRef.current = Date.now();
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const checkIdle = () => {
+      if (Date.now() - lastActivityRef.current >= timeoutMinutes * 60 * 1000) {
+        setUnlocked(false);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') checkIdle();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const intervalId = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(intervalId);
+    };
+  }, [enabled, unlocked, timeoutMinutes]);
+
+  const unlock = useCallback(
+    async (pin: string) => {
+      if (!user) return;
+      await pinLockServiceRef.current.verifyPin(user.id, pin);
+      setUnlocked(true);
+    },
+    [user?.id]
+  );
+
+  const lock = useCallback(() => {
+    setUnlocked(false);
+  }, []);
+
+  const setPin = useCallback(
+    async (pin: string, minutes: number) => {
+      if (!user) return;
+      await pinLockServiceRef.current.setPin(user.id, pin, minutes);
+      setEnabled(true);
+      setTimeoutMinutes(minutes);
+      // 設定した本人はそのまま使い続けられる
+      setUnlocked(true);
+    },
+    [user?.id]
+  );
+
+  const changeTimeout = useCallback(
+    (minutes: number) => {
+      if (!user) return;
+      pinLockServiceRef.current.updateTimeout(user.id, minutes);
+      setTimeoutMinutes(minutes);
+    },
+    [user?.id]
+  );
+
+  const disablePin = useCallback(
+    async (pin: string) => {
+      if (!user) return;
+      await pinLockServiceRef.current.verifyPin(user.id, pin);
+      pinLockServiceRef.current.clear(user.id);
+      setEnabled(false);
+    },
+    [user?.id]
+  );
+
+  const resetWithPassword = useCallback(
+    async (password: string) => {
+      if (!user) return;
+      await authServiceRef.current.verifyPassword(user.email, password);
+      pinLockServiceRef.current.clear(user.id);
+      setEnabled(false);
+    },
+    [user?.id, user?.email]
+  );
+
+  const value = useMemo<PinLockContextType>(
+    () => ({
+      enabled,
+      locked: enabled && !unlocked,
+      timeoutMinutes,
+      unlock,
+      lock,
+      setPin,
+      changeTimeout,
+      disablePin,
+      resetWithPassword,
+    }),
+    [enabled, unlocked, timeoutMinutes, unlock, lock, setPin, changeTimeout, disablePin, resetWithPassword]
+  );
+
+  return (
+    <PinLockContext.Provider value={value}>
+      {children}
+    </PinLockContext.Provider>
+  );
+};
+
+export function usePinLock(): PinLockContextType {
+  const context = useContext(PinLockContext);
+  if (!context) {
+    throw new Error('usePinLock must be used within PinLockProvider');
+  }
+  return context;
+}
@@ -0,0 +1,137 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
+import { ProjectService, StudentService } from '../services';
+import { Student } from '../types';
+import { useAuth } from './AuthContext';
+
+interface StudentContextType {
+  /** アカウントから見える生徒（登録順） */
+  students: Student[];
+  /** 宿題・テスト・授業記録・チャットで表示している生徒（未登録の講師は null） */
+  activeStudent: Student | null;
+  selectStudent: (studentId: string) => void;
+  addStudent: (name: string, grade?: string) => Promise<Student>;
+  updateStudent: (studentId: string, name: string, grade?: string) => Promise<void>;
+  /** 生徒を読み直す（招待コードで紐付いた後など）。studentId を渡すとその生徒を選ぶ */
+  reload: (studentId?: string) => Promise<void>;
+  loading: boolean;
+}
+
+const StudentContext = createContext<StudentContextType | undefined>(undefined);
+
+export const StudentProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [students, setStudents] = useState<Student[]>([]);
+  const [activeStudentId, setActiveStudentId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const studentServiceRef = useRef<StudentService>(new StudentService());
+  const projectServiceRef = useRef<ProjectService>(new ProjectService());
+  const projectsInitializedRef = useRef<Set<string>>(new Set());
+
+  // ロールが分かってから読む（生徒ロールなら「自分」の生徒を用意する）
+  useEffect(() => {
+    if (!user) {
+      setStudents([]);
+      setActiveStudentId(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    studentServiceRef.current
+      .getStudents(user)
+      .then((loaded) => {
+        if (cancelled) return;
+        setStudents(loaded);
+        setActiveStudentId(studentServiceRef.current.pickActiveStudent(user, loaded)?.id ?? null);
+      })
+      .catch((error) => console.error('[Student] 生徒の読み込みエラー:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, user?.role]);
+
+  // 生徒ごとのデフォルトの教科を一度だけ用意する（バックグラウンドで）
+  useEffect(() => {
+    if (!user || !activeStudentId || projectsInitializedRef.current.has(activeStudentId)) return;
+    projectsInitializedRef.current.add(activeStudentId);
+    projectServiceRef.current
+      .initializeDefaultProjects(user.id, activeStudentId)
+      .catch((error) => console.error('[Student] 教科の初期化エラー:', error));
+  }, [user?.id, activeStudentId]);
+
+  const selectStudent = useCallback(
+    (studentId: string) => {
+      if (!user) return;
+      setActiveStudentId(studentId);
+      studentServiceRef.current.saveActiveStudentId(user.id, studentId);
+    },
+    [user?.id]
+  );
+
+  const addStudent = useCallback(
+    async (name: string, grade?: string) => {
+      if (!user) {
+        throw new Error('ログインしてください');
+      }
+      const created = await studentServiceRef.current.addStudent(user.id, name, grade);
+      setStudents((prev) => [...prev, created]);
+      // 初めての生徒はそのまま選ぶ
+      setActiveStudentId((prev) => prev ?? created.id);
+      return created;
+    },
+    [user?.id]
+  );
+
+  const updateStudent = useCallback(async (studentId: string, name: string, grade?: string) => {
+    const updated = await studentServiceRef.current.updateStudent(studentId, name, grade);
+    if (updated) {
+      setStudents((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    }
+  }, []);
+
+  const reload = useCallback(
+    async (studentId?: string) => {
+      if (!user) return;
+      const loaded = await studentServiceRef.current.getStudents(user);
+      setStudents(loaded);
+      if (studentId && loaded.some((item) => item.id === studentId)) {
+        setActiveStudentId(studentId);
+        studentServiceRef.current.saveActiveStudentId(user.id, studentId);
+      } else {
+        setActiveStudentId(studentServiceRef.current.pickActiveStudent(user, loaded)?.id ?? null);
+      }
+    },
+    [user?.id, user?.role]
+  );
+
+  const value = useMemo<StudentContextType>(
+    () => ({
+      students,
+      activeStudent: students.find((item) => item.id === activeStudentId) ?? null,
+      selectStudent,
+      addStudent,
+      updateStudent,
+      reload,
+      loading,
+    }),
+    [students, activeStudentId, selectStudent, addStudent, updateStudent, reload, loading]
+  );
+
+  return (
+    <StudentContext.Provider value={value}>
+      {children}
+    </StudentContext.Provider>
+  );
+};
+
+export function useStudent(): StudentContextType {
+  const context = useContext(StudentContext);
+  if (!context) {
+    throw new Error('useStudent must be used within StudentProvider');
+  }
+  return context;
+}
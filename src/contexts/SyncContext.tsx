@@ -0,0 +1,101 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { SyncService } from '../services';
+import { OutboxRepository } from '../repositories';
+import { OutboxEntry, SyncStatus } from '../types';
+
+interface SyncContextType {
+  getStatus: (recordId: string) => SyncStatus;
+  pendingCount: number;
+  failedCount: number;
+  /** 送れなかったエントリ（設定画面で再送・破棄を選ぶ） */
+  issues: OutboxEntry[];
+  retry: () => Promise<void>;
+  retryEntry: (id: string) => Promise<void>;
+  discardEntry: (id: string) => void;
+  /** 競合: 相手の行を読み込む（消されていれば null） */
+  loadRemote: (entry: OutboxEntry) => Promise<Record<string, unknown> | null>;
+  /** 競合: 自分の内容で上書きする（remoteUpdatedAt は読み込んだ相手の updated_at） */
+  keepMine: (id: string, remoteUpdatedAt: string | undefined) => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const outboxRepositoryRef = useRef<OutboxRepository>(new OutboxRepository());
+  const syncServiceRef = useRef<SyncService>(new SyncService());
+  const [statusMap, setStatusMap] = useState<Map<string, SyncStatus>>(() =>
+    outboxRepositoryRef.current.getStatusMap()
+  );
+  const [issues, setIssues] = useState<OutboxEntry[]>(() => outboxRepositoryRef.current.findIssues());
+
+  // outboxの変化をバッジに反映（キューはアカウントごとなので、ログインが変わったら読み直す）
+  useEffect(() => {
+    const outboxRepository = outboxRepositoryRef.current;
+    const refresh = () => {
+      setStatusMap(outboxRepository.getStatusMap());
+      setIssues(outboxRepository.findIssues());
+    };
+    refresh();
+    return outboxRepository.subscribe(refresh);
+  }, [user?.id]);
+
+  // オンライン復帰・ログイン時に自動再送
+  useEffect(() => syncServiceRef.current.startAutoReplay(), []);
+
+  const getStatus = useCallback(
+    (recordId: string): SyncStatus => statusMap.get(recordId) ?? 'synced',
+    [statusMap]
+  );
+
+  const retry = useCallback(async () => {
+    await syncServiceRef.current.replay();
+  }, []);
+
+  const retryEntry = useCallback(async (id: string) => {
+    await syncServiceRef.current.retryEntry(id);
+  }, []);
+
+  const discardEntry = useCallback((id: string) => {
+    syncServiceRef.current.discardEntry(id);
+  }, []);
+
+  const loadRemote = useCallback(
+    (entry: OutboxEntry) => syncServiceRef.current.fetchRemote(entry),
+    []
+  );
+
+  const keepMine = useCallback(async (id: string, remoteUpdatedAt: string | undefined) => {
+    await syncServiceRef.current.keepMine(id, remoteUpdatedAt);
+  }, []);
+
+  const value = useMemo<SyncContextType>(() => {
+    const statuses = Array.from(statusMap.values());
+    return {
+      getStatus,
+      pendingCount: statuses.filter((status) => status === 'pending').length,
+      failedCount: statuses.filter((status) => status === 'failed' || status === 'conflict').length,
+      issues,
+      retry,
+      retryEntry,
+      discardEntry,
+      loadRemote,
+      keepMine,
+    };
+  }, [statusMap, issues, getStatus, retry, retryEntry, discardEntry, loadRemote, keepMine]);
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
+
+export function useSync(): SyncContextType {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within SyncProvider');
+  }
+  return context;
+}
@@ -0,0 +1,56 @@
+import { ChatMessage, HintLevel } from '../../types';
+
+/** ストリーミングの見た目を確かめられるよう、少しずつ返す */
+const CHUNK_SIZE = 8;
+const CHUNK_DELAY_MS = 30;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Supabase 未設定時（オフライン）のAI応答
+ * 受け取った内容（最後の発言と画像の枚数）をそのまま返す。応答は入力だけで決まる
+ */
+export function localStubReply(messages: ChatMessage[], projectName: string, hintLevel?: HintLevel): string {
+  const last = [...messages].reverse().find((m) => m.role === 'user');
+  const images = last?.images ?? [];
+  const lines = [
+    '（オフライン確認用の応答です。Supabase を設定すると AI が答えます）',
+    '',
+    `**${projectName}** の質問を受け取りました。`,
+  ];
+  if (hintLevel) {
+    lines.push('', `ヒントの段階: ${hintLevel}/4`);
+  }
+  if (last?.content) {
+    lines.push('', `> ${last.content.split('\n').join('\n> ')}`);
+  }
+  if (images.length > 0) {
+    const kinds = images.map((image) => (image.path ? 'Storage' : '端末内'));
+    lines.push('', `画像を ${images.length} 枚受け取りました（${kinds.join('、')}）。`);
+  }
+  return lines.join('\n');
+}
+
+/** 最初の発言の1行目（オフラインのタイトル） */
+export function localStubTitle(messages: ChatMessage[]): string {
+  const first = messages.find((m) => m.role === 'user')?.content ?? '';
+  return (first.split('\n').find((line) => line.trim()) ?? '').trim().slice(0, 16);
+}
+
+/** 前回の要約に、やりとりの件数と最後の質問を足す（オフラインの要約） */
+export function localStubSummary(previous: string | undefined, messages: ChatMessage[]): string {
+  const last = [...messages].reverse().find((m) => m.role === 'user');
+  const line = `${messages.length}件のやりとり（最後の質問: ${(last?.content ?? '').slice(0, 30)}）`;
+  // 長くなりすぎないよう直近5回分だけ残す
+  return [...(previous ? previous.split('\n') : []), line].slice(-5).join('\n');
+}
+
+/** localStubReply を生成した分から順に返す（signal で止めるとそこで終わる） */
+export async function* streamLocalStub(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    if (signal?.aborted) return;
+    await wait(CHUNK_DELAY_MS);
+    if (signal?.aborted) return;
+    yield text.slice(i, i + CHUNK_SIZE);
+  }
+}
@@ -0,0 +1,74 @@
+import { AuthUserChange, AuthUserListener, User } from '../../types';
+
+/** ログイン中のユーザーの保存先（ロールを次回の表示まで覚えておく） */
+export const CURRENT_USER_KEY = 'tutor_ai_current_user';
+
+/** メールのリンクから戻ってくる画面 */
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+export const RESET_PASSWORD_PATH = '/reset-password';
+
+/** Supabase Auth のパスワードの最小文字数（既定） */
+export const MIN_PASSWORD_LENGTH = 6;
+
+export function assertPasswordLength(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`パスワードは${MIN_PASSWORD_LENGTH}文字以上にしてください`);
+  }
+}
+
+export function urlOf(path: string): string {
+  return `${window.location.origin}${path}`;
+}
+
+/**
+ * ログイン中のユーザーと変更の通知（Supabase / モックで共通）
+ * 保存した値は前回のロールを引き継ぐためだけに読み、ログイン状態の判断には使わない
+ */
+export abstract class BaseAuthProvider {
+  private currentUser: User | null = null;
+  private listeners = new Set<AuthUserListener>();
+
+  getCurrentUser(): User | null {
+    return this.currentUser;
+  }
+
+  updateCurrentUser(user: User): void {
+    const current = this.currentUser;
+    if (current?.id === user.id && (current.role !== user.role || current.email !== user.email)) {
+      this.setCurrentUser(user, 'user_updated');
+    }
+  }
+
+  onUserChanged(listener: AuthUserListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected setCurrentUser(user: User | null, change: AuthUserChange): void {
+    this.currentUser = user;
+    if (user) {
+      localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
+    } else {
+      localStorage.removeItem(CURRENT_USER_KEY);
+    }
+    this.listeners.forEach((listener) => listener(user, change));
+  }
+
+  /** 前回保存したユーザー（復元の手がかり・ロールの引き継ぎ用） */
+  protected readStoredUser(): User | null {
+    try {
+      const data = localStorage.getItem(CURRENT_USER_KEY);
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** 前回取得したロールを引き継ぐ（ロールの再取得が終わるまでの表示用） */
+  protected withStoredRole(user: User): User {
+    const stored = this.currentUser ?? this.readStoredUser();
+    return stored?.id === user.id && stored.role ? { ...user, role: stored.role } : user;
+  }
+}
@@ -0,0 +1,27 @@
+import { AuthProvider } from '../../types';
+import { supabase, isSupabaseConfigured } from '../supabase';
+import { LocalMockAuthProvider } from './local-mock.provider';
+import { SupabaseAuthProvider } from './supabase.provider';
+
+export { AUTH_CALLBACK_PATH, RESET_PASSWORD_PATH, MIN_PASSWORD_LENGTH } from './base.provider';
+
+let provider: AuthProvider | null = null;
+
+/**
+ * 認証の実装を取得する（アプリ全体で1つ）
+ * Supabase が設定されていれば Supabase Auth、なければ端末内のモック認証
+ */
+export function getAuthProvider(): AuthProvider {
+  if (!provider) {
+    provider =
+      isSupabaseConfigured() && supabase
+        ? new SupabaseAuthProvider(supabase)
+        : new LocalMockAuthProvider();
+  }
+  return provider;
+}
+
+/** ログイン中のユーザーID（未ログイン・セッション復元前は null） */
+export function getCurrentUserId(): string | null {
+  return getAuthProvider().getCurrentUser()?.id ?? null;
+}
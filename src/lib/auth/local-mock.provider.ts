@@ -0,0 +1,128 @@
+import { AuthLinkRepository } from '../../repositories/auth-link.repository';
+import { UserRepository } from '../../repositories/user.repository';
+import { AuthLinkPurpose, AuthProvider, RegisterResult, User } from '../../types';
+import {
+  AUTH_CALLBACK_PATH,
+  BaseAuthProvider,
+  CURRENT_USER_KEY,
+  RESET_PASSWORD_PATH,
+  assertPasswordLength,
+  urlOf,
+} from './base.provider';
+
+const MOCK_LINK_LABELS: Record<AuthLinkPurpose, string> = {
+  reset: 'パスワード再設定リンク',
+  magic: 'ログインリンク',
+  verify: 'メールアドレスの確認リンク',
+};
+
+/**
+ * モック認証（Supabase未設定時）
+ * ユーザーは端末内の一覧に保存し、パスワードは保存しない。メールの代わりにリンクをコンソールに出す
+ */
+export class LocalMockAuthProvider extends BaseAuthProvider implements AuthProvider {
+  readonly remote = false;
+  private userRepository = new UserRepository();
+  private authLinkRepository = new AuthLinkRepository();
+
+  constructor() {
+    super();
+    // 他のタブでのログイン・ログアウト
+    window.addEventListener('storage', (event) => {
+      if (event.key !== CURRENT_USER_KEY) return;
+      const user = this.readStoredUser();
+      if (user?.id !== this.getCurrentUser()?.id) {
+        this.setCurrentUser(user, user ? 'signed_in' : 'signed_out');
+      }
+    });
+  }
+
+  /** 端末に残ったユーザーが一覧から消えていれば（アカウント削除など）ログアウト扱い */
+  async restoreSession(): Promise<User | null> {
+    const stored = this.readStoredUser();
+    const user = stored ? this.userRepository.findUser(stored.id) : undefined;
+    if (!user) {
+      if (stored) this.setCurrentUser(null, 'signed_out');
+      return null;
+    }
+    return this.signInAs(user);
+  }
+
+  async hasRemoteSession(): Promise<boolean> {
+    return false;
+  }
+
+  /** 初めてのメールアドレスならその場で作る */
+  async signIn(email: string): Promise<User> {
+    const user = this.userRepository.findByEmail(email) ?? this.userRepository.createUser(email);
+    return this.signInAs(user);
+  }
+
+  /** 確認リンクを開くまでログインしない */
+  async signUp(email: string, _password: string): Promise<RegisterResult> {
+    if (this.userRepository.findByEmail(email)) {
+      throw new Error('このメールアドレスは既に登録されています');
+    }
+    this.userRepository.createUser(email);
+    this.logMockLink(email, 'verify', AUTH_CALLBACK_PATH);
+    return { user: null, needsVerification: true };
+  }
+
+  async signOut(): Promise<void> {
+    this.setCurrentUser(null, 'signed_out');
+  }
+
+  /** パスワードを保存しないので、確かめずに通す */
+  async verifyPassword(): Promise<void> {}
+
+  async resendVerification(email: string): Promise<void> {
+    this.logMockLink(email, 'verify', AUTH_CALLBACK_PATH);
+  }
+
+  /** 登録の有無は画面に出さない（Supabase と同じ） */
+  async requestPasswordReset(email: string): Promise<void> {
+    if (this.userRepository.findByEmail(email)) {
+      this.logMockLink(email, 'reset', RESET_PASSWORD_PATH);
+    }
+  }
+
+  async sendMagicLink(email: string): Promise<void> {
+    if (!this.userRepository.findByEmail(email)) {
+      throw new Error('このメールアドレスは登録されていません');
+    }
+    this.logMockLink(email, 'magic', AUTH_CALLBACK_PATH);
+  }
+
+  /** リンクのトークンを確認してログインする */
+  async updatePassword(password: string, token?: string): Promise<User> {
+    assertPasswordLength(password);
+    return this.signInWithLink(token, ['reset']);
+  }
+
+  async completeEmailLink(token: string): Promise<User> {
+    return this.signInWithLink(token, ['magic', 'verify']);
+  }
+
+  private signInAs(user: User): User {
+    const signedIn = user.role ? user : this.withStoredRole(user);
+    this.setCurrentUser(
+      signedIn,
+      this.getCurrentUser()?.id === signedIn.id ? 'session_refreshed' : 'signed_in'
+    );
+    return signedIn;
+  }
+
+  private signInWithLink(token: string | undefined, purposes: AuthLinkPurpose[]): User {
+    const link = token ? this.authLinkRepository.consume(token, purposes) : null;
+    const user = link ? this.userRepository.findByEmail(link.email) : undefined;
+    if (!user) {
+      throw new Error('リンクが無効か、有効期限が切れています。もう一度送ってください');
+    }
+    return this.signInAs(user);
+  }
+
+  private logMockLink(email: string, purpose: AuthLinkPurpose, path: string): void {
+    const link = this.authLinkRepository.issue(email, purpose);
+    console.info(`[AuthProvider] (モック) ${email} 宛の${MOCK_LINK_LABELS[purpose]}:`, urlOf(`${path}?token=${link.token}`));
+  }
+}
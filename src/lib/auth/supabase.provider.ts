@@ -0,0 +1,206 @@
+import { SupabaseClient, User as SupabaseUser } from '@supabase/supabase-js';
+import { AuthProvider, AuthUserChange, RegisterResult, User } from '../../types';
+import {
+  AUTH_CALLBACK_PATH,
+  BaseAuthProvider,
+  MIN_PASSWORD_LENGTH,
+  RESET_PASSWORD_PATH,
+  assertPasswordLength,
+  urlOf,
+} from './base.provider';
+
+/**
+ * Supabase Auth のエラーを画面に出す文言にする
+ * code（新しいバージョン）と message（古いバージョン）の両方を見る
+ */
+function toAuthErrorMessage(error: { message: string; status?: number; code?: string }): string {
+  const code = error.code ?? '';
+  const message = error.message ?? '';
+  if (code === 'invalid_credentials' || message.includes('Invalid login credentials')) {
+    return 'メールアドレスまたはパスワードが正しくありません';
+  }
+  if (code === 'email_not_confirmed' || message.includes('Email not confirmed')) {
+    return 'メールアドレスの確認が済んでいません。届いたメールのリンクを開いてください';
+  }
+  if (code === 'user_already_exists' || message.includes('already registered')) {
+    return 'このメールアドレスは既に登録されています';
+  }
+  if (code === 'weak_password' || message.includes('Password should be')) {
+    return `パスワードは${MIN_PASSWORD_LENGTH}文字以上にしてください`;
+  }
+  if (code === 'same_password' || message.includes('different from the old password')) {
+    return '今と同じパスワードには変更できません';
+  }
+  if (code === 'otp_disabled' || code === 'user_not_found' || message.includes('Signups not allowed')) {
+    return 'このメールアドレスは登録されていません';
+  }
+  if (code === 'otp_expired' || message.includes('expired')) {
+    return 'リンクの有効期限が切れています。もう一度送ってください';
+  }
+  if (error.status === 429 || code.startsWith('over_') || message.includes('rate limit')) {
+    return '短時間に何度も送信されました。しばらく待ってから試してください';
+  }
+  if (message.includes('Failed to fetch') || message.includes('NetworkError')) {
+    return '通信できませんでした。電波の良いところで試してください';
+  }
+  return message || 'ログインに失敗しました';
+}
+
+/**
+ * Supabase Auth
+ * ユーザーIDは必ず Supabase Auth の UID（端末に残った古いユーザーのIDは使わない）
+ */
+export class SupabaseAuthProvider extends BaseAuthProvider implements AuthProvider {
+  readonly remote = true;
+
+  constructor(private client: SupabaseClient) {
+    super();
+    // 他のタブでのログイン・ログアウト、トークンの更新、メールのリンクで作られたセッションもここに届く
+    // 起動時のセッション（INITIAL_SESSION）は restoreSession で確かめる
+    this.client.auth.onAuthStateChange((event, session) => {
+      // パスワード再設定のリンクもセッションを作る（/reset-password で新しいパスワードを設定する）
+      if (
+        (event === 'SIGNED_IN' || event === 'PASSWORD_RECOVERY' || event === 'TOKEN_REFRESHED') &&
+        session?.user
+      ) {
+        this.applySessionUser(session.user, 'session_refreshed');
+      } else if (event === 'USER_UPDATED' && session?.user) {
+        this.applySessionUser(session.user, 'user_updated');
+      } else if (event === 'SIGNED_OUT' && this.getCurrentUser()) {
+        this.setCurrentUser(null, 'signed_out');
+      }
+    });
+  }
+
+  async restoreSession(): Promise<User | null> {
+    try {
+      const { data: { session } } = await this.client.auth.getSession();
+      if (session?.user) {
+        return this.applySessionUser(session.user, 'session_refreshed');
+      }
+    } catch (error) {
+      console.error('[SupabaseAuthProvider] セッション取得エラー:', error);
+    }
+    // Supabase運用時はセッションが無ければログインを求める
+    if (this.getCurrentUser()) {
+      this.setCurrentUser(null, 'signed_out');
+    }
+    return null;
+  }
+
+  async hasRemoteSession(): Promise<boolean> {
+    try {
+      const { data } = await this.client.auth.getSession();
+      return !!data.session?.user;
+    } catch {
+      return false;
+    }
+  }
+
+  async signIn(email: string, password: string): Promise<User> {
+    const { data, error } = await this.client.auth.signInWithPassword({ email, password });
+    if (error || !data.user) {
+      throw new Error(error ? toAuthErrorMessage(error) : 'ログインに失敗しました');
+    }
+    return this.applySessionUser(data.user, 'session_refreshed');
+  }
+
+  /** メールアドレスの確認が必要な設定なら、確認が済むまでセッションは作られない */
+  async signUp(email: string, password: string): Promise<RegisterResult> {
+    const { data, error } = await this.client.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: urlOf(AUTH_CALLBACK_PATH),
+      },
+    });
+    if (error) {
+      throw new Error(toAuthErrorMessage(error));
+    }
+    if (!data.session?.user) {
+      return { user: null, needsVerification: true };
+    }
+    return { user: this.applySessionUser(data.session.user, 'session_refreshed'), needsVerification: false };
+  }
+
+  async signOut(): Promise<void> {
+    try {
+      await this.client.auth.signOut();
+    } catch (error) {
+      // エラーでも端末のログイン状態はクリアする
+      console.error('[SupabaseAuthProvider] ログアウトエラー:', error);
+    }
+    if (this.getCurrentUser()) {
+      this.setCurrentUser(null, 'signed_out');
+    }
+  }
+
+  async verifyPassword(email: string, password: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithPassword({ email, password });
+    if (error) {
+      throw new Error(toAuthErrorMessage(error));
+    }
+  }
+
+  async resendVerification(email: string): Promise<void> {
+    const { error } = await this.client.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: urlOf(AUTH_CALLBACK_PATH) },
+    });
+    if (error) {
+      throw new Error(toAuthErrorMessage(error));
+    }
+  }
+
+  /** リンクは /reset-password に戻ってくる */
+  async requestPasswordReset(email: string): Promise<void> {
+    const { error } = await this.client.auth.resetPasswordForEmail(email, {
+      redirectTo: urlOf(RESET_PASSWORD_PATH),
+    });
+    if (error) {
+      throw new Error(toAuthErrorMessage(error));
+    }
+  }
+
+  /** 登録済みのメールアドレスのみ（新しいアカウントは作らない） */
+  async sendMagicLink(email: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: urlOf(AUTH_CALLBACK_PATH),
+      },
+    });
+    if (error) {
+      throw new Error(toAuthErrorMessage(error));
+    }
+  }
+
+  /** 再設定リンクで開いたセッション（PASSWORD_RECOVERY）のまま更新する */
+  async updatePassword(password: string): Promise<User> {
+    assertPasswordLength(password);
+    const { data, error } = await this.client.auth.updateUser({ password });
+    if (error || !data.user) {
+      throw new Error(error ? toAuthErrorMessage(error) : 'リンクが無効です。もう一度送ってください');
+    }
+    return this.applySessionUser(data.user, 'user_updated');
+  }
+
+  /** supabase-js が URL のトークンからセッションを作るので、ここには来ない */
+  async completeEmailLink(): Promise<User> {
+    throw new Error('リンクが無効か、有効期限が切れています。もう一度送ってください');
+  }
+
+  /** 別のユーザーに変わったときだけ signed_in として知らせる */
+  private applySessionUser(authUser: SupabaseUser, sameUserChange: AuthUserChange): User {
+    const user = this.withStoredRole({
+      id: authUser.id,
+      email: authUser.email || '',
+      createdAt: authUser.created_at,
+    });
+    const change = this.getCurrentUser()?.id === user.id ? sameUserChange : 'signed_in';
+    this.setCurrentUser(user, change);
+    return user;
+  }
+}
@@ -0,0 +1,139 @@
+import { LocalChange, LocalEntityName, LocalStore } from '../../types';
+import { generateId } from '../../utils/id';
+import { IndexedDbStore } from './indexeddb.store';
+import { LocalStorageStore } from './local-storage.store';
+import { LOCAL_ENTITIES } from './schema';
+
+export { LOCAL_ENTITIES, getEntityDefinition } from './schema';
+export type { LocalEntityDefinition } from './schema';
+
+/** localStorage → IndexedDB の移行済みフラグ */
+const MIGRATED_KEY = 'tutor_ai_indexeddb_migrated';
+
+/** 書き込み通知用のキー（値の変化で他のタブに storage イベントが飛ぶ） */
+const CHANGE_KEY = 'tutor_ai_local_change';
+
+/** 移行後に IndexedDB を開けなかったときの再試行の間隔（別タブの終了待ちなど） */
+const OPEN_RETRY_DELAYS_MS = [500, 2000];
+
+let storePromise: Promise<LocalStore> | null = null;
+
+/**
+ * localStorage に残っている tutor_ai_* のデータを IndexedDB に移す（1回のみ）
+ * すべて書き込んで移行済みにしてから、元のキーを削除する（途中で止まってもデータを失わない）
+ */
+async function migrateFromLocalStorage(store: LocalStore): Promise<void> {
+  if (localStorage.getItem(MIGRATED_KEY)) return;
+
+  const migratedKeys: string[] = [];
+  for (const definition of LOCAL_ENTITIES) {
+    const raw = localStorage.getItem(definition.legacyKey);
+    if (!raw) continue;
+    try {
+      const items = JSON.parse(raw);
+      if (Array.isArray(items)) {
+        await store.putMany(
+          definition.name,
+          items.filter((item) => item && typeof item.id === 'string')
+        );
+      }
+      migratedKeys.push(definition.legacyKey);
+    } catch (error) {
+      // 壊れたデータは移行せずに残す
+      console.warn(`[LocalStore] ${definition.legacyKey} の移行に失敗:`, error);
+    }
+  }
+  localStorage.setItem(MIGRATED_KEY, new Date().toISOString());
+  migratedKeys.forEach((key) => localStorage.removeItem(key));
+}
+
+async function openIndexedDb(): Promise<IndexedDbStore> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await IndexedDbStore.open();
+    } catch (error) {
+      if (attempt >= OPEN_RETRY_DELAYS_MS.length) throw error;
+      console.warn('[LocalStore] IndexedDB を開けないため再試行します:', error);
+      await new Promise((resolve) => setTimeout(resolve, OPEN_RETRY_DELAYS_MS[attempt]));
+    }
+  }
+}
+
+async function openStore(): Promise<LocalStore> {
+  if (localStorage.getItem(MIGRATED_KEY)) {
+    // 移行後はデータが IndexedDB にしか無い。localStorage に切り替えると空に見え、
+    // そこへの書き込みも IndexedDB に戻らないため、開けなければエラーにする
+    try {
+      return await openIndexedDb();
+    } catch (error) {
+      throw new Error(
+        `端末に保存したデータを開けませんでした。他のタブを閉じてから再読み込みしてください（${
+          error instanceof Error ? error.message : String(error)
+        }）`
+      );
+    }
+  }
+
+  if (IndexedDbStore.isAvailable()) {
+    try {
+      const store = await IndexedDbStore.open();
+      await migrateFromLocalStorage(store);
+      return store;
+    } catch (error) {
+      // プライベートブラウズ等で IndexedDB が使えない場合（移行前なので localStorage のデータはそのまま）
+      console.warn('[LocalStore] IndexedDB が使えないため localStorage を使用します:', error);
+    }
+  }
+  return new LocalStorageStore();
+}
+
+/**
+ * ローカル保存先を取得する
+ * 初回呼び出し時に IndexedDB を開き、必要なら localStorage から移行する
+ * 開けなかった場合は次の呼び出しでもう一度開く
+ */
+export function getLocalStore(): Promise<LocalStore> {
+  if (!storePromise) {
+    storePromise = openStore().catch((error) => {
+      storePromise = null;
+      throw error;
+    });
+  }
+  return storePromise;
+}
+
+/**
+ * ローカルへの書き込みを他のタブに知らせる
+ * IndexedDB の書き込みは storage イベントを起こさないため、通知用のキーを書き換える
+ */
+export function notifyLocalChange(change: LocalChange): void {
+  if (change.ids.length === 0) return;
+  try {
+    localStorage.setItem(CHANGE_KEY, JSON.stringify({ ...change, nonce: generateId() }));
+  } catch {
+    // 通知できなくてもデータの保存には影響しない
+  }
+}
+
+/**
+ * 他のタブでのローカル書き込みを購読する
+ * @returns 購読解除関数
+ */
+export function subscribeLocalChanges(
+  entity: LocalEntityName,
+  listener: (change: LocalChange) => void
+): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CHANGE_KEY || !event.newValue) return;
+    try {
+      const change = JSON.parse(event.newValue) as LocalChange;
+      if (change.entity === entity) {
+        listener(change);
+      }
+    } catch {
+      // 壊れた通知は無視する
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
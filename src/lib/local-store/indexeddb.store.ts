@@ -0,0 +1,95 @@
+import { LocalEntityName, LocalIndexName, LocalStore } from '../../types';
+import { LOCAL_ENTITIES } from './schema';
+
+const DB_NAME = 'tutor_ai';
+// ストア・インデックスを追加したら上げる（既存のものはそのまま、無いものだけ作る）
+const DB_VERSION = 3;
+
+function toPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB 実装
+ * エンティティごとのオブジェクトストアに1レコードずつ保存する
+ * （localStorage の約5MB制限や、毎回のテーブル全体 JSON.parse を避ける）
+ */
+export class IndexedDbStore implements LocalStore {
+  private constructor(private db: IDBDatabase) {}
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static open(): Promise<IndexedDbStore> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        LOCAL_ENTITIES.forEach((definition) => {
+          const store = db.objectStoreNames.contains(definition.name)
+            ? transaction.objectStore(definition.name)
+            : db.createObjectStore(definition.name, { keyPath: 'id' });
+          Object.entries(definition.indexes).forEach(([indexName, keyPath]) => {
+            if (store.indexNames.contains(indexName)) return;
+            store.createIndex(indexName, keyPath as string, { unique: false });
+          });
+        });
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // 新しいバージョンを開こうとする別タブのアップグレードを妨げない
+        db.onversionchange = () => db.close();
+        resolve(new IndexedDbStore(db));
+      };
+      request.onerror = () => reject(request.error);
+      // 別タブが古いバージョンを開いたままの場合
+      request.onblocked = () => reject(new Error('IndexedDB のアップグレードがブロックされました'));
+    });
+  }
+
+  async getAll<T>(entity: LocalEntityName): Promise<T[]> {
+    const store = this.db.transaction(entity, 'readonly').objectStore(entity);
+    return toPromise(store.getAll() as IDBRequest<T[]>);
+  }
+
+  async getAllByIndex<T>(entity: LocalEntityName, index: LocalIndexName, value: string): Promise<T[]> {
+    const store = this.db.transaction(entity, 'readonly').objectStore(entity);
+    return toPromise(store.index(index).getAll(value) as IDBRequest<T[]>);
+  }
+
+  async get<T>(entity: LocalEntityName, id: string): Promise<T | undefined> {
+    const store = this.db.transaction(entity, 'readonly').objectStore(entity);
+    return toPromise(store.get(id) as IDBRequest<T | undefined>);
+  }
+
+  async putMany<T extends { id: string }>(entity: LocalEntityName, items: T[]): Promise<void> {
+    if (items.length === 0) return;
+    const transaction = this.db.transaction(entity, 'readwrite');
+    const store = transaction.objectStore(entity);
+    items.forEach((item) => store.put(item));
+    await transactionDone(transaction);
+  }
+
+  async deleteMany(entity: LocalEntityName, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const transaction = this.db.transaction(entity, 'readwrite');
+    const store = transaction.objectStore(entity);
+    ids.forEach((id) => store.delete(id));
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,55 @@
+import { LocalEntityName, LocalIndexName, LocalStore } from '../../types';
+import { getEntityDefinition } from './schema';
+
+/**
+ * localStorage 実装（IndexedDB が使えない環境用のフォールバック）
+ * エンティティごとに1つのキーへ JSON 配列で保存する
+ */
+export class LocalStorageStore implements LocalStore {
+  async getAll<T>(entity: LocalEntityName): Promise<T[]> {
+    return this.read<T>(entity);
+  }
+
+  async getAllByIndex<T>(entity: LocalEntityName, index: LocalIndexName, value: string): Promise<T[]> {
+    const keyPath = getEntityDefinition(entity).indexes[index];
+    if (!keyPath) {
+      throw new Error(`${entity} に ${index} インデックスはありません`);
+    }
+    return this.read<T>(entity).filter((item: any) => item[keyPath] === value);
+  }
+
+  async get<T>(entity: LocalEntityName, id: string): Promise<T | undefined> {
+    return this.read<T>(entity).find((item: any) => item.id === id);
+  }
+
+  async putMany<T extends { id: string }>(entity: LocalEntityName, items: T[]): Promise<void> {
+    if (items.length === 0) return;
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const current = this.read<T>(entity);
+    const next = current.map((item) => byId.get(item.id) ?? item);
+    const currentIds = new Set(current.map((item) => item.id));
+    items.forEach((item) => {
+      if (!currentIds.has(item.id)) next.push(item);
+    });
+    this.write(entity, next);
+  }
+
+  async deleteMany(entity: LocalEntityName, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const targets = new Set(ids);
+    this.write(entity, this.read<{ id: string }>(entity).filter((item) => !targets.has(item.id)));
+  }
+
+  private read<T>(entity: LocalEntityName): T[] {
+    try {
+      const data = localStorage.getItem(getEntityDefinition(entity).legacyKey);
+      return data ? JSON.parse(data) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write<T>(entity: LocalEntityName, items: T[]): void {
+    localStorage.setItem(getEntityDefinition(entity).legacyKey, JSON.stringify(items));
+  }
+}
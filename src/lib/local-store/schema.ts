@@ -0,0 +1,66 @@
+import { LocalEntityName, LocalIndexName } from '../../types';
+
+export interface LocalEntityDefinition {
+  name: LocalEntityName;
+  /** localStorage 時代のキー（移行元 / フォールバック先） */
+  legacyKey: string;
+  /** インデックス名 → レコードのプロパティ名 */
+  indexes: Partial<Record<LocalIndexName, string>>;
+}
+
+/**
+ * エンティティごとのオブジェクトストア定義
+ * ストア名は Supabase のテーブル名に揃える
+ */
+export const LOCAL_ENTITIES: LocalEntityDefinition[] = [
+  {
+    name: 'projects',
+    legacyKey: 'tutor_ai_projects',
+    indexes: { userId: 'userId', studentId: 'studentId' },
+  },
+  {
+    name: 'threads',
+    legacyKey: 'tutor_ai_threads',
+    indexes: { userId: 'userId', projectId: 'projectId' },
+  },
+  {
+    name: 'messages',
+    legacyKey: 'tutor_ai_messages',
+    indexes: { userId: 'userId', threadId: 'threadId' },
+  },
+  {
+    name: 'homework',
+    legacyKey: 'tutor_ai_homework',
+    indexes: { userId: 'userId', studentId: 'studentId', projectId: 'projectId', date: 'assignedAt' },
+  },
+  {
+    name: 'test_results',
+    legacyKey: 'tutor_ai_test_results',
+    indexes: { userId: 'userId', projectId: 'projectId', date: 'takenAt' },
+  },
+  {
+    name: 'test_sets',
+    legacyKey: 'tutor_ai_test_sets',
+    indexes: { userId: 'userId', studentId: 'studentId', date: 'date' },
+  },
+  { name: 'test_scores', legacyKey: 'tutor_ai_test_scores', indexes: { testSetId: 'testSetId' } },
+  {
+    name: 'lesson_records',
+    legacyKey: 'tutor_ai_lesson_records',
+    indexes: { userId: 'userId', studentId: 'studentId', date: 'date' },
+  },
+  {
+    name: 'record_history',
+    legacyKey: 'tutor_ai_record_history',
+    indexes: { userId: 'userId', recordId: 'recordId' },
+  },
+  { name: 'students', legacyKey: 'tutor_ai_students', indexes: { ownerId: 'ownerId' } },
+];
+
+export function getEntityDefinition(name: LocalEntityName): LocalEntityDefinition {
+  const definition = LOCAL_ENTITIES.find((entity) => entity.name === name);
+  if (!definition) {
+    throw new Error(`Unknown local entity: ${name}`);
+  }
+  return definition;
+}
@@ -5,7 +5,7 @@
  * 環境変数が未設定の場合は、分かりやすいエラーメッセージを表示します。
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
 
 // 環境変数の取得
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -53,6 +53,20 @@ export function logSupabaseConfig(): void {
 export const SUPABASE_BUCKET =
   import.meta.env.VITE_SUPABASE_BUCKET ?? 'attachments';
 
+/**
+ * Edge Function のエラーの理由
+ * 400 の場合は本文の error に理由が入っている。読めないときは error.message か fallback
+ */
+export async function functionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    const body: unknown = await error.context.json().catch(() => null);
+    if (typeof body === 'object' && body !== null && 'error' in body && typeof body.error === 'string' && body.error) {
+      return body.error;
+    }
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
 /**
  * Supabase クライアント
  * 環境変数が設定されている場合のみ有効なクライアントを返す
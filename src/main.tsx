@@ -2,6 +2,7 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import { isSupabaseConfigured, getSupabaseConfigError, logSupabaseConfig } from './lib/supabase'
+import { MigrationService } from './services'
 
 // 開発環境でSupabase設定状態をログ出力
 logSupabaseConfig();
@@ -14,9 +15,15 @@ if (!isSupabaseConfigured()) {
   }
 }
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+// ローカルデータのスキーマ移行を済ませてから描画する（失敗しても起動は続ける）
+new MigrationService()
+  .run()
+  .catch((error) => console.error('[MigrationService]', error))
+  .finally(() => {
+    ReactDOM.createRoot(document.getElementById('root')!).render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>,
+    )
+  })
 
@@ -0,0 +1,368 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '../contexts/AuthContext';
+import { AdminService } from '../services';
+import { AdminConsoleData, AdminProject, ProjectTutorRate, Tutor } from '../types';
+import './Admin.css';
+
+const EMPTY_CONSOLE: AdminConsoleData = { tutors: [], projects: [] };
+
+const formatYen = (yen: number) => `${yen.toLocaleString('ja-JP')}円/時`;
+
+const projectLabel = (item?: AdminProject) =>
+  item ? `${item.student?.name ?? '（生徒なし）'} / ${item.project.name}` : '（削除された教科）';
+
+const rateKey = (rate: ProjectTutorRate) => `${rate.projectId}:${rate.tutorId}:${rate.effectiveFrom}`;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * 管理画面（管理者のみ）
+ * 講師マスタの登録・時給の編集と、教科ごとの担当講師（適用開始日つきの時給履歴）
+ */
+export const Admin: React.FC = () => {
+  const { user } = useAuth();
+  const adminService = useMemo(() => new AdminService(), []);
+
+  const [data, setData] = useState<AdminConsoleData>(EMPTY_CONSOLE);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [tutorName, setTutorName] = useState('');
+  const [tutorYen, setTutorYen] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editYen, setEditYen] = useState('');
+
+  const [assignTutorId, setAssignTutorId] = useState('');
+  const [assignProjectId, setAssignProjectId] = useState('');
+  const [assignYen, setAssignYen] = useState('');
+  const [assignFrom, setAssignFrom] = useState(today);
+
+  const projectById = useMemo(
+    () => new Map(data.projects.map((item) => [item.project.id, item])),
+    [data.projects]
+  );
+
+  const loadConsole = useCallback(async () => {
+    if (!user) return;
+    try {
+      setData(await adminService.loadConsole(user));
+    } catch (error) {
+      console.error('[Admin] 読み込みエラー:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : '読み込めませんでした' });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, adminService]);
+
+  useEffect(() => {
+    loadConsole();
+  }, [loadConsole]);
+
+  /** 保存してから読み直す（今の担当・生徒は時給の履歴から決まる） */
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await loadConsole();
+      setMessage({ type: 'success', text: success });
+      return true;
+    } catch (error) {
+      console.error('[Admin] 保存エラー:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : '保存できませんでした' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddTutor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(
+      () => adminService.saveTutor({ name: tutorName, hourlyYen: Number(tutorYen) }),
+      `講師「${tutorName.trim()}」を登録しました`
+    );
+    if (saved) {
+      setTutorName('');
+      setTutorYen('');
+    }
+  };
+
+  const startEdit = (tutor: Tutor) => {
+    setEditingId(tutor.id);
+    setEditName(tutor.name);
+    setEditYen(String(tutor.hourlyYen));
+  };
+
+  const handleSaveTutor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+    const saved = await run(
+      () => adminService.saveTutor({ id: editingId, name: editName, hourlyYen: Number(editYen) }),
+      '講師を更新しました'
+    );
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const handleSelectAssignTutor = (tutorId: string) => {
+    setAssignTutorId(tutorId);
+    // 講師の時給を初期値にする（教科ごとに変えられる）
+    const tutor = data.tutors.find((item) => item.tutor.id === tutorId)?.tutor;
+    if (tutor) {
+      setAssignYen(String(tutor.hourlyYen));
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await run(
+      () =>
+        adminService.assignTutor({
+          tutorId: assignTutorId,
+          projectId: assignProjectId,
+          hourlyYen: Number(assignYen),
+          effectiveFrom: assignFrom,
+        }),
+      `${projectLabel(projectById.get(assignProjectId))} の担当を登録しました`
+    );
+    if (saved) {
+      setAssignProjectId('');
+    }
+  };
+
+  const handleRemoveRate = async (rate: ProjectTutorRate) => {
+    const label = `${projectLabel(projectById.get(rate.projectId))}（${rate.effectiveFrom}〜）`;
+    if (!window.confirm(`${label} の担当を削除しますか？\nこの日以降の授業は、ひとつ前の担当で計算されます。`)) return;
+    await run(() => adminService.removeRate(rate), `${label} の担当を削除しました`);
+  };
+
+  if (loading) {
+    return (
+      <div className="admin-page">
+        <p className="admin-empty">読み込み中...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="admin-page">
+      <header className="admin-header">
+        <h1 className="admin-title">管理</h1>
+      </header>
+
+      {message && (
+        <p
+          className={`admin-message admin-message-${message.type}`}
+          role={message.type === 'error' ? 'alert' : 'status'}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <section className="admin-card" aria-labelledby="admin-tutors-title">
+        <h2 id="admin-tutors-title" className="admin-card-title">
+          講師
+        </h2>
+        <p className="admin-card-description">
+          給与計算に使う講師と時給です。時給は新しく担当を付けるときの初期値になります。
+        </p>
+
+        {data.tutors.length === 0 ? (
+          <p className="admin-empty">まだ講師が登録されていません。</p>
+        ) : (
+          <ul className="admin-tutors">
+            {data.tutors.map(({ tutor, assignments, students, rates }) => (
+              <li key={tutor.id} className="admin-tutor">
+                {editingId === tutor.id ? (
+                  <form className="admin-form" onSubmit={handleSaveTutor}>
+                    <input
+                      type="text"
+                      className="admin-input"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      aria-label="講師の名前"
+                      required
+                      lang="ja"
+                    />
+                    <input
+                      type="number"
+                      className="admin-input admin-input-short"
+                      value={editYen}
+                      onChange={(e) => setEditYen(e.target.value)}
+                      aria-label="時給（円）"
+                      min={0}
+                      step={1}
+                      required
+                      lang="ja"
+                    />
+                    <button type="submit" className="admin-button admin-button-primary" disabled={busy}>
+                      保存
+                    </button>
+                    <button type="button" className="admin-button" onClick={() => setEditingId(null)}>
+                      キャンセル
+                    </button>
+                  </form>
+                ) : (
+                  <div className="admin-tutor-header">
+                    <span className="admin-tutor-name">{tutor.name}</span>
+                    <span className="admin-tutor-yen">{formatYen(tutor.hourlyYen)}</span>
+                    <button
+                      type="button"
+                      className="admin-button"
+                      onClick={() => startEdit(tutor)}
+                      aria-label={`${tutor.name}を編集`}
+                    >
+                      編集
+                    </button>
+                  </div>
+                )}
+
+                <p className="admin-tutor-students">
+                  担当している生徒:{' '}
+                  {students.length > 0 ? students.map((student) => student.name).join('、') : 'なし'}
+                </p>
+
+                {assignments.length > 0 && (
+                  <ul className="admin-assignments" aria-label={`${tutor.name}の担当教科`}>
+                    {assignments.map((item) => (
+                      <li key={item.project.id} className="admin-assignment">
+                        {projectLabel(item)}
+                        <span className="admin-meta">
+                          {formatYen(item.rate.hourlyYen)}（{item.rate.effectiveFrom}〜）
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {rates.length > 0 && (
+                  <details className="admin-history">
+                    <summary>時給の履歴（{rates.length}件）</summary>
+                    <ul className="admin-rates">
+                      {rates.map((rate) => (
+                        <li key={rateKey(rate)} className="admin-rate">
+                          <span className="admin-rate-info">
+                            {rate.effectiveFrom}〜 {projectLabel(projectById.get(rate.projectId))}
+                            <span className="admin-meta">{formatYen(rate.hourlyYen)}</span>
+                          </span>
+                          <button
+                            type="button"
+                            className="admin-button"
+                            onClick={() => handleRemoveRate(rate)}
+                            disabled={busy}
+                            aria-label={`${rate.effectiveFrom}からの担当を削除`}
+                          >
+                            削除
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form className="admin-form" onSubmit={handleAddTutor}>
+          <input
+            type="text"
+            className="admin-input"
+            value={tutorName}
+            onChange={(e) => setTutorName(e.target.value)}
+            placeholder="講師の名前"
+            aria-label="講師の名前"
+            required
+            lang="ja"
+          />
+          <input
+            type="number"
+            className="admin-input admin-input-short"
+            value={tutorYen}
+            onChange={(e) => setTutorYen(e.target.value)}
+            placeholder="時給（円）"
+            aria-label="時給（円）"
+            min={0}
+            step={1}
+            required
+            lang="ja"
+          />
+          <button type="submit" className="admin-button admin-button-primary" disabled={busy}>
+            講師を追加
+          </button>
+        </form>
+      </section>
+
+      <section className="admin-card" aria-labelledby="admin-assign-title">
+        <h2 id="admin-assign-title" className="admin-card-title">
+          担当を付ける
+        </h2>
+        <p className="admin-card-description">
+          教科に講師と時給を登録します。時給を変えるときも、新しい適用開始日で追加してください（それより前の授業の給与は変わりません）。
+        </p>
+        {data.tutors.length === 0 || data.projects.length === 0 ? (
+          <p className="admin-empty">講師と教科が登録されると、担当を付けられます。</p>
+        ) : (
+          <form className="admin-form" onSubmit={handleAssign}>
+            <select
+              className="admin-input"
+              value={assignTutorId}
+              onChange={(e) => handleSelectAssignTutor(e.target.value)}
+              aria-label="講師"
+              required
+            >
+              <option value="">講師を選ぶ</option>
+              {data.tutors.map(({ tutor }) => (
+                <option key={tutor.id} value={tutor.id}>
+                  {tutor.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className="admin-input"
+              value={assignProjectId}
+              onChange={(e) => setAssignProjectId(e.target.value)}
+              aria-label="教科"
+              required
+            >
+              <option value="">教科を選ぶ</option>
+              {data.projects.map((item) => (
+                <option key={item.project.id} value={item.project.id}>
+                  {projectLabel(item)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              className="admin-input admin-input-short"
+              value={assignYen}
+              onChange={(e) => setAssignYen(e.target.value)}
+              placeholder="時給（円）"
+              aria-label="時給（円）"
+              min={0}
+              step={1}
+              required
+              lang="ja"
+            />
+            <input
+              type="date"
+              className="admin-input admin-input-short"
+              value={assignFrom}
+              onChange={(e) => setAssignFrom(e.target.value)}
+              aria-label="適用開始日"
+              required
+            />
+            <button type="submit" className="admin-button admin-button-primary" disabled={busy}>
+              登録
+            </button>
+          </form>
+        )}
+      </section>
+    </div>
+  );
+};
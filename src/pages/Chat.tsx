@@ -1,23 +1,58 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useStudent } from '../contexts/StudentContext';
 import { DrawerSidebar } from '../components/Layout/DrawerSidebar';
 import { ChatWindow } from '../components/Chat/ChatWindow';
 import { Composer } from '../components/Chat/Composer';
 import { ProjectRepository, ThreadRepository, MessageRepository } from '../repositories';
-import { ProjectService, AIService } from '../services';
-import { Project, Thread, Message, Attachment } from '../types';
+import {
+  ProjectService,
+  AIService,
+  ThreadSummaryService,
+  DEFAULT_THREAD_TITLE,
+  currentHintLevel,
+  nextHintLevel,
+  escalationText,
+} from '../services';
+import { Project, Thread, Message, Attachment, ChatImage, ChatMessage } from '../types';
 import { generateId } from '../utils/id';
 import './Chat.css';
 
+/** /app/chat/:projectId/:threadId（選んだ教科・スレッドはURLに持つ。戻る・進むで切り替わる） */
+const chatPath = (projectId?: string | null, threadId?: string | null) =>
+  projectId ? `/app/chat/${projectId}${threadId ? `/${threadId}` : ''}` : '/app/chat';
+
+/** 添付画像をAIに送る形に（Storage のパスはサーバー側で署名URLになる） */
+const toChatImage = (attachment: Attachment): ChatImage => {
+  if (attachment.path) return { path: attachment.path };
+  return attachment.urlOrData.startsWith('data:')
+    ? { url: attachment.urlOrData }
+    : { path: attachment.urlOrData };
+};
+
 export const Chat: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user } = useAuth();
+  const { activeStudent } = useStudent();
+  const studentId = activeStudent?.id;
+  const navigate = useNavigate();
+  const params = useParams<{ projectId?: string; threadId?: string }>();
+  const selectedProjectId = params.projectId ?? null;
+  const selectedThreadId = params.threadId ?? null;
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [projects, setProjects] = useState<Project[]>([]);
   const [threads, setThreads] = useState<Thread[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
-  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  // 一覧を読み込んだ生徒・教科（読み込み前にURLを直さないように）
+  const [projectsLoadedFor, setProjectsLoadedFor] = useState<string | null>(null);
+  const [threadsLoadedFor, setThreadsLoadedFor] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // 生成中のAI応答（保存前。届いた分だけ表示する）
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
+  const generationRef = useRef<{ threadId: string; controller: AbortController } | null>(null);
+  // 生成が終わったときに開いているスレッド（別のスレッドの画面に書き込まないように）
+  const viewingThreadIdRef = useRef(selectedThreadId);
+  viewingThreadIdRef.current = selectedThreadId;
 
   // Repositoryをメモ化して再生成を防ぐ
   const projectRepository = useMemo(() => new ProjectRepository(), []);
@@ -25,54 +60,81 @@ export const Chat: React.FC = () => {
   const messageRepository = useMemo(() => new MessageRepository(), []);
   const projectService = useMemo(() => new ProjectService(), []);
   const aiService = useMemo(() => new AIService(), []);
+  const threadSummaryService = useMemo(() => new ThreadSummaryService(), []);
 
-  const handleLogout = useCallback(async () => {
-    if (confirm('ログアウトしますか？')) {
-      await logout();
-    }
-  }, [logout]);
-
-  const loadProjects = useCallback(async () => {
-    if (!user) return;
-    const userProjects = await projectService.getProjectsByUserId(user.id);
-    setProjects(userProjects);
-    if (userProjects.length > 0 && !selectedProjectId) {
-      setSelectedProjectId(userProjects[0].id);
+  // 教科は生徒ごと（スレッドはその教科の中の自分のもの）
+  useEffect(() => {
+    if (!studentId) return;
+    let cancelled = false;
+    projectService
+      .getProjectsByStudentId(studentId)
+      .then((studentProjects) => {
+        if (cancelled) return;
+        setProjects(studentProjects);
+        setProjectsLoadedFor(studentId);
+      })
+      .catch((error) => console.error('[Chat] 教科の読み込みエラー:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId, projectService]);
+
+  // 教科が未選択・別の生徒の教科（生徒を切り替えた・古いリンク）なら最初の教科へ
+  useEffect(() => {
+    if (!studentId || projectsLoadedFor !== studentId) return;
+    if (projects.some((project) => project.id === selectedProjectId)) return;
+    if (projects.length > 0) {
+      navigate(chatPath(projects[0].id), { replace: true });
+    } else if (selectedProjectId) {
+      navigate(chatPath(), { replace: true });
     }
-  }, [user, projectService, selectedProjectId]);
+  }, [studentId, projects, projectsLoadedFor, selectedProjectId, navigate]);
 
-  const loadThreads = useCallback(async () => {
+  useEffect(() => {
     if (!user || !selectedProjectId) return;
-
+    let cancelled = false;
     // 直近が先頭に来る想定（リポジトリ側で order している前提）
-    const projectThreads = await threadRepository.findByUserIdAndProjectId(user.id, selectedProjectId);
-    setThreads(projectThreads);
-
-    // selectedThreadId を依存配列に入れると、setSelectedThreadId -> loadThreads再生成 -> useEffect発火
-    // で無限に threads を再取得し続けることがある。
-    // そのため functional update で「未選択なら1回だけ」自動選択する。
-    if (projectThreads.length > 0) {
-      setSelectedThreadId((prev) => prev ?? projectThreads[0].id);
-    }
+    threadRepository
+      .findByUserIdAndProjectId(user.id, selectedProjectId)
+      .then((projectThreads) => {
+        if (cancelled) return;
+        setThreads(projectThreads);
+        setThreadsLoadedFor(selectedProjectId);
+      })
+      .catch((error) => console.error('[Chat] スレッドの読み込みエラー:', error));
+    return () => {
+      cancelled = true;
+    };
   }, [user, selectedProjectId, threadRepository]);
 
+  // スレッドが未選択なら直近のスレッドへ。見つからないスレッド（削除済み・他の人のもの）も同じ
+  useEffect(() => {
+    if (!selectedProjectId || threadsLoadedFor !== selectedProjectId) return;
+    if (selectedThreadId && threads.some((thread) => thread.id === selectedThreadId)) return;
+    if (threads.length > 0) {
+      navigate(chatPath(selectedProjectId, threads[0].id), { replace: true });
+    } else if (selectedThreadId) {
+      navigate(chatPath(selectedProjectId), { replace: true });
+    }
+  }, [selectedProjectId, selectedThreadId, threads, threadsLoadedFor, navigate]);
+
   const loadMessages = useCallback(async () => {
     if (!selectedThreadId) return;
     const threadMessages = await messageRepository.findByThreadId(selectedThreadId);
     setMessages(threadMessages);
   }, [selectedThreadId, messageRepository]);
 
+  // 別のスレッドに移ったら、生成中の応答はそこで止める（届いた分は元のスレッドに保存される）
   useEffect(() => {
-    if (user) {
-      loadProjects();
+    const generation = generationRef.current;
+    if (generation && generation.threadId !== selectedThreadId) {
+      generation.controller.abort();
     }
-  }, [user, loadProjects]);
+  }, [selectedThreadId]);
 
   useEffect(() => {
-    if (selectedProjectId) {
-      loadThreads();
-    }
-  }, [selectedProjectId, loadThreads]);
+    return () => generationRef.current?.controller.abort();
+  }, []);
 
   useEffect(() => {
     if (selectedThreadId) {
@@ -84,10 +146,10 @@ export const Chat: React.FC = () => {
 
   const handleCreateProject = async () => {
     const name = prompt('プロジェクト名を入力してください');
-    if (name && user) {
-      const newProject = await projectRepository.createProject(user.id, name);
+    if (name && user && studentId) {
+      const newProject = await projectRepository.createProject(user.id, studentId, name);
       setProjects([...projects, newProject]);
-      setSelectedProjectId(newProject.id);
+      navigate(chatPath(newProject.id));
     }
   };
 
@@ -96,19 +158,17 @@ export const Chat: React.FC = () => {
       alert('プロジェクトを選択してください');
       return;
     }
-    const title = '新しいチャット';
-    const newThread = await threadRepository.createThread(user.id, selectedProjectId, title);
+    const newThread = await threadRepository.createThread(user.id, selectedProjectId, DEFAULT_THREAD_TITLE);
     setThreads((prev) => [newThread, ...prev]);
-    setSelectedThreadId(newThread.id);
+    navigate(chatPath(selectedProjectId, newThread.id));
   };
 
   const handleSelectProject = (projectId: string) => {
-    setSelectedProjectId(projectId);
-    setSelectedThreadId(null);
+    navigate(chatPath(projectId));
   };
 
   const handleSelectThread = (threadId: string) => {
-    setSelectedThreadId(threadId);
+    navigate(chatPath(selectedProjectId, threadId));
     setIsDrawerOpen(false);
   };
 
@@ -116,7 +176,14 @@ export const Chat: React.FC = () => {
     // 検索はDrawerSidebar内でフィルタリング済み
   };
 
-  const handleSendMessage = async (content: string, attachments: Attachment[]) => {
+  /**
+   * @param options.escalate 「もっとヒント」「答えを見る」（ヒントの段階を1つ上げる）
+   */
+  const handleSendMessage = async (
+    content: string,
+    attachments: Attachment[],
+    { escalate = false }: { escalate?: boolean } = {}
+  ) => {
     console.log('[Chat] handleSendMessage called');
     console.log('[Chat] content:', content);
     console.log('[Chat] user:', user);
@@ -129,13 +196,17 @@ export const Chat: React.FC = () => {
 
     try {
       let threadId = selectedThreadId;
+      let thread = threads.find((t) => t.id === threadId);
       if (!threadId) {
         console.log('[Chat] 新しいスレッドを作成します');
-        const title = await aiService.generateThreadTitle(content);
+        // 仮のタイトル（最初のやりとりの後にAIのタイトルに置き換える）
+        const title = aiService.draftThreadTitle(content);
         const newThread = await threadRepository.createThread(user.id, selectedProjectId, title);
         setThreads((prev) => [newThread, ...prev]);
+        thread = newThread;
         threadId = newThread.id;
-        setSelectedThreadId(threadId);
+        // スレッドの無い教科で送ったときは、作ったスレッドのURLに置き換える
+        navigate(chatPath(selectedProjectId, threadId), { replace: true });
       }
 
       // 添付ファイルからBase64データを除去（Storageパスのみ保存）
@@ -163,30 +234,64 @@ export const Chat: React.FC = () => {
       setIsLoading(true);
 
       // AI応答を生成（Supabase Edge Function）
+      // 段階を上げるのはボタンを押したときだけ。写真を送ったら新しい問題として最初の段階から
+      const hintLevel = nextHintLevel(messages, { escalate, newProblem: attachments.length > 0 });
       const projectName = projects.find((p) => p.id === selectedProjectId)?.name || 'Link';
 
       const chatMessages = [...messages, userMessage]
         .filter((m) => m.role === 'user' || m.role === 'assistant')
-        .map((m) => ({
-          role: m.role as 'user' | 'assistant',
-          content: m.content,
-        }));
-
-      console.log('[Chat] AI応答を生成します（Edge Function）');
-      const aiResponse = await aiService.generateResponseFromMessages(chatMessages, projectName);
-      console.log('[Chat] AI応答を受信:', aiResponse);
-      
-      const assistantMessage: Message = {
+        .map(
+          (m): ChatMessage => ({
+            role: m.role,
+            content: m.content,
+            images: m.attachments?.filter((att) => att.type === 'image').map(toChatImage),
+          })
+        );
+
+      const controller = new AbortController();
+      generationRef.current = { threadId, controller };
+      const draft: Message = {
         id: generateId(),
         userId: user.id,
         threadId,
         role: 'assistant',
-        content: aiResponse,
+        content: '',
         createdAt: new Date().toISOString(),
+        meta: { hintLevel },
       };
+      setStreamingMessage(draft);
 
-      await messageRepository.createMessage(assistantMessage);
-      setMessages((prev) => [...prev, assistantMessage]);
+      let streamError: unknown = null;
+      try {
+        for await (const delta of aiService.streamResponseFromMessages(chatMessages, {
+          projectName,
+          projectId: selectedProjectId,
+          hintLevel,
+          summary: thread?.summary,
+          signal: controller.signal,
+        })) {
+          draft.content += delta;
+          setStreamingMessage({ ...draft });
+        }
+      } catch (error) {
+        streamError = error;
+      } finally {
+        generationRef.current = null;
+        setStreamingMessage(null);
+      }
+
+      // 止めた・途中で失敗した場合も、届いた分は保存する
+      if (draft.content.trim()) {
+        const assistantMessage: Message = { ...draft, createdAt: new Date().toISOString() };
+        await messageRepository.createMessage(assistantMessage);
+        if (viewingThreadIdRef.current === threadId) {
+          setMessages((prev) => [...prev, assistantMessage]);
+        }
+      }
+      if (streamError !== null) {
+        // 下の catch は Error として扱うので、それ以外はメッセージにして投げ直す
+        throw streamError instanceof Error ? streamError : new Error(String(streamError));
+      }
 
       // スレッドの更新日時を更新
       await threadRepository.updateThread(threadId, {
@@ -196,7 +301,21 @@ export const Chat: React.FC = () => {
       // 送信完了後にDBから再取得して同期（新規スレッド作成直後のloadMessagesタイミングで
       // 一時的に空配列がセットされ、ユーザーの最初の発言が消えたように見える症状を防ぐ）
       const synced = await messageRepository.findByThreadId(threadId);
-      setMessages(synced);
+      if (viewingThreadIdRef.current === threadId) {
+        setMessages(synced);
+      }
+
+      // タイトル・要約は応答を待たせないよう後ろで作る（失敗しても会話はそのまま）
+      if (thread) {
+        threadSummaryService
+          .afterExchange(thread, synced)
+          .then((updated) => {
+            if (updated) {
+              setThreads((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+            }
+          })
+          .catch((error) => console.error('[Chat] タイトル・要約の更新エラー:', error));
+      }
     } catch (error: any) {
       console.error('[Chat] メッセージ送信エラー:', error);
       console.error('[Chat] エラー詳細:', error.message, error.stack);
@@ -206,6 +325,17 @@ export const Chat: React.FC = () => {
     }
   };
 
+  const hintLevel = currentHintLevel(messages);
+
+  const handleMoreHint = () => {
+    const level = nextHintLevel(messages, { escalate: true });
+    handleSendMessage(escalationText(level), [], { escalate: true });
+  };
+
+  const handleStop = () => {
+    generationRef.current?.controller.abort();
+  };
+
   return (
     <div className="chat-page">
       <header className="chat-header">
@@ -221,14 +351,6 @@ export const Chat: React.FC = () => {
             ? projects.find((p) => p.id === selectedProjectId)?.name || 'Chat'
             : 'Chat'}
         </h1>
-        <button
-          className="chat-logout-button"
-          onClick={handleLogout}
-          aria-label="ログアウト"
-          title="ログアウト"
-        >
-          ログアウト
-        </button>
       </header>
 
       <div className="chat-content">
@@ -247,10 +369,14 @@ export const Chat: React.FC = () => {
         />
 
         <div className="chat-main">
-          <ChatWindow messages={messages} />
+          <ChatWindow messages={messages} streamingMessage={streamingMessage} />
           <Composer
             onSend={handleSendMessage}
             disabled={isLoading}
+            isGenerating={isLoading}
+            onStop={handleStop}
+            hintLevel={hintLevel}
+            onMoreHint={handleMoreHint}
             threadId={selectedThreadId}
             userId={user?.id}
           />
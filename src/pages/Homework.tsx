@@ -1,19 +1,29 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { format } from 'date-fns';
 import ja from 'date-fns/locale/ja';
 import { useAuth } from '../contexts/AuthContext';
-import { HomeworkRepository } from '../repositories';
-import { ProjectService } from '../services';
-import { Homework as HomeworkType, Project } from '../types';
+import { useStudent } from '../contexts/StudentContext';
+import { usePinLock } from '../contexts/PinLockContext';
+import { HomeworkRepository, ConflictError, DEFAULT_PAGE_SIZE } from '../repositories';
+import {
+  ProjectService,
+  parseHomeworkDetail,
+  serializeHomeworkDetail,
+  resolveHomeworkStatus,
+  mergeHomeworkDetails,
+} from '../services';
+import { Homework as HomeworkType, PageCursor, Project, TodoItem } from '../types';
 import { generateId } from '../utils/id';
+import { canEdit } from '../utils/permissions';
+import { PinUnlockButton } from '../components/PinLock/PinUnlockButton';
+import { applyPagedRecordChange } from '../utils/record-change';
+import { SyncBadge } from '../components/Sync/SyncBadge';
+import { ConflictDialog } from '../components/Sync/ConflictDialog';
+import { UndoToast } from '../components/Trash/UndoToast';
+import { HistoryDialog } from '../components/History/HistoryDialog';
+import { LoadMore } from '../components/Layout/LoadMore';
 import './Homework.css';
 
-type TodoItem = {
-  id: string;
-  text: string;
-  done: boolean;
-};
-
 type SubjectBlock = {
   id: string;
   projectId: string;
@@ -21,41 +31,49 @@ type SubjectBlock = {
   todos: TodoItem[];
 };
 
-type HomeworkDetailPayload = {
-  type: 'todo_v1';
-  description: string;
-  todos: TodoItem[];
+// 保存時に別端末の更新と競合した宿題
+type HomeworkConflict = {
+  /** 編集を始めた時点の内容（ToDoをまとめるときの比較元） */
+  base: string;
+  mine: Partial<HomeworkType>;
+  theirs: HomeworkType;
 };
 
-const parseHomeworkDetail = (detail?: string) => {
-  if (!detail) {
-    return { description: '', todos: [] as TodoItem[] };
-  }
-  try {
-    const parsed = JSON.parse(detail) as HomeworkDetailPayload;
-    if (parsed?.type === 'todo_v1' && Array.isArray(parsed.todos)) {
-      return {
-        description: parsed.description || '',
-        todos: parsed.todos,
-      };
-    }
-  } catch {
-    // plain text detail
-  }
-  return { description: detail, todos: [] as TodoItem[] };
+// 競合ダイアログ用に、宿題の中身を読みやすい文字列にする
+const describeHomework = (detail?: string) => {
+  const parsed = parseHomeworkDetail(detail);
+  return [
+    parsed.description,
+    ...parsed.todos.map((todo) => `${todo.done ? '✓' : '・'} ${todo.text}`),
+  ]
+    .filter(Boolean)
+    .join('\n');
 };
 
-const serializeHomeworkDetail = (description: string, todos: TodoItem[]) => {
-  const payload: HomeworkDetailPayload = {
-    type: 'todo_v1',
-    description,
-    todos,
-  };
-  return JSON.stringify(payload);
+/** 変更履歴の項目名（Supabaseのカラム名） */
+const HOMEWORK_HISTORY_LABELS: Record<string, string> = {
+  project_id: '教科',
+  title: 'タイトル',
+  detail: '内容',
+  assigned_at: '出された日',
+  due_date: '期限',
+  status: '状態',
+  attachments: '添付画像',
+};
+
+// ゴミ箱に移した直後の「元に戻す」対象
+type UndoTarget = {
+  id: string;
+  message: string;
 };
 
 export const Homework: React.FC = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const { activeStudent } = useStudent();
+  const studentId = activeStudent?.id;
+  const { locked } = usePinLock();
+  // 保護者は閲覧のみ。PINロック中も閲覧のみ
+  const editable = canEdit(role, 'homework') && !locked;
   const [homeworks, setHomeworks] = useState<HomeworkType[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -63,28 +81,76 @@ export const Homework: React.FC = () => {
 
   const [assignedAt, setAssignedAt] = useState('');
   const [subjectBlocks, setSubjectBlocks] = useState<SubjectBlock[]>([]);
+  const [conflict, setConflict] = useState<HomeworkConflict | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<HomeworkType | null>(null);
+  const [undoTarget, setUndoTarget] = useState<UndoTarget | null>(null);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // 読み直し・購読から参照する最新値
+  const loadedCountRef = useRef(0);
+  const nextCursorRef = useRef<PageCursor | null>(null);
+  loadedCountRef.current = homeworks.length;
+  nextCursorRef.current = nextCursor;
 
   const homeworkRepository = useMemo(() => new HomeworkRepository(), []);
   const projectService = useMemo(() => new ProjectService(), []);
 
+  // 読み込み済みの件数ぶんを先頭から読み直す（保存後もスクロール位置を保つ）
   const loadHomeworks = useCallback(async () => {
-    if (!user) return;
-    const allHomeworks = await homeworkRepository.findByUserId(user.id);
-    setHomeworks(allHomeworks);
-  }, [user, homeworkRepository]);
+    if (!studentId) return;
+    const page = await homeworkRepository.findPageByStudentId(studentId, {
+      limit: Math.max(DEFAULT_PAGE_SIZE, loadedCountRef.current),
+    });
+    setHomeworks(page.items);
+    setNextCursor(page.nextCursor);
+  }, [studentId, homeworkRepository]);
+
+  const loadMoreHomeworks = useCallback(async () => {
+    if (!studentId || !nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await homeworkRepository.findPageByStudentId(studentId, { cursor: nextCursor });
+      setHomeworks((prev) => [
+        ...prev,
+        ...page.items.filter((item) => !prev.some((hw) => hw.id === item.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('[Homework] 続きの読み込みエラー:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [studentId, homeworkRepository, nextCursor, loadingMore]);
 
   const loadProjects = useCallback(async () => {
-    if (!user) return;
-    const projs = await projectService.initializeDefaultProjects(user.id);
+    if (!user || !studentId) return;
+    const projs = await projectService.initializeDefaultProjects(user.id, studentId);
     setProjects(projs);
-  }, [user, projectService]);
+  }, [user, studentId, projectService]);
 
+  // 生徒を切り替えたら、その生徒の宿題を読み直す
   useEffect(() => {
-    if (user) {
+    setHomeworks([]);
+    setNextCursor(null);
+    loadedCountRef.current = 0;
+    if (studentId) {
       loadHomeworks();
       loadProjects();
     }
-  }, [user, loadHomeworks, loadProjects]);
+  }, [studentId, loadHomeworks, loadProjects]);
+
+  // 他の端末・タブでの変更をそのまま反映する
+  useEffect(() => {
+    if (!studentId) return;
+    return homeworkRepository.subscribe(studentId, (change) => {
+      setHomeworks((prev) =>
+        applyPagedRecordChange(prev, change, (record) => {
+          const cursor = nextCursorRef.current;
+          return !!cursor && homeworkRepository.isAfterCursor(record, cursor);
+        })
+      );
+    });
+  }, [studentId, homeworkRepository]);
 
   const groupedHomeworks = useMemo(() => {
     const map = new Map<string, HomeworkType[]>();
@@ -183,44 +249,104 @@ export const Homework: React.FC = () => {
     );
   };
 
-  const handleToggleTodoDone = async (homework: HomeworkType, todoId: string) => {
+  const replaceHomework = (saved: HomeworkType | null) => {
+    if (!saved) return;
+    setHomeworks((prev) => prev.map((hw) => (hw.id === saved.id ? saved : hw)));
+  };
+
+  // ToDoのチェックを1件切り替えた内容
+  const toggleTodo = (homework: HomeworkType, todoId: string, done: boolean) => {
     const detail = parseHomeworkDetail(homework.detail);
     const nextTodos = detail.todos.map((todo) =>
-      todo.id === todoId ? { ...todo, done: !todo.done } : todo
+      todo.id === todoId ? { ...todo, done } : todo
     );
-    const nextStatus: HomeworkType['status'] =
-      nextTodos.length > 0 && nextTodos.every((todo) => todo.done) ? 'done' : 'todo';
-    const nextDetail = serializeHomeworkDetail(detail.description, nextTodos);
+    return {
+      detail: serializeHomeworkDetail(detail.description, nextTodos),
+      status: resolveHomeworkStatus(nextTodos),
+    };
+  };
+
+  const handleToggleTodoDone = async (homework: HomeworkType, todoId: string) => {
+    const done = !parseHomeworkDetail(homework.detail).todos.find((todo) => todo.id === todoId)?.done;
+    const next = toggleTodo(homework, todoId, done);
     const optimistic = homeworks.map((hw) =>
-      hw.id === homework.id ? { ...hw, detail: nextDetail, status: nextStatus } : hw
+      hw.id === homework.id ? { ...hw, ...next } : hw
     );
     setHomeworks(optimistic);
     try {
-      await homeworkRepository.updateHomework(homework.id, {
-        detail: nextDetail,
-        status: nextStatus,
-      } as Partial<HomeworkType>);
+      const saved = await homeworkRepository.updateHomework(
+        homework.id,
+        next as Partial<HomeworkType>,
+        { expectedUpdatedAt: homework.updatedAt }
+      );
+      replaceHomework(saved);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        // チェック1件の切り替えは、相手の最新内容に重ねて保存し直す
+        const theirs = error.remote as HomeworkType;
+        try {
+          const saved = await homeworkRepository.updateHomework(
+            homework.id,
+            toggleTodo(theirs, todoId, done) as Partial<HomeworkType>,
+            { expectedUpdatedAt: theirs.updatedAt }
+          );
+          replaceHomework(saved);
+          return;
+        } catch {
+          // 下の共通処理へ
+        }
+      }
       alert('チェックの更新に失敗しました。');
       loadHomeworks();
     }
   };
 
+  // 削除はゴミ箱へ（誤タップはトーストから元に戻せる）
   const handleDeleteHomework = async (homework: HomeworkType) => {
-    if (!window.confirm('この宿題を削除しますか？')) return;
     const optimistic = homeworks.filter((hw) => hw.id !== homework.id);
     setHomeworks(optimistic);
     try {
-      await homeworkRepository.deleteHomework(homework.id);
+      await homeworkRepository.softDelete(homework.id);
+      setUndoTarget({ id: homework.id, message: '宿題をゴミ箱に移しました' });
     } catch (error) {
       alert('削除に失敗しました。');
       loadHomeworks();
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (!undoTarget) return;
+    setUndoTarget(null);
+    try {
+      await homeworkRepository.restore(undoTarget.id);
+    } catch (error) {
+      alert('元に戻せませんでした。ゴミ箱から戻してください。');
+    }
+    loadHomeworks();
+  };
+
+  const handleDismissUndo = useCallback(() => setUndoTarget(null), []);
+
+  // 変更履歴の値を画面の表記に合わせる
+  const formatHistoryValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '（なし）';
+    switch (field) {
+      case 'project_id':
+        return projects.find((p) => p.id === value)?.name || '未設定';
+      case 'detail':
+        return describeHomework(String(value)) || '（なし）';
+      case 'status':
+        return value === 'done' ? '完了' : '未完了';
+      case 'attachments':
+        return `${Array.isArray(value) ? value.length : 0}枚`;
+      default:
+        return String(value);
+    }
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!user || !studentId) return;
     if (!assignedAt.trim()) {
       alert('日付を入力してください');
       return;
@@ -235,12 +361,12 @@ export const Homework: React.FC = () => {
       const cleanedTodos = target.todos
         .map((todo) => ({ ...todo, text: todo.text.trim() }))
         .filter((todo) => todo.text.length > 0);
-      const nextStatus =
-        cleanedTodos.length > 0 && cleanedTodos.every((todo) => todo.done) ? 'done' : 'todo';
+      const nextStatus = resolveHomeworkStatus(cleanedTodos);
       const detail = serializeHomeworkDetail(target.description.trim(), cleanedTodos);
       const resolvedTitle = cleanedTodos[0]?.text || target.description.trim() || '宿題';
       const payload: Omit<HomeworkType, 'id' | 'createdAt' | 'updatedAt'> = {
         userId: user.id,
+        studentId,
         projectId: target.projectId,
         title: resolvedTitle,
         detail,
@@ -248,7 +374,19 @@ export const Homework: React.FC = () => {
         dueAt: assignedAt.trim(),
         status: nextStatus,
       };
-      await homeworkRepository.updateHomework(editingId, payload as Partial<HomeworkType>);
+      const editing = homeworks.find((hw) => hw.id === editingId);
+      try {
+        await homeworkRepository.updateHomework(editingId, payload as Partial<HomeworkType>, {
+          expectedUpdatedAt: editing?.updatedAt,
+        });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          setConflict({ base: editing?.detail || '', mine: payload, theirs: error.remote as HomeworkType });
+          return;
+        }
+        alert('保存に失敗しました。');
+        return;
+      }
     } else {
       const sanitizedBlocks = subjectBlocks
         .map((block) => {
@@ -269,12 +407,12 @@ export const Homework: React.FC = () => {
       }
 
       for (const block of sanitizedBlocks) {
-        const nextStatus =
-          block.todos.length > 0 && block.todos.every((todo) => todo.done) ? 'done' : 'todo';
+        const nextStatus = resolveHomeworkStatus(block.todos);
         const detail = serializeHomeworkDetail(block.description, block.todos);
         const resolvedTitle = block.todos[0]?.text || block.description || '宿題';
         const payload: Omit<HomeworkType, 'id' | 'createdAt' | 'updatedAt'> = {
           userId: user.id,
+          studentId,
           projectId: block.projectId,
           title: resolvedTitle,
           detail,
@@ -291,14 +429,60 @@ export const Homework: React.FC = () => {
     loadHomeworks();
   };
 
+  // 競合の解決: 相手の最新 updatedAt を前提に保存し直す
+  const resolveConflict = async (updates: Partial<HomeworkType>) => {
+    if (!conflict) return;
+    try {
+      await homeworkRepository.updateHomework(conflict.theirs.id, updates, {
+        expectedUpdatedAt: conflict.theirs.updatedAt,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setConflict({ ...conflict, theirs: error.remote as HomeworkType });
+        return;
+      }
+      alert('保存に失敗しました。');
+      return;
+    }
+    setConflict(null);
+    setIsFormOpen(false);
+    resetForm();
+    loadHomeworks();
+  };
+
+  const handleKeepTheirs = () => {
+    if (!conflict) return;
+    replaceHomework(conflict.theirs);
+    setConflict(null);
+    setIsFormOpen(false);
+    resetForm();
+  };
+
+  const handleMergeTodos = () => {
+    if (!conflict) return;
+    const detail = mergeHomeworkDetails(
+      conflict.base,
+      conflict.mine.detail || '',
+      conflict.theirs.detail
+    );
+    resolveConflict({
+      ...conflict.mine,
+      detail,
+      status: resolveHomeworkStatus(parseHomeworkDetail(detail).todos),
+    });
+  };
+
   return (
     <div className="homework-page">
       <header className="homework-header">
         <div className="homework-header-row">
           <h1 className="homework-title">宿題管理</h1>
-          <button className="homework-add-button" onClick={handleOpenCreate}>
-            ＋宿題を追加
-          </button>
+          {editable && (
+            <button className="homework-add-button" onClick={handleOpenCreate}>
+              ＋宿題を追加
+            </button>
+          )}
+          {canEdit(role, 'homework') && locked && <PinUnlockButton />}
         </div>
       </header>
 
@@ -444,6 +628,41 @@ export const Homework: React.FC = () => {
         </section>
       )}
 
+      {undoTarget && (
+        <UndoToast
+          message={undoTarget.message}
+          onUndo={handleUndoDelete}
+          onDismiss={handleDismissUndo}
+        />
+      )}
+
+      {historyTarget && (
+        <HistoryDialog
+          title="宿題の変更履歴"
+          load={() => homeworkRepository.findHistory(historyTarget.id)}
+          fieldLabels={HOMEWORK_HISTORY_LABELS}
+          formatValue={formatHistoryValue}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          title="宿題が別の端末で変更されています"
+          fields={[
+            {
+              label: '内容',
+              mine: describeHomework(conflict.mine.detail),
+              theirs: describeHomework(conflict.theirs.detail),
+            },
+          ]}
+          onKeepMine={() => resolveConflict(conflict.mine)}
+          onKeepTheirs={handleKeepTheirs}
+          onMerge={handleMergeTodos}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       <section className="homework-timeline">
         {groupedHomeworks.length === 0 ? (
           <div className="homework-empty">宿題がまだ登録されていません</div>
@@ -472,20 +691,36 @@ export const Homework: React.FC = () => {
                       <div className="homework-card-header">
                         <div>
                           <span className="homework-project-tag">{project?.name || '未設定'}</span>
+                          <SyncBadge
+                            recordId={homework.id}
+                            fieldLabels={HOMEWORK_HISTORY_LABELS}
+                            onResolved={loadHomeworks}
+                          />
                         </div>
                         <div className="homework-card-actions">
+                          {editable && (
+                            <button
+                              className="homework-edit-button"
+                              onClick={() => handleEdit(homework)}
+                            >
+                              編集
+                            </button>
+                          )}
                           <button
                             className="homework-edit-button"
-                            onClick={() => handleEdit(homework)}
-                          >
-                            編集
-                          </button>
-                          <button
-                            className="homework-delete-button"
-                            onClick={() => handleDeleteHomework(homework)}
+                            onClick={() => setHistoryTarget(homework)}
+                            aria-label="変更履歴を見る"
                           >
-                            削除
+                            履歴
                           </button>
+                          {editable && (
+                            <button
+                              className="homework-delete-button"
+                              onClick={() => handleDeleteHomework(homework)}
+                            >
+                              削除
+                            </button>
+                          )}
                         </div>
                       </div>
                       {detail.description && (
@@ -498,6 +733,7 @@ export const Homework: React.FC = () => {
                               <input
                                 type="checkbox"
                                 checked={todo.done}
+                                disabled={!editable}
                                 onChange={() => handleToggleTodoDone(homework, todo.id)}
                               />
                               <span className={todo.done ? 'done' : ''}>{todo.text}</span>
@@ -512,6 +748,7 @@ export const Homework: React.FC = () => {
             </div>
           ))
         )}
+        <LoadMore hasMore={!!nextCursor} loading={loadingMore} onLoadMore={loadMoreHomeworks} />
       </section>
     </div>
   );
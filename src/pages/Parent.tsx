@@ -1,9 +1,17 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { format, parseISO, isValid } from 'date-fns';
 import ja from 'date-fns/locale/ja';
 import { useAuth } from '../contexts/AuthContext';
-import { LessonRecordRepository } from '../repositories';
-import { LessonRecord } from '../types';
+import { useStudent } from '../contexts/StudentContext';
+import { LessonRecordRepository, ConflictError, DEFAULT_PAGE_SIZE } from '../repositories';
+import { LessonRecord, PageCursor } from '../types';
+import { applyPagedRecordChange } from '../utils/record-change';
+import { canEdit } from '../utils/permissions';
+import { SyncBadge } from '../components/Sync/SyncBadge';
+import { ConflictDialog } from '../components/Sync/ConflictDialog';
+import { UndoToast } from '../components/Trash/UndoToast';
+import { HistoryDialog } from '../components/History/HistoryDialog';
+import { LoadMore } from '../components/Layout/LoadMore';
 import './Parent.css';
 
 /**
@@ -22,15 +30,57 @@ function calculateDuration(startTime: string, endTime: string): number {
  * - start/endがある場合: "18:00〜20:00"
  * - ない場合: "60分"
  */
-function formatLessonTime(lesson: LessonRecord): string {
+function formatLessonTime(lesson: Pick<LessonRecord, 'startTime' | 'endTime' | 'duration'>): string {
   if (lesson.startTime && lesson.endTime) {
     return `${lesson.startTime}〜${lesson.endTime}`;
   }
   return `${lesson.duration}分`;
 }
 
+/** 変更履歴の項目名（Supabaseのカラム名） */
+const LESSON_HISTORY_LABELS: Record<string, string> = {
+  date: '授業日',
+  duration: '授業時間（分）',
+  start_time: '開始時刻',
+  end_time: '終了時刻',
+  content: '授業内容',
+  memo: 'メモ',
+};
+
+// DBのtime型（HH:MM:SS）は HH:MM で見せる
+const formatLessonHistoryValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '（なし）';
+  if (field === 'start_time' || field === 'end_time') return String(value).substring(0, 5);
+  return String(value);
+};
+
+type LessonPayload = {
+  date: string;
+  duration: number;
+  startTime?: string;
+  endTime?: string;
+  content: string;
+  memo?: string;
+};
+
+// 保存時に別端末の更新と競合した授業記録
+type LessonConflict = {
+  mine: LessonPayload;
+  theirs: LessonRecord;
+};
+
+// ゴミ箱に移した直後の「元に戻す」対象
+type UndoTarget = {
+  id: string;
+  message: string;
+};
+
 export const Parent: React.FC = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const { activeStudent } = useStudent();
+  const studentId = activeStudent?.id;
+  // 保護者は閲覧のみ
+  const editable = canEdit(role, 'lessons');
   const [lessonRecords, setLessonRecords] = useState<LessonRecord[]>([]);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -41,20 +91,70 @@ export const Parent: React.FC = () => {
   const [content, setContent] = useState('');
   const [memo, setMemo] = useState('');
   const [timeError, setTimeError] = useState('');
+  const [conflict, setConflict] = useState<LessonConflict | null>(null);
+  const [undoTarget, setUndoTarget] = useState<UndoTarget | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<LessonRecord | null>(null);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // 読み直し・購読から参照する最新値
+  const loadedCountRef = useRef(0);
+  const nextCursorRef = useRef<PageCursor | null>(null);
+  loadedCountRef.current = lessonRecords.length;
+  nextCursorRef.current = nextCursor;
 
   const lessonRecordRepository = useMemo(() => new LessonRecordRepository(), []);
 
+  // 読み込み済みの件数ぶんを先頭から読み直す（保存後もスクロール位置を保つ）
   const loadLessonRecords = useCallback(async () => {
-    if (!user) return;
-    const records = await lessonRecordRepository.findByUserId(user.id);
-    setLessonRecords(records);
-  }, [user, lessonRecordRepository]);
+    if (!studentId) return;
+    const page = await lessonRecordRepository.findPageByStudentId(studentId, {
+      limit: Math.max(DEFAULT_PAGE_SIZE, loadedCountRef.current),
+    });
+    setLessonRecords(page.items);
+    setNextCursor(page.nextCursor);
+  }, [studentId, lessonRecordRepository]);
 
+  const loadMoreLessonRecords = useCallback(async () => {
+    if (!studentId || !nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await lessonRecordRepository.findPageByStudentId(studentId, {
+        cursor: nextCursor,
+      });
+      setLessonRecords((prev) => [
+        ...prev,
+        ...page.items.filter((item) => !prev.some((record) => record.id === item.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('[Parent] 続きの読み込みエラー:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [studentId, lessonRecordRepository, nextCursor, loadingMore]);
+
+  // 生徒を切り替えたら、その生徒の授業記録を読み直す
   useEffect(() => {
-    if (user) {
+    setLessonRecords([]);
+    setNextCursor(null);
+    loadedCountRef.current = 0;
+    if (studentId) {
       loadLessonRecords();
     }
-  }, [user, loadLessonRecords]);
+  }, [studentId, loadLessonRecords]);
+
+  // 他の端末・タブでの変更をそのまま反映する
+  useEffect(() => {
+    if (!studentId) return;
+    return lessonRecordRepository.subscribe(studentId, (change) => {
+      setLessonRecords((prev) =>
+        applyPagedRecordChange(prev, change, (record) => {
+          const cursor = nextCursorRef.current;
+          return !!cursor && lessonRecordRepository.isAfterCursor(record, cursor);
+        })
+      );
+    });
+  }, [studentId, lessonRecordRepository]);
 
   const groupedLessons = useMemo(() => {
     const map = new Map<string, LessonRecord[]>();
@@ -123,7 +223,7 @@ export const Parent: React.FC = () => {
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
+    if (!user || !studentId) return;
     if (!date.trim() || !content.trim()) {
       alert('日付と授業内容を入力してください');
       return;
@@ -134,7 +234,7 @@ export const Parent: React.FC = () => {
 
     const duration = calculateDuration(startTime, endTime);
 
-    const payload = {
+    const payload: LessonPayload = {
       date: date.trim(),
       duration,
       startTime,
@@ -145,11 +245,18 @@ export const Parent: React.FC = () => {
 
     try {
       if (editingId) {
-        await lessonRecordRepository.update(editingId, payload);
+        const editing = lessonRecords.find((record) => record.id === editingId);
+        await lessonRecordRepository.update(editingId, payload, {
+          expectedUpdatedAt: editing?.updatedAt,
+        });
       } else {
-        await lessonRecordRepository.create(user.id, payload);
+        await lessonRecordRepository.create({ userId: user.id, studentId, ...payload });
       }
     } catch (error) {
+      if (error instanceof ConflictError) {
+        setConflict({ mine: payload, theirs: error.remote as LessonRecord });
+        return;
+      }
       alert('保存に失敗しました。');
       return;
     }
@@ -159,26 +266,72 @@ export const Parent: React.FC = () => {
     loadLessonRecords();
   };
 
+  // 競合の解決: 相手の最新 updatedAt を前提に自分の内容で上書きする
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+    try {
+      await lessonRecordRepository.update(conflict.theirs.id, conflict.mine, {
+        expectedUpdatedAt: conflict.theirs.updatedAt,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setConflict({ mine: conflict.mine, theirs: error.remote as LessonRecord });
+        return;
+      }
+      alert('保存に失敗しました。');
+      return;
+    }
+    setConflict(null);
+    setIsFormOpen(false);
+    resetForm();
+    loadLessonRecords();
+  };
+
+  const handleKeepTheirs = () => {
+    if (!conflict) return;
+    const theirs = conflict.theirs;
+    setLessonRecords((prev) => prev.map((record) => (record.id === theirs.id ? theirs : record)));
+    setConflict(null);
+    setIsFormOpen(false);
+    resetForm();
+  };
+
+  // 削除はゴミ箱へ（誤タップはトーストから元に戻せる）
   const handleDelete = async (lesson: LessonRecord) => {
-    if (!window.confirm('この授業記録を削除しますか？')) return;
     const optimistic = lessonRecords.filter((record) => record.id !== lesson.id);
     setLessonRecords(optimistic);
     try {
-      await lessonRecordRepository.delete(lesson.id);
+      await lessonRecordRepository.softDelete(lesson.id);
+      setUndoTarget({ id: lesson.id, message: '授業記録をゴミ箱に移しました' });
     } catch (error) {
       alert('削除に失敗しました。');
       loadLessonRecords();
     }
   };
 
+  const handleUndoDelete = async () => {
+    if (!undoTarget) return;
+    setUndoTarget(null);
+    try {
+      await lessonRecordRepository.restore(undoTarget.id);
+    } catch (error) {
+      alert('元に戻せませんでした。ゴミ箱から戻してください。');
+    }
+    loadLessonRecords();
+  };
+
+  const handleDismissUndo = useCallback(() => setUndoTarget(null), []);
+
   return (
     <div className="parent-page">
       <header className="parent-header">
         <div className="parent-header-row">
           <h1 className="parent-title">授業管理</h1>
-          <button className="parent-add-button" onClick={handleOpenCreate}>
-            ＋授業を追加
-          </button>
+          {editable && (
+            <button className="parent-add-button" onClick={handleOpenCreate}>
+              ＋授業を追加
+            </button>
+          )}
         </div>
       </header>
 
@@ -259,6 +412,43 @@ export const Parent: React.FC = () => {
         </section>
       )}
 
+      {undoTarget && (
+        <UndoToast
+          message={undoTarget.message}
+          onUndo={handleUndoDelete}
+          onDismiss={handleDismissUndo}
+        />
+      )}
+
+      {historyTarget && (
+        <HistoryDialog
+          title={`${historyTarget.date} の授業の変更履歴`}
+          load={() => lessonRecordRepository.findHistory(historyTarget.id)}
+          fieldLabels={LESSON_HISTORY_LABELS}
+          formatValue={formatLessonHistoryValue}
+          onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          title="授業記録が別の端末で変更されています"
+          fields={[
+            { label: '授業日', mine: conflict.mine.date, theirs: conflict.theirs.date },
+            {
+              label: '授業時間',
+              mine: formatLessonTime(conflict.mine),
+              theirs: formatLessonTime(conflict.theirs),
+            },
+            { label: '授業内容', mine: conflict.mine.content, theirs: conflict.theirs.content },
+            { label: 'メモ', mine: conflict.mine.memo || '', theirs: conflict.theirs.memo || '' },
+          ]}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       <section className="parent-timeline">
         {groupedLessons.length === 0 ? (
           <div className="parent-empty">授業記録がまだ登録されていません</div>
@@ -287,17 +477,33 @@ export const Parent: React.FC = () => {
                         {lesson.startTime && lesson.endTime && (
                           <span className="parent-card-duration">（{lesson.duration}分）</span>
                         )}
+                        <SyncBadge
+                          recordId={lesson.id}
+                          fieldLabels={LESSON_HISTORY_LABELS}
+                          onResolved={loadLessonRecords}
+                        />
                       </div>
                       <div className="parent-card-actions">
-                        <button className="parent-edit-button" onClick={() => handleEdit(lesson)}>
-                          編集
-                        </button>
+                        {editable && (
+                          <button className="parent-edit-button" onClick={() => handleEdit(lesson)}>
+                            編集
+                          </button>
+                        )}
                         <button
-                          className="parent-delete-button"
-                          onClick={() => handleDelete(lesson)}
+                          className="parent-edit-button"
+                          onClick={() => setHistoryTarget(lesson)}
+                          aria-label="変更履歴を見る"
                         >
-                          削除
+                          履歴
                         </button>
+                        {editable && (
+                          <button
+                            className="parent-delete-button"
+                            onClick={() => handleDelete(lesson)}
+                          >
+                            削除
+                          </button>
+                        )}
                       </div>
                     </div>
                     <div className="parent-card-content">
@@ -316,6 +522,7 @@ export const Parent: React.FC = () => {
             </div>
           ))
         )}
+        <LoadMore hasMore={!!nextCursor} loading={loadingMore} onLoadMore={loadMoreLessonRecords} />
       </section>
     </div>
   );
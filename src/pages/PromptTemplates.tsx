@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useStudent } from '../contexts/StudentContext';
+import {
+  PromptTemplateService,
+  GRADE_BAND_LABELS,
+  PROMPT_BODY_MAX_LENGTH,
+  gradeBandOf,
+} from '../services';
+import { GradeBand, PromptTemplate } from '../types';
+import './PromptTemplates.css';
+
+const GRADE_BANDS = Object.keys(GRADE_BAND_LABELS) as GradeBand[];
+
+const templateLabel = (template: Pick<PromptTemplate, 'gradeBand' | 'subject' | 'studentId'>) =>
+  `${template.studentId ? '生徒の指示・' : ''}${GRADE_BAND_LABELS[template.gradeBand]} / ${
+    template.subject || '共通の指示'
+  }`;
+
+/**
+ * AIの指示（講師・管理者のみ）
+ * 学年帯ごとの共通の指示と教科ごとの教え方。チャットでは生徒の学年と教科から自動で選ばれる
+ * 全生徒に効く既定は管理者が、選んでいる生徒の指示は講師が編集する（講師には既定は読むだけ）
+ */
+export const PromptTemplates: React.FC = () => {
+  const { user, role } = useAuth();
+  const { activeStudent } = useStudent();
+  const isAdmin = role === 'admin';
+  const studentId = activeStudent?.id;
+  const navigate = useNavigate();
+  const promptTemplateService = useMemo(() => new PromptTemplateService(), []);
+
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+
+  const [newBand, setNewBand] = useState<GradeBand>('all');
+  const [newSubject, setNewSubject] = useState('');
+  const [newBody, setNewBody] = useState('');
+  // 管理者は既定と生徒の指示を選べる。講師は生徒の指示だけ
+  const [newForStudent, setNewForStudent] = useState(!isAdmin);
+  const newStudentId = newForStudent || !isAdmin ? studentId : undefined;
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await promptTemplateService.findAll(studentId));
+    } catch (error) {
+      console.error('[PromptTemplates] 読み込みエラー:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : '読み込めませんでした' });
+    } finally {
+      setLoading(false);
+    }
+  }, [promptTemplateService, studentId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await loadTemplates();
+      setMessage({ type: 'success', text: success });
+      return true;
+    } catch (error) {
+      console.error('[PromptTemplates] 保存エラー:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : '保存できませんでした' });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEdit = (template: PromptTemplate) => {
+    setEditingId(template.id);
+    setEditBody(template.body);
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent, template: PromptTemplate) => {
+    e.preventDefault();
+    if (!user) return;
+    const saved = await run(
+      () =>
+        promptTemplateService.saveTemplate(
+          {
+            gradeBand: template.gradeBand,
+            subject: template.subject,
+            body: editBody,
+            studentId: template.studentId,
+          },
+          user
+        ),
+      `「${templateLabel(template)}」を保存しました`
+    );
+    if (saved) {
+      setEditingId(null);
+    }
+  };
+
+  const handleRemove = async (template: PromptTemplate) => {
+    const label = templateLabel(template);
+    if (!window.confirm(`「${label}」を削除しますか？`)) return;
+    await run(() => promptTemplateService.removeTemplate(template.id), `「${label}」を削除しました`);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!isAdmin && !newStudentId) {
+      setMessage({ type: 'error', text: '生徒を選んでから追加してください' });
+      return;
+    }
+    const input = { gradeBand: newBand, subject: newSubject, body: newBody, studentId: newStudentId };
+    const exists = templates.some(
+      (t) => t.studentId === newStudentId && t.gradeBand === newBand && t.subject === newSubject.trim()
+    );
+    if (exists && !window.confirm(`「${templateLabel({ ...input, subject: newSubject.trim() })}」はすでにあります。上書きしますか？`)) {
+      return;
+    }
+    const saved = await run(
+      () => promptTemplateService.saveTemplate(input, user),
+      `「${templateLabel({ ...input, subject: newSubject.trim() })}」を保存しました`
+    );
+    if (saved) {
+      setNewSubject('');
+      setNewBody('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="prompts-page">
+        <p className="prompts-empty">読み込み中...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="prompts-page">
+      <header className="prompts-header">
+        <button
+          type="button"
+          className="prompts-back"
+          onClick={() => navigate('/app/settings')}
+          aria-label="設定に戻る"
+        >
+          ←
+        </button>
+        <h1 className="prompts-title">AIの指示</h1>
+      </header>
+
+      <p className="prompts-description">
+        AIチャットの答え方の指示です。チャットでは、生徒の学年（学年帯の共通の指示）と教科（教科の教え方）から自動で選ばれます。
+        その学年帯のものが無ければ「すべての学年」のものを使います。教科は教科名と同じ名前で登録してください。
+        生徒の指示があれば、全生徒に効く既定の指示より優先されます。
+        {!isAdmin && '既定の指示は管理者だけが編集できます。'}
+      </p>
+      {activeStudent && (
+        <p className="prompts-current" role="status">
+          {activeStudent.name}（{activeStudent.grade || '学年未設定'}）のチャットは「
+          {GRADE_BAND_LABELS[gradeBandOf(activeStudent.grade)]}」の指示を使います。
+        </p>
+      )}
+
+      {message && (
+        <p
+          className={`prompts-message prompts-message-${message.type}`}
+          role={message.type === 'error' ? 'alert' : 'status'}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {templates.length === 0 ? (
+        <p className="prompts-empty">まだ指示がありません。下から追加すると、既定の指示（小学生向け）の代わりに使われます。</p>
+      ) : (
+        <ul className="prompts-list">
+          {templates.map((template) => (
+            <li key={template.id} className="prompts-card">
+              <div className="prompts-card-header">
+                <h2 className="prompts-card-title">{templateLabel(template)}</h2>
+                {editingId !== template.id && (isAdmin || !!template.studentId) && (
+                  <>
+                    <button
+                      type="button"
+                      className="prompts-button"
+                      onClick={() => startEdit(template)}
+                      aria-label={`${templateLabel(template)}を編集`}
+                    >
+                      編集
+                    </button>
+                    <button
+                      type="button"
+                      className="prompts-button"
+                      onClick={() => handleRemove(template)}
+                      disabled={busy}
+                      aria-label={`${templateLabel(template)}を削除`}
+                    >
+                      削除
+                    </button>
+                  </>
+                )}
+              </div>
+              {editingId === template.id ? (
+                <form className="prompts-form" onSubmit={(e) => handleSaveEdit(e, template)}>
+                  <textarea
+                    className="prompts-textarea"
+                    value={editBody}
+                    onChange={(e) => setEditBody(e.target.value)}
+                    aria-label={`${templateLabel(template)}の本文`}
+                    maxLength={PROMPT_BODY_MAX_LENGTH}
+                    rows={8}
+                    required
+                    lang="ja"
+                  />
+                  <div className="prompts-actions">
+                    <button type="submit" className="prompts-button prompts-button-primary" disabled={busy}>
+                      保存
+                    </button>
+                    <button type="button" className="prompts-button" onClick={() => setEditingId(null)}>
+                      キャンセル
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <p className="prompts-body">{template.body}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <section className="prompts-card" aria-labelledby="prompts-add-title">
+        <h2 id="prompts-add-title" className="prompts-card-title">
+          指示を追加
+        </h2>
+        <form className="prompts-form" onSubmit={handleAdd}>
+          <div className="prompts-actions">
+            {isAdmin && (
+              <select
+                className="prompts-input"
+                value={newForStudent ? 'student' : 'all'}
+                onChange={(e) => setNewForStudent(e.target.value === 'student')}
+                aria-label="対象"
+              >
+                <option value="all">全生徒（既定）</option>
+                <option value="student" disabled={!activeStudent}>
+                  {activeStudent ? `${activeStudent.name}だけ` : '選んでいる生徒だけ'}
+                </option>
+              </select>
+            )}
+            <select
+              className="prompts-input"
+              value={newBand}
+              onChange={(e) => setNewBand(e.target.value as GradeBand)}
+              aria-label="学年"
+            >
+              {GRADE_BANDS.map((band) => (
+                <option key={band} value={band}>
+                  {GRADE_BAND_LABELS[band]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              className="prompts-input"
+              value={newSubject}
+              onChange={(e) => setNewSubject(e.target.value)}
+              placeholder="教科（空欄は共通の指示）"
+              aria-label="教科（空欄は共通の指示）"
+              lang="ja"
+            />
+          </div>
+          <textarea
+            className="prompts-textarea"
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            placeholder="例: 途中式を1行ずつ書き、それぞれの行で何をしたかを添える"
+            aria-label="指示の本文"
+            maxLength={PROMPT_BODY_MAX_LENGTH}
+            rows={6}
+            required
+            lang="ja"
+          />
+          <button type="submit" className="prompts-button prompts-button-primary" disabled={busy}>
+            保存
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
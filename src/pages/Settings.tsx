@@ -0,0 +1,893 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useStudent } from '../contexts/StudentContext';
+import { usePinLock } from '../contexts/PinLockContext';
+import { useSync } from '../contexts/SyncContext';
+import { SyncConflictDialog } from '../components/Sync/SyncConflictDialog';
+import {
+  AccountService,
+  BackupService,
+  DELETION_COUNT_LABELS,
+  InviteService,
+  PIN_MAX_LENGTH,
+  PIN_MIN_LENGTH,
+  PIN_TIMEOUT_OPTIONS,
+  normalizeInviteCode,
+} from '../services';
+import { INVITE_CODE_TTL_HOURS } from '../repositories';
+import {
+  AccountDeletionCounts,
+  AccountDeletionReceipt,
+  BackupAttachmentMode,
+  BackupBundle,
+  BackupCounts,
+  InviteCode,
+  OutboxEntry,
+  OutboxOperation,
+  RelationshipKind,
+} from '../types';
+import { ROLE_LABELS, canEdit } from '../utils/permissions';
+import './Settings.css';
+
+const ATTACHMENT_MODES: Array<{ value: BackupAttachmentMode; label: string; note: string }> = [
+  { value: 'reference', label: '画像は参照のみ', note: '同じアカウントで復元する場合' },
+  { value: 'inline', label: '画像も含める', note: 'ファイルが大きくなります' },
+  { value: 'none', label: '画像を含めない', note: '' },
+];
+
+const COUNT_LABELS: Record<keyof BackupCounts, string> = {
+  projects: '教科',
+  threads: 'スレッド',
+  messages: 'メッセージ',
+  homework: '宿題',
+  testSets: 'テスト',
+  lessonRecords: '授業記録',
+};
+
+const INVITE_KINDS: Array<{ value: RelationshipKind; label: string; note: string }> = [
+  { value: 'parent', label: '保護者', note: '閲覧のみ' },
+  { value: 'tutor', label: '講師', note: '編集できます' },
+];
+
+/** 送れなかった変更の表示名（outbox のテーブル名） */
+const OUTBOX_TABLE_LABELS: Record<string, string> = {
+  projects: '教科',
+  threads: 'スレッド',
+  messages: 'メッセージ',
+  homework: '宿題',
+  test_sets: 'テスト',
+  test_scores: 'テストの点数',
+  lesson_records: '授業記録',
+};
+
+const OUTBOX_OPERATION_LABELS: Record<OutboxOperation, string> = {
+  create: '追加',
+  update: '変更',
+  delete: '削除',
+};
+
+const describeOutboxEntry = (entry: OutboxEntry) =>
+  `${OUTBOX_TABLE_LABELS[entry.table] ?? entry.table}の${OUTBOX_OPERATION_LABELS[entry.operation]}`;
+
+const formatExpiresAt = (iso: string) =>
+  new Date(iso).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const describeCounts = (counts: BackupCounts) =>
+  (Object.keys(COUNT_LABELS) as Array<keyof BackupCounts>)
+    .map((key) => `${COUNT_LABELS[key]} ${counts[key]}件`)
+    .join(' / ');
+
+export const Settings: React.FC = () => {
+  const { user, role, logout } = useAuth();
+  const { students, activeStudent, selectStudent, addStudent, updateStudent } = useStudent();
+  const pinLock = usePinLock();
+  const { issues: syncIssues, retryEntry, discardEntry } = useSync();
+  const navigate = useNavigate();
+  const backupService = useMemo(() => new BackupService(), []);
+  const inviteService = useMemo(() => new InviteService(), []);
+  const accountService = useMemo(() => new AccountService(), []);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [attachmentMode, setAttachmentMode] = useState<BackupAttachmentMode>('reference');
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [pendingBundle, setPendingBundle] = useState<BackupBundle | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [studentName, setStudentName] = useState('');
+  const [studentGrade, setStudentGrade] = useState('');
+  const [addingStudent, setAddingStudent] = useState(false);
+  const [inviteKind, setInviteKind] = useState<RelationshipKind>('parent');
+  const [invites, setInvites] = useState<InviteCode[]>([]);
+  const [issuingInvite, setIssuingInvite] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinTimeout, setPinTimeout] = useState(pinLock.timeoutMinutes);
+  const [savingPin, setSavingPin] = useState(false);
+  const [deleteEmail, setDeleteEmail] = useState('');
+  const [deletingAccount, setDeletingAccount] = useState(false);
+  const [deletionReceipt, setDeletionReceipt] = useState<AccountDeletionReceipt | null>(null);
+  const [conflictEntry, setConflictEntry] = useState<OutboxEntry | null>(null);
+
+  // 生徒を登録できるのは講師・管理者（生徒本人は「自分」のみ、保護者は閲覧のみ）
+  const canManageStudents = role === 'tutor' || role === 'admin';
+  // 招待コードを発行できるのは生徒のデータを編集できるロール
+  const canInvite = role !== 'parent' && !!activeStudent;
+  // 招待コードを使うのは保護者・講師
+  const canJoin = role === 'parent' || role === 'tutor';
+
+  useEffect(() => {
+    if (!canInvite || !activeStudent) {
+      setInvites([]);
+      return;
+    }
+    let cancelled = false;
+    inviteService
+      .getActiveInvites(activeStudent.id)
+      .then((loaded) => {
+        if (!cancelled) setInvites(loaded);
+      })
+      .catch((error) => console.error('[Settings] 招待コードの読み込みエラー:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [canInvite, activeStudent?.id, inviteService]);
+
+  const handleIssueInvite = async () => {
+    if (!user || !activeStudent) return;
+    setIssuingInvite(true);
+    setMessage(null);
+    try {
+      const created = await inviteService.createInvite(user.id, activeStudent.id, inviteKind);
+      setInvites((prev) => [created, ...prev]);
+    } catch (error) {
+      console.error('[Settings] 招待コードの発行エラー:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '招待コードを発行できませんでした',
+      });
+    } finally {
+      setIssuingInvite(false);
+    }
+  };
+
+  const handleShareInvite = async (invite: InviteCode) => {
+    const url = inviteService.inviteUrlOf(invite.code);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: 'Link学習管理への招待', text: `招待コード: ${invite.code}`, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setMessage({ type: 'success', text: '招待リンクをコピーしました' });
+    } catch (error) {
+      // 共有シートを閉じた場合も含む
+      console.warn('[Settings] 招待リンクの共有を中止:', error);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: InviteCode) => {
+    if (!confirm(`招待コード ${invite.code} を取り消しますか？`)) return;
+    try {
+      await inviteService.revokeInvite(invite.id);
+      setInvites((prev) => prev.filter((item) => item.id !== invite.id));
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '招待コードを取り消せませんでした',
+      });
+    }
+  };
+
+  const handleRetrySync = async (entry: OutboxEntry) => {
+    try {
+      await retryEntry(entry.id);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '再送できませんでした',
+      });
+    }
+  };
+
+  const handleResolveSync = (entry: OutboxEntry) => {
+    setConflictEntry(entry);
+  };
+
+  const handleDiscardSync = (entry: OutboxEntry) => {
+    if (!confirm(`${describeOutboxEntry(entry)}を破棄しますか？この変更はサーバーに送られません。`)) return;
+    discardEntry(entry.id);
+  };
+
+  const handleSavePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (newPin !== confirmPin) {
+      setMessage({ type: 'error', text: 'PINが一致しません' });
+      return;
+    }
+    setSavingPin(true);
+    try {
+      const changing = pinLock.enabled;
+      await pinLock.setPin(newPin, pinTimeout);
+      setNewPin('');
+      setConfirmPin('');
+      setMessage({ type: 'success', text: changing ? 'PINを変更しました' : 'PINロックを設定しました' });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'PINを設定できませんでした',
+      });
+    } finally {
+      setSavingPin(false);
+    }
+  };
+
+  const handleChangePinTimeout = (minutes: number) => {
+    setPinTimeout(minutes);
+    if (pinLock.enabled) pinLock.changeTimeout(minutes);
+  };
+
+  const handleDisablePin = async () => {
+    const pin = prompt('今のPINを入力してください');
+    if (pin === null) return;
+    setMessage(null);
+    try {
+      await pinLock.disablePin(pin);
+      setMessage({ type: 'success', text: 'PINロックをやめました' });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'PINロックをやめられませんでした',
+      });
+    }
+  };
+
+  const handleDeleteAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!confirm('アカウントとすべてのデータを削除します。元に戻せません。よろしいですか？')) return;
+    setDeletingAccount(true);
+    setMessage(null);
+    try {
+      setDeletionReceipt(await accountService.deleteAccount(user, deleteEmail));
+    } catch (error) {
+      console.error('[Settings] アカウント削除エラー:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'アカウントを削除できませんでした',
+      });
+    } finally {
+      setDeletingAccount(false);
+    }
+  };
+
+  const handleSaveReceipt = () => {
+    if (!deletionReceipt) return;
+    const { fileName, blob } = accountService.toReceiptFile(deletionReceipt);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFinishDeletion = async () => {
+    await logout();
+    navigate('/login', { replace: true });
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeInviteCode(joinCode);
+    if (code) navigate(`/join/${code}`);
+  };
+
+  const handleAddStudent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAddingStudent(true);
+    setMessage(null);
+    try {
+      const created = await addStudent(studentName, studentGrade);
+      setStudentName('');
+      setStudentGrade('');
+      setMessage({ type: 'success', text: `「${created.name}」を登録しました` });
+    } catch (error) {
+      console.error('[Settings] 生徒の登録エラー:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '生徒を登録できませんでした',
+      });
+    } finally {
+      setAddingStudent(false);
+    }
+  };
+
+  const handleRenameStudent = async (studentId: string, currentName: string, grade?: string) => {
+    const name = prompt('生徒の名前', currentName);
+    if (name === null || name.trim() === currentName) return;
+    try {
+      await updateStudent(studentId, name, grade);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : '名前を変更できませんでした',
+      });
+    }
+  };
+
+  const handleExport = async () => {
+    if (!user || !activeStudent) return;
+    setExporting(true);
+    setMessage(null);
+    try {
+      const bundle = await backupService.exportBundle(user.id, activeStudent.id, attachmentMode);
+      const { fileName, blob } = backupService.toFile(bundle);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage({
+        type: 'success',
+        text: `書き出しました（${describeCounts(backupService.countBundle(bundle))}）`,
+      });
+    } catch (error) {
+      console.error('[Settings] エクスポートエラー:', error);
+      setMessage({ type: 'error', text: '書き出しに失敗しました。もう一度試してね' });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    try {
+      setPendingBundle(backupService.parseBundle(await file.text()));
+    } catch (error) {
+      setPendingBundle(null);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'ファイルを読み込めませんでした',
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || !activeStudent || !pendingBundle) return;
+    setImporting(true);
+    setMessage(null);
+    try {
+      const counts = await backupService.importBundle(user.id, activeStudent.id, pendingBundle);
+      setPendingBundle(null);
+      setMessage({ type: 'success', text: `取り込みました（${describeCounts(counts)}）` });
+    } catch (error) {
+      console.error('[Settings] インポートエラー:', error);
+      setMessage({ type: 'error', text: '取り込みの途中で失敗しました。もう一度試してね' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (deletionReceipt) {
+    return (
+      <div className="settings-page">
+        <section className="settings-card" aria-labelledby="settings-receipt-title">
+          <h2 id="settings-receipt-title" className="settings-card-title">
+            アカウントを削除しました
+          </h2>
+          <p className="settings-card-description">
+            {deletionReceipt.email} のアカウントと、次のデータを削除しました（
+            {new Date(deletionReceipt.deletedAt).toLocaleString('ja-JP')}）。
+          </p>
+          <dl className="settings-receipt">
+            {(Object.keys(DELETION_COUNT_LABELS) as Array<keyof AccountDeletionCounts>).map((key) => (
+              <div key={key} className="settings-receipt-row">
+                <dt>{DELETION_COUNT_LABELS[key]}</dt>
+                <dd>{deletionReceipt.counts[key]}件</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="settings-actions">
+            <button type="button" className="settings-button" onClick={handleSaveReceipt}>
+              受領書を保存
+            </button>
+            <button
+              type="button"
+              className="settings-button settings-button-primary"
+              onClick={handleFinishDeletion}
+            >
+              終了する
+            </button>
+          </div>
+        </section>
+      </div>
+    );
+  }
+
+  return (
+    <div className="settings-page">
+      <header className="settings-header">
+        <h1 className="settings-title">設定</h1>
+      </header>
+
+      {message && (
+        <p
+          className={`settings-message settings-message-${message.type}`}
+          role={message.type === 'error' ? 'alert' : 'status'}
+        >
+          {message.text}
+        </p>
+      )}
+
+      <section className="settings-card" aria-labelledby="settings-account-title">
+        <h2 id="settings-account-title" className="settings-card-title">
+          アカウント
+        </h2>
+        <p className="settings-card-description">
+          {user?.email}
+          <br />
+          ロール: {ROLE_LABELS[role]}
+        </p>
+      </section>
+
+      <section className="settings-card" aria-labelledby="settings-students-title">
+        <h2 id="settings-students-title" className="settings-card-title">
+          生徒
+        </h2>
+        <p className="settings-card-description">
+          宿題・テスト・授業記録・チャットは、画面の下で選んだ生徒のものを表示します。
+        </p>
+        {students.length > 0 ? (
+          <ul className="settings-students">
+            {students.map((student) => (
+              <li key={student.id} className="settings-student">
+                <button
+                  type="button"
+                  className={`settings-student-select ${
+                    student.id === activeStudent?.id ? 'active' : ''
+                  }`}
+                  onClick={() => selectStudent(student.id)}
+                  aria-pressed={student.id === activeStudent?.id}
+                  aria-label={`${student.name}を表示する`}
+                >
+                  <span className="settings-student-name">{student.name}</span>
+                  {student.grade && <span className="settings-student-grade">{student.grade}</span>}
+                </button>
+                {student.ownerId === user?.id && (
+                  <button
+                    type="button"
+                    className="settings-button"
+                    onClick={() => handleRenameStudent(student.id, student.name, student.grade)}
+                    aria-label={`${student.name}の名前を変更`}
+                  >
+                    名前を変更
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="settings-card-description">まだ生徒が登録されていません。</p>
+        )}
+        {canManageStudents && (
+          <form className="settings-student-form" onSubmit={handleAddStudent}>
+            <input
+              type="text"
+              className="settings-input"
+              value={studentName}
+              onChange={(e) => setStudentName(e.target.value)}
+              placeholder="名前（例: 山田 花子）"
+              aria-label="生徒の名前"
+              lang="ja"
+              required
+            />
+            <input
+              type="text"
+              className="settings-input settings-input-short"
+              value={studentGrade}
+              onChange={(e) => setStudentGrade(e.target.value)}
+              placeholder="学年（例: 中1）"
+              aria-label="学年"
+              lang="ja"
+            />
+            <button
+              type="submit"
+              className="settings-button settings-button-primary"
+              disabled={addingStudent || !studentName.trim()}
+            >
+              {addingStudent ? '登録中...' : '生徒を追加'}
+            </button>
+          </form>
+        )}
+      </section>
+
+      {canInvite && activeStudent && (
+        <section className="settings-card" aria-labelledby="settings-invite-title">
+          <h2 id="settings-invite-title" className="settings-card-title">
+            招待コード
+          </h2>
+          <p className="settings-card-description">
+            保護者・講師に{activeStudent.name}のデータを見てもらうためのコードです。
+            1回だけ使え、{INVITE_CODE_TTL_HOURS}時間で無効になります。
+          </p>
+          <fieldset className="settings-options">
+            <legend className="settings-options-legend">招待する相手</legend>
+            {INVITE_KINDS.map((kind) => (
+              <label key={kind.value} className="settings-option">
+                <input
+                  type="radio"
+                  name="invite-kind"
+                  value={kind.value}
+                  checked={inviteKind === kind.value}
+                  onChange={() => setInviteKind(kind.value)}
+                />
+                <span className="settings-option-label">{kind.label}</span>
+                <span className="settings-option-note">{kind.note}</span>
+              </label>
+            ))}
+          </fieldset>
+          <button
+            type="button"
+            className="settings-button settings-button-primary"
+            onClick={handleIssueInvite}
+            disabled={issuingInvite}
+          >
+            {issuingInvite ? '発行中...' : '招待コードを発行'}
+          </button>
+          {invites.length > 0 && (
+            <ul className="settings-invites">
+              {invites.map((invite) => (
+                <li key={invite.id} className="settings-invite">
+                  <div className="settings-invite-info">
+                    <span className="settings-invite-code">{invite.code}</span>
+                    <span className="settings-invite-meta">
+                      {INVITE_KINDS.find((kind) => kind.value === invite.kind)?.label}・
+                      {formatExpiresAt(invite.expiresAt)}まで
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    className="settings-button"
+                    onClick={() => handleShareInvite(invite)}
+                    aria-label={`招待コード ${invite.code} のリンクを共有`}
+                  >
+                    共有
+                  </button>
+                  <button
+                    type="button"
+                    className="settings-button"
+                    onClick={() => handleRevokeInvite(invite)}
+                    aria-label={`招待コード ${invite.code} を取り消す`}
+                  >
+                    取消
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {canJoin && (
+        <section className="settings-card" aria-labelledby="settings-join-title">
+          <h2 id="settings-join-title" className="settings-card-title">
+            招待コードを使う
+          </h2>
+          <p className="settings-card-description">
+            受け取った招待コードを入力すると、その生徒と紐付きます。
+          </p>
+          <form className="settings-student-form" onSubmit={handleJoin}>
+            <input
+              type="text"
+              className="settings-input"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+              placeholder="例: ABCD2345"
+              aria-label="招待コード"
+              lang="ja"
+              autoCapitalize="characters"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <button
+              type="submit"
+              className="settings-button settings-button-primary"
+              disabled={!normalizeInviteCode(joinCode)}
+            >
+              使う
+            </button>
+          </form>
+        </section>
+      )}
+
+      <section className="settings-card" aria-labelledby="settings-pin-title">
+        <h2 id="settings-pin-title" className="settings-card-title">
+          PINロック（この端末）
+        </h2>
+        <p className="settings-card-description">
+          家族で共有する端末向けです。ロック中は宿題・テストを閲覧のみにし、授業管理と設定を開くときにPINを求めます。
+          {pinLock.enabled
+            ? ` 操作が${pinLock.timeoutMinutes}分ないと再びロックします。`
+            : ` PINは${PIN_MIN_LENGTH}〜${PIN_MAX_LENGTH}桁の数字です。`}
+        </p>
+        <label className="settings-option">
+          <span className="settings-option-label">自動でロックするまで</span>
+          <select
+            className="settings-input settings-input-short"
+            value={pinTimeout}
+            onChange={(e) => handleChangePinTimeout(Number(e.target.value))}
+            aria-label="自動でロックするまでの時間"
+          >
+            {PIN_TIMEOUT_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes}分
+              </option>
+            ))}
+          </select>
+        </label>
+        <form className="settings-student-form" onSubmit={handleSavePin}>
+          <input
+            type="password"
+            className="settings-input settings-input-short"
+            inputMode="numeric"
+            pattern="[0-9]*"
+            maxLength={PIN_MAX_LENGTH}
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+            placeholder={pinLock.enabled ? '新しいPIN' : 'PIN'}
+            aria-label={pinLock.enabled ? '新しいPIN' : 'PIN'}
+            autoComplete="off"
+          />
+          <input
+            type="password"
+            className="settings-input settings-input-short"
+            inputMode="numeric"
+            pattern="[0-9]*"
+            maxLength={PIN_MAX_LENGTH}
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="もう一度"
+            aria-label="確認のためもう一度"
+            autoComplete="off"
+          />
+          <button
+            type="submit"
+            className="settings-button settings-button-primary"
+            disabled={savingPin || newPin.length < PIN_MIN_LENGTH}
+          >
+            {savingPin ? '保存中...' : pinLock.enabled ? 'PINを変更' : 'PINを設定'}
+          </button>
+        </form>
+        {pinLock.enabled && (
+          <div className="settings-actions">
+            <button type="button" className="settings-button" onClick={handleDisablePin}>
+              PINロックをやめる
+            </button>
+            <button
+              type="button"
+              className="settings-button settings-button-primary"
+              onClick={pinLock.lock}
+            >
+              今すぐロック
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="settings-card" aria-labelledby="settings-export-title">
+        <h2 id="settings-export-title" className="settings-card-title">
+          データを書き出す
+        </h2>
+        <p className="settings-card-description">
+          {activeStudent ? `${activeStudent.name}の` : ''}
+          教科・チャット・宿題・テスト・授業記録を1つのファイルにまとめます。機種変更のときに使ってね。
+        </p>
+        <fieldset className="settings-options">
+          <legend className="settings-options-legend">画像の扱い</legend>
+          {ATTACHMENT_MODES.map((mode) => (
+            <label key={mode.value} className="settings-option">
+              <input
+                type="radio"
+                name="attachment-mode"
+                value={mode.value}
+                checked={attachmentMode === mode.value}
+                onChange={() => setAttachmentMode(mode.value)}
+              />
+              <span className="settings-option-label">{mode.label}</span>
+              {mode.note && <span className="settings-option-note">{mode.note}</span>}
+            </label>
+          ))}
+        </fieldset>
+        <button
+          type="button"
+          className="settings-button settings-button-primary"
+          onClick={handleExport}
+          disabled={exporting || !activeStudent}
+          aria-label="バックアップを書き出す"
+        >
+          {exporting ? '書き出し中...' : 'バックアップを書き出す'}
+        </button>
+      </section>
+
+      <section className="settings-card" aria-labelledby="settings-import-title">
+        <h2 id="settings-import-title" className="settings-card-title">
+          バックアップから取り込む
+        </h2>
+        <p className="settings-card-description">
+          今のデータは残したまま、バックアップの内容を{activeStudent ? `${activeStudent.name}に` : ''}追加します。
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+        {pendingBundle ? (
+          <div className="settings-pending">
+            <p className="settings-pending-summary">
+              {pendingBundle.exportedAt.slice(0, 10)} のバックアップ
+              <br />
+              {describeCounts(backupService.countBundle(pendingBundle))}
+            </p>
+            <div className="settings-actions">
+              <button
+                type="button"
+                className="settings-button"
+                onClick={() => setPendingBundle(null)}
+                disabled={importing}
+              >
+                やめる
+              </button>
+              <button
+                type="button"
+                className="settings-button settings-button-primary"
+                onClick={handleImport}
+                disabled={importing || !activeStudent}
+              >
+                {importing ? '取り込み中...' : '取り込む'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="settings-button"
+            onClick={() => fileInputRef.current?.click()}
+            aria-label="バックアップファイルを選ぶ"
+          >
+            ファイルを選ぶ
+          </button>
+        )}
+      </section>
+
+      {canEdit(role, 'prompts') && (
+        <section className="settings-card" aria-labelledby="settings-prompts-title">
+          <h2 id="settings-prompts-title" className="settings-card-title">
+            AIの指示
+          </h2>
+          <p className="settings-card-description">
+            AIチャットの答え方を、学年（小学生・中学生・高校生）と教科ごとに編集できます。
+          </p>
+          <button
+            type="button"
+            className="settings-button"
+            onClick={() => navigate('/app/prompts')}
+            aria-label="AIの指示を開く"
+          >
+            AIの指示を開く
+          </button>
+        </section>
+      )}
+
+      {syncIssues.length > 0 && (
+        <section className="settings-card" aria-labelledby="settings-sync-title">
+          <h2 id="settings-sync-title" className="settings-card-title">
+            送れなかった変更
+          </h2>
+          <p className="settings-card-description">
+            サーバーに届いていない変更です。再送するか、破棄してサーバーの内容に戻せます。別の端末の変更とぶつかったものは、確認してどちらを残すか選んでください。
+          </p>
+          <ul className="settings-invites">
+            {syncIssues.map((entry) => (
+              <li key={entry.id} className="settings-invite">
+                <div className="settings-invite-info">
+                  <span>{describeOutboxEntry(entry)}</span>
+                  {entry.lastError && <span className="settings-invite-meta">{entry.lastError}</span>}
+                </div>
+                {entry.status === 'conflict' ? (
+                  <button
+                    type="button"
+                    className="settings-button"
+                    onClick={() => handleResolveSync(entry)}
+                    aria-label={`${describeOutboxEntry(entry)}の競合を確認`}
+                  >
+                    確認
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    className="settings-button"
+                    onClick={() => handleRetrySync(entry)}
+                    aria-label={`${describeOutboxEntry(entry)}を再送`}
+                  >
+                    再送
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="settings-button"
+                  onClick={() => handleDiscardSync(entry)}
+                  aria-label={`${describeOutboxEntry(entry)}を破棄`}
+                >
+                  破棄
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {conflictEntry && (
+        <SyncConflictDialog entry={conflictEntry} onClose={() => setConflictEntry(null)} />
+      )}
+
+      <section className="settings-card" aria-labelledby="settings-trash-title">
+        <h2 id="settings-trash-title" className="settings-card-title">
+          ゴミ箱
+        </h2>
+        <p className="settings-card-description">
+          削除した宿題・テスト・授業記録を元に戻したり、完全に削除したりできます。
+        </p>
+        <button
+          type="button"
+          className="settings-button"
+          onClick={() => navigate('/app/trash')}
+          aria-label="ゴミ箱を開く"
+        >
+          ゴミ箱を開く
+        </button>
+      </section>
+
+      <section className="settings-card settings-card-danger" aria-labelledby="settings-delete-title">
+        <h2 id="settings-delete-title" className="settings-card-title">
+          アカウントの削除
+        </h2>
+        <p className="settings-card-description">
+          アカウントと、教科・チャット・宿題・テスト・授業記録・添付ファイルなどの個人データをすべて削除します。
+          元に戻せないので、必要なら先にバックアップを書き出してください。確認のため、メールアドレスを入力してください。
+        </p>
+        <form className="settings-student-form" onSubmit={handleDeleteAccount}>
+          <input
+            type="email"
+            className="settings-input"
+            value={deleteEmail}
+            onChange={(e) => setDeleteEmail(e.target.value)}
+            placeholder={user?.email}
+            aria-label="確認のためのメールアドレス"
+            autoComplete="off"
+            autoCapitalize="none"
+            spellCheck={false}
+            lang="ja"
+          />
+          <button
+            type="submit"
+            className="settings-button settings-button-danger"
+            disabled={
+              deletingAccount || deleteEmail.trim().toLowerCase() !== (user?.email ?? '').toLowerCase()
+            }
+          >
+            {deletingAccount ? '削除中...' : 'アカウントを削除'}
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
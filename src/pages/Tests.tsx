@@ -1,12 +1,22 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
-import { TestSetRepository } from '../repositories';
+import { useStudent } from '../contexts/StudentContext';
+import { usePinLock } from '../contexts/PinLockContext';
+import { TestSetRepository, ConflictError, DEFAULT_PAGE_SIZE } from '../repositories';
 import { ProjectService } from '../services';
-import { TestSetWithScores, Project, Attachment } from '../types';
+import { TestSetWithScores, TestScoreInput, Project, Attachment, PageCursor } from '../types';
 import { generateId } from '../utils/id';
+import { applyPagedRecordChange } from '../utils/record-change';
+import { canEdit } from '../utils/permissions';
+import { PinUnlockButton } from '../components/PinLock/PinUnlockButton';
 import { uploadTestImage, createSignedUrl } from '../services/storage.service';
 import { isSupabaseConfigured } from '../lib/supabase';
+import { SyncBadge } from '../components/Sync/SyncBadge';
+import { ConflictDialog } from '../components/Sync/ConflictDialog';
+import { UndoToast } from '../components/Trash/UndoToast';
+import { HistoryDialog } from '../components/History/HistoryDialog';
+import { LoadMore } from '../components/Layout/LoadMore';
 import './Tests.css';
 
 // 画像表示用コンポーネント（署名付きURL対応）
@@ -79,8 +89,49 @@ const ImageViewerModal: React.FC<{
   );
 };
 
+type TestSetInput = { date: string; name: string; grade?: string; memo?: string };
+
+// 保存時に別端末の更新と競合したテスト結果
+type TestSetConflict = {
+  data: TestSetInput;
+  scores: TestScoreInput[];
+  theirs: TestSetWithScores;
+};
+
+/** 変更履歴の項目名（Supabaseのカラム名。点数は「教科.カラム」で記録される） */
+const TEST_HISTORY_LABELS: Record<string, string> = {
+  name: 'テスト名',
+  date: '実施日',
+  grade: '学年',
+  memo: 'メモ',
+  score: '点数',
+  average: '平均点',
+  max_score: '満点',
+  rank: '順位',
+  deviation: '偏差値',
+  problem_images: '問題画像',
+  answer_images: '解答画像',
+};
+
+// ゴミ箱に移した直後の「元に戻す」対象
+type UndoTarget = {
+  id: string;
+  message: string;
+};
+
+// 競合ダイアログ用に、点数一覧を読みやすい文字列にする
+const describeScores = (scores: Array<{ subject: string; score: number; maxScore?: number }>) =>
+  scores
+    .map((score) => `${score.subject} ${score.score}${score.maxScore ? `/${score.maxScore}` : ''}`)
+    .join('\n');
+
 export const Tests: React.FC = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const { activeStudent } = useStudent();
+  const studentId = activeStudent?.id;
+  const { locked } = usePinLock();
+  // 保護者は閲覧のみ。PINロック中も閲覧のみ
+  const editable = canEdit(role, 'tests') && !locked;
   const [testSets, setTestSets] = useState<TestSetWithScores[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<string>('all');
@@ -88,28 +139,93 @@ export const Tests: React.FC = () => {
   const [selectedSet, setSelectedSet] = useState<TestSetWithScores | null>(null);
   const [activeTab, setActiveTab] = useState<'list' | 'detail'>('list');
   const [viewerImage, setViewerImage] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<TestSetConflict | null>(null);
+  const [undoTarget, setUndoTarget] = useState<UndoTarget | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // 読み直し・購読から参照する最新値
+  const loadedCountRef = useRef(0);
+  const nextCursorRef = useRef<PageCursor | null>(null);
+  loadedCountRef.current = testSets.length;
+  nextCursorRef.current = nextCursor;
 
   const testRepository = useMemo(() => new TestSetRepository(), []);
   const projectService = useMemo(() => new ProjectService(), []);
 
+  // 読み込み済みの件数ぶんを先頭から読み直す（保存後もスクロール位置を保つ）
   const loadTestSets = useCallback(async () => {
-    if (!user) return;
-    const results = await testRepository.findByUserId(user.id);
-    setTestSets(results);
-  }, [user, testRepository]);
+    if (!studentId) return;
+    const page = await testRepository.findPageByStudentId(studentId, {
+      limit: Math.max(DEFAULT_PAGE_SIZE, loadedCountRef.current),
+    });
+    setTestSets(page.items);
+    setNextCursor(page.nextCursor);
+  }, [studentId, testRepository]);
+
+  const loadMoreTestSets = useCallback(async () => {
+    if (!studentId || !nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await testRepository.findPageByStudentId(studentId, { cursor: nextCursor });
+      setTestSets((prev) => [
+        ...prev,
+        ...page.items.filter((item) => !prev.some((set) => set.id === item.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('[Tests] 続きの読み込みエラー:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [studentId, testRepository, nextCursor, loadingMore]);
 
   const loadProjects = useCallback(async () => {
-    if (!user) return;
-    const projs = await projectService.getProjectsByUserId(user.id);
+    if (!studentId) return;
+    const projs = await projectService.getProjectsByStudentId(studentId);
     setProjects(projs);
-  }, [user, projectService]);
+  }, [studentId, projectService]);
 
+  // 生徒を切り替えたら、その生徒のテストを読み直す
   useEffect(() => {
-    if (user) {
+    setTestSets([]);
+    setNextCursor(null);
+    setSelectedSet(null);
+    loadedCountRef.current = 0;
+    if (studentId) {
       loadTestSets();
       loadProjects();
     }
-  }, [user, loadTestSets, loadProjects]);
+  }, [studentId, loadTestSets, loadProjects]);
+
+  // 他の端末・タブでの変更をそのまま反映する（テスト実施日の新しい順を保つ）
+  useEffect(() => {
+    if (!studentId) return;
+    return testRepository.subscribeWithChildren(studentId, (change) => {
+      setTestSets((prev) =>
+        applyPagedRecordChange(
+          prev,
+          change,
+          (record) => {
+            const cursor = nextCursorRef.current;
+            return !!cursor && testRepository.isAfterCursor(record, cursor);
+          },
+          (a, b) => b.date.localeCompare(a.date)
+        )
+      );
+      setSelectedSet((prev) => {
+        if (prev?.id !== (change.type === 'upsert' ? change.record.id : change.id)) return prev;
+        return change.type === 'upsert' ? change.record : null;
+      });
+    });
+  }, [studentId, testRepository]);
+
+  // 表示中のテストが別の端末で削除されたら一覧に戻る
+  useEffect(() => {
+    if (activeTab === 'detail' && !selectedSet) {
+      setActiveTab('list');
+    }
+  }, [activeTab, selectedSet]);
 
   const handleCreate = () => {
     setSelectedSet(null);
@@ -126,8 +242,8 @@ export const Tests: React.FC = () => {
     setShowModal(true);
   };
 
+  // 削除はゴミ箱へ（誤タップはトーストから元に戻せる）
   const handleDelete = async (testSet: TestSetWithScores) => {
-    if (!window.confirm('このテスト結果を削除しますか？')) return;
     const optimistic = testSets.filter((set) => set.id !== testSet.id);
     setTestSets(optimistic);
     if (selectedSet?.id === testSet.id) {
@@ -135,36 +251,79 @@ export const Tests: React.FC = () => {
       setActiveTab('list');
     }
     try {
-      await testRepository.deleteTestSet(testSet.id);
+      await testRepository.softDelete(testSet.id);
+      setUndoTarget({ id: testSet.id, message: 'テスト結果をゴミ箱に移しました' });
     } catch (error) {
       alert('削除に失敗しました。');
       loadTestSets();
     }
   };
 
-  const handleSave = async (
-    data: { date: string; name: string; grade?: string; memo?: string },
-    scores: Array<{
-      subject: string;
-      score: number;
-      average?: number;
-      maxScore?: number;
-      problemImages?: Attachment[];
-      answerImages?: Attachment[];
-    }>
-  ) => {
-    if (!user) return;
-    if (selectedSet) {
-      await testRepository.updateTestSet(selectedSet.id, data, scores);
-    } else {
-      await testRepository.createTestSet(user.id, data, scores);
+  const handleUndoDelete = async () => {
+    if (!undoTarget) return;
+    setUndoTarget(null);
+    try {
+      await testRepository.restore(undoTarget.id);
+    } catch (error) {
+      alert('元に戻せませんでした。ゴミ箱から戻してください。');
     }
+    loadTestSets();
+  };
+
+  const handleDismissUndo = useCallback(() => setUndoTarget(null), []);
+
+  const finishSave = () => {
     setShowModal(false);
     setSelectedSet(null);
     setActiveTab('list');
     loadTestSets();
   };
 
+  const handleSave = async (data: TestSetInput, scores: TestScoreInput[]) => {
+    if (!user || !studentId) return;
+    if (selectedSet) {
+      try {
+        await testRepository.updateTestSet(selectedSet.id, data, scores, {
+          expectedUpdatedAt: selectedSet.updatedAt,
+        });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          setConflict({ data, scores, theirs: error.remote as TestSetWithScores });
+          return;
+        }
+        alert('保存に失敗しました。');
+        return;
+      }
+    } else {
+      await testRepository.createTestSet(user.id, studentId, data, scores);
+    }
+    finishSave();
+  };
+
+  // 競合の解決: 相手の最新 updatedAt を前提に自分の内容で上書きする
+  const handleKeepMine = async () => {
+    if (!conflict) return;
+    try {
+      await testRepository.updateTestSet(conflict.theirs.id, conflict.data, conflict.scores, {
+        expectedUpdatedAt: conflict.theirs.updatedAt,
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setConflict({ ...conflict, theirs: error.remote as TestSetWithScores });
+        return;
+      }
+      alert('保存に失敗しました。');
+      return;
+    }
+    setConflict(null);
+    finishSave();
+  };
+
+  const handleKeepTheirs = () => {
+    setConflict(null);
+    finishSave();
+  };
+
   const selectedProjectName =
     selectedProject === 'all'
       ? null
@@ -190,9 +349,12 @@ export const Tests: React.FC = () => {
     <div className="tests-page">
       <header className="tests-header">
         <h1 className="tests-title">テスト結果</h1>
-        <button className="tests-add-button" onClick={handleCreate}>
-          + 追加
-        </button>
+        {editable && (
+          <button className="tests-add-button" onClick={handleCreate}>
+            + 追加
+          </button>
+        )}
+        {canEdit(role, 'tests') && locked && <PinUnlockButton />}
       </header>
 
       <div className="tests-filters">
@@ -228,13 +390,14 @@ export const Tests: React.FC = () => {
                       <div className="tests-item-meta">
                         {testSet.date}
                         {testSet.grade && <span className="tests-tags">{testSet.grade}</span>}
+                        <SyncBadge recordId={testSet.id} fieldLabels={TEST_HISTORY_LABELS} onResolved={loadTestSets} />
                       </div>
                     </div>
                     <div className="tests-item-actions">
                       <div className="tests-set-count">
                         {getFilteredScores(testSet.scores).length}教科
                       </div>
-                      {!isSubjectFiltered && (
+                      {editable && !isSubjectFiltered && (
                         <>
                           <button
                             type="button"
@@ -277,6 +440,7 @@ export const Tests: React.FC = () => {
               );
             })
           )}
+          <LoadMore hasMore={!!nextCursor} loading={loadingMore} onLoadMore={loadMoreTestSets} />
         </div>
       )}
 
@@ -295,20 +459,32 @@ export const Tests: React.FC = () => {
               </h2>
               {!isSubjectFiltered && (
                 <div className="tests-detail-actions">
+                  {editable && (
+                    <button
+                      type="button"
+                      className="tests-edit-button"
+                      onClick={() => handleEdit(selectedSet)}
+                    >
+                      編集
+                    </button>
+                  )}
                   <button
                     type="button"
                     className="tests-edit-button"
-                    onClick={() => handleEdit(selectedSet)}
-                  >
-                    編集
-                  </button>
-                  <button
-                    type="button"
-                    className="tests-delete-button"
-                    onClick={() => handleDelete(selectedSet)}
+                    onClick={() => setIsHistoryOpen(true)}
+                    aria-label="変更履歴を見る"
                   >
-                    削除
+                    履歴
                   </button>
+                  {editable && (
+                    <button
+                      type="button"
+                      className="tests-delete-button"
+                      onClick={() => handleDelete(selectedSet)}
+                    >
+                      削除
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -399,6 +575,42 @@ export const Tests: React.FC = () => {
           onClose={() => setViewerImage(null)}
         />
       )}
+
+      {undoTarget && (
+        <UndoToast
+          message={undoTarget.message}
+          onUndo={handleUndoDelete}
+          onDismiss={handleDismissUndo}
+        />
+      )}
+
+      {isHistoryOpen && selectedSet && (
+        <HistoryDialog
+          title={`${selectedSet.name}の変更履歴`}
+          load={() => testRepository.findHistory(selectedSet.id)}
+          fieldLabels={TEST_HISTORY_LABELS}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          title="テスト結果が別の端末で変更されています"
+          fields={[
+            { label: 'テスト名', mine: conflict.data.name, theirs: conflict.theirs.name },
+            { label: '実施日', mine: conflict.data.date, theirs: conflict.theirs.date },
+            { label: 'メモ', mine: conflict.data.memo || '', theirs: conflict.theirs.memo || '' },
+            {
+              label: '点数',
+              mine: describeScores(conflict.scores),
+              theirs: describeScores(conflict.theirs.scores),
+            },
+          ]}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 };
@@ -406,17 +618,7 @@ export const Tests: React.FC = () => {
 interface TestModalProps {
   testSet: TestSetWithScores | null;
   projects: Project[];
-  onSave: (
-    data: { date: string; name: string; grade?: string; memo?: string },
-    scores: Array<{
-      subject: string;
-      score: number;
-      average?: number;
-      maxScore?: number;
-      problemImages?: Attachment[];
-      answerImages?: Attachment[];
-    }>
-  ) => void;
+  onSave: (data: TestSetInput, scores: TestScoreInput[]) => void;
   onClose: () => void;
 }
 
@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useStudent } from '../contexts/StudentContext';
+import { TrashService, TRASH_RETENTION_DAYS } from '../services';
+import { TrashItem, TrashKind } from '../types';
+import './Trash.css';
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  homework: '宿題',
+  testSet: 'テスト',
+  lessonRecord: '授業記録',
+};
+
+const itemKey = (item: TrashItem) => `${item.kind}:${item.id}`;
+
+export const Trash: React.FC = () => {
+  const { activeStudent } = useStudent();
+  const studentId = activeStudent?.id;
+  const navigate = useNavigate();
+  const trashService = useMemo(() => new TrashService(), []);
+
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    if (!studentId) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      // Supabase未設定時は、期限切れのものを開いたタイミングで片付ける（利用時はサーバーが毎日削除する）
+      await trashService.purgeExpired(studentId);
+      setItems(await trashService.findTrash(studentId));
+    } catch (error) {
+      console.error('[Trash] 読み込みエラー:', error);
+      setMessage({ type: 'error', text: 'ゴミ箱を読み込めませんでした' });
+    } finally {
+      setLoading(false);
+    }
+  }, [studentId, trashService]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyKey(itemKey(item));
+    setMessage(null);
+    try {
+      await trashService.restore(item.kind, item.id);
+      setItems((prev) => prev.filter((i) => itemKey(i) !== itemKey(item)));
+      setMessage({ type: 'success', text: `「${item.title}」を元に戻しました` });
+    } catch (error) {
+      console.error('[Trash] 復元エラー:', error);
+      setMessage({ type: 'error', text: '元に戻せませんでした。もう一度試してね' });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`「${item.title}」を完全に削除しますか？\nこの操作は取り消せません。`)) return;
+    setBusyKey(itemKey(item));
+    setMessage(null);
+    try {
+      await trashService.purge(item.kind, item.id);
+      setItems((prev) => prev.filter((i) => itemKey(i) !== itemKey(item)));
+    } catch (error) {
+      console.error('[Trash] 完全削除エラー:', error);
+      setMessage({ type: 'error', text: '削除に失敗しました。もう一度試してね' });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="trash-page">
+      <header className="trash-header">
+        <button
+          type="button"
+          className="trash-back"
+          onClick={() => navigate('/app/settings')}
+          aria-label="設定に戻る"
+        >
+          <span aria-hidden="true">←</span>
+        </button>
+        <h1 className="trash-title">ゴミ箱</h1>
+      </header>
+
+      <p className="trash-description">
+        削除した宿題・テスト・授業記録は{TRASH_RETENTION_DAYS}日間ここに残り、そのあと自動で消えます。
+      </p>
+
+      {message && (
+        <p
+          className={`trash-message trash-message-${message.type}`}
+          role={message.type === 'error' ? 'alert' : 'status'}
+        >
+          {message.text}
+        </p>
+      )}
+
+      {loading ? (
+        <p className="trash-empty">読み込み中...</p>
+      ) : items.length === 0 ? (
+        <p className="trash-empty">ゴミ箱は空です</p>
+      ) : (
+        <ul className="trash-list">
+          {items.map((item) => {
+            const busy = busyKey === itemKey(item);
+            return (
+              <li key={itemKey(item)} className="trash-item">
+                <div className="trash-item-info">
+                  <span className="trash-item-kind">{KIND_LABELS[item.kind]}</span>
+                  <span className="trash-item-title">{item.title}</span>
+                  <span className="trash-item-remaining">
+                    あと{trashService.daysUntilPurge(item)}日で完全に削除
+                  </span>
+                </div>
+                <div className="trash-item-actions">
+                  <button
+                    type="button"
+                    className="trash-button trash-button-primary"
+                    onClick={() => handleRestore(item)}
+                    disabled={busy}
+                    aria-label={`${item.title}を元に戻す`}
+                  >
+                    元に戻す
+                  </button>
+                  <button
+                    type="button"
+                    className="trash-button trash-button-danger"
+                    onClick={() => handlePurge(item)}
+                    disabled={busy}
+                    aria-label={`${item.title}を完全に削除`}
+                  >
+                    完全に削除
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
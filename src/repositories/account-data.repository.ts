@@ -0,0 +1,108 @@
+import { LocalCache } from './local-cache';
+import { InviteRepository } from './invite.repository';
+import { OutboxRepository } from './outbox.repository';
+import { PinLockRepository } from './pin-lock.repository';
+import { RelationshipRepository } from './relationship.repository';
+import { UserRepository } from './user.repository';
+import {
+  AccountDeletionCounts,
+  Homework,
+  LessonRecord,
+  Message,
+  Project,
+  RecordHistoryEntry,
+  Student,
+  TestScore,
+  TestSet,
+  Thread,
+} from '../types';
+
+type StudentScoped = { id: string; userId: string; studentId?: string };
+
+/**
+ * アカウント削除の端末側
+ * Supabase利用時はサーバー（delete-account）で消した後の後片付け、モック認証時はこれが削除そのもの
+ * 消す範囲は delete-account と同じ（自分が作った行・本人と自分が登録した生徒の行）
+ */
+export class AccountDataRepository {
+  private students = new LocalCache<Student>('students');
+  private projects = new LocalCache<Project>('projects');
+  private threads = new LocalCache<Thread>('threads');
+  private messages = new LocalCache<Message>('messages');
+  private homework = new LocalCache<Homework>('homework');
+  private testSets = new LocalCache<TestSet>('test_sets');
+  private testScores = new LocalCache<TestScore>('test_scores');
+  private lessonRecords = new LocalCache<LessonRecord>('lesson_records');
+  private recordHistory = new LocalCache<RecordHistoryEntry>('record_history');
+  private relationshipRepository = new RelationshipRepository();
+  private inviteRepository = new InviteRepository();
+  private outboxRepository = new OutboxRepository();
+  private pinLockRepository = new PinLockRepository();
+  private userRepository = new UserRepository();
+
+  async purgeLocal(userId: string): Promise<Omit<AccountDeletionCounts, 'storageObjects'>> {
+    // 他のアカウントがログインに使っている生徒は、そのアカウントに引き継ぐ
+    const studentIds = new Set<string>();
+    const handedOver: Student[] = [];
+    for (const student of await this.students.all()) {
+      if (student.ownerId !== userId && student.accountId !== userId) continue;
+      if (student.accountId && student.accountId !== userId) {
+        handedOver.push({ ...student, ownerId: student.accountId });
+      } else {
+        studentIds.add(student.id);
+      }
+    }
+    await this.students.putMany(handedOver);
+
+    const owned = <T extends StudentScoped>(item: T) =>
+      item.userId === userId || (!!item.studentId && studentIds.has(item.studentId));
+
+    const testSets = (await this.testSets.all()).filter(owned);
+    const testSetIds = new Set(testSets.map((item) => item.id));
+    const testScores = (await this.testScores.all()).filter((item) => testSetIds.has(item.testSetId));
+
+    const projects = (await this.projects.all()).filter(owned);
+    const projectIds = new Set(projects.map((item) => item.id));
+    const threads = (await this.threads.all()).filter(
+      (item) => item.userId === userId || projectIds.has(item.projectId)
+    );
+    const threadIds = new Set(threads.map((item) => item.id));
+    const messages = (await this.messages.all()).filter((item) => threadIds.has(item.threadId));
+
+    const homework = (await this.homework.all()).filter(owned);
+    const lessonRecords = (await this.lessonRecords.all()).filter(owned);
+    const recordHistory = (await this.recordHistory.all()).filter(
+      (item) => item.userId === userId || studentIds.has(item.userId)
+    );
+
+    await this.testScores.removeMany(testScores.map((item) => item.id));
+    await this.testSets.removeMany(testSets.map((item) => item.id));
+    await this.messages.removeMany(messages.map((item) => item.id));
+    await this.threads.removeMany(threads.map((item) => item.id));
+    await this.homework.removeMany(homework.map((item) => item.id));
+    await this.lessonRecords.removeMany(lessonRecords.map((item) => item.id));
+    await this.projects.removeMany(projects.map((item) => item.id));
+    await this.recordHistory.removeMany(recordHistory.map((item) => item.id));
+    await this.students.removeMany([...studentIds]);
+
+    const relationships = this.relationshipRepository.deleteLocalByAccount(userId, studentIds);
+    const inviteCodes = this.inviteRepository.deleteLocalByAccount(userId, studentIds);
+    this.outboxRepository.clear();
+    this.pinLockRepository.remove(userId);
+    this.userRepository.removeUser(userId);
+
+    return {
+      projects: projects.length,
+      threads: threads.length,
+      messages: messages.length,
+      homework: homework.length,
+      testSets: testSets.length,
+      testScores: testScores.length,
+      lessonRecords: lessonRecords.length,
+      recordHistory: recordHistory.length,
+      students: studentIds.size,
+      relationships,
+      inviteCodes,
+    };
+  }
+}
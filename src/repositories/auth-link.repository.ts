@@ -0,0 +1,39 @@
+import { BaseRepository } from './base.repository';
+import { AuthLink, AuthLinkPurpose } from '../types';
+
+/** リンクの有効期限（Supabase のメールリンクの既定と同じ1時間） */
+const AUTH_LINK_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * モック認証時のメールリンク（パスワード再設定・マジックリンク・確認）
+ * Supabase利用時は Supabase Auth がメールを送るので使わない
+ */
+export class AuthLinkRepository extends BaseRepository<AuthLink> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_auth_links';
+  }
+
+  issue(email: string, purpose: AuthLinkPurpose): AuthLink {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    const token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return this.create({
+      token,
+      email,
+      purpose,
+      expiresAt: new Date(Date.now() + AUTH_LINK_TTL_MS).toISOString(),
+    });
+  }
+
+  /**
+   * リンクを使う（1回限り）。期限切れ・用途違いは null
+   */
+  consume(token: string, purposes: AuthLinkPurpose[]): AuthLink | null {
+    const link = this.getAll().find((item) => item.token === token);
+    if (!link) return null;
+    this.delete(link.id);
+    if (!purposes.includes(link.purpose) || new Date(link.expiresAt).getTime() <= Date.now()) {
+      return null;
+    }
+    return link;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * 楽観的排他制御の競合エラー
+ * 読み込んだ時点の updatedAt と保存先の updatedAt が食い違った場合に投げる
+ * （別の端末が先に同じレコードを更新した）
+ */
+export class ConflictError<T> extends Error {
+  /** 自分が保存しようとした変更 */
+  readonly local: Partial<T>;
+  /** 保存先にある最新のレコード */
+  readonly remote: T;
+
+  constructor(entityName: string, local: Partial<T>, remote: T) {
+    super(`${entityName} は別の端末で更新されています`);
+    this.name = 'ConflictError';
+    this.local = local;
+    this.remote = remote;
+  }
+}
+
+/**
+ * updatedAt が同じ時刻を指しているか
+ * Supabase は "+00:00"、フロントは "Z" で返すため文字列ではなく時刻で比較する
+ */
+export function isSameTimestamp(a?: string, b?: string): boolean {
+  if (!a || !b) return a === b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
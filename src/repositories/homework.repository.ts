@@ -1,20 +1,35 @@
-import { SupabaseBaseRepository } from './supabase-base.repository';
-import { Homework } from '../types';
+import { ListOrder, ListScope, SupabaseBaseRepository } from './supabase-base.repository';
+import { Homework, LocalEntityName, Page, PageRequest, UpdateOptions } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 
 export class HomeworkRepository extends SupabaseBaseRepository<Homework> {
-  protected getTableName(): string {
+  protected getTableName(): LocalEntityName {
     return 'homework';
   }
 
-  protected getStorageKey(): string {
-    return 'tutor_ai_homework';
+  protected usesSoftDelete(): boolean {
+    return true;
+  }
+
+  protected tracksHistory(): boolean {
+    return true;
+  }
+
+  // 生徒ごとに一覧する
+  protected getListScope(): ListScope {
+    return { column: 'student_id', field: 'studentId' };
+  }
+
+  // 出された日の新しい順（タイムライン表示の順）
+  protected getListOrder(): ListOrder {
+    return { column: 'assigned_at', field: 'assignedAt', ascending: false };
   }
 
   protected mapSingleFromSupabase(data: any): Homework {
     return {
       id: data.id,
       userId: data.user_id,
+      studentId: data.student_id ?? data.user_id,
       projectId: data.project_id,
       title: data.title,
       detail: data.detail || '',
@@ -24,6 +39,7 @@ export class HomeworkRepository extends SupabaseBaseRepository<Homework> {
       attachments: data.attachments,
       createdAt: data.created_at,
       updatedAt: data.updated_at || data.created_at,
+      deletedAt: data.deleted_at ?? undefined,
     };
   }
 
@@ -31,6 +47,7 @@ export class HomeworkRepository extends SupabaseBaseRepository<Homework> {
     const result: any = {};
     if (item.id !== undefined) result.id = item.id;
     if (item.userId !== undefined) result.user_id = item.userId;
+    if (item.studentId !== undefined) result.student_id = item.studentId;
     if (item.projectId !== undefined) result.project_id = item.projectId;
     if (item.title !== undefined) result.title = item.title;
     if (item.detail !== undefined) result.detail = item.detail;
@@ -40,32 +57,38 @@ export class HomeworkRepository extends SupabaseBaseRepository<Homework> {
     if (item.attachments !== undefined) result.attachments = item.attachments;
     if (item.createdAt !== undefined) result.created_at = item.createdAt;
     if (item.updatedAt !== undefined) result.updated_at = item.updatedAt;
+    if ('deletedAt' in item) result.deleted_at = item.deletedAt ?? null;
     return result;
   }
 
-  async findByUserId(userId: string): Promise<Homework[]> {
-    return this.findAll(userId);
+  async findByStudentId(studentId: string): Promise<Homework[]> {
+    return this.findAll(studentId);
+  }
+
+  async findPageByStudentId(studentId: string, request: PageRequest = {}): Promise<Page<Homework>> {
+    return this.findPage(studentId, request);
   }
 
-  async findByStatus(userId: string, status: 'todo' | 'done'): Promise<Homework[]> {
-    if (isSupabaseConfigured() && supabase) {
+  async findByStatus(studentId: string, status: 'todo' | 'done'): Promise<Homework[]> {
+    if (isSupabaseConfigured() && supabase && (await this.hasSupabaseSession())) {
       const { data, error } = await supabase
         .from(this.getTableName())
         .select('*')
-        .eq('user_id', userId)
+        .eq('student_id', studentId)
         .eq('status', status)
+        .is('deleted_at', null)
         .order('due_date', { ascending: true });
 
       if (error) {
         console.error('Error fetching homework by status:', error);
-        return this.getFromLocalStorage().filter(
-          (h) => h.userId === userId && h.status === status
+        return this.visibleItems(await this.local.findBy('studentId', studentId)).filter(
+          (h) => h.status === status
         );
       }
       return this.mapFromSupabase(data || []);
     }
-    return this.getFromLocalStorage().filter(
-      (h) => h.userId === userId && h.status === status
+    return this.visibleItems(await this.local.findBy('studentId', studentId)).filter(
+      (h) => h.status === status
     );
   }
 
@@ -84,8 +107,12 @@ export class HomeworkRepository extends SupabaseBaseRepository<Homework> {
     } as Partial<Homework>);
   }
 
-  async updateHomework(id: string, updates: Partial<Homework>): Promise<Homework | null> {
-    return this.update(id, updates);
+  async updateHomework(
+    id: string,
+    updates: Partial<Homework>,
+    options: UpdateOptions = {}
+  ): Promise<Homework | null> {
+    return this.update(id, updates, options);
   }
 
   async deleteHomework(id: string): Promise<boolean> {
@@ -1,5 +1,9 @@
-export { SupabaseBaseRepository } from './supabase-base.repository';
+export { SupabaseBaseRepository, DEFAULT_PAGE_SIZE } from './supabase-base.repository';
+export { SupabaseAggregateRepository } from './supabase-aggregate.repository';
 export { UserRepository } from './user.repository';
+export { AuthLinkRepository } from './auth-link.repository';
+export { PinLockRepository } from './pin-lock.repository';
+export { AccountDataRepository } from './account-data.repository';
 export { ProjectRepository } from './project.repository';
 export { ThreadRepository } from './thread.repository';
 export { MessageRepository } from './message.repository';
@@ -7,4 +11,13 @@ export { HomeworkRepository } from './homework.repository';
 export { TestResultRepository } from './test-result.repository';
 export { TestSetRepository } from './test-set.repository';
 export { LessonRecordRepository } from './lesson-record.repository';
+export { RecordHistoryRepository } from './record-history.repository';
+export { ProfileRepository, isUserRole } from './profile.repository';
+export { RelationshipRepository } from './relationship.repository';
+export { InviteRepository, INVITE_CODE_TTL_HOURS } from './invite.repository';
+export { TutorRepository } from './tutor.repository';
+export { PromptTemplateRepository } from './prompt-template.repository';
+export { StudentRepository } from './student.repository';
 
+export { OutboxRepository, groupOf as outboxGroupOf } from './outbox.repository';
+export { ConflictError, isSameTimestamp } from './errors';
@@ -0,0 +1,136 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { BaseRepository } from './base.repository';
+import { InviteCode, RelationshipKind } from '../types';
+
+/** 紛らわしい文字（I / O / 0 / 1）を除いた32文字（generate_invite_code と同じ） */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+/** 有効期限（invite_codes.expires_at の既定値と同じ） */
+export const INVITE_CODE_TTL_HOURS = 24;
+
+/** モック認証時の保存先（localStorage） */
+class LocalInviteStore extends BaseRepository<InviteCode> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_invite_codes';
+  }
+
+  all(): InviteCode[] {
+    return this.getAll();
+  }
+
+  add(item: Omit<InviteCode, 'id' | 'createdAt'>): InviteCode {
+    return this.create(item);
+  }
+
+  markUsed(id: string, usedBy: string): InviteCode | null {
+    return this.update(id, { usedAt: new Date().toISOString(), usedBy });
+  }
+
+  remove(id: string): boolean {
+    return this.delete(id);
+  }
+
+  removeWhere(predicate: (item: InviteCode) => boolean): number {
+    const items = this.getAll();
+    const kept = items.filter((item) => !predicate(item));
+    this.saveAll(kept);
+    return items.length - kept.length;
+  }
+}
+
+/**
+ * 招待コード
+ * Supabase利用時はコードと有効期限をDBが決める。使う処理は Edge Function（redeem-invite）が行う
+ */
+export class InviteRepository {
+  private local = new LocalInviteStore();
+
+  async create(studentId: string, createdBy: string, kind: RelationshipKind): Promise<InviteCode> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('invite_codes')
+        .insert({ student_id: studentId, created_by: createdBy, kind })
+        .select('*')
+        .single();
+      if (error || !data) {
+        throw new Error(`招待コードの発行に失敗しました: ${error?.message}`);
+      }
+      return this.mapFromSupabase(data);
+    }
+    return this.local.add({
+      code: this.generateCode(),
+      studentId,
+      kind,
+      createdBy,
+      expiresAt: new Date(Date.now() + INVITE_CODE_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  /** 生徒の、まだ使える招待コード（新しい順） */
+  async findActiveByStudent(studentId: string): Promise<InviteCode[]> {
+    const now = new Date().toISOString();
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('invite_codes')
+        .select('*')
+        .eq('student_id', studentId)
+        .is('used_at', null)
+        .gt('expires_at', now)
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error('[InviteRepository] find error:', error.message, error.code);
+        return [];
+      }
+      return (data || []).map((row: any) => this.mapFromSupabase(row));
+    }
+    return this.local
+      .all()
+      .filter((item) => item.studentId === studentId && !item.usedAt && item.expiresAt > now)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (isSupabaseConfigured() && supabase) {
+      const { error } = await supabase.from('invite_codes').delete().eq('id', id);
+      if (error) {
+        throw new Error(`招待コードの取り消しに失敗しました: ${error.message}`);
+      }
+      return true;
+    }
+    return this.local.remove(id);
+  }
+
+  /** モック認証時のみ（Supabase利用時は redeem-invite が確認する） */
+  findLocalByCode(code: string): InviteCode | undefined {
+    return this.local.all().find((item) => item.code === code);
+  }
+
+  /** モック認証時のみ */
+  markLocalUsed(id: string, usedBy: string): InviteCode | null {
+    return this.local.markUsed(id, usedBy);
+  }
+
+  /** アカウント削除: 端末内の招待コードを消す */
+  deleteLocalByAccount(userId: string, studentIds: Set<string>): number {
+    return this.local.removeWhere((item) => item.createdBy === userId || studentIds.has(item.studentId));
+  }
+
+  private generateCode(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+    return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  }
+
+  private mapFromSupabase(data: any): InviteCode {
+    return {
+      id: data.id,
+      code: data.code,
+      studentId: data.student_id,
+      kind: data.kind,
+      createdBy: data.created_by,
+      expiresAt: data.expires_at,
+      usedAt: data.used_at ?? undefined,
+      usedBy: data.used_by ?? undefined,
+      createdAt: data.created_at,
+    };
+  }
+}
@@ -1,187 +1,35 @@
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import { LessonRecord } from '../types';
-import { generateId } from '../utils/id';
+import { supabase } from '../lib/supabase';
+import { LessonRecord, LocalEntityName, Page, PageRequest } from '../types';
+import { ListOrder, ListScope, SupabaseBaseRepository } from './supabase-base.repository';
 
-const STORAGE_KEY = 'tutor_ai_lesson_records';
-
-export class LessonRecordRepository {
-  // Supabaseセッションが有効かチェック
-  private async hasValidSession(): Promise<boolean> {
-    if (!isSupabaseConfigured() || !supabase) return false;
-    try {
-      const { data } = await supabase.auth.getSession();
-      return !!data.session?.user;
-    } catch {
-      return false;
-    }
-  }
-
-  async findByUserId(userId: string): Promise<LessonRecord[]> {
-    const localRecords = this.getLocal().filter(r => r.userId === userId)
-      .sort((a, b) => b.date.localeCompare(a.date));
-
-    if (await this.hasValidSession()) {
-      const { data, error } = await supabase!
-        .from('lesson_records')
-        .select('*')
-        .eq('user_id', userId)
-        .order('date', { ascending: false });
-
-      if (error) {
-        console.error('[LessonRecordRepository] findByUserId error:', error.message, error.code);
-        return localRecords;
-      }
-
-      console.log('[LessonRecordRepository] findByUserId success:', data?.length || 0, '件');
-      return (data || []).map((item) => this.mapFromSupabase(item));
-    }
-
-    // LocalStorageフォールバック
-    console.log('[LessonRecordRepository] LocalStorageフォールバック使用');
-    return localRecords;
+export class LessonRecordRepository extends SupabaseBaseRepository<LessonRecord> {
+  protected getTableName(): LocalEntityName {
+    return 'lesson_records';
   }
 
-  async findById(id: string): Promise<LessonRecord | null> {
-    if (await this.hasValidSession()) {
-      const { data, error } = await supabase!
-        .from('lesson_records')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error || !data) return null;
-      return this.mapFromSupabase(data);
-    }
-
-    // LocalStorageフォールバック
-    return this.getLocal().find(r => r.id === id) || null;
-  }
-
-  async findByDate(userId: string, date: string): Promise<LessonRecord | null> {
-    if (await this.hasValidSession()) {
-      const { data, error } = await supabase!
-        .from('lesson_records')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('date', date)
-        .single();
-
-      if (error || !data) return null;
-      return this.mapFromSupabase(data);
-    }
-
-    // LocalStorageフォールバック
-    return this.getLocal().find(r => r.userId === userId && r.date === date) || null;
+  protected usesSoftDelete(): boolean {
+    return true;
   }
 
-  async create(
-    userId: string,
-    data: {
-      date: string;
-      duration: number;
-      startTime?: string;
-      endTime?: string;
-      content: string;
-      memo?: string;
-    }
-  ): Promise<LessonRecord> {
-    const now = new Date().toISOString();
-
-    if (await this.hasValidSession()) {
-      const { data: records, error } = await supabase!
-        .from('lesson_records')
-        .insert({
-          user_id: userId,
-          date: data.date,
-          duration: data.duration,
-          start_time: data.startTime || null,
-          end_time: data.endTime || null,
-          content: data.content,
-          memo: data.memo,
-        })
-        .select();
-
-      if (!error && records && records.length > 0) {
-        console.log('[LessonRecordRepository] create success:', records[0].id);
-        return this.mapFromSupabase(records[0]);
-      }
-      console.error('[LessonRecordRepository] create error:', error?.message, error?.code);
-      // エラーをスローして呼び出し元に通知
-      throw new Error(error?.message || '保存に失敗しました');
-    }
-
-    // LocalStorageフォールバック
-    console.log('[LessonRecordRepository] createLocal フォールバック');
-    return this.createLocal(userId, data, now);
+  protected tracksHistory(): boolean {
+    return true;
   }
 
-  async update(
-    id: string,
-    data: {
-      date: string;
-      duration: number;
-      startTime?: string;
-      endTime?: string;
-      content: string;
-      memo?: string;
-    }
-  ): Promise<LessonRecord | null> {
-    const now = new Date().toISOString();
-
-    if (await this.hasValidSession()) {
-      const { data: records, error } = await supabase!
-        .from('lesson_records')
-        .update({
-          date: data.date,
-          duration: data.duration,
-          start_time: data.startTime || null,
-          end_time: data.endTime || null,
-          content: data.content,
-          memo: data.memo,
-          updated_at: now,
-        })
-        .eq('id', id)
-        .select();
-
-      if (!error && records && records.length > 0) {
-        console.log('[LessonRecordRepository] update success:', id);
-        return this.mapFromSupabase(records[0]);
-      }
-      console.error('[LessonRecordRepository] update error:', error?.message, error?.code);
-      throw new Error(error?.message || '更新に失敗しました');
-    }
-
-    // LocalStorageフォールバック
-    console.log('[LessonRecordRepository] updateLocal フォールバック');
-    return this.updateLocal(id, data, now);
+  // 生徒ごとに一覧する
+  protected getListScope(): ListScope {
+    return { column: 'student_id', field: 'studentId' };
   }
 
-  async delete(id: string): Promise<void> {
-    if (await this.hasValidSession()) {
-      const { error } = await supabase!
-        .from('lesson_records')
-        .delete()
-        .eq('id', id);
-
-      if (error) {
-        console.error('[LessonRecordRepository] delete error:', error.message, error.code);
-        throw new Error(error.message || '削除に失敗しました');
-      }
-      console.log('[LessonRecordRepository] delete success:', id);
-      return;
-    }
-
-    // LocalStorageフォールバック
-    console.log('[LessonRecordRepository] deleteLocal フォールバック');
-    this.deleteLocal(id);
+  // 授業日の新しい順
+  protected getListOrder(): ListOrder {
+    return { column: 'date', field: 'date', ascending: false };
   }
 
-  // ========== Mapping Helpers ==========
-
-  private mapFromSupabase(data: any): LessonRecord {
+  protected mapSingleFromSupabase(data: any): LessonRecord {
     return {
       id: data.id,
       userId: data.user_id,
+      studentId: data.student_id ?? data.user_id,
       date: data.date,
       duration: data.duration,
       startTime: data.start_time ? this.formatTimeFromDB(data.start_time) : undefined,
@@ -190,85 +38,64 @@ export class LessonRecordRepository {
       memo: data.memo,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
+      deletedAt: data.deleted_at ?? undefined,
     };
   }
 
-  // DBのtime型（HH:MM:SS）をHH:MM形式に変換
-  private formatTimeFromDB(time: string): string {
-    // "18:00:00" -> "18:00"
-    return time.substring(0, 5);
-  }
-
-  // ========== LocalStorage Helpers ==========
-
-  private getLocal(): LessonRecord[] {
-    try {
-      const data = localStorage.getItem(STORAGE_KEY);
-      return data ? JSON.parse(data) : [];
-    } catch {
-      return [];
-    }
+  protected mapToSupabase(record: Partial<LessonRecord>): any {
+    const result: any = {};
+    if (record.id !== undefined) result.id = record.id;
+    if (record.userId !== undefined) result.user_id = record.userId;
+    if (record.studentId !== undefined) result.student_id = record.studentId;
+    if (record.date !== undefined) result.date = record.date;
+    if (record.duration !== undefined) result.duration = record.duration;
+    if ('startTime' in record) result.start_time = record.startTime || null;
+    if ('endTime' in record) result.end_time = record.endTime || null;
+    if (record.content !== undefined) result.content = record.content;
+    if ('memo' in record) result.memo = record.memo;
+    if (record.createdAt !== undefined) result.created_at = record.createdAt;
+    if (record.updatedAt !== undefined) result.updated_at = record.updatedAt;
+    if ('deletedAt' in record) result.deleted_at = record.deletedAt ?? null;
+    return result;
   }
 
-  private saveLocal(records: LessonRecord[]): void {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  async findByStudentId(studentId: string): Promise<LessonRecord[]> {
+    return this.findAll(studentId);
   }
 
-  private createLocal(
-    userId: string,
-    data: { date: string; duration: number; startTime?: string; endTime?: string; content: string; memo?: string },
-    now: string
-  ): LessonRecord {
-    const newRecord: LessonRecord = {
-      id: generateId(),
-      userId,
-      date: data.date,
-      duration: data.duration,
-      startTime: data.startTime,
-      endTime: data.endTime,
-      content: data.content,
-      memo: data.memo,
-      createdAt: now,
-    };
-
-    const records = this.getLocal();
-    records.push(newRecord);
-    this.saveLocal(records);
-
-    return newRecord;
+  async findPageByStudentId(
+    studentId: string,
+    request: PageRequest = {}
+  ): Promise<Page<LessonRecord>> {
+    return this.findPage(studentId, request);
   }
 
-  private updateLocal(
-    id: string,
-    data: { date: string; duration: number; startTime?: string; endTime?: string; content: string; memo?: string },
-    now: string
-  ): LessonRecord | null {
-    const records = this.getLocal();
-    const index = records.findIndex(r => r.id === id);
-    if (index === -1) return null;
+  async findByDate(studentId: string, date: string): Promise<LessonRecord | null> {
+    if (supabase && (await this.hasSupabaseSession())) {
+      const { data, error } = await supabase
+        .from(this.getTableName())
+        .select('*')
+        .eq('student_id', studentId)
+        .eq('date', date)
+        .is('deleted_at', null)
+        .maybeSingle();
 
-    records[index] = {
-      ...records[index],
-      date: data.date,
-      duration: data.duration,
-      startTime: data.startTime,
-      endTime: data.endTime,
-      content: data.content,
-      memo: data.memo,
-      updatedAt: now,
-    };
-    this.saveLocal(records);
+      if (!error) {
+        return data ? this.mapSingleFromSupabase(data) : null;
+      }
+      console.error('[LessonRecordRepository] findByDate error:', error.message, error.code);
+    }
 
-    return records[index];
+    // ローカルフォールバック
+    return (
+      this.visibleItems(await this.local.findBy('date', date)).find((r) => r.studentId === studentId) ||
+      null
+    );
   }
 
-  private deleteLocal(id: string): void {
-    const records = this.getLocal().filter(r => r.id !== id);
-    this.saveLocal(records);
+  // DBのtime型（HH:MM:SS）をHH:MM形式に変換
+  private formatTimeFromDB(time: string): string {
+    // "18:00:00" -> "18:00"
+    return time.substring(0, 5);
   }
 }
-
-
-
-
-
@@ -0,0 +1,57 @@
+import { getLocalStore, notifyLocalChange } from '../lib/local-store';
+import { LocalEntityName, LocalIndexName } from '../types';
+
+/**
+ * リポジトリ共通のローカルキャッシュ
+ * 保存先（IndexedDB / localStorage）は getLocalStore() が決める
+ * 書き込みは他のタブに通知する（subscribeLocalChanges）
+ */
+export class LocalCache<T extends { id: string }> {
+  constructor(private entity: LocalEntityName) {}
+
+  async all(): Promise<T[]> {
+    const store = await getLocalStore();
+    return store.getAll<T>(this.entity);
+  }
+
+  async findBy(index: LocalIndexName, value: string): Promise<T[]> {
+    const store = await getLocalStore();
+    return store.getAllByIndex<T>(this.entity, index, value);
+  }
+
+  async get(id: string): Promise<T | null> {
+    const store = await getLocalStore();
+    return (await store.get<T>(this.entity, id)) ?? null;
+  }
+
+  async put(item: T): Promise<void> {
+    await this.putMany([item]);
+  }
+
+  async putMany(items: T[]): Promise<void> {
+    const store = await getLocalStore();
+    await store.putMany(this.entity, items);
+    notifyLocalChange({ entity: this.entity, type: 'upsert', ids: items.map((item) => item.id) });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.removeMany([id]);
+  }
+
+  async removeMany(ids: string[]): Promise<void> {
+    const store = await getLocalStore();
+    await store.deleteMany(this.entity, ids);
+    notifyLocalChange({ entity: this.entity, type: 'delete', ids });
+  }
+
+  /**
+   * 範囲内（例: あるユーザーの行）をまとめて置き換える
+   * items に含まれない既存の行は削除する
+   */
+  async replaceScope(index: LocalIndexName, value: string, items: T[]): Promise<void> {
+    const keep = new Set(items.map((item) => item.id));
+    const stale = (await this.findBy(index, value)).filter((item) => !keep.has(item.id));
+    await this.removeMany(stale.map((item) => item.id));
+    await this.putMany(items);
+  }
+}
@@ -1,17 +1,13 @@
 import { SupabaseBaseRepository } from './supabase-base.repository';
-import { Message, Attachment } from '../types';
+import { Message, Attachment, LocalEntityName } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { isValidUuid } from '../utils/uuid';
 
 export class MessageRepository extends SupabaseBaseRepository<Message> {
-  protected getTableName(): string {
+  protected getTableName(): LocalEntityName {
     return 'messages';
   }
 
-  protected getStorageKey(): string {
-    return 'tutor_ai_messages';
-  }
-
   protected mapSingleFromSupabase(data: any): Message {
     // attachmentsはJSONBカラムなのでそのまま使える
     let attachments: Attachment[] | undefined;
@@ -48,9 +44,7 @@ export class MessageRepository extends SupabaseBaseRepository<Message> {
 
   async findByThreadId(threadId: string): Promise<Message[]> {
     if (!isValidUuid(threadId)) {
-      return this.getFromLocalStorage()
-        .filter((m) => m.threadId === threadId)
-        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      return this.findLocalByThreadId(threadId);
     }
     if (isSupabaseConfigured() && supabase) {
       const { data, error } = await supabase
@@ -61,15 +55,17 @@ export class MessageRepository extends SupabaseBaseRepository<Message> {
 
       if (error) {
         console.error('Error fetching messages:', error);
-        return this.getFromLocalStorage()
-          .filter((m) => m.threadId === threadId)
-          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        return this.findLocalByThreadId(threadId);
       }
       return this.mapFromSupabase(data || []);
     }
-    return this.getFromLocalStorage()
-      .filter((m) => m.threadId === threadId)
-      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    return this.findLocalByThreadId(threadId);
+  }
+
+  private async findLocalByThreadId(threadId: string): Promise<Message[]> {
+    return (await this.local.findBy('threadId', threadId)).sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
   }
 
   async createMessage(message: Message | Omit<Message, 'id' | 'createdAt'>): Promise<Message> {
@@ -107,16 +103,19 @@ export class MessageRepository extends SupabaseBaseRepository<Message> {
     return this.findAll(userId);
   }
 
+  private async searchLocal(userId: string, lowerQuery: string): Promise<Message[]> {
+    return (await this.local.findBy('userId', userId)).filter(
+      (m) =>
+        m.content.toLowerCase().includes(lowerQuery) ||
+        m.tags?.toLowerCase().includes(lowerQuery)
+    );
+  }
+
   async searchByContent(userId: string, query: string): Promise<Message[]> {
     const lowerQuery = query.toLowerCase();
 
     if (!isValidUuid(userId)) {
-      return this.getFromLocalStorage().filter(
-        (m) =>
-          m.userId === userId &&
-          (m.content.toLowerCase().includes(lowerQuery) ||
-            m.tags?.toLowerCase().includes(lowerQuery))
-      );
+      return this.searchLocal(userId, lowerQuery);
     }
 
     if (isSupabaseConfigured() && supabase) {
@@ -133,21 +132,11 @@ export class MessageRepository extends SupabaseBaseRepository<Message> {
       if (error) {
         console.error('Error searching messages:', error);
         // フォールバック
-        return this.getFromLocalStorage().filter(
-          (m) =>
-            m.userId === userId &&
-            (m.content.toLowerCase().includes(lowerQuery) ||
-              m.tags?.toLowerCase().includes(lowerQuery))
-        );
+        return this.searchLocal(userId, lowerQuery);
       }
       return this.mapFromSupabase(data || []);
     }
 
-    return this.getFromLocalStorage().filter(
-      (m) =>
-        m.userId === userId &&
-        (m.content.toLowerCase().includes(lowerQuery) ||
-          m.tags?.toLowerCase().includes(lowerQuery))
-    );
+    return this.searchLocal(userId, lowerQuery);
   }
 }
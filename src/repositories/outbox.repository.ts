@@ -0,0 +1,254 @@
+import { BaseRepository } from './base.repository';
+import { getAuthProvider } from '../lib/auth';
+import { OutboxEntry, OutboxOperation, SyncStatus } from '../types';
+import { generateId } from '../utils/id';
+
+/** アカウントごとに分ける前のキー（ログイン前の書き込みもここに入る） */
+const SHARED_STORAGE_KEY = 'tutor_ai_outbox';
+
+/** outbox変更の購読者（インスタンスをまたいで共有する） */
+const listeners = new Set<() => void>();
+
+/** 同じレコード（子は親）の操作をまとめて扱うためのキー */
+export const groupOf = (entry: OutboxEntry): string => entry.parentId ?? entry.recordId;
+
+/**
+ * オフライン書き込みキュー
+ * Supabaseに届かなかった書き込みを操作種別ごとに記録し、順番に再送できるようにする
+ * キューはアカウントごと（別のアカウントの書き込みを再送しない）
+ */
+export class OutboxRepository extends BaseRepository<OutboxEntry> {
+  protected getStorageKey(): string {
+    const userId = getAuthProvider().getCurrentUser()?.id;
+    return userId ? `${SHARED_STORAGE_KEY}_${userId}` : SHARED_STORAGE_KEY;
+  }
+
+  /** 分ける前のキューは、次にログインしたアカウントのキューに移す */
+  protected getAll(): OutboxEntry[] {
+    const key = this.getStorageKey();
+    const shared = key === SHARED_STORAGE_KEY ? null : localStorage.getItem(SHARED_STORAGE_KEY);
+    if (shared) {
+      localStorage.removeItem(SHARED_STORAGE_KEY);
+      const items = [...super.getAll(), ...(JSON.parse(shared) as OutboxEntry[])];
+      this.saveAll(items);
+      return items;
+    }
+    return super.getAll();
+  }
+
+  protected saveAll(items: OutboxEntry[]): void {
+    super.saveAll(items);
+    listeners.forEach((listener) => listener());
+  }
+
+  /** 登録順（= 再送順）のキュー */
+  findQueued(): OutboxEntry[] {
+    return this.getAll();
+  }
+
+  /** 自動では送らない・送れなかったエントリ（設定画面で再送・破棄を選ぶ） */
+  findIssues(): OutboxEntry[] {
+    return this.getAll().filter((item) => item.status !== 'pending');
+  }
+
+  /**
+   * 書き込みをキューに積む
+   * 同じレコードへの未送信操作はまとめて、再送回数を減らす
+   */
+  enqueue(entry: {
+    table: string;
+    recordId: string;
+    parentId?: string;
+    operation: OutboxOperation;
+    payload?: Record<string, unknown>;
+    expectedUpdatedAt?: string;
+  }): void {
+    const now = new Date().toISOString();
+    let items = this.getAll();
+    const sameRecord = (item: OutboxEntry) =>
+      item.table === entry.table && item.recordId === entry.recordId;
+    const pendingCreate = items.find((item) => sameRecord(item) && item.operation === 'create');
+
+    if (entry.operation === 'update') {
+      // 未送信の作成・更新があればペイロードを合成する
+      // （競合検出には最初の更新時点の updatedAt を使い続ける）
+      const target =
+        pendingCreate ?? items.find((item) => sameRecord(item) && item.operation === 'update');
+      if (target) {
+        target.payload = { ...target.payload, ...entry.payload };
+        target.updatedAt = now;
+        this.saveAll(items);
+        return;
+      }
+    }
+
+    if (entry.operation === 'delete') {
+      // 子レコードの未送信操作は親の削除（CASCADE）で不要になる
+      items = items.filter((item) => !(item.parentId === entry.recordId));
+      if (pendingCreate) {
+        // サーバーに届いていないレコードは、キューから消すだけでよい
+        this.saveAll(items.filter((item) => !sameRecord(item)));
+        return;
+      }
+      items = items.filter((item) => !sameRecord(item));
+    }
+
+    items.push({
+      id: generateId(),
+      table: entry.table,
+      recordId: entry.recordId,
+      parentId: entry.parentId,
+      operation: entry.operation,
+      payload: entry.payload,
+      expectedUpdatedAt: entry.expectedUpdatedAt,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.saveAll(items);
+  }
+
+  markFailed(id: string, error: string): void {
+    const items = this.getAll();
+    const target = items.find((item) => item.id === id);
+    if (!target) return;
+    target.status = 'failed';
+    target.attempts += 1;
+    target.lastError = error;
+    target.updatedAt = new Date().toISOString();
+    this.saveAll(items);
+  }
+
+  /** サーバーが受け付けなかった（権限・制約など）。再送しても通らないので、利用者が選ぶまで送らない */
+  markRejected(id: string, error: string): void {
+    const items = this.getAll();
+    const target = items.find((item) => item.id === id);
+    if (!target) return;
+    target.status = 'rejected';
+    target.attempts += 1;
+    target.lastError = error;
+    target.updatedAt = new Date().toISOString();
+    this.saveAll(items);
+  }
+
+  /** 次の再送で送り直す（競合は resolveConflict で解決する） */
+  requeue(id: string): void {
+    const items = this.getAll();
+    const target = items.find((item) => item.id === id);
+    if (!target || target.status === 'conflict') return;
+    target.status = 'pending';
+    target.updatedAt = new Date().toISOString();
+    this.saveAll(items);
+  }
+
+  /**
+   * 送らずに捨てる
+   * 同じレコード（子は親）の操作もまとめて捨てる（親だけ・子だけ送られないように）
+   */
+  discard(id: string): void {
+    const items = this.getAll();
+    const target = items.find((item) => item.id === id);
+    if (!target) return;
+    const group = groupOf(target);
+    this.saveAll(items.filter((item) => groupOf(item) !== group));
+  }
+
+  /**
+   * 再送時に競合した
+   * 利用者が競合ダイアログで選ぶまで送らない（自動の再送で相手の変更を上書きしない）
+   */
+  markConflict(id: string): void {
+    const items = this.getAll();
+    const target = items.find((item) => item.id === id);
+    if (!target) return;
+    target.status = 'conflict';
+    target.attempts += 1;
+    target.lastError = '別の端末で更新されています';
+    target.updatedAt = new Date().toISOString();
+    this.saveAll(items);
+  }
+
+  /**
+   * 競合ダイアログで「自分の内容を残す」を選んだ
+   * @param expectedUpdatedAt ダイアログに出した相手の updated_at（その後さらに更新されていれば、また競合になる）
+   */
+  resolveConflict(id: string, expectedUpdatedAt: string | undefined): void {
+    const items = this.getAll();
+    const target = items.find((item) => item.id === id);
+    if (!target || target.status !== 'conflict') return;
+    target.status = 'pending';
+    target.expectedUpdatedAt = expectedUpdatedAt;
+    target.lastError = undefined;
+    target.updatedAt = new Date().toISOString();
+    this.saveAll(items);
+  }
+
+  /** アカウント削除: このアカウントの未送信の書き込みをすべて捨てる */
+  clear(): void {
+    this.saveAll([]);
+  }
+
+  remove(id: string): void {
+    this.delete(id);
+  }
+
+  /** テーブル内の未送信レコードと、その最後の操作 */
+  getPendingOperations(table: string): Map<string, OutboxOperation> {
+    const map = new Map<string, OutboxOperation>();
+    this.getAll()
+      .filter((item) => item.table === table)
+      .forEach((item) => map.set(item.recordId, item.operation));
+    return map;
+  }
+
+  /**
+   * Supabaseから取得した行に、未送信のローカル変更を重ねる
+   * - 未送信の作成: ローカルの行を追加
+   * - 未送信の更新: ローカルの行を優先
+   * - 未送信の削除: リモートの行を除外
+   */
+  mergeRemote<T extends { id: string }>(table: string, remote: T[], local: T[]): T[] {
+    const pending = this.getPendingOperations(table);
+    if (pending.size === 0) return remote;
+
+    const localById = new Map(local.map((item) => [item.id, item]));
+    const remoteIds = new Set(remote.map((item) => item.id));
+    const merged = remote
+      .filter((item) => pending.get(item.id) !== 'delete')
+      .map((item) => (pending.has(item.id) ? localById.get(item.id) ?? item : item));
+    local.forEach((item) => {
+      if (!remoteIds.has(item.id) && pending.get(item.id) === 'create') {
+        merged.push(item);
+      }
+    });
+    return merged;
+  }
+
+  /** レコードID → 同期状態（親IDにも子の状態を反映する。競合 → 失敗 → 未送信の順に優先） */
+  getStatusMap(): Map<string, SyncStatus> {
+    const map = new Map<string, SyncStatus>();
+    const priority: Record<SyncStatus, number> = { synced: 0, pending: 1, failed: 2, conflict: 3 };
+    const mark = (id: string, status: SyncStatus) => {
+      if (priority[status] > priority[map.get(id) ?? 'synced']) {
+        map.set(id, status);
+      }
+    };
+    this.getAll().forEach((item) => {
+      const status: SyncStatus =
+        item.status === 'pending' ? 'pending' : item.status === 'conflict' ? 'conflict' : 'failed';
+      mark(item.recordId, status);
+      if (item.parentId) {
+        mark(item.parentId, status);
+      }
+    });
+    return map;
+  }
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+}
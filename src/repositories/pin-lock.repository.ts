@@ -0,0 +1,37 @@
+import { BaseRepository } from './base.repository';
+import { PinLock } from '../types';
+
+/**
+ * PINロックの設定（端末ごと・アカウントごと）
+ * 端末の外に出さないため localStorage のみに保存する（同期しない）
+ */
+export class PinLockRepository extends BaseRepository<PinLock> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_pin_lock';
+  }
+
+  findByUser(userId: string): PinLock | undefined {
+    return this.findByUserId(userId)[0];
+  }
+
+  save(userId: string, item: Omit<PinLock, 'id' | 'userId' | 'createdAt'>): PinLock {
+    const existing = this.findByUser(userId);
+    if (existing) {
+      return this.update(existing.id, item) ?? existing;
+    }
+    return this.create({ ...item, userId });
+  }
+
+  patch(
+    userId: string,
+    updates: Partial<Pick<PinLock, 'timeoutMinutes' | 'failedAttempts' | 'blockedUntil'>>
+  ): PinLock | null {
+    const existing = this.findByUser(userId);
+    return existing ? this.update(existing.id, updates) : null;
+  }
+
+  remove(userId: string): boolean {
+    const existing = this.findByUser(userId);
+    return existing ? this.delete(existing.id) : false;
+  }
+}
@@ -0,0 +1,44 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { UserRepository } from './user.repository';
+import { UserRole } from '../types';
+
+const USER_ROLES: UserRole[] = ['student', 'parent', 'tutor', 'admin'];
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+
+/**
+ * プロフィール（ロール）
+ * Supabase利用時は profiles テーブル、モック認証時はローカルのユーザー一覧から読む
+ */
+export class ProfileRepository {
+  private userRepository = new UserRepository();
+
+  /**
+   * ユーザーのロール
+   * @param fallback 取得できなかった場合（オフライン等）のロール
+   */
+  async findRole(userId: string, fallback: UserRole = 'student'): Promise<UserRole> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[ProfileRepository] findRole error:', error.message, error.code);
+        return fallback;
+      }
+      return isUserRole(data?.role) ? data.role : fallback;
+    }
+
+    const role = this.userRepository.findRole(userId);
+    return role ?? fallback;
+  }
+
+  /** モック認証時のみ（Supabase利用時は redeem-invite がロールを付ける） */
+  setLocalRole(userId: string, role: UserRole): void {
+    this.userRepository.setRole(userId, role);
+  }
+}
@@ -1,19 +1,21 @@
-import { SupabaseBaseRepository } from './supabase-base.repository';
-import { Project } from '../types';
+import { ListScope, SupabaseBaseRepository } from './supabase-base.repository';
+import { LocalEntityName, Project } from '../types';
 
 export class ProjectRepository extends SupabaseBaseRepository<Project> {
-  protected getTableName(): string {
+  protected getTableName(): LocalEntityName {
     return 'projects';
   }
 
-  protected getStorageKey(): string {
-    return 'tutor_ai_projects';
+  // 教科は生徒ごと
+  protected getListScope(): ListScope {
+    return { column: 'student_id', field: 'studentId' };
   }
 
   protected mapSingleFromSupabase(data: any): Project {
     return {
       id: data.id,
       userId: data.user_id,
+      studentId: data.student_id ?? data.user_id,
       name: data.name,
       createdAt: data.created_at,
     };
@@ -23,18 +25,20 @@ export class ProjectRepository extends SupabaseBaseRepository<Project> {
     const result: any = {};
     if (item.id !== undefined) result.id = item.id;
     if (item.userId !== undefined) result.user_id = item.userId;
+    if (item.studentId !== undefined) result.student_id = item.studentId;
     if (item.name !== undefined) result.name = item.name;
     if (item.createdAt !== undefined) result.created_at = item.createdAt;
     return result;
   }
 
-  async findByUserId(userId: string): Promise<Project[]> {
-    return this.findAll(userId);
+  async findByStudentId(studentId: string): Promise<Project[]> {
+    return this.findAll(studentId);
   }
 
-  async createProject(userId: string, name: string): Promise<Project> {
+  async createProject(userId: string, studentId: string, name: string): Promise<Project> {
     return this.create({
       userId,
+      studentId,
       name,
     });
   }
@@ -0,0 +1,120 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { BaseRepository } from './base.repository';
+import { GradeBand, PromptTemplate } from '../types';
+
+/** モック認証時の保存先（localStorage） */
+class LocalPromptTemplateStore extends BaseRepository<PromptTemplate> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_prompt_templates';
+  }
+
+  all(): PromptTemplate[] {
+    return this.getAll();
+  }
+
+  /** (studentId, gradeBand, subject) ごとに1件 */
+  put(
+    template: Pick<PromptTemplate, 'studentId' | 'gradeBand' | 'subject' | 'body' | 'updatedBy'>
+  ): PromptTemplate {
+    const existing = this.getAll().find(
+      (item) =>
+        item.studentId === template.studentId &&
+        item.gradeBand === template.gradeBand &&
+        item.subject === template.subject
+    );
+    if (existing) {
+      return this.update(existing.id, { body: template.body, updatedBy: template.updatedBy })!;
+    }
+    return this.create(template);
+  }
+
+  remove(id: string): boolean {
+    return this.delete(id);
+  }
+}
+
+/**
+ * AIの指示（システムプロンプト）のテンプレート
+ * Supabase利用時は RLS でログイン中の全員が既定を読め、管理者だけが書ける
+ * 生徒ごとの指示は、その生徒を見られる人が読め、受け持つ講師（と管理者）が書ける
+ */
+export class PromptTemplateRepository {
+  private local = new LocalPromptTemplateStore();
+
+  /**
+   * 既定と、その生徒の指示
+   * @param studentId 省略時は既定だけ
+   */
+  async findAll(studentId?: string): Promise<PromptTemplate[]> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .or(studentId ? `student_id.is.null,student_id.eq.${studentId}` : 'student_id.is.null');
+      if (error) {
+        throw new Error(`AIの指示の読み込みに失敗しました: ${error.message}`);
+      }
+      return (data || []).map((row: any) => this.mapFromSupabase(row));
+    }
+    return this.local.all().filter((item) => !item.studentId || item.studentId === studentId);
+  }
+
+  /**
+   * 同じ生徒・学年帯・教科のテンプレートがあれば本文を上書きする
+   * @param studentId 省略時は既定（全生徒）
+   */
+  async save(
+    gradeBand: GradeBand,
+    subject: string,
+    body: string,
+    updatedBy: string,
+    studentId?: string
+  ): Promise<PromptTemplate> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .upsert(
+          {
+            student_id: studentId ?? null,
+            grade_band: gradeBand,
+            subject,
+            body,
+            updated_by: updatedBy,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'student_id,grade_band,subject' }
+        )
+        .select('*')
+        .single();
+      if (error || !data) {
+        throw new Error(`AIの指示の保存に失敗しました: ${error?.message}`);
+      }
+      return this.mapFromSupabase(data);
+    }
+    return this.local.put({ studentId, gradeBand, subject, body, updatedBy });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (isSupabaseConfigured() && supabase) {
+      const { error } = await supabase.from('prompt_templates').delete().eq('id', id);
+      if (error) {
+        throw new Error(`AIの指示の削除に失敗しました: ${error.message}`);
+      }
+      return true;
+    }
+    return this.local.remove(id);
+  }
+
+  private mapFromSupabase(data: any): PromptTemplate {
+    return {
+      id: data.id,
+      studentId: data.student_id ?? undefined,
+      gradeBand: data.grade_band,
+      subject: data.subject ?? '',
+      body: data.body,
+      updatedBy: data.updated_by ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at ?? undefined,
+    };
+  }
+}
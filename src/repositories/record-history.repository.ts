@@ -0,0 +1,118 @@
+import { generateId } from '../utils/id';
+import { supabase } from '../lib/supabase';
+import { getAuthProvider } from '../lib/auth';
+import { mergeFieldChanges } from '../utils/record-diff';
+import { LocalCache } from './local-cache';
+import { HistoryTable, RecordHistoryEntry } from '../types';
+
+/** この間隔内に同じ人が続けて行った更新は1件として表示する */
+const BURST_WINDOW_MS = 10 * 1000;
+
+type NewHistoryEntry = Omit<RecordHistoryEntry, 'id' | 'createdAt' | 'actorId' | 'actorEmail'>;
+
+/**
+ * 変更履歴（追記のみ）
+ * Supabase利用時はDBのトリガーが記録し、ここでは読むだけ（読んだ分はローカルにキャッシュ）
+ * ローカル運用（モック認証）時は各リポジトリが append で記録する
+ */
+export class RecordHistoryRepository {
+  private local = new LocalCache<RecordHistoryEntry>('record_history');
+
+  /** レコードの変更履歴（新しい順） */
+  async findByRecord(table: HistoryTable, recordId: string): Promise<RecordHistoryEntry[]> {
+    let entries: RecordHistoryEntry[] | null = null;
+
+    if (await this.hasSupabaseSession()) {
+      const { data, error } = await supabase!
+        .from('record_history')
+        .select('*')
+        .eq('table_name', table)
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('[RecordHistoryRepository] findByRecord error:', error.message, error.code);
+      } else {
+        entries = (data || []).map((row: any) => this.mapFromSupabase(row));
+        await this.local.replaceScope('recordId', recordId, entries);
+      }
+    }
+
+    if (!entries) {
+      entries = (await this.local.findBy('recordId', recordId))
+        .filter((entry) => entry.table === table)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+    return this.mergeBursts(entries).reverse();
+  }
+
+  /** ローカルに履歴を追記する（Supabase未設定時のみ使う） */
+  async append(entry: NewHistoryEntry): Promise<void> {
+    if (entry.action === 'update' && entry.changes.length === 0) return;
+    const actor = this.currentActor();
+    await this.local.put({
+      ...entry,
+      id: generateId(),
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * 作成直後の子の追加や、子の全件差し替え（削除 → 作成）で細切れになった履歴をまとめる
+   * @param entries 古い順
+   */
+  private mergeBursts(entries: RecordHistoryEntry[]): RecordHistoryEntry[] {
+    const result: RecordHistoryEntry[] = [];
+    let burst: RecordHistoryEntry[] = [];
+
+    const flush = () => {
+      if (burst.length === 0) return;
+      const [first] = burst;
+      const last = burst[burst.length - 1];
+      const changes = mergeFieldChanges(burst.map((entry) => entry.changes));
+      if (first.action !== 'update' || changes.length > 0) {
+        result.push({ ...first, changes, createdAt: last.createdAt });
+      }
+      burst = [];
+    };
+
+    entries.forEach((entry) => {
+      const previous = burst[burst.length - 1];
+      const continues =
+        previous &&
+        entry.action === 'update' &&
+        (previous.action === 'create' || previous.action === 'update') &&
+        entry.actorId === previous.actorId &&
+        new Date(entry.createdAt).getTime() - new Date(previous.createdAt).getTime() <= BURST_WINDOW_MS;
+      if (!continues) flush();
+      burst.push(entry);
+    });
+    flush();
+    return result;
+  }
+
+  private async hasSupabaseSession(): Promise<boolean> {
+    return getAuthProvider().hasRemoteSession();
+  }
+
+  /** ローカル運用時の操作者（ログイン中のユーザー） */
+  private currentActor(): { id: string; email: string } | null {
+    return getAuthProvider().getCurrentUser();
+  }
+
+  private mapFromSupabase(data: any): RecordHistoryEntry {
+    return {
+      id: data.id,
+      userId: data.user_id,
+      table: data.table_name,
+      recordId: data.record_id,
+      action: data.action,
+      actorId: data.actor_id ?? undefined,
+      actorEmail: data.actor_email ?? undefined,
+      changes: Array.isArray(data.changes) ? data.changes : [],
+      createdAt: data.created_at,
+    };
+  }
+}
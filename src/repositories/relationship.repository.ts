@@ -0,0 +1,101 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { BaseRepository } from './base.repository';
+import { Relationship, RelationshipKind } from '../types';
+
+/** モック認証時の保存先（localStorage） */
+class LocalRelationshipStore extends BaseRepository<Relationship> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_relationships';
+  }
+
+  all(): Relationship[] {
+    return this.getAll();
+  }
+
+  add(item: Omit<Relationship, 'id' | 'createdAt'>): Relationship {
+    return this.create(item);
+  }
+
+  remove(id: string): boolean {
+    return this.delete(id);
+  }
+
+  removeWhere(predicate: (item: Relationship) => boolean): number {
+    const items = this.getAll();
+    const kept = items.filter((item) => !predicate(item));
+    this.saveAll(kept);
+    return items.length - kept.length;
+  }
+}
+
+/**
+ * 生徒と講師・保護者の紐付け
+ * 作成・解除は管理者（RLS）か、招待コード経由のサーバー処理が行う
+ */
+export class RelationshipRepository {
+  private local = new LocalRelationshipStore();
+
+  /** 講師・保護者から見た、紐付いている生徒 */
+  async findByMember(memberId: string): Promise<Relationship[]> {
+    return this.findBy('member_id', memberId);
+  }
+
+  /** 生徒から見た、紐付いている講師・保護者 */
+  async findByStudent(studentId: string): Promise<Relationship[]> {
+    return this.findBy('student_id', studentId);
+  }
+
+  async create(studentId: string, memberId: string, kind: RelationshipKind): Promise<Relationship> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('relationships')
+        .insert({ student_id: studentId, member_id: memberId, kind })
+        .select('*')
+        .single();
+      if (error || !data) {
+        throw new Error(`紐付けの作成に失敗しました: ${error?.message}`);
+      }
+      return this.mapFromSupabase(data);
+    }
+    return this.local.add({ studentId, memberId, kind });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (isSupabaseConfigured() && supabase) {
+      const { error } = await supabase.from('relationships').delete().eq('id', id);
+      if (error) {
+        throw new Error(`紐付けの解除に失敗しました: ${error.message}`);
+      }
+      return true;
+    }
+    return this.local.remove(id);
+  }
+
+  /** アカウント削除: 端末内の紐付けを消す（モック認証・削除後の後片付け） */
+  deleteLocalByAccount(userId: string, studentIds: Set<string>): number {
+    return this.local.removeWhere((item) => item.memberId === userId || studentIds.has(item.studentId));
+  }
+
+  private async findBy(column: 'member_id' | 'student_id', id: string): Promise<Relationship[]> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase.from('relationships').select('*').eq(column, id);
+      if (error) {
+        console.error('[RelationshipRepository] find error:', error.message, error.code);
+        return [];
+      }
+      return (data || []).map((row: any) => this.mapFromSupabase(row));
+    }
+    const field = column === 'member_id' ? 'memberId' : 'studentId';
+    return this.local.all().filter((item) => item[field] === id);
+  }
+
+  private mapFromSupabase(data: any): Relationship {
+    return {
+      id: data.id,
+      studentId: data.student_id,
+      memberId: data.member_id,
+      kind: data.kind,
+      createdAt: data.created_at,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { supabase } from '../lib/supabase';
+import { LocalEntityName, Student } from '../types';
+import { ListScope, SupabaseBaseRepository } from './supabase-base.repository';
+import { RelationshipRepository } from './relationship.repository';
+
+/**
+ * 生徒
+ * 講師が登録した生徒（ownerId = 講師）と、生徒本人のアカウント（ownerId = accountId = 本人）がある
+ */
+export class StudentRepository extends SupabaseBaseRepository<Student> {
+  private relationshipRepository = new RelationshipRepository();
+
+  protected getTableName(): LocalEntityName {
+    return 'students';
+  }
+
+  protected getListScope(): ListScope {
+    return { column: 'owner_id', field: 'ownerId' };
+  }
+
+  protected mapSingleFromSupabase(data: any): Student {
+    return {
+      id: data.id,
+      ownerId: data.owner_id,
+      accountId: data.account_id ?? undefined,
+      name: data.name,
+      grade: data.grade ?? undefined,
+      createdAt: data.created_at,
+      updatedAt: data.updated_at || data.created_at,
+    };
+  }
+
+  protected mapToSupabase(item: Partial<Student>): any {
+    const result: any = {};
+    if (item.id !== undefined) result.id = item.id;
+    if (item.ownerId !== undefined) result.owner_id = item.ownerId;
+    if ('accountId' in item) result.account_id = item.accountId ?? null;
+    if (item.name !== undefined) result.name = item.name;
+    if ('grade' in item) result.grade = item.grade || null;
+    if (item.createdAt !== undefined) result.created_at = item.createdAt;
+    if (item.updatedAt !== undefined) result.updated_at = item.updatedAt;
+    return result;
+  }
+
+  /**
+   * アカウントから見える生徒（登録した生徒・本人・紐付いた生徒。登録順）
+   * Supabase利用時は RLS（can_read_student）で見える行をすべて読む
+   */
+  async findAccessible(userId: string): Promise<Student[]> {
+    if (supabase && (await this.hasSupabaseSession())) {
+      const { data, error } = await supabase
+        .from(this.getTableName())
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (!error) {
+        const students = this.mapFromSupabase(data || []);
+        await this.local.putMany(students);
+        return students;
+      }
+      console.error('[StudentRepository] findAccessible error:', error.message, error.code);
+    }
+
+    const linkedIds = new Set(
+      (await this.relationshipRepository.findByMember(userId)).map((item) => item.studentId)
+    );
+    return this.sortItems(
+      (await this.local.all()).filter(
+        (student) =>
+          student.ownerId === userId || student.accountId === userId || linkedIds.has(student.id)
+      )
+    );
+  }
+
+  async createStudent(ownerId: string, name: string, grade?: string): Promise<Student> {
+    return this.create({ ownerId, name, grade });
+  }
+
+  async updateStudent(id: string, updates: Pick<Student, 'name' | 'grade'>): Promise<Student | null> {
+    return this.update(id, updates);
+  }
+
+  async deleteStudent(id: string): Promise<boolean> {
+    return this.delete(id);
+  }
+}
@@ -0,0 +1,504 @@
+import { generateId } from '../utils/id';
+import { supabase } from '../lib/supabase';
+import { subscribeLocalChanges } from '../lib/local-store';
+import { BaseEntity, SupabaseBaseRepository } from './supabase-base.repository';
+import { ConflictError, isSameTimestamp } from './errors';
+import { LocalCache } from './local-cache';
+import {
+  AggregateRepository,
+  LocalEntityName,
+  LocalIndexName,
+  NewEntity,
+  Page,
+  PageRequest,
+  RecordChange,
+  UpdateOptions,
+} from '../types';
+
+/** 子の差し替え（削除 → 複数件の作成）をまとめて1回の読み直しにする待ち時間 */
+const REFRESH_DELAY_MS = 300;
+
+/** カラム名・インデックス名で決まるプロパティの値（型は呼び出し側で確かめる） */
+const propertyOf = (record: object, key: string): unknown => (record as Record<string, unknown>)[key];
+
+/**
+ * 親子集約の非同期ベースリポジトリ（例: TestSet + TestScore）
+ * 親のCRUD・競合検出・outboxは SupabaseBaseRepository に任せ、
+ * 子は親と一緒に読み込み、更新時は全件差し替える（親の作成・更新と子の書き込みは RPC で1つのトランザクションにする）
+ * @typeParam P 親, C 子, A 親＋子の一覧（表示用）, CInput 子の入力
+ */
+export abstract class SupabaseAggregateRepository<
+    P extends BaseEntity,
+    C extends BaseEntity,
+    A extends P,
+    CInput,
+  >
+  extends SupabaseBaseRepository<P>
+  implements AggregateRepository<A, P, CInput>
+{
+  /** 子のテーブル名（ローカルのオブジェクトストア名を兼ねる） */
+  protected abstract getChildTableName(): LocalEntityName;
+  /** 子が親を参照するカラム（例: test_set_id）とローカルのインデックス */
+  protected abstract getChildParentColumn(): string;
+  protected abstract getChildParentIndex(): LocalIndexName;
+  /** 集約上で子一覧を持つプロパティ名（例: scores） */
+  protected abstract getChildKey(): string;
+  /** 変更履歴で子を見分けるカラム（例: subject → 「数学.score」）。更新時の子の突き合わせにも使う */
+  protected abstract getChildHistoryColumn(): string;
+  /**
+   * 親の作成・更新と子の差し替えを1つのトランザクションで行う RPC（例: save_test_set）
+   * 引数は p_id / p_parent / p_children / p_expected_updated_at / p_create。競合時は null、成功時は親の行＋子の一覧を返す
+   */
+  protected abstract getSaveFunctionName(): string;
+
+  protected abstract mapChildFromSupabase(data: any): C;
+  protected abstract mapChildToSupabase(item: Partial<C>): any;
+  protected abstract buildChild(parentId: string, input: CInput, now: string): C;
+
+  private childCache: LocalCache<C> | null = null;
+
+  protected get childLocal(): LocalCache<C> {
+    if (!this.childCache) {
+      this.childCache = new LocalCache<C>(this.getChildTableName());
+    }
+    return this.childCache;
+  }
+
+  protected assemble(parent: P, children: C[]): A {
+    return { ...parent, [this.getChildKey()]: children } as unknown as A;
+  }
+
+  protected split(aggregate: A): { parent: P; children: C[] } {
+    const { [this.getChildKey()]: children, ...parent } = aggregate as object as Record<string, unknown>;
+    return { parent: parent as object as P, children: Array.isArray(children) ? (children as C[]) : [] };
+  }
+
+  /** 親（子を含む）に未送信の書き込みがあるか */
+  protected hasPendingWrite(id: string): boolean {
+    return this.outboxRepository
+      .findQueued()
+      .some(
+        (entry) =>
+          (entry.table === this.getTableName() && entry.recordId === id) ||
+          (entry.table === this.getChildTableName() && entry.parentId === id)
+      );
+  }
+
+  // ========== 読み込み ==========
+
+  async findAllWithChildren(scopeId: string): Promise<A[]> {
+    const local = await this.findLocalAggregates(scopeId);
+
+    if (supabase && (await this.hasSupabaseSession())) {
+      const { column, ascending } = this.getListOrder();
+      let query = supabase
+        .from(this.getTableName())
+        .select(`*, ${this.getChildTableName()}(*)`)
+        .eq(this.getListScope().column, scopeId);
+      if (this.usesSoftDelete()) {
+        query = query.is('deleted_at', null);
+      }
+      const { data, error } = await query.order(column, { ascending });
+
+      if (error) {
+        console.error(`Error fetching ${this.getTableName()}:`, error);
+        return this.sortItems(this.visibleItems(local));
+      }
+      const remote = (data || []).map((row: any) => this.mapAggregateFromSupabase(row));
+      return this.sortItems(this.visibleItems(await this.cacheAggregates(scopeId, remote, local)));
+    }
+
+    return this.sortItems(this.visibleItems(local));
+  }
+
+  /** 集約を1ページずつ読む（親と子は1回の結合クエリで読む） */
+  async findPageWithChildren(scopeId: string, request: PageRequest = {}): Promise<Page<A>> {
+    const local = await this.findLocalAggregates(scopeId);
+    const remote = await this.fetchRemotePage(`*, ${this.getChildTableName()}(*)`, scopeId, request);
+    if (!remote) {
+      return this.toLocalPage(local, request);
+    }
+
+    const rows = remote.rows.map((row) => this.mapAggregateFromSupabase(row));
+    const localById = new Map(local.map((aggregate) => [aggregate.id, aggregate]));
+    for (const aggregate of rows) {
+      if (!this.hasPendingWrite(aggregate.id)) {
+        await this.saveLocalAggregate(aggregate);
+      }
+    }
+    const merged = this.outboxRepository
+      .mergeRemote(this.getTableName(), rows, local)
+      .map((aggregate) =>
+        this.hasPendingWrite(aggregate.id) ? localById.get(aggregate.id) ?? aggregate : aggregate
+      );
+    return this.toRemotePage(merged, rows, remote.hasMore, request);
+  }
+
+  async findByIdWithChildren(id: string): Promise<A | null> {
+    if (supabase && (await this.hasSupabaseSession())) {
+      const { data, error } = await supabase
+        .from(this.getTableName())
+        .select(`*, ${this.getChildTableName()}(*)`)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (!error) {
+        return data ? this.mapAggregateFromSupabase(data) : null;
+      }
+      console.error(`Error fetching ${this.getTableName()}:`, error);
+    }
+    return this.findLocalAggregate(id);
+  }
+
+  // ========== 書き込み ==========
+
+  /**
+   * 親と子をまとめて作成する
+   * IDはクライアントで採番し、途中で失敗しても outbox の upsert で冪等に再送できるようにする
+   */
+  async createWithChildren(item: NewEntity<P>, inputs: CInput[]): Promise<A> {
+    const now = new Date().toISOString();
+    const parent = {
+      ...item,
+      id: item.id || generateId(),
+      createdAt: item.createdAt || now,
+      updatedAt: item.updatedAt || now,
+    } as unknown as P;
+    const aggregate = this.assemble(
+      parent,
+      inputs.map((input) => this.buildChild(parent.id, input, now))
+    );
+
+    if (supabase && (await this.hasSupabaseSession())) {
+      try {
+        // 親と子を1つのトランザクションで作る（失敗したときは何も作られていない）
+        const { data: row, error } = await supabase.rpc(this.getSaveFunctionName(), {
+          p_id: parent.id,
+          p_parent: this.mapToSupabase(parent),
+          p_children: this.split(aggregate).children.map((child) => this.mapChildToSupabase(child)),
+          p_expected_updated_at: null,
+          p_create: true,
+        });
+        if (error || !row) {
+          throw new Error(`${this.getTableName()} の保存に失敗しました: ${error?.message}`);
+        }
+        const saved = this.mapAggregateFromSupabase(row);
+        await this.saveLocalAggregate(saved);
+        return saved;
+      } catch (error) {
+        console.error(`Error creating ${this.getTableName()}:`, error);
+      }
+    }
+
+    // ローカルフォールバック（Supabase設定時はoutboxから再送する）
+    await this.saveLocalAggregate(aggregate);
+    this.enqueueAggregateWrite('create', aggregate);
+    await this.recordLocalHistory(parent, null, this.historySnapshot(aggregate));
+    return aggregate;
+  }
+
+  /**
+   * 親を更新し、子を全件差し替える（楽観的排他制御つき）
+   * options.expectedUpdatedAt を渡すと、親の updatedAt と食い違う場合に ConflictError を投げる
+   */
+  async updateWithChildren(
+    id: string,
+    updates: Partial<P>,
+    inputs: CInput[],
+    options: UpdateOptions = {}
+  ): Promise<A | null> {
+    const now = new Date().toISOString();
+    const { expectedUpdatedAt } = options;
+    const children = inputs.map((input) => this.buildChild(id, input, now));
+
+    if (supabase && !this.hasPendingWrite(id) && (await this.hasSupabaseSession())) {
+      try {
+        // 失敗したときは何も変わっていない（ローカルフォールバックの expectedUpdatedAt のままでよい）
+        const { data: row, error } = await supabase.rpc(this.getSaveFunctionName(), {
+          p_id: id,
+          p_parent: this.mapToSupabase({ ...updates, updatedAt: now } as Partial<P>),
+          p_children: children.map((child) => this.mapChildToSupabase(child)),
+          p_expected_updated_at: expectedUpdatedAt ?? null,
+        });
+        if (error) {
+          throw new Error(`${this.getTableName()} の更新に失敗しました: ${error.message}`);
+        }
+
+        if (!row) {
+          // 条件に合う行が無い: 別の端末が先に更新したかを確認する
+          const current = await this.findByIdWithChildren(id);
+          if (current && expectedUpdatedAt && !isSameTimestamp(current.updatedAt, expectedUpdatedAt)) {
+            throw new ConflictError<A>(this.getTableName(), updates as Partial<A>, current);
+          }
+          throw new Error(`${this.getTableName()} の更新対象が見つかりません`);
+        }
+
+        const saved = this.mapAggregateFromSupabase(row);
+        await this.saveLocalAggregate(saved);
+        return saved;
+      } catch (error) {
+        if (error instanceof ConflictError) throw error;
+        console.error(`Error updating ${this.getTableName()}:`, error);
+      }
+    }
+
+    // ローカルフォールバック（Supabase設定時はoutboxから再送する）
+    const current = await this.findLocalAggregate(id);
+    if (!current) return null;
+    if (expectedUpdatedAt && current.updatedAt && !isSameTimestamp(current.updatedAt, expectedUpdatedAt)) {
+      throw new ConflictError<A>(this.getTableName(), updates as Partial<A>, current);
+    }
+    const previous = this.split(current);
+    const merged = this.keepChildIds(previous.children, children);
+    const keptIds = new Set(merged.map((child) => child.id));
+    const updated = this.assemble({ ...previous.parent, ...updates, updatedAt: now }, merged);
+    await this.saveLocalAggregate(updated);
+    this.enqueueAggregateWrite(
+      'update',
+      updated,
+      previous.children.filter((child) => !keptIds.has(child.id)).map((child) => child.id),
+      { ...updates, updatedAt: now } as Partial<P>,
+      expectedUpdatedAt
+    );
+    await this.recordLocalHistory(
+      previous.parent,
+      this.historySnapshot(current),
+      this.historySnapshot(updated)
+    );
+    return updated;
+  }
+
+  /** 親を削除する（子は Supabase 側では CASCADE、ローカルではここで消す） */
+  async delete(id: string): Promise<boolean> {
+    const deleted = await super.delete(id);
+    await this.removeLocalAggregate(id);
+    return deleted;
+  }
+
+  // ========== 購読 ==========
+
+  /**
+   * 集約（親＋子）の変更を購読する
+   * 親・子どちらの変更も親単位にまとめ、少し待ってから親ごと読み直して通知する
+   * @returns 購読解除関数
+   */
+  subscribeWithChildren(scopeId: string, listener: (change: RecordChange<A>) => void): () => void {
+    // 親ID → 変更元（remote はキャッシュも更新するので優先する）
+    const queued = new Map<string, 'remote' | 'local'>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = async () => {
+      timer = null;
+      const batch = Array.from(queued);
+      queued.clear();
+      for (const [id, source] of batch) {
+        await this.refreshAggregate(scopeId, id, source, listener);
+      }
+    };
+    const schedule = (id: string | undefined, source: 'remote' | 'local') => {
+      if (!id) return;
+      if (queued.get(id) !== 'remote') queued.set(id, source);
+      if (!timer) {
+        timer = setTimeout(() => {
+          flush().catch((error) => console.error(`[${this.getTableName()}] 購読エラー:`, error));
+        }, REFRESH_DELAY_MS);
+      }
+    };
+
+    const unsubscribeParent = subscribeLocalChanges(this.getTableName(), (change) => {
+      change.ids.forEach((id) =>
+        change.type === 'delete' ? listener({ type: 'delete', id }) : schedule(id, 'local')
+      );
+    });
+    const unsubscribeChildren = subscribeLocalChanges(this.getChildTableName(), (change) => {
+      if (change.type === 'delete') return;
+      change.ids.forEach((id) => {
+        this.childLocal
+          .get(id)
+          .then((child) => {
+            const parentId = child ? propertyOf(child, this.getChildParentIndex()) : undefined;
+            schedule(typeof parentId === 'string' ? parentId : undefined, 'local');
+          })
+          .catch((error) => console.error(`[${this.getTableName()}] 購読エラー:`, error));
+      });
+    });
+
+    const parentChannel = this.subscribeRemote(this.getTableName(), scopeId, (change) => {
+      if (change.type === 'upsert') {
+        schedule(change.record.id, 'remote');
+        return;
+      }
+      if (this.hasPendingWrite(change.id)) return;
+      this.removeLocalAggregate(change.id)
+        .then(() => listener(change))
+        .catch((error) => console.error(`[${this.getTableName()}] 購読エラー:`, error));
+    });
+    // 子テーブルには持ち主のカラムが無いため絞り込まない（RLSで見える行だけ届く）
+    const childChannel = this.subscribeRemote(this.getChildTableName(), null, (change) => {
+      if (change.type === 'upsert') {
+        schedule(change.record[this.getChildParentColumn()], 'remote');
+      }
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribeParent();
+      unsubscribeChildren();
+      [parentChannel, childChannel].forEach((channel) => {
+        if (channel) supabase?.removeChannel(channel);
+      });
+    };
+  }
+
+  /**
+   * 親ごと読み直して通知する
+   * 他のタブ由来（local）はローカルを読むだけにする（書き戻すと通知がタブ間で往復するため）
+   */
+  private async refreshAggregate(
+    scopeId: string,
+    id: string,
+    source: 'remote' | 'local',
+    listener: (change: RecordChange<A>) => void
+  ): Promise<void> {
+    const fromLocal = source === 'local' || this.hasPendingWrite(id);
+    const aggregate = fromLocal
+      ? await this.findLocalAggregate(id)
+      : await this.findByIdWithChildren(id);
+    if (!aggregate || propertyOf(aggregate, this.getListScope().field) !== scopeId) return;
+    if (!fromLocal) {
+      await this.saveLocalAggregate(aggregate);
+    }
+    listener(this.toVisibleChange(aggregate));
+  }
+
+  // ========== Helpers ==========
+
+  /** 変更履歴の比較用に、親と子を1つの行（Supabase形式）にまとめる */
+  private historySnapshot(aggregate: A): Record<string, unknown> {
+    const { parent, children } = this.split(aggregate);
+    const snapshot: Record<string, unknown> = this.mapToSupabase(parent);
+    const keyColumn = this.getChildHistoryColumn();
+    const skipped = new Set(['id', 'created_at', 'updated_at', this.getChildParentColumn(), keyColumn]);
+    children.forEach((child) => {
+      const row = this.mapChildToSupabase(child);
+      Object.entries(row).forEach(([column, value]) => {
+        if (!skipped.has(column)) snapshot[`${row[keyColumn]}.${column}`] = value;
+      });
+    });
+    return snapshot;
+  }
+
+  /**
+   * 同じキー（例: 教科）の子は既存のIDと作成日時を引き継ぐ
+   * 再送（upsert）がその場の更新になり、変更履歴に削除と追加が残らない（save_test_set と同じ突き合わせ）
+   */
+  private keepChildIds(previous: C[], next: C[]): C[] {
+    const keyColumn = this.getChildHistoryColumn();
+    const keyOf = (child: C) => this.mapChildToSupabase(child)[keyColumn];
+    const previousByKey = new Map(previous.map((child) => [keyOf(child), child]));
+    return next.map((child) => {
+      const match = previousByKey.get(keyOf(child));
+      return match ? { ...child, id: match.id, createdAt: match.createdAt } : child;
+    });
+  }
+
+  private mapAggregateFromSupabase(row: any): A {
+    const { [this.getChildTableName()]: children, ...parent } = row;
+    return this.assemble(
+      this.mapSingleFromSupabase(parent),
+      (children || []).map((child: any) => this.mapChildFromSupabase(child))
+    );
+  }
+
+  /**
+   * 親と子の書き込みをoutboxに積む
+   * 子は全件差し替えのため、旧い子の削除 → 新しい子の作成として積む
+   */
+  private enqueueAggregateWrite(
+    operation: 'create' | 'update',
+    aggregate: A,
+    previousChildIds: string[] = [],
+    parentPayload?: Partial<P>,
+    expectedUpdatedAt?: string
+  ): void {
+    const { parent, children } = this.split(aggregate);
+    this.enqueueWrite(operation, parent.id, parentPayload ?? parent, expectedUpdatedAt);
+    if (!this.isSyncEnabled()) return;
+    previousChildIds.forEach((childId) =>
+      this.outboxRepository.enqueue({
+        table: this.getChildTableName(),
+        recordId: childId,
+        parentId: parent.id,
+        operation: 'delete',
+      })
+    );
+    children.forEach((child) =>
+      this.outboxRepository.enqueue({
+        table: this.getChildTableName(),
+        recordId: child.id,
+        parentId: parent.id,
+        operation: 'create',
+        payload: this.mapChildToSupabase(child),
+      })
+    );
+  }
+
+  private async findLocalAggregates(scopeId: string): Promise<A[]> {
+    const parents = await this.local.findBy(this.getListScope().field, scopeId);
+    const result: A[] = [];
+    for (const parent of parents) {
+      result.push(
+        this.assemble(parent, await this.childLocal.findBy(this.getChildParentIndex(), parent.id))
+      );
+    }
+    return result;
+  }
+
+  private async findLocalAggregate(id: string): Promise<A | null> {
+    const parent = await this.local.get(id);
+    if (!parent) return null;
+    return this.assemble(parent, await this.childLocal.findBy(this.getChildParentIndex(), id));
+  }
+
+  private async removeLocalAggregate(id: string): Promise<void> {
+    const children = await this.childLocal.findBy(this.getChildParentIndex(), id);
+    await this.childLocal.removeMany(children.map((child) => child.id));
+    await this.local.remove(id);
+  }
+
+  private async saveLocalAggregate(aggregate: A): Promise<void> {
+    const { parent, children } = this.split(aggregate);
+    await this.local.put(parent);
+    await this.childLocal.replaceScope(this.getChildParentIndex(), parent.id, children);
+  }
+
+  /**
+   * Supabaseから取得した集約をローカルにキャッシュする
+   * 未送信の変更がある親はローカルの内容（子を含む）を優先する
+   */
+  private async cacheAggregates(scopeId: string, remote: A[], local: A[]): Promise<A[]> {
+    const localById = new Map(local.map((aggregate) => [aggregate.id, aggregate]));
+    const merged = this.outboxRepository
+      .mergeRemote(this.getTableName(), remote, local)
+      .map((aggregate) =>
+        this.hasPendingWrite(aggregate.id) ? localById.get(aggregate.id) ?? aggregate : aggregate
+      );
+
+    // 消えた親の子も合わせて消す
+    const mergedIds = new Set(merged.map((aggregate) => aggregate.id));
+    const staleChildIds = local
+      .filter((aggregate) => !mergedIds.has(aggregate.id))
+      .flatMap((aggregate) => this.split(aggregate).children.map((child) => child.id));
+    await this.childLocal.removeMany(staleChildIds);
+    await this.local.replaceScope(
+      this.getListScope().field,
+      scopeId,
+      merged.map((aggregate) => this.split(aggregate).parent)
+    );
+    for (const aggregate of merged) {
+      const { children } = this.split(aggregate);
+      await this.childLocal.replaceScope(this.getChildParentIndex(), aggregate.id, children);
+    }
+    return merged;
+  }
+}
@@ -1,53 +1,351 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { generateId } from '../utils/id';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getAuthProvider } from '../lib/auth';
+import { subscribeLocalChanges } from '../lib/local-store';
+import { diffRecords, historyActionOf } from '../utils/record-diff';
+import { OutboxRepository } from './outbox.repository';
+import { RecordHistoryRepository } from './record-history.repository';
+import { ConflictError, isSameTimestamp } from './errors';
+import { LocalCache } from './local-cache';
+import {
+  HistoryTable,
+  LocalChange,
+  LocalEntityName,
+  LocalIndexName,
+  NewEntity,
+  Page,
+  PageCursor,
+  PageRequest,
+  RecordChange,
+  RecordHistoryEntry,
+  Repository,
+  UpdateOptions,
+} from '../types';
 
 /**
  * Supabase対応の非同期ベースリポジトリ
- * Supabase優先で保存し、失敗時はLocalStorageにフォールバック
+ * Supabase優先で保存し、失敗時はローカル（IndexedDB）にフォールバック
+ * フォールバックした書き込みはoutboxに積み、オンライン復帰時に再送する
  */
-type BaseEntity = {
+export type BaseEntity = {
   id: string;
   createdAt?: string;
   updatedAt?: string;
+  deletedAt?: string;
 };
 
-export abstract class SupabaseBaseRepository<T extends BaseEntity> {
-  protected abstract getTableName(): string;
-  protected abstract getStorageKey(): string;
+/** 1ページの既定件数 */
+export const DEFAULT_PAGE_SIZE = 30;
 
-  private async hasSupabaseSession(): Promise<boolean> {
-    if (!isSupabaseConfigured() || !supabase) return false;
-    const { data } = await supabase.auth.getSession();
-    return !!data.session?.user;
+/** 一覧の並び順（Supabaseのカラム名と、ローカルで並べ替えるプロパティ名） */
+export interface ListOrder {
+  column: string;
+  field: string;
+  ascending: boolean;
+}
+
+/** 一覧・購読を絞り込む持ち主（Supabaseのカラム名と、ローカルのプロパティ名＝インデックス名） */
+export interface ListScope {
+  column: string;
+  field: LocalIndexName;
+}
+
+export abstract class SupabaseBaseRepository<T extends BaseEntity> implements Repository<T> {
+  /** テーブル名（ローカルのオブジェクトストア名を兼ねる） */
+  protected abstract getTableName(): LocalEntityName;
+
+  protected outboxRepository = new OutboxRepository();
+  protected historyRepository = new RecordHistoryRepository();
+  private localCache: LocalCache<T> | null = null;
+
+  /** 一覧の並び順（既定: 作成順） */
+  protected getListOrder(): ListOrder {
+    return { column: 'created_at', field: 'createdAt', ascending: true };
+  }
+
+  /**
+   * 一覧・購読を絞り込む持ち主（既定: 作成したアカウント）
+   * 生徒ごとのデータ（宿題・テスト・授業記録・教科）は student_id で絞り込む
+   */
+  protected getListScope(): ListScope {
+    return { column: 'user_id', field: 'userId' };
+  }
+
+  /**
+   * 論理削除（deleted_at）を使うテーブルか
+   * 使う場合、一覧・購読から削除済みを除き、ゴミ箱（findTrashed / restore）を使えるようにする
+   */
+  protected usesSoftDelete(): boolean {
+    return false;
   }
 
-  // LocalStorage フォールバック用
-  protected getFromLocalStorage(): T[] {
-    const data = localStorage.getItem(this.getStorageKey());
-    return data ? JSON.parse(data) : [];
+  /**
+   * 変更履歴を残すテーブルか
+   * Supabase利用時はDBのトリガーが記録するため、ここではローカル運用時だけ記録する
+   */
+  protected tracksHistory(): boolean {
+    return false;
   }
 
-  protected saveToLocalStorage(items: T[]): void {
-    localStorage.setItem(this.getStorageKey(), JSON.stringify(items));
+  /** 一覧に出す行（論理削除済みを除く） */
+  protected visibleItems<R extends T>(items: R[]): R[] {
+    return this.usesSoftDelete() ? items.filter((item) => !item.deletedAt) : items;
+  }
+
+  /** Supabaseセッションが有効か（未設定・未ログイン・取得失敗はローカル扱い） */
+  protected async hasSupabaseSession(): Promise<boolean> {
+    return getAuthProvider().hasRemoteSession();
+  }
+
+  /**
+   * getListOrder() の順で比較する（同じ値はIDで並べ、ページの境目を安定させる）
+   * 値が空の行は昇順・降順によらず最後（Supabase の nullsFirst: false と揃える）
+   */
+  protected compareItems(a: T, b: T): number {
+    const { field, ascending } = this.getListOrder();
+    const direction = ascending ? 1 : -1;
+    const aValue = String((a as any)[field] ?? '');
+    const bValue = String((b as any)[field] ?? '');
+    if (aValue !== bValue) {
+      if (!aValue) return 1;
+      if (!bValue) return -1;
+      return aValue.localeCompare(bValue) * direction;
+    }
+    return a.id.localeCompare(b.id) * direction;
+  }
+
+  /** ローカルの行を getListOrder() の順に並べる（IndexedDB は主キー順で返すため） */
+  protected sortItems<R extends T>(items: R[]): R[] {
+    return [...items].sort((a, b) => this.compareItems(a, b));
+  }
+
+  /** 行の位置を表すカーソル */
+  protected cursorOf(item: T): PageCursor {
+    return { value: String((item as any)[this.getListOrder().field] ?? ''), id: item.id };
+  }
+
+  /**
+   * カーソルより後ろ（まだ読み込んでいない範囲）の行か
+   * 画面で購読した変更を、読み込み済みの範囲だけに反映するのに使う
+   */
+  isAfterCursor(item: T, cursor: PageCursor): boolean {
+    const anchor = { id: cursor.id, [this.getListOrder().field]: cursor.value } as unknown as T;
+    return this.compareItems(item, anchor) > 0;
+  }
+
+  // ローカルフォールバック用
+  protected get local(): LocalCache<T> {
+    if (!this.localCache) {
+      this.localCache = new LocalCache<T>(this.getTableName());
+    }
+    return this.localCache;
+  }
+
+  /** outboxで同期する対象か（Supabase未設定のモック認証では同期先が無い） */
+  protected isSyncEnabled(): boolean {
+    return isSupabaseConfigured();
+  }
+
+  /**
+   * Supabaseに届かなかった書き込みをoutboxに積む
+   * Supabase未設定（モック認証）の場合は同期先が無いので積まない
+   */
+  protected enqueueWrite(
+    operation: 'create' | 'update' | 'delete',
+    recordId: string,
+    item?: Partial<T>,
+    expectedUpdatedAt?: string
+  ): void {
+    if (!this.isSyncEnabled()) return;
+    this.outboxRepository.enqueue({
+      table: this.getTableName(),
+      recordId,
+      operation,
+      payload: item ? this.mapToSupabase(item) : undefined,
+      expectedUpdatedAt,
+    });
+  }
+
+  /** 未送信の書き込みが残っているレコードか（順序を崩さないよう直接書き込まない） */
+  protected hasPendingWrite(id: string): boolean {
+    return this.outboxRepository.getPendingOperations(this.getTableName()).has(id);
+  }
+
+  /**
+   * Supabaseから取得した行をローカルにキャッシュする
+   * 未送信の変更があるレコードはローカルの内容を優先する
+   * @param index, value キャッシュを置き換える範囲（例: studentId = 対象の生徒）
+   */
+  protected async cacheRemote(remote: T[], index: LocalIndexName, value: string): Promise<T[]> {
+    const local = await this.local.findBy(index, value);
+    const merged = this.outboxRepository.mergeRemote(this.getTableName(), remote, local);
+    await this.local.replaceScope(index, value, merged);
+    return merged;
   }
 
   // Supabase対応メソッド
-  async findAll(userId: string): Promise<T[]> {
+  async findAll(scopeId: string): Promise<T[]> {
+    const scope = this.getListScope();
     if (isSupabaseConfigured() && supabase && (await this.hasSupabaseSession())) {
-      const { data, error } = await supabase
-        .from(this.getTableName())
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
+      const { column, ascending } = this.getListOrder();
+      let query = supabase.from(this.getTableName()).select('*').eq(scope.column, scopeId);
+      if (this.usesSoftDelete()) {
+        query = query.is('deleted_at', null);
+      }
+      const { data, error } = await query.order(column, { ascending });
 
       if (error) {
         console.error(`Error fetching ${this.getTableName()}:`, error);
         // フォールバック
-        return this.getFromLocalStorage().filter((item: any) => item.userId === userId);
+        return this.sortItems(this.visibleItems(await this.local.findBy(scope.field, scopeId)));
       }
-      return this.mapFromSupabase(data || []);
+      const merged = await this.cacheRemote(this.mapFromSupabase(data || []), scope.field, scopeId);
+      return this.sortItems(this.visibleItems(merged));
+    }
+    return this.sortItems(this.visibleItems(await this.local.findBy(scope.field, scopeId)));
+  }
+
+  /**
+   * 一覧を1ページずつ読む（getListOrder() の順、カーソルはその値＋ID）
+   * 未送信の書き込みがある行はローカルの内容を優先する
+   */
+  async findPage(scopeId: string, request: PageRequest = {}): Promise<Page<T>> {
+    const { field } = this.getListScope();
+    const remote = await this.fetchRemotePage('*', scopeId, request);
+    if (remote) {
+      const rows = this.mapFromSupabase(remote.rows);
+      const pending = this.outboxRepository.getPendingOperations(this.getTableName());
+      await this.local.putMany(rows.filter((row) => !pending.has(row.id)));
+      const merged = this.outboxRepository.mergeRemote(
+        this.getTableName(),
+        rows,
+        await this.local.findBy(field, scopeId)
+      );
+      return this.toRemotePage(merged, rows, remote.hasMore, request);
+    }
+    return this.toLocalPage(await this.local.findBy(field, scopeId), request);
+  }
+
+  /**
+   * Supabaseから1ページ分（＋続きの有無を判定する1行）を読む
+   * セッションが無い・エラーの場合は null（ローカルで読む）
+   */
+  protected async fetchRemotePage(
+    select: string,
+    scopeId: string,
+    request: PageRequest
+  ): Promise<{ rows: any[]; hasMore: boolean } | null> {
+    if (!supabase || !(await this.hasSupabaseSession())) return null;
+    const { column, ascending } = this.getListOrder();
+    const limit = request.limit ?? DEFAULT_PAGE_SIZE;
+
+    let query = supabase
+      .from(this.getTableName())
+      .select(select)
+      .eq(this.getListScope().column, scopeId);
+    if (this.usesSoftDelete()) {
+      query = query.is('deleted_at', null);
+    }
+    if (request.cursor) {
+      query = query.or(this.cursorFilter(request.cursor));
     }
-    return this.getFromLocalStorage().filter((item: any) => item.userId === userId);
+    const { data, error } = await query
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (error) {
+      console.error(`Error fetching page of ${this.getTableName()}:`, error);
+      return null;
+    }
+    const rows = (data || []) as any[];
+    return { rows: rows.slice(0, limit), hasMore: rows.length > limit };
+  }
+
+  /** カーソルより後ろの行を表す PostgREST の or 条件（値が空の行は最後に並ぶ） */
+  private cursorFilter(cursor: PageCursor): string {
+    const { column, ascending } = this.getListOrder();
+    const op = ascending ? 'gt' : 'lt';
+    if (!cursor.value) {
+      return `and(${column}.is.null,id.${op}.${cursor.id})`;
+    }
+    const value = `"${cursor.value.replace(/"/g, '\\"')}"`;
+    return [
+      `${column}.${op}.${value}`,
+      `and(${column}.eq.${value},id.${op}.${cursor.id})`,
+      `${column}.is.null`,
+    ].join(',');
+  }
+
+  /**
+   * Supabaseから読んだページを画面用に整える
+   * @param merged 未送信の変更を反映した行（ローカルにしか無い作成途中の行を含む）
+   * @param rows Supabaseから読んだ行（ページの範囲とカーソルはこちらで決める）
+   */
+  protected toRemotePage<R extends T>(
+    merged: R[],
+    rows: R[],
+    hasMore: boolean,
+    request: PageRequest
+  ): Page<R> {
+    const last = rows[rows.length - 1];
+    const inRange = merged.filter(
+      (item) =>
+        (!request.cursor || this.isAfterCursor(item, request.cursor)) &&
+        (!hasMore || !last || this.compareItems(item, last) <= 0)
+    );
+    return {
+      items: this.sortItems(this.visibleItems(inRange)),
+      nextCursor: hasMore && last ? this.cursorOf(last) : null,
+    };
+  }
+
+  /** ローカルの行からページを切り出す */
+  protected toLocalPage<R extends T>(items: R[], request: PageRequest): Page<R> {
+    const limit = request.limit ?? DEFAULT_PAGE_SIZE;
+    const sorted = this.sortItems(this.visibleItems(items)).filter(
+      (item) => !request.cursor || this.isAfterCursor(item, request.cursor)
+    );
+    const page = sorted.slice(0, limit);
+    return {
+      items: page,
+      nextCursor: sorted.length > limit ? this.cursorOf(page[page.length - 1]) : null,
+    };
+  }
+
+  // ========== ゴミ箱（論理削除） ==========
+
+  /** ゴミ箱内の行（削除日時の新しい順） */
+  async findTrashed(scopeId: string): Promise<T[]> {
+    const scope = this.getListScope();
+    let items: T[] | null = null;
+    if (supabase && (await this.hasSupabaseSession())) {
+      const { data, error } = await supabase
+        .from(this.getTableName())
+        .select('*')
+        .eq(scope.column, scopeId)
+        .not('deleted_at', 'is', null);
+      if (error) {
+        console.error(`Error fetching trashed ${this.getTableName()}:`, error);
+      } else {
+        items = this.mapFromSupabase(data || []);
+      }
+    }
+    if (!items) {
+      items = (await this.local.findBy(scope.field, scopeId)).filter((item) => !!item.deletedAt);
+    }
+    return items.sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''));
+  }
+
+  /** ゴミ箱に入れる（通常の更新として保存・同期する） */
+  async softDelete(id: string): Promise<T | null> {
+    return this.update(id, { deletedAt: new Date().toISOString() } as Partial<T>);
+  }
+
+  /** ゴミ箱から戻す */
+  async restore(id: string): Promise<T | null> {
+    return this.update(id, { deletedAt: undefined } as Partial<T>);
   }
 
   async findById(id: string): Promise<T | null> {
@@ -59,18 +357,14 @@ export abstract class SupabaseBaseRepository<T extends BaseEntity> {
         .single();
 
       if (error || !data) {
-        return this.getFromLocalStorage().find((item: any) => item.id === id) || null;
+        return this.local.get(id);
       }
       return this.mapSingleFromSupabase(data);
     }
-    const local = this.getFromLocalStorage().find((item: any) => item.id === id);
-    return local || null;
+    return this.local.get(id);
   }
 
-  async create(
-    item: Omit<T, 'id' | 'createdAt' | 'updatedAt'> &
-      Partial<Pick<T, 'id' | 'createdAt' | 'updatedAt'>>
-  ): Promise<T> {
+  async create(item: NewEntity<T>): Promise<T> {
     const now = new Date().toISOString();
 
     if (isSupabaseConfigured() && supabase && (await this.hasSupabaseSession())) {
@@ -92,91 +386,252 @@ export abstract class SupabaseBaseRepository<T extends BaseEntity> {
 
       if (!error && data) {
         const mapped = this.mapSingleFromSupabase(data);
-        const items = this.getFromLocalStorage();
-        items.push(mapped);
-        this.saveToLocalStorage(items);
+        await this.local.put(mapped);
         return mapped;
       }
 
       console.error(`Error creating ${this.getTableName()}:`, error);
     }
 
-    const items = this.getFromLocalStorage();
     const newItem = {
       ...item,
       id: item.id || generateId(),
       createdAt: item.createdAt || now,
       updatedAt: item.updatedAt || now,
     } as unknown as T;
-    items.push(newItem);
-    this.saveToLocalStorage(items);
+    await this.local.put(newItem);
+    this.enqueueWrite('create', newItem.id, newItem);
+    await this.recordLocalHistory(newItem, null, this.mapToSupabase(newItem));
     return newItem;
   }
 
-  async update(id: string, updates: Partial<T>): Promise<T | null> {
+  /**
+   * 更新（楽観的排他制御つき）
+   * options.expectedUpdatedAt を渡すと、保存先の updatedAt と食い違う場合に ConflictError を投げる
+   */
+  async update(id: string, updates: Partial<T>, options: UpdateOptions = {}): Promise<T | null> {
     const now = new Date().toISOString();
+    const { expectedUpdatedAt } = options;
 
-    if (isSupabaseConfigured() && supabase && (await this.hasSupabaseSession())) {
+    if (
+      isSupabaseConfigured() &&
+      supabase &&
+      !this.hasPendingWrite(id) &&
+      (await this.hasSupabaseSession())
+    ) {
       const payload = this.mapToSupabase({
         ...updates,
         updatedAt: now,
       } as Partial<T>);
 
-      const { data, error } = await supabase
-        .from(this.getTableName())
-        .update(payload)
-        .eq('id', id)
-        .select('*')
-        .single();
+      let query = supabase.from(this.getTableName()).update(payload).eq('id', id);
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt);
+      }
+      const { data: rows, error } = await query.select('*');
+      const data = rows?.[0];
+
+      if (!error && !data && expectedUpdatedAt) {
+        // 条件に合う行が無い: 別の端末が先に更新したかを確認する
+        const current = await this.findRemoteById(id);
+        if (current && !isSameTimestamp(current.updatedAt, expectedUpdatedAt)) {
+          throw new ConflictError<T>(this.getTableName(), updates, current);
+        }
+      }
 
       if (!error && data) {
         const mapped = this.mapSingleFromSupabase(data);
-        const items = this.getFromLocalStorage();
-        const index = items.findIndex((item: any) => item.id === id);
-        if (index !== -1) {
-          items[index] = mapped;
-        } else {
-          items.push(mapped);
-        }
-        this.saveToLocalStorage(items);
+        await this.local.put(mapped);
         return mapped;
       }
 
       console.error(`Error updating ${this.getTableName()}:`, error);
     }
 
-    const items = this.getFromLocalStorage();
-    const index = items.findIndex((item: any) => item.id === id);
-    if (index === -1) return null;
-    items[index] = { ...items[index], ...updates, updatedAt: now } as T;
-    this.saveToLocalStorage(items);
-    return items[index];
+    const existing = await this.local.get(id);
+    if (!existing) return null;
+    if (expectedUpdatedAt && !isSameTimestamp(existing.updatedAt ?? expectedUpdatedAt, expectedUpdatedAt)) {
+      // 別タブ（ローカル運用時）が先に更新した
+      throw new ConflictError<T>(this.getTableName(), updates, existing);
+    }
+    const updated = { ...existing, ...updates, updatedAt: now } as T;
+    await this.local.put(updated);
+    this.enqueueWrite('update', id, { ...updates, updatedAt: now } as Partial<T>, expectedUpdatedAt);
+    await this.recordLocalHistory(
+      updated,
+      this.mapToSupabase(existing),
+      this.mapToSupabase(updated)
+    );
+    return updated;
+  }
+
+  /** Supabase上の最新の行（競合確認用。キャッシュは更新しない） */
+  protected async findRemoteById(id: string): Promise<T | null> {
+    if (!supabase) return null;
+    const { data, error } = await supabase
+      .from(this.getTableName())
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (error || !data) return null;
+    return this.mapSingleFromSupabase(data);
   }
 
   async delete(id: string): Promise<boolean> {
-    if (isSupabaseConfigured() && supabase && (await this.hasSupabaseSession())) {
+    if (
+      isSupabaseConfigured() &&
+      supabase &&
+      !this.hasPendingWrite(id) &&
+      (await this.hasSupabaseSession())
+    ) {
       const { error } = await supabase
         .from(this.getTableName())
         .delete()
         .eq('id', id);
 
       if (!error) {
-        const items = this.getFromLocalStorage();
-        const filtered = items.filter((item: any) => item.id !== id);
-        this.saveToLocalStorage(filtered);
+        await this.local.remove(id);
         return true;
       }
 
       console.error(`Error deleting ${this.getTableName()}:`, error);
     }
 
-    const items = this.getFromLocalStorage();
-    const filtered = items.filter((item: any) => item.id !== id);
-    if (filtered.length === items.length) return false;
-    this.saveToLocalStorage(filtered);
+    const existing = await this.local.get(id);
+    this.enqueueWrite('delete', id);
+    if (!existing) return false;
+    await this.local.remove(id);
+    await this.recordLocalHistory(existing, this.mapToSupabase(existing), null);
     return true;
   }
 
+  /**
+   * ローカル運用（Supabase未設定）時の変更履歴を残す
+   * @param before, after 変更前後の行（Supabase形式）。作成時は before、削除時は after が null
+   */
+  protected async recordLocalHistory(
+    record: T,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ): Promise<void> {
+    if (!this.tracksHistory() || this.isSyncEnabled()) return;
+    try {
+      await this.historyRepository.append({
+        userId: (record as any).userId,
+        table: this.getTableName() as HistoryTable,
+        recordId: record.id,
+        action: historyActionOf(before, after),
+        changes: diffRecords(before, after),
+      });
+    } catch (error) {
+      // 履歴が残せなくても本体の保存は成功扱いにする
+      console.warn(`[${this.getTableName()}] 変更履歴の記録に失敗:`, error);
+    }
+  }
+
+  /** レコードの変更履歴（新しい順） */
+  async findHistory(id: string): Promise<RecordHistoryEntry[]> {
+    return this.historyRepository.findByRecord(this.getTableName() as HistoryTable, id);
+  }
+
+  // ========== 購読 ==========
+
+  /**
+   * 持ち主（getListScope()）のレコードの変更を購読する
+   * - 他の端末: Supabase Realtime（postgres_changes）
+   * - 同じ端末の他のタブ: ローカル書き込みの storage イベント
+   * @returns 購読解除関数
+   */
+  subscribe(scopeId: string, listener: (change: RecordChange<T>) => void): () => void {
+    const unsubscribeLocal = subscribeLocalChanges(this.getTableName(), (change) => {
+      this.emitLocalChange(scopeId, change, listener).catch((error) =>
+        console.error(`[${this.getTableName()}] 購読エラー:`, error)
+      );
+    });
+    const channel = this.subscribeRemote(this.getTableName(), scopeId, (change) => {
+      this.applyRemoteChange(change, listener).catch((error) =>
+        console.error(`[${this.getTableName()}] 購読エラー:`, error)
+      );
+    });
+
+    return () => {
+      unsubscribeLocal();
+      if (channel) {
+        supabase?.removeChannel(channel);
+      }
+    };
+  }
+
+  /**
+   * テーブルの postgres_changes を購読する
+   * INSERT / UPDATE は持ち主（getListScope()）で絞り込み、DELETE は絞り込めない（id のみ届く）ためすべて受ける
+   */
+  protected subscribeRemote(
+    table: string,
+    scopeId: string | null,
+    listener: (change: RecordChange<any>) => void
+  ): RealtimeChannel | null {
+    if (!isSupabaseConfigured() || !supabase) return null;
+    const filter = scopeId ? `${this.getListScope().column}=eq.${scopeId}` : undefined;
+    return supabase
+      .channel(`${table}:${scopeId ?? 'all'}:${generateId()}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, (payload) =>
+        listener({ type: 'upsert', record: payload.new })
+      )
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, (payload) =>
+        listener({ type: 'upsert', record: payload.new })
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) => {
+        const id = (payload.old as { id?: string })?.id;
+        if (id) {
+          listener({ type: 'delete', id });
+        }
+      })
+      .subscribe();
+  }
+
+  /** ゴミ箱に入った行は、一覧からの削除として通知する */
+  protected toVisibleChange<R extends T>(record: R): RecordChange<R> {
+    return this.visibleItems([record]).length > 0
+      ? { type: 'upsert', record }
+      : { type: 'delete', id: record.id };
+  }
+
+  /** Realtime で届いた行をキャッシュに反映して通知する（未送信の変更があるレコードはローカル優先） */
+  private async applyRemoteChange(
+    change: RecordChange<any>,
+    listener: (change: RecordChange<T>) => void
+  ): Promise<void> {
+    if (change.type === 'delete') {
+      if (this.hasPendingWrite(change.id)) return;
+      await this.local.remove(change.id);
+      listener(change);
+      return;
+    }
+    const record = this.mapSingleFromSupabase(change.record);
+    if (this.hasPendingWrite(record.id)) return;
+    await this.local.put(record);
+    listener(this.toVisibleChange(record));
+  }
+
+  /** 他のタブで書き込まれたレコードを読み直して通知する */
+  private async emitLocalChange(
+    scopeId: string,
+    change: LocalChange,
+    listener: (change: RecordChange<T>) => void
+  ): Promise<void> {
+    for (const id of change.ids) {
+      if (change.type === 'delete') {
+        listener({ type: 'delete', id });
+        continue;
+      }
+      const record = await this.local.get(id);
+      if (record && (record as any)[this.getListScope().field] === scopeId) {
+        listener(this.toVisibleChange(record));
+      }
+    }
+  }
+
   // Supabaseのsnake_case ⇔ フロントのcamelCase 変換
   // サブクラスでオーバーライド可能
   protected mapFromSupabase(data: any[]): T[] {
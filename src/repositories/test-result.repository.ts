@@ -1,16 +1,12 @@
 import { SupabaseBaseRepository } from './supabase-base.repository';
-import { TestResult } from '../types';
+import { LocalEntityName, TestResult } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 
 export class TestResultRepository extends SupabaseBaseRepository<TestResult> {
-  protected getTableName(): string {
+  protected getTableName(): LocalEntityName {
     return 'test_results';
   }
 
-  protected getStorageKey(): string {
-    return 'tutor_ai_test_results';
-  }
-
   protected mapSingleFromSupabase(data: any): TestResult {
     return {
       id: data.id,
@@ -51,15 +47,11 @@ export class TestResultRepository extends SupabaseBaseRepository<TestResult> {
 
       if (error) {
         console.error('Error fetching test results:', error);
-        return this.getFromLocalStorage()
-          .filter((t) => t.userId === userId)
-          .sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime());
+        return (await this.local.findBy('userId', userId)).sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime());
       }
       return this.mapFromSupabase(data || []);
     }
-    return this.getFromLocalStorage()
-      .filter((t) => t.userId === userId)
-      .sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime());
+    return (await this.local.findBy('userId', userId)).sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime());
   }
 
   async findByProjectId(userId: string, projectId: string): Promise<TestResult[]> {
@@ -73,15 +65,11 @@ export class TestResultRepository extends SupabaseBaseRepository<TestResult> {
 
       if (error) {
         console.error('Error fetching test results by project:', error);
-        return this.getFromLocalStorage().filter(
-          (t) => t.userId === userId && t.projectId === projectId
-        );
+        return (await this.local.findBy('projectId', projectId)).filter((t) => t.userId === userId);
       }
       return this.mapFromSupabase(data || []);
     }
-    return this.getFromLocalStorage().filter(
-      (t) => t.userId === userId && t.projectId === projectId
-    );
+    return (await this.local.findBy('projectId', projectId)).filter((t) => t.userId === userId);
   }
 
   async createTestResult(testResult: Omit<TestResult, 'id' | 'createdAt' | 'updatedAt'>): Promise<TestResult> {
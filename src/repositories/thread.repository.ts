@@ -1,23 +1,21 @@
 import { SupabaseBaseRepository } from './supabase-base.repository';
-import { Thread } from '../types';
+import { LocalEntityName, Thread } from '../types';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { isValidUuid } from '../utils/uuid';
 
 export class ThreadRepository extends SupabaseBaseRepository<Thread> {
-  protected getTableName(): string {
+  protected getTableName(): LocalEntityName {
     return 'threads';
   }
 
-  protected getStorageKey(): string {
-    return 'tutor_ai_threads';
-  }
-
   protected mapSingleFromSupabase(data: any): Thread {
     return {
       id: data.id,
       userId: data.user_id,
       projectId: data.project_id,
       title: data.title,
+      summary: data.summary ?? undefined,
+      summaryUntil: data.summary_until ?? undefined,
       createdAt: data.created_at,
       updatedAt: data.updated_at || data.created_at,
     };
@@ -29,6 +27,8 @@ export class ThreadRepository extends SupabaseBaseRepository<Thread> {
     if (item.userId !== undefined) result.user_id = item.userId;
     if (item.projectId !== undefined) result.project_id = item.projectId;
     if (item.title !== undefined) result.title = item.title;
+    if (item.summary !== undefined) result.summary = item.summary;
+    if (item.summaryUntil !== undefined) result.summary_until = item.summaryUntil;
     if (item.createdAt !== undefined) result.created_at = item.createdAt;
     if (item.updatedAt !== undefined) result.updated_at = item.updatedAt;
     return result;
@@ -36,7 +36,7 @@ export class ThreadRepository extends SupabaseBaseRepository<Thread> {
 
   async findByProjectId(projectId: string): Promise<Thread[]> {
     if (!isValidUuid(projectId)) {
-      return this.getFromLocalStorage().filter((t) => t.projectId === projectId);
+      return this.local.findBy('projectId', projectId);
     }
     if (isSupabaseConfigured() && supabase) {
       const { data, error } = await supabase
@@ -47,18 +47,16 @@ export class ThreadRepository extends SupabaseBaseRepository<Thread> {
 
       if (error) {
         console.error('Error fetching threads by project:', error);
-        return this.getFromLocalStorage().filter((t) => t.projectId === projectId);
+        return this.local.findBy('projectId', projectId);
       }
       return this.mapFromSupabase(data || []);
     }
-    return this.getFromLocalStorage().filter((t) => t.projectId === projectId);
+    return this.local.findBy('projectId', projectId);
   }
 
   async findByUserIdAndProjectId(userId: string, projectId: string): Promise<Thread[]> {
     if (!isValidUuid(userId) || !isValidUuid(projectId)) {
-      return this.getFromLocalStorage().filter(
-        (t) => t.userId === userId && t.projectId === projectId
-      );
+      return (await this.local.findBy('projectId', projectId)).filter((t) => t.userId === userId);
     }
     if (isSupabaseConfigured() && supabase) {
       const { data, error } = await supabase
@@ -70,15 +68,11 @@ export class ThreadRepository extends SupabaseBaseRepository<Thread> {
 
       if (error) {
         console.error('Error fetching threads:', error);
-        return this.getFromLocalStorage().filter(
-          (t) => t.userId === userId && t.projectId === projectId
-        );
+        return (await this.local.findBy('projectId', projectId)).filter((t) => t.userId === userId);
       }
       return this.mapFromSupabase(data || []);
     }
-    return this.getFromLocalStorage().filter(
-      (t) => t.userId === userId && t.projectId === projectId
-    );
+    return (await this.local.findBy('projectId', projectId)).filter((t) => t.userId === userId);
   }
 
   async createThread(userId: string, projectId: string, title: string): Promise<Thread> {
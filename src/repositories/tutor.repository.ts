@@ -0,0 +1,178 @@
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { BaseRepository } from './base.repository';
+import { ProjectTutorRate, Tutor } from '../types';
+
+/** モック認証時の保存先（localStorage） */
+class LocalTutorStore extends BaseRepository<Tutor> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_tutors';
+  }
+
+  all(): Tutor[] {
+    return this.getAll();
+  }
+
+  add(item: Omit<Tutor, 'id' | 'createdAt'>): Tutor {
+    return this.create(item);
+  }
+
+  patch(id: string, updates: Pick<Tutor, 'name' | 'hourlyYen'>): Tutor | null {
+    return this.update(id, updates);
+  }
+}
+
+/** project_tutors は (projectId, tutorId, effectiveFrom) が主キー */
+class LocalRateStore extends BaseRepository<ProjectTutorRate> {
+  protected getStorageKey(): string {
+    return 'tutor_ai_project_tutors';
+  }
+
+  all(): ProjectTutorRate[] {
+    return this.getAll();
+  }
+
+  put(rate: ProjectTutorRate): ProjectTutorRate {
+    this.saveAll([...this.getAll().filter((item) => !isSameRate(item, rate)), rate]);
+    return rate;
+  }
+
+  remove(rate: ProjectTutorRate): boolean {
+    const items = this.getAll();
+    const kept = items.filter((item) => !isSameRate(item, rate));
+    this.saveAll(kept);
+    return kept.length !== items.length;
+  }
+}
+
+const isSameRate = (a: ProjectTutorRate, b: ProjectTutorRate) =>
+  a.projectId === b.projectId && a.tutorId === b.tutorId && a.effectiveFrom === b.effectiveFrom;
+
+/**
+ * 講師マスタと教科ごとの時給履歴（給与計算用）
+ * Supabase利用時は RLS で管理者だけが読み書きできる
+ */
+export class TutorRepository {
+  private localTutors = new LocalTutorStore();
+  private localRates = new LocalRateStore();
+
+  /** 名前順 */
+  async findAll(): Promise<Tutor[]> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase.from('tutors').select('*').order('name');
+      if (error) {
+        throw new Error(`講師の読み込みに失敗しました: ${error.message}`);
+      }
+      return (data || []).map((row: any) => this.mapTutorFromSupabase(row));
+    }
+    return this.localTutors.all().sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+  }
+
+  async create(name: string, hourlyYen: number): Promise<Tutor> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('tutors')
+        .insert({ name, hourly_yen: hourlyYen })
+        .select('*')
+        .single();
+      if (error || !data) {
+        throw new Error(`講師の登録に失敗しました: ${error?.message}`);
+      }
+      return this.mapTutorFromSupabase(data);
+    }
+    return this.localTutors.add({ name, hourlyYen });
+  }
+
+  async update(id: string, updates: Pick<Tutor, 'name' | 'hourlyYen'>): Promise<Tutor> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('tutors')
+        .update({ name: updates.name, hourly_yen: updates.hourlyYen })
+        .eq('id', id)
+        .select('*')
+        .single();
+      if (error || !data) {
+        throw new Error(`講師の更新に失敗しました: ${error?.message}`);
+      }
+      return this.mapTutorFromSupabase(data);
+    }
+    const updated = this.localTutors.patch(id, updates);
+    if (!updated) {
+      throw new Error('講師が見つかりません');
+    }
+    return updated;
+  }
+
+  /** 時給の履歴（適用開始日の新しい順） */
+  async findRates(): Promise<ProjectTutorRate[]> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('project_tutors')
+        .select('*')
+        .order('effective_from', { ascending: false });
+      if (error) {
+        throw new Error(`担当の読み込みに失敗しました: ${error.message}`);
+      }
+      return (data || []).map((row: any) => this.mapRateFromSupabase(row));
+    }
+    return this.localRates.all().sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+  }
+
+  /** 同じ講師・教科・適用開始日の行があれば時給を上書きする */
+  async saveRate(rate: Omit<ProjectTutorRate, 'createdAt'>): Promise<ProjectTutorRate> {
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase
+        .from('project_tutors')
+        .upsert(
+          {
+            project_id: rate.projectId,
+            tutor_id: rate.tutorId,
+            hourly_yen: rate.hourlyYen,
+            effective_from: rate.effectiveFrom,
+          },
+          { onConflict: 'project_id,tutor_id,effective_from' }
+        )
+        .select('*')
+        .single();
+      if (error || !data) {
+        throw new Error(`担当の登録に失敗しました: ${error?.message}`);
+      }
+      return this.mapRateFromSupabase(data);
+    }
+    return this.localRates.put({ ...rate, createdAt: new Date().toISOString() });
+  }
+
+  async deleteRate(rate: ProjectTutorRate): Promise<boolean> {
+    if (isSupabaseConfigured() && supabase) {
+      const { error } = await supabase
+        .from('project_tutors')
+        .delete()
+        .eq('project_id', rate.projectId)
+        .eq('tutor_id', rate.tutorId)
+        .eq('effective_from', rate.effectiveFrom);
+      if (error) {
+        throw new Error(`担当の削除に失敗しました: ${error.message}`);
+      }
+      return true;
+    }
+    return this.localRates.remove(rate);
+  }
+
+  private mapTutorFromSupabase(data: any): Tutor {
+    return {
+      id: data.id,
+      name: data.name,
+      hourlyYen: data.hourly_yen,
+      createdAt: data.created_at,
+    };
+  }
+
+  private mapRateFromSupabase(data: any): ProjectTutorRate {
+    return {
+      projectId: data.project_id,
+      tutorId: data.tutor_id,
+      hourlyYen: data.hourly_yen,
+      effectiveFrom: data.effective_from,
+      createdAt: data.created_at,
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { BaseRepository } from './base.repository';
-import { User } from '../types';
+import { User, UserRole } from '../types';
 
 export class UserRepository extends BaseRepository<User> {
   protected getStorageKey(): string {
@@ -10,31 +10,27 @@ export class UserRepository extends BaseRepository<User> {
     return this.getAll().find((u) => u.email === email);
   }
 
-  createUser(email: string): User {
+  findUser(id: string): User | undefined {
+    return this.findById(id);
+  }
+
+  findRole(id: string): UserRole | undefined {
+    return this.findById(id)?.role;
+  }
+
+  setRole(id: string, role: UserRole): User | null {
+    return this.update(id, { role });
+  }
+
+  createUser(email: string, role?: UserRole): User {
     return this.create({
       email,
+      ...(role ? { role } : {}),
     });
   }
 
-  createUserWithId(id: string, email: string): User {
-    // 既存のユーザーがあれば返す
-    const existing = this.findByEmail(email);
-    if (existing) {
-      return existing;
-    }
-    
-    // Supabase AuthのIDを使ってユーザーを作成
-    const user: User = {
-      id,
-      email,
-      createdAt: new Date().toISOString(),
-    };
-    
-    const all = this.getAll();
-    all.push(user);
-    localStorage.setItem(this.getStorageKey(), JSON.stringify(all));
-    
-    return user;
+  removeUser(id: string): boolean {
+    return this.delete(id);
   }
 }
 
@@ -0,0 +1,103 @@
+/**
+ * Account Service
+ * アカウントの削除（個人データの消去）
+ * Supabase利用時は Edge Function（delete-account）がサービスロールで消し、端末内のキャッシュも消す
+ */
+
+import { supabase, isSupabaseConfigured, functionErrorMessage } from '../lib/supabase';
+import { AccountDataRepository } from '../repositories';
+import { AccountDeletionCounts, AccountDeletionReceipt, User } from '../types';
+
+/** 受領書に出す順と名前 */
+export const DELETION_COUNT_LABELS: Record<keyof AccountDeletionCounts, string> = {
+  students: '生徒',
+  projects: '教科',
+  threads: 'スレッド',
+  messages: 'メッセージ',
+  homework: '宿題',
+  testSets: 'テスト',
+  testScores: 'テストの点数',
+  lessonRecords: '授業記録',
+  recordHistory: '変更履歴',
+  relationships: '紐付け',
+  inviteCodes: '招待コード',
+  storageObjects: '添付ファイル',
+};
+
+/** Edge Function delete-account の応答 */
+type DeleteAccountResponse = {
+  user_id: string;
+  email: string;
+  deleted_at: string;
+  counts?: Partial<Record<string, number>>;
+};
+
+const isDeleteAccountResponse = (data: unknown): data is DeleteAccountResponse =>
+  typeof data === 'object' &&
+  data !== null &&
+  typeof (data as DeleteAccountResponse).user_id === 'string' &&
+  typeof (data as DeleteAccountResponse).email === 'string' &&
+  typeof (data as DeleteAccountResponse).deleted_at === 'string';
+
+export class AccountService {
+  private accountDataRepository = new AccountDataRepository();
+
+  /**
+   * アカウントと個人データを削除する
+   * @param confirmEmail 確認のため入力してもらったメールアドレス
+   */
+  async deleteAccount(user: User, confirmEmail: string): Promise<AccountDeletionReceipt> {
+    if (confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+      throw new Error('確認のメールアドレスが一致しません');
+    }
+
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase.functions.invoke<unknown>('delete-account', {
+        body: { confirm_email: confirmEmail.trim() },
+      });
+      if (error) {
+        throw new Error(await functionErrorMessage(error, 'アカウントを削除できませんでした'));
+      }
+      if (!isDeleteAccountResponse(data)) {
+        throw new Error('アカウント削除の応答形式が不正です');
+      }
+      await this.accountDataRepository.purgeLocal(user.id);
+      const counts = data.counts ?? {};
+      return {
+        userId: data.user_id,
+        email: data.email,
+        deletedAt: data.deleted_at,
+        counts: {
+          projects: counts.projects ?? 0,
+          threads: counts.threads ?? 0,
+          messages: counts.messages ?? 0,
+          homework: counts.homework ?? 0,
+          testSets: counts.test_sets ?? 0,
+          testScores: counts.test_scores ?? 0,
+          lessonRecords: counts.lesson_records ?? 0,
+          recordHistory: counts.record_history ?? 0,
+          students: counts.students ?? 0,
+          relationships: counts.relationships ?? 0,
+          inviteCodes: counts.invite_codes ?? 0,
+          storageObjects: counts.storage_objects ?? 0,
+        },
+      };
+    }
+
+    // モック認証: 添付画像は各行に含まれているので、行と一緒に消える
+    const counts = await this.accountDataRepository.purgeLocal(user.id);
+    return {
+      userId: user.id,
+      email: user.email,
+      deletedAt: new Date().toISOString(),
+      counts: { ...counts, storageObjects: 0 },
+    };
+  }
+
+  /** 受領書をファイルにする（保存用） */
+  toReceiptFile(receipt: AccountDeletionReceipt): { fileName: string; blob: Blob } {
+    const fileName = `account-deletion-${receipt.deletedAt.slice(0, 10)}.json`;
+    const blob = new Blob([JSON.stringify(receipt, null, 2)], { type: 'application/json' });
+    return { fileName, blob };
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Admin Service
+ * 管理画面（/admin）: 講師マスタ・教科ごとの担当講師と時給の履歴
+ * 給与計算（calculate_monthly_tutor_payroll）は授業日の時点で最新の行の講師・時給を使う
+ */
+
+import { format } from 'date-fns';
+import { ProjectRepository, StudentRepository, TutorRepository } from '../repositories';
+import { AdminConsoleData, AdminProject, ProjectTutorRate, Tutor, User } from '../types';
+
+const isValidYen = (value: number) => Number.isInteger(value) && value >= 0;
+
+/**
+ * 教科ごとに、その日時点の担当（適用開始日が date 以前で最新の行）
+ * calculate_monthly_tutor_payroll の lateral join と同じ選び方
+ */
+export function currentRatesOf(rates: ProjectTutorRate[], date: string): Map<string, ProjectTutorRate> {
+  const current = new Map<string, ProjectTutorRate>();
+  rates.forEach((rate) => {
+    if (rate.effectiveFrom > date) return;
+    const existing = current.get(rate.projectId);
+    if (!existing || rate.effectiveFrom > existing.effectiveFrom) {
+      current.set(rate.projectId, rate);
+    }
+  });
+  return current;
+}
+
+export class AdminService {
+  private tutorRepository = new TutorRepository();
+  private studentRepository = new StudentRepository();
+  private projectRepository = new ProjectRepository();
+
+  /** 管理者は RLS ですべての生徒・教科を読める */
+  async loadConsole(user: User): Promise<AdminConsoleData> {
+    const [tutors, rates, students] = await Promise.all([
+      this.tutorRepository.findAll(),
+      this.tutorRepository.findRates(),
+      this.studentRepository.findAccessible(user.id),
+    ]);
+    const projectLists = await Promise.all(
+      students.map((student) => this.projectRepository.findByStudentId(student.id))
+    );
+    const studentById = new Map(students.map((student) => [student.id, student]));
+    const projects: AdminProject[] = projectLists
+      .flat()
+      .map((project) => ({ project, student: studentById.get(project.studentId) }))
+      .sort(
+        (a, b) =>
+          (a.student?.name ?? '').localeCompare(b.student?.name ?? '', 'ja') ||
+          a.project.name.localeCompare(b.project.name, 'ja')
+      );
+    const projectById = new Map(projects.map((item) => [item.project.id, item]));
+    const current = currentRatesOf(rates, format(new Date(), 'yyyy-MM-dd'));
+
+    return {
+      projects,
+      tutors: tutors.map((tutor) => {
+        const assignments = projects
+          .filter((item) => current.get(item.project.id)?.tutorId === tutor.id)
+          .map((item) => ({ ...item, rate: current.get(item.project.id)! }));
+        const students = new Map(
+          assignments
+            .filter((item) => item.student)
+            .map((item) => [item.student!.id, item.student!])
+        );
+        return {
+          tutor,
+          assignments,
+          students: [...students.values()],
+          rates: rates.filter(
+            (rate) => rate.tutorId === tutor.id && projectById.has(rate.projectId)
+          ),
+        };
+      }),
+    };
+  }
+
+  async saveTutor(input: { id?: string; name: string; hourlyYen: number }): Promise<Tutor> {
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('講師の名前を入力してください');
+    }
+    if (!isValidYen(input.hourlyYen)) {
+      throw new Error('時給は0以上の整数で入力してください');
+    }
+    return input.id
+      ? this.tutorRepository.update(input.id, { name, hourlyYen: input.hourlyYen })
+      : this.tutorRepository.create(name, input.hourlyYen);
+  }
+
+  /**
+   * 教科に講師を付ける（時給を変えるときも新しい適用開始日で追加する）
+   * 過去の授業の給与は、その時点の行のまま変わらない
+   */
+  async assignTutor(rate: Omit<ProjectTutorRate, 'createdAt'>): Promise<ProjectTutorRate> {
+    if (!rate.projectId || !rate.tutorId) {
+      throw new Error('講師と教科を選んでください');
+    }
+    if (!isValidYen(rate.hourlyYen)) {
+      throw new Error('時給は0以上の整数で入力してください');
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(rate.effectiveFrom)) {
+      throw new Error('適用開始日を入力してください');
+    }
+    return this.tutorRepository.saveRate(rate);
+  }
+
+  async removeRate(rate: ProjectTutorRate): Promise<void> {
+    await this.tutorRepository.deleteRate(rate);
+  }
+}
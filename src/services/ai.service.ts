@@ -1,9 +1,44 @@
 import { supabase } from '../lib/supabase';
+import {
+  localStubReply,
+  localStubSummary,
+  localStubTitle,
+  streamLocalStub,
+} from '../lib/ai/local-stub';
+import { ChatMessage, HintLevel } from '../types';
 
-type ChatMessage = {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-};
+/** 1回に送る画像の上限（古いメッセージの画像から落とす） */
+const MAX_IMAGES = 4;
+
+/** タイトルが作れないとき・最初のメッセージから仮に付けるときの長さ */
+const DRAFT_TITLE_LENGTH = 20;
+
+export const DEFAULT_THREAD_TITLE = '新しいチャット';
+
+/** Edge Function chat の応答（stream でないとき） */
+type ChatResponse = { message?: string };
+
+/** stream のときの1イベントの data（delta: 続きの本文、error: 途中で止まった理由） */
+type ChatStreamEventData = { delta?: unknown; error?: unknown };
+
+const isChatResponse = (data: unknown): data is ChatResponse =>
+  typeof data === 'object' && data !== null && typeof (data as ChatResponse).message === 'string';
+
+/** SSE の1イベント（event: 行が無ければ name は message） */
+function parseSseEvent(raw: string): { name: string; data: ChatStreamEventData | null } {
+  let name = 'message';
+  const dataLines: string[] = [];
+  raw.split('\n').forEach((line) => {
+    if (line.startsWith('event:')) name = line.slice('event:'.length).trim();
+    if (line.startsWith('data:')) dataLines.push(line.slice('data:'.length).trim());
+  });
+  try {
+    const data: unknown = dataLines.length > 0 ? JSON.parse(dataLines.join('\n')) : null;
+    return { name, data: typeof data === 'object' && data !== null ? data : null };
+  } catch {
+    return { name, data: null };
+  }
+}
 
 export class AIService {
   /**
@@ -21,26 +56,25 @@ export class AIService {
    * 既存の会話メッセージ配列からAI応答を生成
    * @param messages Chat Completions形式のmessages
    * @param projectName 任意：プロジェクト名
+   * @param projectId 任意：スレッドの教科（生徒の学年と教科でAIの指示を選ぶ）
    */
-  async generateResponseFromMessages(messages: ChatMessage[], projectName: string = 'Link'): Promise<string> {
-    // 簡易バリデーション
-    const trimmed = (messages ?? [])
-      .filter((m) => m && typeof m.content === 'string' && m.content.trim().length > 0)
-      .slice(-20) // 念のため上限
-      .map((m) => ({ role: m.role, content: m.content.trim() }));
-
-    if (trimmed.length === 0) {
-      throw new Error('メッセージが空です');
-    }
+  async generateResponseFromMessages(
+    messages: ChatMessage[],
+    projectName: string = 'Link',
+    projectId?: string
+  ): Promise<string> {
+    const trimmed = this.prepareMessages(messages);
 
+    // Supabase 未設定時は端末内の確認用の応答
     if (!supabase) {
-      throw new Error('Supabase is not configured. Check VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY in your env.');
+      return localStubReply(trimmed, projectName);
     }
 
-    const { data, error } = await supabase.functions.invoke('chat', {
+    const { data, error } = await supabase.functions.invoke<unknown>('chat', {
       body: {
         messages: trimmed,
         projectName,
+        projectId,
       },
     });
 
@@ -49,22 +83,189 @@ export class AIService {
       throw new Error(error.message || 'AIの呼び出しに失敗しました');
     }
 
-    const message = (data as any)?.message;
-    if (!message || typeof message !== 'string') {
+    if (!isChatResponse(data) || !data.message) {
       throw new Error('AIの応答形式が不正です');
     }
 
-    return message;
+    return data.message;
   }
 
   /**
-   * チャットのタイトルを生成
+   * AI応答を生成した分から順に受け取る（Edge Function chat の stream: true）
+   * signal で止めると、その時点で終わる（例外にはしない。受け取った分は呼び出し側で保存する）
+   * @param messages Chat Completions形式のmessages
+   * @param options.projectName 任意：プロジェクト名
+   * @param options.projectId 任意：スレッドの教科（生徒の学年と教科でAIの指示を選ぶ）
+   * @param options.hintLevel 任意：ヒントの段階（4 のときだけ答えを示す）
+   * @param options.summary 任意：スレッドの要約（直近20件より前のやりとりを伝える）
+   * @param options.signal 任意：生成を止める
+   * @returns 追加のテキスト（差分）
+   */
+  async *streamResponseFromMessages(
+    messages: ChatMessage[],
+    {
+      projectName = 'Link',
+      projectId,
+      hintLevel,
+      summary,
+      signal,
+    }: {
+      projectName?: string;
+      projectId?: string;
+      hintLevel?: HintLevel;
+      summary?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): AsyncGenerator<string> {
+    const trimmed = this.prepareMessages(messages);
+
+    if (!supabase) {
+      yield* streamLocalStub(localStubReply(trimmed, projectName, hintLevel), signal);
+      return;
+    }
+
+    const { data, error } = await supabase.functions.invoke<unknown>('chat', {
+      body: {
+        messages: trimmed,
+        projectName,
+        projectId,
+        hintLevel,
+        summary,
+        stream: true,
+      },
+      signal,
+    });
+
+    if (signal?.aborted) return;
+    if (error) {
+      throw new Error(error.message || 'AIの呼び出しに失敗しました');
+    }
+    // text/event-stream のときは Response がそのまま返る
+    const body = data instanceof Response ? data.body : null;
+    if (!body) {
+      throw new Error('AIの応答形式が不正です');
+    }
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+        // イベントは空行で区切られる
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+        for (const raw of events) {
+          const event = parseSseEvent(raw);
+          if (event.name === 'done') return;
+          if (event.name === 'error') {
+            const reason = event.data?.error;
+            throw new Error(typeof reason === 'string' && reason ? reason : 'AIの応答が途中で止まりました');
+          }
+          if (typeof event.data?.delta === 'string') {
+            yield event.data.delta;
+          }
+        }
+      }
+    } catch (streamError) {
+      if (signal?.aborted) return;
+      throw streamError;
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
+  /** 簡易バリデーション（空のメッセージを除き、直近20件まで。画像は直近の MAX_IMAGES 枚まで） */
+  private prepareMessages(messages: ChatMessage[]): ChatMessage[] {
+    let remainingImages = MAX_IMAGES;
+    const trimmed = (messages ?? [])
+      .filter(
+        (m) =>
+          m &&
+          typeof m.content === 'string' &&
+          (m.content.trim().length > 0 || (m.images?.length ?? 0) > 0)
+      )
+      .slice(-20) // 念のため上限
+      .reverse()
+      .map((m): ChatMessage => {
+        const images = (m.images ?? []).slice(0, Math.max(remainingImages, 0));
+        remainingImages -= images.length;
+        return images.length > 0
+          ? { role: m.role, content: m.content.trim(), images }
+          : { role: m.role, content: m.content.trim() };
+      })
+      .reverse()
+      // 画像を落とした結果、何も無くなったメッセージは送らない
+      .filter((m) => m.content.length > 0 || m.images);
+
+    if (trimmed.length === 0) {
+      throw new Error('メッセージが空です');
+    }
+    return trimmed;
+  }
+
+  /**
+   * 最初のメッセージから仮のタイトル（AIのタイトルができるまで）
    * @param firstMessage 最初のメッセージ
+   */
+  draftThreadTitle(firstMessage: string): string {
+    const title = firstMessage.slice(0, DRAFT_TITLE_LENGTH).trim();
+    return title || DEFAULT_THREAD_TITLE;
+  }
+
+  /**
+   * 会話の内容からタイトルを生成（最初のやりとりの後）
+   * 失敗したときは最初のメッセージから仮のタイトル
+   * @param messages 会話（ユーザー・AIの発言）
    * @returns タイトル
    */
-  async generateThreadTitle(firstMessage: string): Promise<string> {
-    // 先頭20文字をタイトルにする
-    const title = firstMessage.slice(0, 20).trim();
-    return title || '新しいチャット';
+  async generateThreadTitle(messages: ChatMessage[]): Promise<string> {
+    const firstMessage = messages.find((m) => m.role === 'user')?.content ?? '';
+    if (!supabase) {
+      return localStubTitle(messages) || this.draftThreadTitle(firstMessage);
+    }
+    try {
+      return await this.runTask('title', messages);
+    } catch (error) {
+      console.error('[AIService] タイトル生成エラー:', error);
+      return this.draftThreadTitle(firstMessage);
+    }
+  }
+
+  /**
+   * スレッドの要約に新しいやりとりを書き足す
+   * @param previousSummary これまでの要約（無ければ最初から）
+   * @param messages まだ要約していないやりとり
+   * @returns 新しい要約
+   */
+  async summarizeConversation(previousSummary: string | undefined, messages: ChatMessage[]): Promise<string> {
+    if (!supabase) {
+      return localStubSummary(previousSummary, messages);
+    }
+    return this.runTask('summary', messages, previousSummary);
+  }
+
+  /** Edge Function chat の task（title / summary）。応答の本文だけを返す */
+  private async runTask(task: 'title' | 'summary', messages: ChatMessage[], summary?: string): Promise<string> {
+    if (!supabase) {
+      throw new Error('Supabase is not configured. Check VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY in your env.');
+    }
+    const { data, error } = await supabase.functions.invoke<unknown>('chat', {
+      body: {
+        // 画像は送らない（書き起こしだけを使う）
+        messages: messages.map((m) => ({ role: m.role, content: m.content })),
+        summary,
+        task,
+      },
+    });
+    if (error) {
+      throw new Error(error.message || 'AIの呼び出しに失敗しました');
+    }
+    if (!isChatResponse(data) || !data.message) {
+      throw new Error('AIの応答形式が不正です');
+    }
+    return data.message;
   }
 }
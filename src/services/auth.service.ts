@@ -1,126 +1,121 @@
-import { UserRepository } from '../repositories';
-import { User } from '../types';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { ProfileRepository } from '../repositories';
+import { AuthProvider, AuthUserListener, RegisterResult, User } from '../types';
+import { getAuthProvider } from '../lib/auth';
 
-const CURRENT_USER_KEY = 'tutor_ai_current_user';
+export { AUTH_CALLBACK_PATH, RESET_PASSWORD_PATH, MIN_PASSWORD_LENGTH } from '../lib/auth';
 
+/**
+ * 認証
+ * ログイン・ログアウト・セッションの復元は AuthProvider（Supabase Auth / モック認証）に任せ、
+ * ここではロールの読み込みを足す
+ */
 export class AuthService {
-  private userRepository: UserRepository;
+  private provider: AuthProvider;
+  private profileRepository: ProfileRepository;
 
   constructor() {
-    this.userRepository = new UserRepository();
+    this.provider = getAuthProvider();
+    this.profileRepository = new ProfileRepository();
   }
 
   async login(email: string, password: string): Promise<User> {
-    // Supabase Auth を使用
-    if (isSupabaseConfigured() && supabase) {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (error) {
-        // Supabase にユーザーがいない場合は登録を試みる
-        if (error.message.includes('Invalid login credentials')) {
-          throw new Error('メールアドレスまたはパスワードが正しくありません');
-        }
-        throw new Error(error.message);
-      }
-
-      if (data.user) {
-        // Supabase Auth の UID を必ず使う（古いLocalStorageユーザーのIDは無視）
-        const localUser: User = {
-          id: data.user.id,
-          email: data.user.email || email,
-          createdAt: new Date().toISOString(),
-        };
-        localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(localUser));
-        return localUser;
-      }
-    }
+    const user = await this.provider.signIn(email, password);
+    return this.resolveRole(user);
+  }
 
-    // フォールバック：モック認証
-    let user = this.userRepository.findByEmail(email);
-    if (!user) {
-      user = this.userRepository.createUser(email);
+  /**
+   * 新規登録
+   * Supabase でメールアドレスの確認が必要な設定なら、確認が済むまでログインしない（needsVerification）
+   * ロールは常に生徒で始まる（保護者・講師は招待コードを使ったときに付く）
+   */
+  async register(email: string, password: string): Promise<RegisterResult> {
+    const result = await this.provider.signUp(email, password);
+    if (!result.user) {
+      return result;
     }
-    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-    return user;
+    return { ...result, user: await this.resolveRole(result.user) };
   }
 
-  async register(email: string, password: string): Promise<User> {
-    // Supabase Auth を使用
-    if (isSupabaseConfigured() && supabase) {
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-      });
-
-      if (error) {
-        if (error.message.includes('already registered')) {
-          throw new Error('このメールアドレスは既に登録されています');
-        }
-        throw new Error(error.message);
-      }
-
-      if (data.user) {
-        // ローカルのUserRepositoryにも保存
-        const localUser = this.userRepository.createUserWithId(data.user.id, email);
-        localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(localUser));
-        return localUser;
-      }
-    }
+  /** 確認メールを送り直す */
+  async resendVerification(email: string): Promise<void> {
+    await this.provider.resendVerification(email);
+  }
+
+  /** パスワード再設定のメールを送る（リンクは /reset-password に戻ってくる） */
+  async requestPasswordReset(email: string): Promise<void> {
+    await this.provider.requestPasswordReset(email);
+  }
+
+  /**
+   * パスワードなしでログインするリンクを送る（登録済みのメールアドレスのみ）
+   */
+  async sendMagicLink(email: string): Promise<void> {
+    await this.provider.sendMagicLink(email);
+  }
+
+  /**
+   * 新しいパスワードを設定する
+   * Supabase: 再設定リンクで開いたセッション（PASSWORD_RECOVERY）のまま更新する
+   * モック: リンクのトークンを確認してログインする（モックはパスワードを保存しない）
+   */
+  async updatePassword(password: string, token?: string): Promise<User> {
+    const user = await this.provider.updatePassword(password, token);
+    return this.resolveRole(user);
+  }
 
-    // フォールバック：モック認証
-    const existingUser = this.userRepository.findByEmail(email);
-    if (existingUser) {
-      throw new Error('このメールアドレスは既に登録されています');
+  /**
+   * メールのリンク（マジックリンク・確認）から戻ってきたとき（モック認証のみ）
+   * Supabase利用時は supabase-js が URL のトークンからセッションを作る
+   */
+  async completeEmailLink(token: string): Promise<User> {
+    const user = await this.provider.completeEmailLink(token);
+    return this.resolveRole(user);
+  }
+
+  /**
+   * ログイン中のアカウントのパスワードを確かめる（PINの再設定など）
+   * モック認証はパスワードを保存しないので、空でなければ通す
+   */
+  async verifyPassword(email: string, password: string): Promise<void> {
+    if (!password) {
+      throw new Error('パスワードを入力してください');
     }
-    const user = this.userRepository.createUser(email);
-    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-    return user;
+    await this.provider.verifyPassword(email, password);
   }
 
   getCurrentUser(): User | null {
-    const data = localStorage.getItem(CURRENT_USER_KEY);
-    return data ? JSON.parse(data) : null;
+    return this.provider.getCurrentUser();
   }
 
   async logout(): Promise<void> {
-    console.log('[AuthService] logout開始');
-    if (isSupabaseConfigured() && supabase) {
-      try {
-        await supabase.auth.signOut();
-        console.log('[AuthService] Supabaseログアウト成功');
-      } catch (error) {
-        console.error('[AuthService] Supabaseログアウトエラー:', error);
-        // エラーでもローカルはクリアする
-      }
-    }
-    localStorage.removeItem(CURRENT_USER_KEY);
-    console.log('[AuthService] LocalStorage削除完了');
+    await this.provider.signOut();
   }
 
   isAuthenticated(): boolean {
     return this.getCurrentUser() !== null;
   }
 
-  // Supabase Auth のセッションを復元
+  /** 前回のセッションを確かめて復元する（ロールは resolveRole で別に読む） */
   async restoreSession(): Promise<User | null> {
-    if (isSupabaseConfigured() && supabase) {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user) {
-        // Supabase Auth の UID を必ず使う
-        const localUser: User = {
-          id: session.user.id,
-          email: session.user.email || '',
-          createdAt: new Date().toISOString(),
-        };
-        localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(localUser));
-        return localUser;
-      }
-    }
-    return this.getCurrentUser();
+    return this.provider.restoreSession();
   }
-}
 
+  /**
+   * ログイン中のユーザーの変化（他のタブ・メールのリンク・トークンの更新を含む）
+   * @returns 購読解除関数
+   */
+  onUserChanged(listener: AuthUserListener): () => void {
+    return this.provider.onUserChanged(listener);
+  }
+
+  /**
+   * ロールを読み込んで現在のユーザーに反映する
+   * 取得できない場合（オフライン等）は前回のロールのまま
+   */
+  async resolveRole(user: User): Promise<User> {
+    const role = await this.profileRepository.findRole(user.id, user.role ?? 'student');
+    const resolved: User = { ...user, role };
+    this.provider.updateCurrentUser(resolved);
+    return resolved;
+  }
+}
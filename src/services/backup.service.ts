@@ -0,0 +1,390 @@
+/**
+ * Backup Service
+ * 生徒ごとの全データを1つのJSON（バージョン付き）に書き出し、別の端末・アカウント・生徒に取り込む
+ * 取り込みは既存のリポジトリ経由で行うため、保存先（ローカル / Supabase）はリポジトリが決める
+ */
+
+import {
+  HomeworkRepository,
+  LessonRecordRepository,
+  MessageRepository,
+  ProjectRepository,
+  TestSetRepository,
+  ThreadRepository,
+} from '../repositories';
+import {
+  Attachment,
+  BackupAttachmentMode,
+  BackupBundle,
+  BackupCounts,
+  BackupFile,
+} from '../types';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { MigrationService } from './migration.service';
+import { createSignedUrl, uploadAttachment, uploadTestImage } from './storage.service';
+
+const BACKUP_FORMAT = 'tutor-ai-backup';
+const BACKUP_VERSION = 1;
+
+const DATA_KEYS: Array<keyof BackupBundle['data']> = [
+  'projects',
+  'threads',
+  'messages',
+  'homework',
+  'testSets',
+  'lessonRecords',
+];
+
+/** 項目ごとに参照先のIDを持つプロパティ（取り込み時に付け替えるため、文字列でなければ壊れている） */
+const REFERENCE_KEYS: Partial<Record<keyof BackupBundle['data'], string>> = {
+  threads: 'projectId',
+  messages: 'threadId',
+  homework: 'projectId',
+};
+
+function isValidItem(key: keyof BackupBundle['data'], item: unknown): boolean {
+  if (typeof item !== 'object' || item === null) return false;
+  const record = item as Record<string, unknown>;
+  if (typeof record.id !== 'string') return false;
+  const referenceKey = REFERENCE_KEYS[key];
+  if (referenceKey && typeof record[referenceKey] !== 'string') return false;
+  return key !== 'testSets' || Array.isArray(record.scores);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function dataUrlToFile(dataUrl: string, name: string): Promise<File> {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], name, { type: blob.type });
+}
+
+export class BackupService {
+  private projectRepository = new ProjectRepository();
+  private threadRepository = new ThreadRepository();
+  private messageRepository = new MessageRepository();
+  private homeworkRepository = new HomeworkRepository();
+  private testSetRepository = new TestSetRepository();
+  private lessonRecordRepository = new LessonRecordRepository();
+
+  // ========== Export ==========
+
+  /**
+   * 生徒のデータをまとめる（チャットは、その生徒の教科にある自分のスレッド）
+   * @param attachmentMode none: 添付を外す / reference: Storageパスのみ / inline: ファイルを同梱
+   */
+  async exportBundle(
+    userId: string,
+    studentId: string,
+    attachmentMode: BackupAttachmentMode = 'reference'
+  ): Promise<BackupBundle> {
+    const projects = await this.projectRepository.findByStudentId(studentId);
+    const projectIds = new Set(projects.map((project) => project.id));
+    const threads = (await this.threadRepository.findAll(userId)).filter((thread) =>
+      projectIds.has(thread.projectId)
+    );
+    const messages = [];
+    for (const thread of threads) {
+      messages.push(...(await this.messageRepository.findByThreadId(thread.id)));
+    }
+
+    const bundle: BackupBundle = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      schemaVersion: new MigrationService().getCurrentVersion(),
+      attachmentMode,
+      data: {
+        projects,
+        threads,
+        messages,
+        homework: await this.homeworkRepository.findByStudentId(studentId),
+        testSets: await this.testSetRepository.findByStudentId(studentId),
+        lessonRecords: await this.lessonRecordRepository.findByStudentId(studentId),
+      },
+      files: {},
+    };
+
+    if (attachmentMode === 'none') {
+      this.mapAttachments(bundle, () => null);
+    } else if (attachmentMode === 'inline') {
+      bundle.files = await this.collectFiles(bundle);
+    }
+    return bundle;
+  }
+
+  /** ダウンロード用のファイル名とBlob */
+  toFile(bundle: BackupBundle): { fileName: string; blob: Blob } {
+    const date = bundle.exportedAt.slice(0, 10);
+    return {
+      fileName: `tutor-ai-backup-${date}.json`,
+      blob: new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }),
+    };
+  }
+
+  // ========== Import ==========
+
+  /**
+   * JSONを読み込んで検証する
+   * @throws 形式・バージョンが合わない場合
+   */
+  parseBundle(text: string): BackupBundle {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('バックアップファイルを読み込めませんでした（JSONではありません）');
+    }
+
+    if (parsed?.format !== BACKUP_FORMAT || typeof parsed.data !== 'object' || !parsed.data) {
+      throw new Error('バックアップファイルの形式が正しくありません');
+    }
+    if (parsed.version > BACKUP_VERSION) {
+      throw new Error('新しいバージョンのアプリで作成されたバックアップです。アプリを更新してください');
+    }
+    for (const key of DATA_KEYS) {
+      const items = parsed.data[key] ?? [];
+      if (!Array.isArray(items) || items.some((item: unknown) => !isValidItem(key, item))) {
+        throw new Error(`バックアップファイルの ${key} が壊れています`);
+      }
+      parsed.data[key] = items;
+    }
+    parsed.files = parsed.files && typeof parsed.files === 'object' ? parsed.files : {};
+    return parsed as BackupBundle;
+  }
+
+  /** バックアップ内の件数 */
+  countBundle(bundle: BackupBundle): BackupCounts {
+    return Object.fromEntries(
+      DATA_KEYS.map((key) => [key, bundle.data[key].length])
+    ) as BackupCounts;
+  }
+
+  /**
+   * 生徒にデータを取り込む（既存データは残したまま追加する）
+   * - IDはすべて振り直し、参照（projectId / threadId）を付け替える
+   * - 教科（プロジェクト）は同じ名前があればそれにまとめる
+   * - バックアップに無い教科・スレッドを参照する行は取り込まない（他の生徒のデータに付かないように）
+   * @returns 取り込んだ件数
+   */
+  async importBundle(userId: string, studentId: string, bundle: BackupBundle): Promise<BackupCounts> {
+    const counts: BackupCounts = {
+      projects: 0,
+      threads: 0,
+      messages: 0,
+      homework: 0,
+      testSets: 0,
+      lessonRecords: 0,
+    };
+    const { data } = bundle;
+
+    const projectIds = new Map<string, string>();
+    const existingProjects = await this.projectRepository.findByStudentId(studentId);
+    for (const project of data.projects) {
+      const existing = existingProjects.find((item) => item.name === project.name);
+      if (existing) {
+        projectIds.set(project.id, existing.id);
+        continue;
+      }
+      const created = await this.projectRepository.create({
+        userId,
+        studentId,
+        name: project.name,
+        createdAt: project.createdAt,
+      });
+      projectIds.set(project.id, created.id);
+      counts.projects += 1;
+    }
+
+    const threadIds = new Map<string, string>();
+    for (const thread of data.threads) {
+      const projectId = projectIds.get(thread.projectId);
+      if (!projectId) continue;
+      const created = await this.threadRepository.create({
+        userId,
+        projectId,
+        title: thread.title,
+        summary: thread.summary,
+        summaryUntil: thread.summaryUntil,
+        createdAt: thread.createdAt,
+        updatedAt: thread.updatedAt,
+      });
+      threadIds.set(thread.id, created.id);
+      counts.threads += 1;
+    }
+
+    for (const message of data.messages) {
+      const threadId = threadIds.get(message.threadId);
+      if (!threadId) continue;
+      await this.messageRepository.create({
+        userId,
+        threadId,
+        role: message.role,
+        content: message.content,
+        createdAt: message.createdAt,
+        tags: message.tags,
+        meta: message.meta,
+        attachments: await this.restoreAttachments(bundle, message.attachments, (file) =>
+          uploadAttachment(file, threadId, userId)
+        ),
+      });
+      counts.messages += 1;
+    }
+
+    for (const homework of data.homework) {
+      const projectId = projectIds.get(homework.projectId);
+      if (!projectId) continue;
+      await this.homeworkRepository.create({
+        userId,
+        studentId,
+        projectId,
+        title: homework.title,
+        detail: homework.detail,
+        assignedAt: homework.assignedAt,
+        dueAt: homework.dueAt,
+        status: homework.status,
+        createdAt: homework.createdAt,
+        updatedAt: homework.updatedAt,
+        attachments: await this.restoreAttachments(bundle, homework.attachments, (file) =>
+          uploadAttachment(file, 'homework', userId)
+        ),
+      });
+      counts.homework += 1;
+    }
+
+    for (const testSet of data.testSets) {
+      const scores = [];
+      for (const score of testSet.scores) {
+        const upload = (file: File) => uploadTestImage(file, testSet.id, userId);
+        scores.push({
+          subject: score.subject,
+          score: score.score,
+          average: score.average,
+          maxScore: score.maxScore,
+          rank: score.rank,
+          deviation: score.deviation,
+          problemImages: await this.restoreAttachments(bundle, score.problemImages, upload),
+          answerImages: await this.restoreAttachments(bundle, score.answerImages, upload),
+        });
+      }
+      await this.testSetRepository.createWithChildren(
+        {
+          userId,
+          studentId,
+          date: testSet.date,
+          name: testSet.name,
+          grade: testSet.grade,
+          memo: testSet.memo,
+          createdAt: testSet.createdAt,
+        },
+        scores
+      );
+      counts.testSets += 1;
+    }
+
+    for (const record of data.lessonRecords) {
+      await this.lessonRecordRepository.create({
+        userId,
+        studentId,
+        date: record.date,
+        duration: record.duration,
+        startTime: record.startTime,
+        endTime: record.endTime,
+        content: record.content,
+        memo: record.memo,
+        createdAt: record.createdAt,
+      });
+      counts.lessonRecords += 1;
+    }
+
+    return counts;
+  }
+
+  // ========== Attachment Helpers ==========
+
+  /** バンドル内のすべての添付に fn を適用する（null を返すと外す） */
+  private mapAttachments(
+    bundle: BackupBundle,
+    fn: (attachment: Attachment) => Attachment | null
+  ): void {
+    const apply = (attachments?: Attachment[]) =>
+      attachments?.map(fn).filter((item): item is Attachment => item !== null);
+    const { data } = bundle;
+    data.messages = data.messages.map((item) => ({ ...item, attachments: apply(item.attachments) }));
+    data.homework = data.homework.map((item) => ({ ...item, attachments: apply(item.attachments) }));
+    data.testSets = data.testSets.map((set) => ({
+      ...set,
+      scores: set.scores.map((score) => ({
+        ...score,
+        problemImages: apply(score.problemImages),
+        answerImages: apply(score.answerImages),
+      })),
+    }));
+  }
+
+  /** Storage上の添付をダウンロードして同梱する（取得できないものは参照のまま残す） */
+  private async collectFiles(bundle: BackupBundle): Promise<Record<string, BackupFile>> {
+    const paths = new Set<string>();
+    this.mapAttachments(bundle, (attachment) => {
+      if (attachment.path) paths.add(attachment.path);
+      return attachment;
+    });
+
+    const files: Record<string, BackupFile> = {};
+    if (!isSupabaseConfigured()) return files;
+    for (const path of paths) {
+      try {
+        const response = await fetch(await createSignedUrl(path));
+        const blob = await response.blob();
+        files[path] = { mime: blob.type, data: await blobToDataUrl(blob) };
+      } catch (error) {
+        console.warn('[BackupService] 添付の取得に失敗:', path, error);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * 取り込み時の添付の扱い
+   * 同梱ファイルがあれば、Supabase利用時はStorageへアップロードし直し、ローカル運用時は data URL として埋め込む
+   */
+  private async restoreAttachments(
+    bundle: BackupBundle,
+    attachments: Attachment[] | undefined,
+    upload: (file: File) => Promise<{ path: string; mime: string; size: number }>
+  ): Promise<Attachment[] | undefined> {
+    if (!attachments) return undefined;
+    const restored: Attachment[] = [];
+    for (const attachment of attachments) {
+      const file = attachment.path ? bundle.files[attachment.path] : undefined;
+      if (!file) {
+        restored.push(attachment);
+        continue;
+      }
+      if (!isSupabaseConfigured()) {
+        restored.push({ ...attachment, urlOrData: file.data, path: undefined });
+        continue;
+      }
+      try {
+        const uploaded = await upload(await dataUrlToFile(file.data, attachment.name || 'image'));
+        restored.push({
+          ...attachment,
+          urlOrData: uploaded.path,
+          path: uploaded.path,
+          mime: uploaded.mime,
+          size: uploaded.size,
+        });
+      } catch (error) {
+        console.warn('[BackupService] 添付のアップロードに失敗:', attachment.path, error);
+        restored.push({ ...attachment, urlOrData: file.data, path: undefined });
+      }
+    }
+    return restored;
+  }
+}
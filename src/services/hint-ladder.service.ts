@@ -0,0 +1,62 @@
+/**
+ * Hint Ladder
+ * AIチャットのヒントの段階（きっかけ → 解き方の方針 → 似た例題 → 答え）
+ * 段階を上げるのは「もっとヒント」「答えを見る」を押したときだけ。答え（4）はそこでしか出さない
+ * 指示の文面は Edge Function chat（supabase/functions/chat/prompt.ts）が持つ
+ */
+
+import { HintLevel, Message } from '../types';
+
+export const MAX_HINT_LEVEL: HintLevel = 4;
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+  1: 'きっかけ',
+  2: '解き方の方針',
+  3: '似た例題',
+  4: '答え',
+};
+
+/** 段階を上げるときに送る生徒の発言 */
+const ESCALATION_TEXTS: Record<HintLevel, string> = {
+  1: 'ヒントをください',
+  2: 'もっとヒントをください（解き方の方針）',
+  3: 'もっとヒントをください（似た例題）',
+  4: '答えを見せてください',
+};
+
+/** 最後のAI応答の段階（まだ無ければ null） */
+export function currentHintLevel(messages: Message[]): HintLevel | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'assistant') {
+      return messages[i].meta?.hintLevel ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * 次のAI応答の段階
+ * - 「もっとヒント」: 1つ上げる（答えまで）
+ * - ふつうの発言: 同じ段階のまま（聞き直しても答えは出ない）。答えまで見た後と、写真を送ったとき（新しい問題）は1から
+ */
+export function nextHintLevel(
+  messages: Message[],
+  { escalate = false, newProblem = false }: { escalate?: boolean; newProblem?: boolean } = {}
+): HintLevel {
+  const current = currentHintLevel(messages);
+  if (escalate) {
+    return current ? (Math.min(current + 1, MAX_HINT_LEVEL) as HintLevel) : 1;
+  }
+  if (newProblem || !current || current === MAX_HINT_LEVEL) {
+    return 1;
+  }
+  return current;
+}
+
+export function escalationText(level: HintLevel): string {
+  return ESCALATION_TEXTS[level];
+}
+
+export function hintLevelLabel(level: HintLevel): string {
+  return `ヒント ${level}/${MAX_HINT_LEVEL}・${HINT_LEVEL_LABELS[level]}`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Homework Detail Service
+ * Homework.detail（todo_v1 形式のJSON）の読み書きと、競合時のToDoマージを担当
+ */
+
+import { Homework, HomeworkDetailPayload, TodoItem } from '../types';
+
+/** 画面で扱う宿題の中身 */
+export interface HomeworkDetail {
+  description: string;
+  todos: TodoItem[];
+}
+
+/**
+ * detail を読み込む
+ * todo_v1 以前のプレーンテキストは説明文として扱う
+ */
+export function parseHomeworkDetail(detail?: string): HomeworkDetail {
+  if (!detail) {
+    return { description: '', todos: [] };
+  }
+  try {
+    const parsed = JSON.parse(detail) as HomeworkDetailPayload;
+    if (parsed?.type === 'todo_v1' && Array.isArray(parsed.todos)) {
+      return {
+        description: parsed.description || '',
+        todos: parsed.todos,
+      };
+    }
+  } catch {
+    // plain text detail
+  }
+  return { description: detail, todos: [] };
+}
+
+export function serializeHomeworkDetail(description: string, todos: TodoItem[]): string {
+  const payload: HomeworkDetailPayload = {
+    type: 'todo_v1',
+    description,
+    todos,
+  };
+  return JSON.stringify(payload);
+}
+
+/** ToDoがすべて完了していれば done */
+export function resolveHomeworkStatus(todos: TodoItem[]): Homework['status'] {
+  return todos.length > 0 && todos.every((todo) => todo.done) ? 'done' : 'todo';
+}
+
+/**
+ * 2台の端末で編集された宿題のToDoを、編集を始めた時点の内容（base）と比べてまとめる
+ * - 両方にあるToDo: 文言・完了は base から変えた側を採る（どちらも変えていれば自分側）
+ * - 片方で削除されたToDo: もう片方で変えていなければ削除する
+ * - 片方で追加されたToDo: 残す（相手側の並び順を優先し、自分が追加したものは後ろに足す）
+ * - 説明文: 自分が変えていれば自分側、変えていなければ相手側
+ */
+export function mergeHomeworkDetails(base: string, mine: string, theirs: string): string {
+  const baseDetail = parseHomeworkDetail(base);
+  const mineDetail = parseHomeworkDetail(mine);
+  const theirsDetail = parseHomeworkDetail(theirs);
+  const baseById = new Map(baseDetail.todos.map((todo) => [todo.id, todo]));
+  const mineById = new Map(mineDetail.todos.map((todo) => [todo.id, todo]));
+  const theirsById = new Map(theirsDetail.todos.map((todo) => [todo.id, todo]));
+  const isChanged = (todo: TodoItem, original: TodoItem) =>
+    todo.text !== original.text || todo.done !== original.done;
+
+  const resolve = (id: string): TodoItem | null => {
+    const original = baseById.get(id);
+    const own = mineById.get(id);
+    const other = theirsById.get(id);
+    if (!original) return own ?? other ?? null;
+    if (!own) return other && isChanged(other, original) ? other : null;
+    if (!other) return isChanged(own, original) ? own : null;
+    return {
+      ...other,
+      text: own.text !== original.text ? own.text : other.text,
+      done: own.done !== original.done ? own.done : other.done,
+    };
+  };
+
+  const order = [
+    ...theirsDetail.todos.map((todo) => todo.id),
+    ...mineDetail.todos.filter((todo) => !theirsById.has(todo.id)).map((todo) => todo.id),
+  ];
+  const merged = order
+    .map(resolve)
+    .filter((todo): todo is TodoItem => todo !== null);
+
+  return serializeHomeworkDetail(
+    mineDetail.description !== baseDetail.description ? mineDetail.description : theirsDetail.description,
+    merged
+  );
+}
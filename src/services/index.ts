@@ -1,5 +1,30 @@
-export { AIService } from './ai.service';
-export { AuthService } from './auth.service';
+export { AIService, DEFAULT_THREAD_TITLE } from './ai.service';
+export { ThreadSummaryService, SUMMARY_EVERY } from './thread-summary.service';
+export { AuthService, AUTH_CALLBACK_PATH, RESET_PASSWORD_PATH, MIN_PASSWORD_LENGTH } from './auth.service';
 export { ProjectService } from './project.service';
+export { StudentService } from './student.service';
+export { AccountService, DELETION_COUNT_LABELS } from './account.service';
+export { AdminService, currentRatesOf } from './admin.service';
+export {
+  PromptTemplateService,
+  GRADE_BAND_LABELS,
+  PROMPT_BODY_MAX_LENGTH,
+  gradeBandOf,
+  resolvePromptTemplates,
+} from './prompt-template.service';
+export { InviteService, normalizeInviteCode } from './invite.service';
+export {
+  PinLockService,
+  PIN_MIN_LENGTH,
+  PIN_MAX_LENGTH,
+  PIN_TIMEOUT_OPTIONS,
+  DEFAULT_PIN_TIMEOUT_MINUTES,
+} from './pin-lock.service';
+export { SyncService } from './sync.service';
+export { MigrationService } from './migration.service';
+export { BackupService } from './backup.service';
+export { TrashService, TRASH_RETENTION_DAYS } from './trash.service';
+export * from './hint-ladder.service';
+export * from './homework-detail.service';
 export * from './storage.service';
 
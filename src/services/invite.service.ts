@@ -0,0 +1,168 @@
+/**
+ * Invite Service
+ * 保護者・講師を生徒に紐付ける招待コードの発行と利用
+ * Supabase利用時、コードの確認と紐付けは Edge Function（redeem-invite）がサーバー側で行う
+ */
+
+import { supabase, isSupabaseConfigured, functionErrorMessage } from '../lib/supabase';
+import {
+  HomeworkRepository,
+  InviteRepository,
+  LessonRecordRepository,
+  ProfileRepository,
+  ProjectRepository,
+  RelationshipRepository,
+  StudentRepository,
+  TestSetRepository,
+  ThreadRepository,
+} from '../repositories';
+import { InviteCode, InviteRedemption, RelationshipKind, User, UserRole } from '../types';
+
+/** ロールは上げるだけ（講師が保護者のコードを使っても講師のまま。redeem-invite と同じ） */
+const ROLE_RANK: Record<UserRole, number> = {
+  student: 0,
+  parent: 1,
+  tutor: 2,
+  admin: 3,
+};
+
+/** Edge Function redeem-invite の応答 */
+type RedeemInviteResponse = {
+  student_id: string;
+  student_name: string;
+  kind: RelationshipKind;
+  role: UserRole;
+};
+
+const isRedeemInviteResponse = (data: unknown): data is RedeemInviteResponse =>
+  typeof data === 'object' &&
+  data !== null &&
+  typeof (data as RedeemInviteResponse).student_id === 'string' &&
+  typeof (data as RedeemInviteResponse).student_name === 'string' &&
+  typeof (data as RedeemInviteResponse).kind === 'string' &&
+  (data as RedeemInviteResponse).role in ROLE_RANK;
+
+export class InviteService {
+  private inviteRepository = new InviteRepository();
+  private profileRepository = new ProfileRepository();
+  private relationshipRepository = new RelationshipRepository();
+  private studentRepository = new StudentRepository();
+  private projectRepository = new ProjectRepository();
+  private homeworkRepository = new HomeworkRepository();
+  private testSetRepository = new TestSetRepository();
+  private lessonRecordRepository = new LessonRecordRepository();
+  private threadRepository = new ThreadRepository();
+
+  async createInvite(userId: string, studentId: string, kind: RelationshipKind): Promise<InviteCode> {
+    return this.inviteRepository.create(studentId, userId, kind);
+  }
+
+  async getActiveInvites(studentId: string): Promise<InviteCode[]> {
+    return this.inviteRepository.findActiveByStudent(studentId);
+  }
+
+  async revokeInvite(id: string): Promise<void> {
+    await this.inviteRepository.delete(id);
+  }
+
+  /**
+   * 招待コードを使って、ログインしているアカウントを生徒に紐付ける
+   * 生徒のアカウントは招待の種類（保護者・講師）のロールになる。使った後は AuthContext の reloadRole で読み直す
+   * 使用済み・期限切れ・学習の記録がある生徒のアカウントはエラー
+   */
+  async redeem(user: User, rawCode: string): Promise<InviteRedemption> {
+    const code = normalizeInviteCode(rawCode);
+    if (!code) {
+      throw new Error('招待コードを入力してください');
+    }
+
+    if (isSupabaseConfigured() && supabase) {
+      const { data, error } = await supabase.functions.invoke<unknown>('redeem-invite', {
+        body: { code },
+      });
+      if (error) {
+        throw new Error(await functionErrorMessage(error, '招待コードを使えませんでした'));
+      }
+      if (!isRedeemInviteResponse(data)) {
+        throw new Error('招待コードの応答形式が不正です');
+      }
+      return {
+        studentId: data.student_id,
+        studentName: data.student_name,
+        kind: data.kind,
+        role: data.role,
+      };
+    }
+
+    return this.redeemLocally(user, code);
+  }
+
+  /** 招待リンク（/join/:code） */
+  inviteUrlOf(code: string): string {
+    return `${window.location.origin}/join/${code}`;
+  }
+
+  /** モック認証時: redeem-invite と同じ確認を端末内で行う */
+  private async redeemLocally(user: User, code: string): Promise<InviteRedemption> {
+    const invite = this.inviteRepository.findLocalByCode(code);
+    if (!invite) {
+      throw new Error('招待コードが見つかりません');
+    }
+    if (invite.usedAt) {
+      throw new Error('この招待コードは使用済みです');
+    }
+    if (new Date(invite.expiresAt).getTime() <= Date.now()) {
+      throw new Error('この招待コードは有効期限が切れています');
+    }
+    const currentRole = await this.profileRepository.findRole(user.id, user.role ?? 'student');
+    const nextRole = ROLE_RANK[invite.kind] > ROLE_RANK[currentRole] ? invite.kind : currentRole;
+    if (currentRole === 'student' && nextRole !== 'student' && (await this.hasOwnStudentRecords(user.id))) {
+      throw new Error('学習の記録があるアカウントは保護者・講師にできません。別のメールアドレスで登録してください');
+    }
+    const student = await this.studentRepository.findById(invite.studentId);
+    if (!student) {
+      throw new Error('招待された生徒が見つかりません');
+    }
+    if (student.ownerId === user.id || student.accountId === user.id) {
+      throw new Error('自分の生徒には招待コードは不要です');
+    }
+    const linked = await this.relationshipRepository.findByMember(user.id);
+    if (linked.some((item) => item.studentId === student.id)) {
+      throw new Error('この生徒とはすでに紐付いています');
+    }
+
+    this.inviteRepository.markLocalUsed(invite.id, user.id);
+    await this.relationshipRepository.create(student.id, user.id, invite.kind);
+    if (nextRole !== currentRole) {
+      this.profileRepository.setLocalRole(user.id, nextRole);
+      if (currentRole === 'student') {
+        await this.studentRepository.deleteStudent(user.id);
+      }
+    }
+    return { studentId: student.id, studentName: student.name, kind: invite.kind, role: nextRole };
+  }
+
+  /**
+   * 本人の生徒（ID = アカウントのID）に記録・紐付けがあるか（redeem-invite と同じ）
+   * 教科は既定の5教科が自動で作られるので見ない。チャットは教科の中のスレッドで見る
+   */
+  private async hasOwnStudentRecords(userId: string): Promise<boolean> {
+    const [projects, homework, testSets, lessons, relationships] = await Promise.all([
+      this.projectRepository.findByStudentId(userId),
+      this.homeworkRepository.findByStudentId(userId),
+      this.testSetRepository.findByStudentId(userId),
+      this.lessonRecordRepository.findByStudentId(userId),
+      this.relationshipRepository.findByStudent(userId),
+    ]);
+    if ([homework, testSets, lessons, relationships].some((items) => items.length > 0)) {
+      return true;
+    }
+    const threads = await Promise.all(projects.map((project) => this.threadRepository.findByProjectId(project.id)));
+    return threads.some((items) => items.length > 0);
+  }
+}
+
+/** 入力の揺れ（小文字・空白・ハイフン）を吸収する */
+export function normalizeInviteCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
@@ -0,0 +1,214 @@
+/**
+ * Migration Service
+ * ローカルに保存済みのデータを、現在のスキーマへ順番に移行する
+ * アプリ起動時（AuthProvider がデータを読み込む前）に1度だけ実行する
+ */
+
+import { getLocalStore } from '../lib/local-store';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { OutboxRepository } from '../repositories';
+import {
+  Homework,
+  LessonRecord,
+  LocalMigration,
+  LocalStore,
+  Project,
+  Student,
+  TestResult,
+  TestScore,
+  TestSet,
+} from '../types';
+import { serializeHomeworkDetail } from './homework-detail.service';
+
+/** 適用済みのスキーマバージョン */
+const SCHEMA_VERSION_KEY = 'tutor_ai_schema_version';
+
+function isTodoV1(detail: string): boolean {
+  try {
+    return JSON.parse(detail)?.type === 'todo_v1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 宿題の detail をプレーンテキストから todo_v1 形式へ
+ * （プレーンテキストは説明文として引き継ぐ。サーバー側の旧データは parseHomeworkDetail が読み替える）
+ */
+const upgradeHomeworkDetail: LocalMigration = {
+  version: 1,
+  description: 'homework.detail: プレーンテキスト → todo_v1',
+  async up(store: LocalStore) {
+    const homework = await store.getAll<Homework>('homework');
+    const upgraded = homework
+      .filter((item) => item.detail && !isTodoV1(item.detail))
+      .map((item) => ({ ...item, detail: serializeHomeworkDetail(item.detail, []) }));
+    await store.putMany('homework', upgraded);
+  },
+};
+
+/**
+ * 旧テスト結果（1教科1件）をテストセット＋スコアへ変換する
+ * IDは元のテスト結果のIDを引き継ぎ、複数端末で変換しても同じ行になるようにする
+ */
+const convertTestResults: LocalMigration = {
+  version: 2,
+  description: 'test_results → test_sets + test_scores',
+  async up(store: LocalStore) {
+    const results = await store.getAll<TestResult>('test_results');
+    if (results.length === 0) return;
+
+    const projects = await store.getAll<Project>('projects');
+    const subjectOf = (projectId: string) =>
+      projects.find((project) => project.id === projectId)?.name || 'その他';
+
+    const sets: TestSet[] = results.map((result) => ({
+      id: result.id,
+      userId: result.userId,
+      studentId: result.userId,
+      date: (result.takenAt || result.createdAt).slice(0, 10),
+      name: result.tags?.trim() || 'テスト',
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt || result.createdAt,
+    }));
+    const scores: TestScore[] = results.map((result) => ({
+      id: result.id,
+      testSetId: result.id,
+      subject: subjectOf(result.projectId),
+      score: result.score,
+      maxScore: result.maxScore ?? 100,
+      problemImages: result.attachments || [],
+      answerImages: [],
+      createdAt: result.createdAt,
+    }));
+
+    await store.putMany('test_sets', sets);
+    await store.putMany('test_scores', scores);
+    await store.deleteMany(
+      'test_results',
+      results.map((result) => result.id)
+    );
+
+    // Supabase利用時は、変換したセットをoutbox経由でサーバーにも作成する（upsertなので冪等）
+    if (isSupabaseConfigured()) {
+      const outboxRepository = new OutboxRepository();
+      sets.forEach((set, index) => {
+        const score = scores[index];
+        outboxRepository.enqueue({
+          table: 'test_sets',
+          recordId: set.id,
+          operation: 'create',
+          payload: {
+            user_id: set.userId,
+            student_id: set.studentId,
+            date: set.date,
+            name: set.name,
+            created_at: set.createdAt,
+            updated_at: set.updatedAt,
+          },
+        });
+        outboxRepository.enqueue({
+          table: 'test_scores',
+          recordId: score.id,
+          parentId: set.id,
+          operation: 'create',
+          payload: {
+            test_set_id: score.testSetId,
+            subject: score.subject,
+            score: score.score,
+            max_score: score.maxScore,
+            problem_images: score.problemImages,
+            answer_images: score.answerImages,
+            created_at: score.createdAt,
+          },
+        });
+      });
+    }
+  },
+};
+
+/**
+ * 生徒ごとのデータへ（これまでの持ち主 = アカウントを、そのまま同じIDの生徒にする）
+ * Supabase側も同じ規則（student_id = user_id）で移行するため、outboxには積まない
+ */
+const assignStudents: LocalMigration = {
+  version: 3,
+  description: 'projects / homework / test_sets / lesson_records: userId → studentId',
+  async up(store: LocalStore) {
+    const ownerIds = new Set<string>();
+    const backfill = async <T extends { userId: string; studentId?: string; id: string }>(
+      entity: 'projects' | 'homework' | 'test_sets' | 'lesson_records'
+    ) => {
+      const items = await store.getAll<T>(entity);
+      const missing = items.filter((item) => !item.studentId && item.userId);
+      missing.forEach((item) => ownerIds.add(item.userId));
+      await store.putMany(
+        entity,
+        missing.map((item) => ({ ...item, studentId: item.userId }))
+      );
+    };
+    await backfill<Project>('projects');
+    await backfill<Homework>('homework');
+    await backfill<TestSet>('test_sets');
+    await backfill<LessonRecord>('lesson_records');
+
+    if (isSupabaseConfigured()) return;
+    // モック認証では生徒の行もここで用意する（Supabase利用時はサーバー側の移行で作られる）
+    const existing = new Set((await store.getAll<Student>('students')).map((item) => item.id));
+    const now = new Date().toISOString();
+    await store.putMany(
+      'students',
+      Array.from(ownerIds)
+        .filter((id) => !existing.has(id))
+        .map((id): Student => ({
+          id,
+          ownerId: id,
+          accountId: id,
+          name: '自分',
+          createdAt: now,
+          updatedAt: now,
+        }))
+    );
+  },
+};
+
+/** 登録順に適用する（追加するときは version を連番で増やす） */
+const MIGRATIONS: LocalMigration[] = [upgradeHomeworkDetail, convertTestResults, assignStudents];
+
+export class MigrationService {
+  getCurrentVersion(): number {
+    const value = Number(localStorage.getItem(SCHEMA_VERSION_KEY));
+    return Number.isFinite(value) ? value : 0;
+  }
+
+  getLatestVersion(): number {
+    return MIGRATIONS.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+  }
+
+  /**
+   * 未適用の移行を順に実行する
+   * 失敗した移行で止め、バージョンは上げない（次回起動時に再試行）
+   * @returns 適用後のスキーマバージョン
+   */
+  async run(): Promise<number> {
+    let version = this.getCurrentVersion();
+    const pending = MIGRATIONS.filter((migration) => migration.version > version).sort(
+      (a, b) => a.version - b.version
+    );
+    if (pending.length === 0) return version;
+
+    // localStorage → IndexedDB の移動は getLocalStore() の初回で行われる
+    const store = await getLocalStore();
+    for (const migration of pending) {
+      try {
+        await migration.up(store);
+      } catch (error) {
+        console.error(`[MigrationService] v${migration.version} の移行に失敗:`, error);
+        break;
+      }
+      version = migration.version;
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+    }
+    return version;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * PinLock Service
+ * 家族で共有する端末向けのPINロック
+ * PINは端末ごと・アカウントごとに PBKDF2 でハッシュ化して保存し、PIN そのものは残さない
+ */
+
+import { PinLockRepository } from '../repositories';
+import { PinLock } from '../types';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+/** 再ロックまでの時間の選択肢（分） */
+export const PIN_TIMEOUT_OPTIONS = [1, 5, 15, 30, 60];
+export const DEFAULT_PIN_TIMEOUT_MINUTES = 5;
+
+const PBKDF2_ITERATIONS = 150_000;
+/** 続けて間違えたら入力を待たせる（4桁のPINの総当たり対策） */
+const MAX_FAILED_ATTEMPTS = 5;
+const BLOCK_SECONDS = 30;
+
+const toHex = (buffer: ArrayBuffer | Uint8Array): string =>
+  Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+const fromHex = (hex: string): Uint8Array<ArrayBuffer> =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+async function hashPin(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+/** 長さが同じ文字列を、途中で打ち切らずに比べる */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export class PinLockService {
+  private pinLockRepository = new PinLockRepository();
+
+  getSettings(userId: string): PinLock | null {
+    return this.pinLockRepository.findByUser(userId) ?? null;
+  }
+
+  validatePin(pin: string): void {
+    if (!new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin)) {
+      throw new Error(`PINは${PIN_MIN_LENGTH}〜${PIN_MAX_LENGTH}桁の数字にしてください`);
+    }
+  }
+
+  async setPin(userId: string, pin: string, timeoutMinutes: number): Promise<PinLock> {
+    this.validatePin(pin);
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await hashPin(pin, salt, PBKDF2_ITERATIONS);
+    return this.pinLockRepository.save(userId, {
+      hash,
+      salt: toHex(salt),
+      iterations: PBKDF2_ITERATIONS,
+      timeoutMinutes,
+      failedAttempts: 0,
+      blockedUntil: undefined,
+    });
+  }
+
+  /**
+   * PINを確かめる
+   * 続けて間違えると一定時間入力できない（再読み込みしても続く）
+   */
+  async verifyPin(userId: string, pin: string): Promise<void> {
+    const settings = this.getSettings(userId);
+    if (!settings) return;
+
+    if (settings.blockedUntil && new Date(settings.blockedUntil).getTime() > Date.now()) {
+      const seconds = Math.ceil((new Date(settings.blockedUntil).getTime() - Date.now()) / 1000);
+      throw new Error(`${seconds}秒待ってからもう一度入力してください`);
+    }
+
+    const hash = await hashPin(pin, fromHex(settings.salt), settings.iterations);
+    if (timingSafeEqual(hash, settings.hash)) {
+      this.pinLockRepository.patch(userId, { failedAttempts: 0, blockedUntil: undefined });
+      return;
+    }
+
+    const failedAttempts = settings.failedAttempts + 1;
+    if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      this.pinLockRepository.patch(userId, {
+        failedAttempts: 0,
+        blockedUntil: new Date(Date.now() + BLOCK_SECONDS * 1000).toISOString(),
+      });
+      throw new Error(`PINが違います。${BLOCK_SECONDS}秒待ってからもう一度入力してください`);
+    }
+    this.pinLockRepository.patch(userId, { failedAttempts });
+    throw new Error('PINが違います');
+  }
+
+  updateTimeout(userId: string, timeoutMinutes: number): PinLock | null {
+    return this.pinLockRepository.patch(userId, { timeoutMinutes });
+  }
+
+  /** PINロックをやめる（PINの確認・パスワードでの再設定の後に呼ぶ） */
+  clear(userId: string): void {
+    this.pinLockRepository.remove(userId);
+  }
+}
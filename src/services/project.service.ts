@@ -30,9 +30,13 @@ export class ProjectService {
     return { unique: Array.from(map.values()), duplicates };
   }
 
-  async initializeDefaultProjects(userId: string): Promise<Project[]> {
-    console.log('[ProjectService] デフォルトプロジェクト初期化開始:', userId);
-    const existingProjects = await this.projectRepository.findByUserId(userId);
+  /**
+   * 生徒の教科（デフォルトの5教科）を揃える
+   * @param userId 作成するアカウント, studentId 教科を持つ生徒
+   */
+  async initializeDefaultProjects(userId: string, studentId: string): Promise<Project[]> {
+    console.log('[ProjectService] デフォルトプロジェクト初期化開始:', studentId);
+    const existingProjects = await this.projectRepository.findByStudentId(studentId);
     const { unique: normalizedProjects, duplicates } = this.normalizeProjects(existingProjects);
     console.log('[ProjectService] 既存プロジェクト数:', normalizedProjects.length, normalizedProjects);
 
@@ -50,7 +54,7 @@ export class ProjectService {
     for (const name of defaultProjects) {
       if (!existingNames.includes(name)) {
         console.log('[ProjectService] プロジェクト作成:', name);
-        const project = await this.projectRepository.createProject(userId, name);
+        const project = await this.projectRepository.createProject(userId, studentId, name);
         nextProjects.push(project);
       }
     }
@@ -59,8 +63,8 @@ export class ProjectService {
     return nextProjects;
   }
 
-  async getProjectsByUserId(userId: string): Promise<Project[]> {
-    const projects = await this.projectRepository.findByUserId(userId);
+  async getProjectsByStudentId(studentId: string): Promise<Project[]> {
+    const projects = await this.projectRepository.findByStudentId(studentId);
     const { unique, duplicates } = this.normalizeProjects(projects);
     if (duplicates.length > 0) {
       await Promise.all(duplicates.map((project) => this.projectRepository.delete(project.id)));
@@ -68,7 +72,7 @@ export class ProjectService {
     return unique;
   }
 
-  async createProject(userId: string, name: string): Promise<Project> {
-    return this.projectRepository.createProject(userId, name);
+  async createProject(userId: string, studentId: string, name: string): Promise<Project> {
+    return this.projectRepository.createProject(userId, studentId, name);
   }
 }
@@ -0,0 +1,87 @@
+/**
+ * Prompt Template Service
+ * AIの指示（システムプロンプト）のテンプレート: 学年帯ごとの共通の指示と、教科ごとの教え方
+ * 選び方は Edge Function chat（supabase/functions/chat/prompt.ts）と揃える
+ */
+
+import { PromptTemplateRepository } from '../repositories';
+import { GradeBand, PromptTemplate, User } from '../types';
+
+export const GRADE_BAND_LABELS: Record<GradeBand, string> = {
+  all: 'すべての学年',
+  elementary: '小学生',
+  junior_high: '中学生',
+  high: '高校生',
+};
+
+const GRADE_BAND_ORDER: GradeBand[] = ['all', 'elementary', 'junior_high', 'high'];
+
+/** 1つの指示の文字数の上限（長すぎると毎回の会話の負担になる） */
+export const PROMPT_BODY_MAX_LENGTH = 4000;
+
+/** 「中1」「高校2年」「小5」などから学年帯（わからなければ小学生） */
+export function gradeBandOf(grade?: string | null): Exclude<GradeBand, 'all'> {
+  const value = (grade ?? '').trim();
+  if (value.startsWith('中')) return 'junior_high';
+  if (value.startsWith('高')) return 'high';
+  return 'elementary';
+}
+
+/**
+ * その学年・教科のチャットで使われるテンプレート
+ * 生徒の指示 → 既定の順に、それぞれ学年帯 → すべての学年 の順に探す
+ * 共通の指示が無ければ chat に書かれた既定の指示（小学生向け）になる
+ */
+export function resolvePromptTemplates(
+  templates: PromptTemplate[],
+  grade: string | null | undefined,
+  subject: string
+): { base?: PromptTemplate; subject?: PromptTemplate } {
+  const band = gradeBandOf(grade);
+  const find = (own: boolean, name: string) =>
+    templates.find((t) => !!t.studentId === own && t.gradeBand === band && t.subject === name) ??
+    templates.find((t) => !!t.studentId === own && t.gradeBand === 'all' && t.subject === name);
+  const pick = (name: string) => find(true, name) ?? find(false, name);
+  const trimmed = subject.trim();
+  return { base: pick(''), subject: trimmed ? pick(trimmed) : undefined };
+}
+
+export class PromptTemplateService {
+  private repository = new PromptTemplateRepository();
+
+  /** 既定 → 生徒の指示、学年帯の順、共通の指示 → 教科名の順 */
+  async findAll(studentId?: string): Promise<PromptTemplate[]> {
+    const templates = await this.repository.findAll(studentId);
+    return templates.sort(
+      (a, b) =>
+        Number(!!a.studentId) - Number(!!b.studentId) ||
+        GRADE_BAND_ORDER.indexOf(a.gradeBand) - GRADE_BAND_ORDER.indexOf(b.gradeBand) ||
+        a.subject.localeCompare(b.subject, 'ja')
+    );
+  }
+
+  /** studentId 省略時は既定（管理者だけが保存できる） */
+  async saveTemplate(
+    input: { gradeBand: GradeBand; subject: string; body: string; studentId?: string },
+    user: User
+  ): Promise<PromptTemplate> {
+    const body = input.body.trim();
+    if (!body) {
+      throw new Error('指示の本文を入力してください');
+    }
+    if (body.length > PROMPT_BODY_MAX_LENGTH) {
+      throw new Error(`指示は${PROMPT_BODY_MAX_LENGTH}文字以内にしてください`);
+    }
+    if (!GRADE_BAND_ORDER.includes(input.gradeBand)) {
+      throw new Error('学年を選んでください');
+    }
+    if (!input.studentId && user.role !== 'admin') {
+      throw new Error('全生徒に効く指示は管理者だけが編集できます');
+    }
+    return this.repository.save(input.gradeBand, input.subject.trim(), body, user.id, input.studentId);
+  }
+
+  async removeTemplate(id: string): Promise<void> {
+    await this.repository.delete(id);
+  }
+}
@@ -5,6 +5,7 @@
 
 import { supabase, SUPABASE_BUCKET, isSupabaseConfigured } from '../lib/supabase';
 import { generateId } from '../utils/id';
+import { getCurrentUserId } from '../lib/auth';
 
 /** アップロード結果の型 */
 export interface UploadResult {
@@ -40,37 +41,6 @@ function sanitizeFileName(name: string): string {
   return `${finalBaseName}.${ext}`;
 }
 
-/**
- * 現在のユーザーIDを取得
- * Supabase Auth → ローカルストレージの順でチェック
- */
-async function getCurrentUserId(): Promise<string | null> {
-  // Supabase Authからユーザーを取得
-  if (supabase) {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        return user.id;
-      }
-    } catch (err) {
-      console.warn('[Storage] Supabase Auth取得失敗:', err);
-    }
-  }
-
-  // ローカルストレージからフォールバック
-  try {
-    const userData = localStorage.getItem('tutor_ai_current_user');
-    if (userData) {
-      const user = JSON.parse(userData);
-      return user.id || null;
-    }
-  } catch (err) {
-    console.warn('[Storage] ローカルユーザー取得失敗:', err);
-  }
-
-  return null;
-}
-
 /**
  * 画像をSupabase Storageにアップロード
  * 
@@ -88,8 +58,8 @@ export async function uploadAttachment(
     throw new Error('Supabase設定が未完了です。.env.local を確認してください。');
   }
 
-  // ユーザーIDを取得（Supabase Auth → ローカル → フォールバック）
-  let userId = await getCurrentUserId();
+  // ユーザーIDを取得（ログイン中のユーザー → フォールバック）
+  let userId = getCurrentUserId();
   if (!userId && fallbackUserId) {
     userId = fallbackUserId;
   }
@@ -211,7 +181,7 @@ export async function uploadTestImage(
   }
 
   // ユーザーIDを取得
-  let userId = await getCurrentUserId();
+  let userId = getCurrentUserId();
   if (!userId && fallbackUserId) {
     userId = fallbackUserId;
   }
@@ -0,0 +1,76 @@
+/**
+ * Student Service
+ * アカウントが扱う生徒の一覧と、画面で選んでいる生徒（アクティブな生徒）を管理する
+ * 生徒本人のアカウントは「自分」という生徒（ID = アカウントのID）を持つ
+ */
+
+import { StudentRepository } from '../repositories';
+import { Student, User } from '../types';
+
+/** 選んでいる生徒（アカウントごと） */
+const ACTIVE_STUDENT_KEY = 'tutor_ai_active_student';
+
+export class StudentService {
+  private studentRepository = new StudentRepository();
+
+  /**
+   * アカウントから見える生徒
+   * 生徒ロールで自分の生徒がまだ無ければ作る（これまでのデータは student_id = アカウントのID で移行済み）
+   * ロールが未取得のうちは作らない（講師に「自分」の生徒を作らないように）
+   */
+  async getStudents(user: User): Promise<Student[]> {
+    const students = await this.studentRepository.findAccessible(user.id);
+    if (user.role !== 'student' || students.some((item) => item.id === user.id)) {
+      return students;
+    }
+    const self = await this.studentRepository.create({
+      id: user.id,
+      ownerId: user.id,
+      accountId: user.id,
+      name: user.email.split('@')[0] || '自分',
+    });
+    return [self, ...students];
+  }
+
+  async addStudent(ownerId: string, name: string, grade?: string): Promise<Student> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('生徒の名前を入力してください');
+    }
+    return this.studentRepository.createStudent(ownerId, trimmed, grade?.trim() || undefined);
+  }
+
+  async updateStudent(id: string, name: string, grade?: string): Promise<Student | null> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('生徒の名前を入力してください');
+    }
+    return this.studentRepository.updateStudent(id, { name: trimmed, grade: grade?.trim() || undefined });
+  }
+
+  /**
+   * 前回選んでいた生徒（見えなくなっていれば、本人 → 最初の生徒の順）
+   */
+  pickActiveStudent(user: User, students: Student[]): Student | null {
+    const storedId = this.getStoredActiveStudentId(user.id);
+    return (
+      students.find((item) => item.id === storedId) ??
+      students.find((item) => item.id === user.id) ??
+      students[0] ??
+      null
+    );
+  }
+
+  saveActiveStudentId(userId: string, studentId: string): void {
+    localStorage.setItem(ACTIVE_STUDENT_KEY, JSON.stringify({ userId, studentId }));
+  }
+
+  private getStoredActiveStudentId(userId: string): string | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(ACTIVE_STUDENT_KEY) || 'null');
+      return stored?.userId === userId && typeof stored.studentId === 'string' ? stored.studentId : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Sync Service
+ * outboxに溜まった書き込みを、登録順にSupabaseへ再送する
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { getAuthProvider } from '../lib/auth';
+import { OutboxRepository, outboxGroupOf } from '../repositories';
+import { OutboxEntry } from '../types';
+
+/** 再送結果 */
+export interface ReplayResult {
+  synced: number;
+  failed: number;
+}
+
+/** execute() が競合を表すときの戻り値 */
+const CONFLICT = 'conflict';
+
+/** 送信の失敗（retryable: 通信・サーバーの一時的な失敗。それ以外は送り直しても通らない） */
+interface SendFailure {
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Supabase の応答から失敗を作る
+ * 通信できなかった（status 0）・5xx・タイムアウト・混雑・セッション切れは一時的な失敗として扱う
+ */
+const toFailure = (error: { message: string; code?: string }, status: number): SendFailure => ({
+  message: error.message,
+  retryable: !error.code || status === 0 || status === 401 || status === 408 || status === 429 || status >= 500,
+});
+
+/** 同時に複数の再送が走らないようにする（タブ内で共有） */
+let replaying: Promise<ReplayResult> | null = null;
+
+export class SyncService {
+  private outboxRepository: OutboxRepository;
+
+  constructor() {
+    this.outboxRepository = new OutboxRepository();
+  }
+
+  /**
+   * outboxを再送する
+   * 一時的な失敗はそこで止めて、後続の順序を崩さない（次回のきっかけで再試行）
+   * 受け付けられなかった・競合したエントリは保留にして、同じレコードの操作だけを止め、他は送り続ける
+   */
+  async replay(): Promise<ReplayResult> {
+    if (!replaying) {
+      replaying = this.replayQueued().finally(() => {
+        replaying = null;
+      });
+    }
+    return replaying;
+  }
+
+  /**
+   * オンライン復帰・ログイン・画面復帰のタイミングで自動的に再送する
+   * @returns 監視解除関数
+   */
+  startAutoReplay(): () => void {
+    const trigger = () => {
+      this.replay().catch((error) => console.error('[SyncService] 再送エラー:', error));
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        trigger();
+      }
+    };
+
+    window.addEventListener('online', trigger);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const unsubscribeAuth = getAuthProvider().onUserChanged((user, change) => {
+      if (user && (change === 'signed_in' || change === 'session_refreshed')) {
+        trigger();
+      }
+    });
+    trigger();
+
+    return () => {
+      window.removeEventListener('online', trigger);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribeAuth();
+    };
+  }
+
+  private async replayQueued(): Promise<ReplayResult> {
+    const result: ReplayResult = { synced: 0, failed: 0 };
+    if (!isSupabaseConfigured() || !supabase) return result;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return result;
+
+    if (!(await getAuthProvider().hasRemoteSession())) return result;
+
+    // 保留中のレコード（子は親）。後ろの操作も送らない
+    const held = new Set<string>();
+    for (const entry of this.outboxRepository.findQueued()) {
+      const group = outboxGroupOf(entry);
+      if (held.has(group)) continue;
+      if (entry.status === 'rejected' || entry.status === 'conflict') {
+        held.add(group);
+        continue;
+      }
+
+      const failure = await this.execute(entry);
+      if (failure === CONFLICT) {
+        console.warn('[SyncService] 競合を検出:', entry.table, entry.recordId);
+        this.outboxRepository.markConflict(entry.id);
+        result.failed += 1;
+        held.add(group);
+        continue;
+      }
+      if (failure?.retryable) {
+        console.error('[SyncService] 再送失敗:', entry.table, entry.operation, failure.message);
+        this.outboxRepository.markFailed(entry.id, failure.message);
+        result.failed += 1;
+        break;
+      }
+      if (failure) {
+        console.error('[SyncService] 受け付けられませんでした:', entry.table, entry.operation, failure.message);
+        this.outboxRepository.markRejected(entry.id, failure.message);
+        result.failed += 1;
+        held.add(group);
+        continue;
+      }
+      this.outboxRepository.remove(entry.id);
+      result.synced += 1;
+    }
+    return result;
+  }
+
+  /** 保留中のエントリを送り直す */
+  async retryEntry(id: string): Promise<ReplayResult> {
+    this.outboxRepository.requeue(id);
+    return this.replay();
+  }
+
+  /**
+   * 競合ダイアログで「自分の内容を残す」を選んだ: 相手の updated_at を前提に送り直す
+   * @param remoteUpdatedAt ダイアログに出した相手の行の updated_at
+   */
+  async keepMine(id: string, remoteUpdatedAt: string | undefined): Promise<ReplayResult> {
+    this.outboxRepository.resolveConflict(id, remoteUpdatedAt);
+    return this.replay();
+  }
+
+  /** 競合ダイアログに出す相手（サーバー）の行。消されていれば null */
+  async fetchRemote(entry: OutboxEntry): Promise<Record<string, unknown> | null> {
+    if (!supabase) return null;
+    const { data, error } = await supabase
+      .from(entry.table)
+      .select('*')
+      .eq('id', entry.recordId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(`最新の内容を読み込めませんでした: ${error.message}`);
+    }
+    return data;
+  }
+
+  /** 保留中のエントリを送らずに捨てる（同じレコードの操作もまとめて。「相手の内容を残す」もこれ） */
+  discardEntry(id: string): void {
+    this.outboxRepository.discard(id);
+  }
+
+  /** 1件を送信し、失敗時はその内容を返す */
+  private async execute(entry: OutboxEntry): Promise<SendFailure | typeof CONFLICT | null> {
+    if (!supabase) return { message: 'Supabase未設定', retryable: true };
+    const table = supabase.from(entry.table);
+
+    try {
+      switch (entry.operation) {
+        case 'create': {
+          // 前回の送信が届いていた場合に備えて upsert で冪等にする
+          const { error, status } = await table.upsert({ id: entry.recordId, ...entry.payload });
+          return error ? toFailure(error, status) : null;
+        }
+        case 'update': {
+          let query = table.update(entry.payload ?? {}).eq('id', entry.recordId);
+          if (entry.expectedUpdatedAt) {
+            query = query.eq('updated_at', entry.expectedUpdatedAt);
+          }
+          const { data, error, status } = await query.select('id');
+          if (error) return toFailure(error, status);
+          // 条件付き更新で0件 = オフライン中に別の端末が更新した
+          return entry.expectedUpdatedAt && (data ?? []).length === 0 ? CONFLICT : null;
+        }
+        case 'delete': {
+          const { error, status } = await table.delete().eq('id', entry.recordId);
+          return error ? toFailure(error, status) : null;
+        }
+      }
+    } catch (error) {
+      return { message: error instanceof Error ? error.message : String(error), retryable: true };
+    }
+  }
+}
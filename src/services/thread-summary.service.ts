@@ -0,0 +1,62 @@
+/**
+ * Thread Summary Service
+ * やりとりのたびに、スレッドのタイトル（最初のやりとりの後）と要約（少したまったら）をAIで書き足す
+ * 要約はドロワーの一覧に表示し、AIへの文脈にも使う（直近20件より前のやりとりも要約として伝わる）
+ */
+
+import { ThreadRepository } from '../repositories';
+import { ChatMessage, Message, Thread } from '../types';
+import { AIService, DEFAULT_THREAD_TITLE } from './ai.service';
+
+/**
+ * まだ要約していないメッセージがこの件数たまったら要約を書き足す（3往復ごと）
+ * 直近20件はそのままAIに送るので、要約が遅れてもその間のやりとりは抜けない
+ */
+export const SUMMARY_EVERY = 6;
+
+const toChatMessages = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter((m) => m.content.trim())
+    .map((m) => ({ role: m.role, content: m.content }));
+
+export class ThreadSummaryService {
+  private aiService = new AIService();
+  private threadRepository = new ThreadRepository();
+
+  /**
+   * やりとりの後に呼ぶ
+   * @param thread 今のスレッド
+   * @param messages スレッドのメッセージ（古い順）
+   * @returns 更新したスレッド（変更が無ければ null）
+   */
+  async afterExchange(thread: Thread, messages: Message[]): Promise<Thread | null> {
+    const updates: Partial<Thread> = {};
+
+    // 仮のタイトル（最初のメッセージの先頭・「新しいチャット」）のままなら、AIのタイトルにする
+    const firstMessage = messages.find((m) => m.role === 'user')?.content ?? '';
+    const hasTitleDraft =
+      thread.title === DEFAULT_THREAD_TITLE || thread.title === this.aiService.draftThreadTitle(firstMessage);
+    if (hasTitleDraft && firstMessage.trim() && messages.some((m) => m.role === 'assistant')) {
+      const title = await this.aiService.generateThreadTitle(toChatMessages(messages));
+      if (title && title !== thread.title) {
+        updates.title = title;
+      }
+    }
+
+    const pending = messages.filter((m) => !thread.summaryUntil || m.createdAt > thread.summaryUntil);
+    if (pending.length >= SUMMARY_EVERY) {
+      try {
+        updates.summary = await this.aiService.summarizeConversation(thread.summary, toChatMessages(pending));
+        updates.summaryUntil = pending[pending.length - 1].createdAt;
+      } catch (error) {
+        // 次のやりとりの後にまとめて書き足す
+        console.error('[ThreadSummaryService] 要約エラー:', error);
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return null;
+    }
+    return this.threadRepository.updateThread(thread.id, updates);
+  }
+}
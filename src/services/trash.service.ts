@@ -0,0 +1,132 @@
+/**
+ * Trash Service
+ * 宿題・テスト・授業記録のゴミ箱（論理削除）をまとめて扱う
+ * 完全削除のときは、参照しているStorage上の画像も消す
+ */
+
+import {
+  HomeworkRepository,
+  LessonRecordRepository,
+  OutboxRepository,
+  TestSetRepository,
+} from '../repositories';
+import { Attachment, TrashItem, TrashKind } from '../types';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { removeAttachment } from './storage.service';
+
+/** ゴミ箱に入れてから完全削除するまでの日数（Supabase利用時はサーバーの purge-trash が毎日削除する） */
+export const TRASH_RETENTION_DAYS = 30;
+
+const attachmentPaths = (attachments?: Attachment[]) =>
+  (attachments ?? []).map((attachment) => attachment.path).filter((path): path is string => !!path);
+
+export class TrashService {
+  private homeworkRepository = new HomeworkRepository();
+  private testSetRepository = new TestSetRepository();
+  private lessonRecordRepository = new LessonRecordRepository();
+  private outboxRepository = new OutboxRepository();
+
+  /** ゴミ箱に入れる */
+  async moveToTrash(kind: TrashKind, id: string): Promise<void> {
+    await this.repositoryOf(kind).softDelete(id);
+  }
+
+  /** ゴミ箱から戻す */
+  async restore(kind: TrashKind, id: string): Promise<void> {
+    await this.repositoryOf(kind).restore(id);
+  }
+
+  /** 生徒のゴミ箱の中身（削除日時の新しい順） */
+  async findTrash(studentId: string): Promise<TrashItem[]> {
+    const [homework, testSets, lessonRecords] = await Promise.all([
+      this.homeworkRepository.findTrashed(studentId),
+      this.testSetRepository.findTrashed(studentId),
+      this.lessonRecordRepository.findTrashed(studentId),
+    ]);
+    const items: TrashItem[] = [
+      ...homework.map((item) => ({
+        kind: 'homework' as const,
+        id: item.id,
+        title: item.title || '宿題',
+        deletedAt: item.deletedAt!,
+      })),
+      ...testSets.map((item) => ({
+        kind: 'testSet' as const,
+        id: item.id,
+        title: item.name,
+        deletedAt: item.deletedAt!,
+      })),
+      ...lessonRecords.map((item) => ({
+        kind: 'lessonRecord' as const,
+        id: item.id,
+        title: `${item.date} の授業`,
+        deletedAt: item.deletedAt!,
+      })),
+    ];
+    return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * 完全に削除する（行を消してから Storage上の画像を消す）
+   * 行の削除が送れずに再送待ちになった場合は、行が残るので画像も消さない
+   */
+  async purge(kind: TrashKind, id: string): Promise<void> {
+    const paths = await this.collectAttachmentPaths(kind, id);
+    await this.repositoryOf(kind).delete(id);
+    if (isSupabaseConfigured() && !this.outboxRepository.getStatusMap().has(id)) {
+      for (const path of paths) {
+        try {
+          await removeAttachment(path);
+        } catch (error) {
+          console.warn('[TrashService] 画像の削除に失敗:', path, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * 保持期間を過ぎたゴミ箱の中身を完全削除する（Supabase未設定時のみ。利用時はサーバーの purge-trash が行う）
+   * @returns 削除した件数
+   */
+  async purgeExpired(studentId: string, now: Date = new Date()): Promise<number> {
+    if (isSupabaseConfigured()) return 0;
+    const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const expired = (await this.findTrash(studentId)).filter((item) => item.deletedAt < cutoff);
+    for (const item of expired) {
+      await this.purge(item.kind, item.id);
+    }
+    return expired.length;
+  }
+
+  /** 完全削除までの残り日数 */
+  daysUntilPurge(item: TrashItem, now: Date = new Date()): number {
+    const elapsed = (now.getTime() - new Date(item.deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+    return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed));
+  }
+
+  private repositoryOf(kind: TrashKind) {
+    switch (kind) {
+      case 'homework':
+        return this.homeworkRepository;
+      case 'testSet':
+        return this.testSetRepository;
+      case 'lessonRecord':
+        return this.lessonRecordRepository;
+    }
+  }
+
+  private async collectAttachmentPaths(kind: TrashKind, id: string): Promise<string[]> {
+    if (kind === 'homework') {
+      const homework = await this.homeworkRepository.findById(id);
+      return attachmentPaths(homework?.attachments);
+    }
+    if (kind === 'testSet') {
+      const testSet = await this.testSetRepository.findByIdWithChildren(id);
+      return (testSet?.scores ?? []).flatMap((score) => [
+        ...attachmentPaths(score.problemImages),
+        ...attachmentPaths(score.answerImages),
+      ]);
+    }
+    return [];
+  }
+}
@@ -1,12 +1,125 @@
+// アカウントのロール（データの持ち主は生徒。講師・保護者は relationships で紐付く）
+export type UserRole = 'student' | 'parent' | 'tutor' | 'admin';
+
 export interface User {
   id: string;
   email: string;
+  /** 未取得の古いセッションでは undefined（生徒として扱う） */
+  role?: UserRole;
   createdAt: string;
 }
 
+// メールで届くリンクの用途（パスワード再設定・マジックリンク・メールアドレスの確認）
+export type AuthLinkPurpose = 'reset' | 'magic' | 'verify';
+
+// モック認証時にメールの代わりにコンソールへ出すリンク
+export interface AuthLink {
+  id: string;
+  token: string;
+  email: string;
+  purpose: AuthLinkPurpose;
+  expiresAt: string;
+  createdAt: string;
+}
+
+// 新規登録の結果（メールアドレスの確認待ちなら user は null）
+export interface RegisterResult {
+  user: User | null;
+  needsVerification: boolean;
+}
+
+// ログイン中のユーザーが変わった理由（signed_in はパスワード再設定リンクのセッションも含む）
+export type AuthUserChange = 'signed_in' | 'signed_out' | 'user_updated' | 'session_refreshed';
+
+export type AuthUserListener = (user: User | null, change: AuthUserChange) => void;
+
+// 認証の実装（Supabase Auth / Supabase未設定時の端末内のモック認証）
+// ログイン中のユーザーはここからだけ読む
+export interface AuthProvider {
+  /** Supabase Auth のセッションで動いているか（リポジトリがリモートを使うかの判断） */
+  readonly remote: boolean;
+  /** 確認済みのセッションのユーザー（復元前・未ログインは null） */
+  getCurrentUser(): User | null;
+  /** 前回のセッションを確かめて復元する（確かめられなければ null） */
+  restoreSession(): Promise<User | null>;
+  /** 有効なリモートのセッションがあるか（モック認証は常に false） */
+  hasRemoteSession(): Promise<boolean>;
+  signIn(email: string, password: string): Promise<User>;
+  /** ロールは常に生徒（保護者・講師は招待コードで付く） */
+  signUp(email: string, password: string): Promise<RegisterResult>;
+  signOut(): Promise<void>;
+  verifyPassword(email: string, password: string): Promise<void>;
+  resendVerification(email: string): Promise<void>;
+  requestPasswordReset(email: string): Promise<void>;
+  sendMagicLink(email: string): Promise<void>;
+  /** token はモック認証のリンクのみ */
+  updatePassword(password: string, token?: string): Promise<User>;
+  /** モック認証のリンク（マジックリンク・確認）でログインする */
+  completeEmailLink(token: string): Promise<User>;
+  /** 読み込んだロールなどを反映する（同じユーザーがログイン中のときのみ） */
+  updateCurrentUser(user: User): void;
+  /** @returns 購読解除関数 */
+  onUserChanged(listener: AuthUserListener): () => void;
+}
+
+// 端末ごとのPINロック（PINはハッシュのみ保存する）
+export interface PinLock {
+  id: string;
+  userId: string;
+  /** PBKDF2-SHA256 のハッシュ（hex） */
+  hash: string;
+  salt: string;
+  iterations: number;
+  /** 操作が無いまま、この分数が過ぎたら再びロックする */
+  timeoutMinutes: number;
+  /** 続けて間違えた回数（一定回数で入力を待たせる） */
+  failedAttempts: number;
+  blockedUntil?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// アカウント削除で消した件数
+export interface AccountDeletionCounts {
+  projects: number;
+  threads: number;
+  messages: number;
+  homework: number;
+  testSets: number;
+  testScores: number;
+  lessonRecords: number;
+  recordHistory: number;
+  students: number;
+  relationships: number;
+  inviteCodes: number;
+  storageObjects: number;
+}
+
+// アカウント削除の受領書
+export interface AccountDeletionReceipt {
+  userId: string;
+  email: string;
+  deletedAt: string;
+  counts: AccountDeletionCounts;
+}
+
+// 生徒（データの持ち主。講師は複数の生徒を受け持つ）
+export interface Student {
+  id: string;
+  /** 登録したアカウント（講師が作った生徒は講師、生徒本人のアカウントは本人） */
+  ownerId: string;
+  /** 生徒本人のログイン（講師が登録しただけの生徒は無し） */
+  accountId?: string;
+  name: string;
+  grade?: string;         // 学年（例: 中1）
+  createdAt: string;
+  updatedAt?: string;
+}
+
 export interface Project {
   id: string;
   userId: string;
+  studentId: string;      // 教科を持つ生徒
   name: string;
   createdAt: string;
 }
@@ -16,6 +129,10 @@ export interface Thread {
   userId: string;
   projectId: string;
   title: string;
+  /** 会話の要約（AIが書き足す。一覧の表示とAIへの文脈に使う） */
+  summary?: string;
+  /** 要約に含めた最後のメッセージの createdAt */
+  summaryUntil?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -38,6 +155,23 @@ export interface Attachment {
   size?: number;
 }
 
+/**
+ * AIに送る画像（Edge Function chat の images）
+ * - path: Supabase Storage のパス（サーバー側で署名URLにする）
+ * - url: アップロードできなかった画像の data URL
+ */
+export interface ChatImage {
+  path?: string;
+  url?: string;
+}
+
+/** AIに送る会話の1件（Chat Completions形式＋添付画像） */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: ChatImage[];
+}
+
 export interface Message {
   id: string;
   userId: string;
@@ -48,13 +182,23 @@ export interface Message {
   tags?: string;
   attachments?: Attachment[];
   meta?: {
-    source: 'text' | 'voice' | 'camera' | 'upload';
+    /** 生徒の発言の入力方法 */
+    source?: 'text' | 'voice' | 'camera' | 'upload';
+    /** AI応答のヒントの段階（どこまで助けが必要だったか） */
+    hintLevel?: HintLevel;
   };
 }
 
+/**
+ * ヒントの段階（段階的に助ける）
+ * 1: きっかけ → 2: 解き方の方針 → 3: 似た例題 → 4: 答え（「答えを見る」を押したときだけ）
+ */
+export type HintLevel = 1 | 2 | 3 | 4;
+
 export interface Homework {
   id: string;
-  userId: string;
+  userId: string;      // 作成したアカウント
+  studentId: string;   // 宿題を出された生徒
   projectId: string;
   title: string;
   detail: string;
@@ -64,6 +208,20 @@ export interface Homework {
   attachments?: Attachment[];
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;  // ゴミ箱に入れた日時（30日後に完全削除）
+}
+
+// 宿題のToDo（Homework.detail に todo_v1 形式のJSONで保存）
+export interface TodoItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface HomeworkDetailPayload {
+  type: 'todo_v1';
+  description: string;
+  todos: TodoItem[];
 }
 
 export interface TestResult {
@@ -82,13 +240,15 @@ export interface TestResult {
 // テストセット（1回のテストで5教科まとめて管理）
 export interface TestSet {
   id: string;
-  userId: string;
+  userId: string;         // 作成したアカウント
+  studentId: string;      // テストを受けた生徒
   date: string;           // テスト実施日（例: 2025-12-19）
   name: string;           // テスト名（例: 期末テスト（2学期））
   grade?: string;         // 学年（例: 中1）
   memo?: string;          // メモ
   createdAt: string;
   updatedAt?: string;
+  deletedAt?: string;     // ゴミ箱に入れた日時（30日後に完全削除）
 }
 
 // 各教科のスコア
@@ -111,10 +271,16 @@ export interface TestSetWithScores extends TestSet {
   scores: TestScore[];
 }
 
+// 教科スコアの入力（ID・所属セットは保存時に付与）
+export type TestScoreInput = Omit<TestScore, 'id' | 'testSetId' | 'createdAt' | 'maxScore'> & {
+  maxScore?: number;
+};
+
 // 授業記録
 export interface LessonRecord {
   id: string;
-  userId: string;
+  userId: string;         // 作成したアカウント
+  studentId: string;      // 授業を受けた生徒
   date: string;           // 授業日（例: 2025-12-20）
   duration: number;       // 授業時間（分）- 給与計算で使用
   startTime?: string;     // 開始時刻（例: "18:00"）
@@ -123,5 +289,300 @@ export interface LessonRecord {
   memo?: string;          // メモ（任意）
   createdAt: string;
   updatedAt?: string;
+  deletedAt?: string;     // ゴミ箱に入れた日時（30日後に完全削除）
+}
+
+
+// 更新オプション（楽観的排他制御）
+export interface UpdateOptions {
+  /** 編集を始めた時点の updatedAt。保存先と食い違えば ConflictError になる */
+  expectedUpdatedAt?: string;
+}
+
+// 新規作成時の入力（ID・タイムスタンプは省略可）
+export type NewEntity<T extends { id: string }> = Omit<T, 'id' | 'createdAt' | 'updatedAt'> & {
+  id?: string;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+// ページ読み込み（一覧の並び順の値＋IDをカーソルにする）
+export interface PageCursor {
+  value: string;
+  id: string;
+}
+
+export interface PageRequest {
+  /** 前のページの nextCursor（省略時は先頭から） */
+  cursor?: PageCursor | null;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** 続きが無ければ null */
+  nextCursor: PageCursor | null;
+}
+
+/**
+ * リポジトリ共通の契約
+ * Supabase優先・失敗時はローカル保存＋outbox再送、競合時は ConflictError
+ * scopeId: 一覧の持ち主（生徒ごとのデータは生徒ID、それ以外はアカウントのID）
+ */
+export interface Repository<T extends { id: string }> {
+  findAll(scopeId: string): Promise<T[]>;
+  findPage(scopeId: string, request?: PageRequest): Promise<Page<T>>;
+  findById(id: string): Promise<T | null>;
+  create(item: NewEntity<T>): Promise<T>;
+  update(id: string, updates: Partial<T>, options?: UpdateOptions): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// 購読で届くレコードの変更（作成・更新は upsert にまとめる）
+export type RecordChange<T> = { type: 'upsert'; record: T } | { type: 'delete'; id: string };
+
+/**
+ * 親子集約（例: TestSet + TestScore）のリポジトリ契約
+ * 子は親と一緒に読み書きし、更新時は全件差し替える
+ */
+export interface AggregateRepository<A extends P, P extends { id: string }, CInput> {
+  findAllWithChildren(scopeId: string): Promise<A[]>;
+  findPageWithChildren(scopeId: string, request?: PageRequest): Promise<Page<A>>;
+  findByIdWithChildren(id: string): Promise<A | null>;
+  createWithChildren(parent: NewEntity<P>, children: CInput[]): Promise<A>;
+  updateWithChildren(
+    id: string,
+    updates: Partial<P>,
+    children: CInput[],
+    options?: UpdateOptions
+  ): Promise<A | null>;
+  delete(id: string): Promise<boolean>;
+  subscribeWithChildren(scopeId: string, listener: (change: RecordChange<A>) => void): () => void;
 }
 
+// オフライン書き込みキュー（outbox）
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+// レコード単位の同期状態（バッジ表示用）
+export type SyncStatus = 'synced' | 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  table: string;          // Supabaseのテーブル名
+  recordId: string;       // 対象レコードのID
+  parentId?: string;      // 親レコードのID（test_scores → test_sets など）
+  operation: OutboxOperation;
+  payload?: Record<string, unknown>;  // Supabase形式（snake_case）のペイロード
+  expectedUpdatedAt?: string;         // 更新時: 編集を始めた時点の updated_at（競合検出用）
+  // failed: 一時的な失敗（通信など。次のきっかけで再送）
+  // rejected: サーバーが受け付けない（権限・制約など。再送せず、利用者が再送か破棄を選ぶ）
+  // conflict: 別の端末が先に更新した（競合ダイアログで「自分の内容を残す」を選ぶまで送らない）
+  status: 'pending' | 'failed' | 'rejected' | 'conflict';
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ローカル保存先（IndexedDB / localStorage）
+export type LocalEntityName =
+  | 'projects'
+  | 'threads'
+  | 'messages'
+  | 'homework'
+  | 'test_results'
+  | 'test_sets'
+  | 'test_scores'
+  | 'lesson_records'
+  | 'record_history'
+  | 'students';
+
+export type LocalIndexName =
+  | 'userId'
+  | 'studentId'
+  | 'ownerId'
+  | 'projectId'
+  | 'threadId'
+  | 'testSetId'
+  | 'recordId'
+  | 'date';
+
+/** ローカル保存先への書き込み通知（他のタブへ storage イベントで届く） */
+export interface LocalChange {
+  entity: LocalEntityName;
+  type: 'upsert' | 'delete';
+  ids: string[];
+}
+
+export interface LocalStore {
+  getAll<T>(entity: LocalEntityName): Promise<T[]>;
+  getAllByIndex<T>(entity: LocalEntityName, index: LocalIndexName, value: string): Promise<T[]>;
+  get<T>(entity: LocalEntityName, id: string): Promise<T | undefined>;
+  putMany<T extends { id: string }>(entity: LocalEntityName, items: T[]): Promise<void>;
+  deleteMany(entity: LocalEntityName, ids: string[]): Promise<void>;
+}
+
+// ローカルデータのスキーマ移行
+export interface LocalMigration {
+  /** 適用後のスキーマバージョン（1から連番） */
+  version: number;
+  description: string;
+  up(store: LocalStore): Promise<void>;
+}
+
+// バックアップ（エクスポート / インポート）
+export type BackupAttachmentMode = 'none' | 'reference' | 'inline';
+
+/** inline で同梱した添付ファイル */
+export interface BackupFile {
+  mime: string;
+  /** Base64 data URL */
+  data: string;
+}
+
+export interface BackupBundle {
+  format: 'tutor-ai-backup';
+  version: 1;
+  exportedAt: string;
+  /** エクスポート元のローカルスキーマバージョン */
+  schemaVersion: number;
+  attachmentMode: BackupAttachmentMode;
+  data: {
+    projects: Project[];
+    threads: Thread[];
+    messages: Message[];
+    homework: Homework[];
+    testSets: TestSetWithScores[];
+    lessonRecords: LessonRecord[];
+  };
+  /** Storageパス → 添付ファイル（inline のときのみ） */
+  files: Record<string, BackupFile>;
+}
+
+export type BackupCounts = Record<keyof BackupBundle['data'], number>;
+
+// ゴミ箱
+export type TrashKind = 'homework' | 'testSet' | 'lessonRecord';
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  title: string;
+  deletedAt: string;
+}
+
+// 変更履歴（監査ログ）
+export type HistoryTable = 'homework' | 'test_sets' | 'lesson_records';
+export type HistoryAction = 'create' | 'update' | 'trash' | 'restore' | 'delete';
+
+/** 項目ごとの変更（field は Supabase のカラム名。テストの点数は「教科.カラム」） */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RecordHistoryEntry {
+  id: string;
+  userId: string;
+  table: HistoryTable;
+  recordId: string;
+  action: HistoryAction;
+  actorId?: string;
+  actorEmail?: string;
+  changes: FieldChange[];
+  createdAt: string;
+}
+
+// 生徒と講師・保護者の紐付け（tutor は編集可、parent は閲覧のみ）
+export type RelationshipKind = 'tutor' | 'parent';
+
+export interface Relationship {
+  id: string;
+  studentId: string;
+  memberId: string;
+  kind: RelationshipKind;
+  createdAt: string;
+}
+
+// 招待コード（1回限り・有効期限つき。使うと kind の紐付けができる）
+export interface InviteCode {
+  id: string;
+  code: string;
+  studentId: string;
+  kind: RelationshipKind;
+  createdBy: string;
+  expiresAt: string;
+  usedAt?: string;
+  usedBy?: string;
+  createdAt: string;
+}
+
+// 招待コードを使った結果（紐付いた生徒）
+export interface InviteRedemption {
+  studentId: string;
+  studentName: string;
+  kind: RelationshipKind;
+  /** 使った後のロール（生徒のアカウントは招待の種類のロールになる） */
+  role: UserRole;
+}
+
+// 講師マスタ（給与計算用。ログインのアカウントとは別に管理者が登録する）
+export interface Tutor {
+  id: string;
+  name: string;
+  /** 新しく担当を付けるときの時給の初期値 */
+  hourlyYen: number;
+  createdAt: string;
+}
+
+// 教科の担当講師と時給（effectiveFrom 以降の授業はこの講師・時給で計算する）
+export interface ProjectTutorRate {
+  projectId: string;
+  tutorId: string;
+  hourlyYen: number;
+  effectiveFrom: string;  // YYYY-MM-DD
+  createdAt: string;
+}
+
+// 管理画面: 教科とその生徒
+export interface AdminProject {
+  project: Project;
+  student?: Student;
+}
+
+// 管理画面: 講師ごとの今の担当と時給の履歴
+export interface TutorOverview {
+  tutor: Tutor;
+  /** 今日時点で担当している教科（教科ごとの最新の行がこの講師） */
+  assignments: Array<AdminProject & { rate: ProjectTutorRate }>;
+  /** 担当している生徒（重複なし） */
+  students: Student[];
+  /** この講師の時給の履歴（新しい順。これからの分も含む） */
+  rates: ProjectTutorRate[];
+}
+
+// 管理画面で一度に読み込む内容
+export interface AdminConsoleData {
+  tutors: TutorOverview[];
+  /** 担当を付けられる教科（生徒名・教科名の順） */
+  projects: AdminProject[];
+}
+
+// AIの指示の学年帯（all はすべての学年）
+export type GradeBand = 'all' | 'elementary' | 'junior_high' | 'high';
+
+// AIの指示（システムプロンプト）のテンプレート
+// chat は生徒の学年帯と教科（Project.name）で選ぶ（学年帯 → all の順）
+export interface PromptTemplate {
+  id: string;
+  /** 生徒ごとの指示（講師が編集）。無ければ全生徒に効く既定（管理者が編集） */
+  studentId?: string;
+  gradeBand: GradeBand;
+  /** 教科名（Project.name と同じ）。空文字は学年帯の共通の指示 */
+  subject: string;
+  body: string;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
@@ -0,0 +1,41 @@
+import { UserRole } from '../types';
+
+/** 画面（機能）の単位 */
+export type AppResource = 'homework' | 'chat' | 'lessons' | 'tests' | 'settings' | 'admin' | 'prompts';
+export type AccessLevel = 'none' | 'read' | 'write';
+
+/**
+ * ロールごとの画面の権限
+ * Supabase側の RLS（can_read_student / can_write_student）と揃える
+ * - 生徒: 自分のデータはすべて編集できる（従来の1アカウント運用と同じ）
+ * - 保護者: 閲覧のみ（AIチャットは生徒・講師が使う）
+ * - 講師・管理者: 紐付いた生徒のデータを編集できる
+ * - 管理画面（講師マスタ・時給）は管理者のみ（RLS の is_admin と揃える）
+ * - AIの指示（prompt_templates）は講師・管理者のみ（全生徒に効く既定は管理者、講師は受け持つ生徒の指示）
+ */
+const ACCESS: Record<UserRole, Record<AppResource, AccessLevel>> = {
+  student: { homework: 'write', chat: 'write', lessons: 'write', tests: 'write', settings: 'write', admin: 'none', prompts: 'none' },
+  parent: { homework: 'read', chat: 'none', lessons: 'read', tests: 'read', settings: 'write', admin: 'none', prompts: 'none' },
+  tutor: { homework: 'write', chat: 'write', lessons: 'write', tests: 'write', settings: 'write', admin: 'none', prompts: 'write' },
+  admin: { homework: 'write', chat: 'write', lessons: 'write', tests: 'write', settings: 'write', admin: 'write', prompts: 'write' },
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: '生徒',
+  parent: '保護者',
+  tutor: '講師',
+  admin: '管理者',
+};
+
+export function canView(role: UserRole, resource: AppResource): boolean {
+  return ACCESS[role][resource] !== 'none';
+}
+
+export function canEdit(role: UserRole, resource: AppResource): boolean {
+  return ACCESS[role][resource] === 'write';
+}
+
+/** ログイン直後に開く画面（保護者は授業記録から） */
+export function homePathFor(role: UserRole): string {
+  return role === 'parent' ? '/app/lessons' : '/app/homework';
+}
@@ -0,0 +1,46 @@
+import { RecordChange } from '../types';
+
+/**
+ * 購読で届いた変更を一覧に反映する
+ * - upsert: 同じIDがあれば置き換え、無ければ追加
+ * - delete: 取り除く
+ * @param compare 指定すると反映後に並べ替える
+ */
+export function applyRecordChange<T extends { id: string }>(
+  items: T[],
+  change: RecordChange<T>,
+  compare?: (a: T, b: T) => number
+): T[] {
+  let next: T[];
+  if (change.type === 'delete') {
+    if (!items.some((item) => item.id === change.id)) return items;
+    next = items.filter((item) => item.id !== change.id);
+  } else {
+    const exists = items.some((item) => item.id === change.record.id);
+    next = exists
+      ? items.map((item) => (item.id === change.record.id ? change.record : item))
+      : [...items, change.record];
+  }
+  return compare ? [...next].sort(compare) : next;
+}
+
+/**
+ * ページ単位で読み込んでいる一覧に反映する
+ * まだ読み込んでいない範囲の行は追加しない（スクロールで読み込んだときに並ぶ）
+ * @param isUnloaded 行がまだ読み込んでいない範囲にあるか
+ */
+export function applyPagedRecordChange<T extends { id: string }>(
+  items: T[],
+  change: RecordChange<T>,
+  isUnloaded: (record: T) => boolean,
+  compare?: (a: T, b: T) => number
+): T[] {
+  if (
+    change.type === 'upsert' &&
+    !items.some((item) => item.id === change.record.id) &&
+    isUnloaded(change.record)
+  ) {
+    return items;
+  }
+  return applyRecordChange(items, change, compare);
+}
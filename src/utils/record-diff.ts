@@ -0,0 +1,52 @@
+import { FieldChange, HistoryAction } from '../types';
+
+/** 履歴に残さないカラム（監査上意味の無いもの・操作種別で表すもの） */
+const IGNORED_FIELDS = new Set(['id', 'user_id', 'created_at', 'updated_at', 'deleted_at']);
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * 2つの行（Supabase形式）の項目ごとの差分
+ * DBのトリガー（log_record_history）と同じ規則で比較する
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChange[] {
+  const previous = before ?? {};
+  const next = after ?? {};
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+    if (isSameValue(previous[field], next[field])) return;
+    changes.push({ field, before: previous[field] ?? null, after: next[field] ?? null });
+  });
+  return changes;
+}
+
+/** 変更前後の行から操作種別を決める（ゴミ箱への出し入れは deleted_at で判定） */
+export function historyActionOf(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): HistoryAction {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  if (!before.deleted_at && after.deleted_at) return 'trash';
+  if (before.deleted_at && !after.deleted_at) return 'restore';
+  return 'update';
+}
+
+/**
+ * 同じ人が続けて行った変更（例: テストの点数の削除 → 再作成）を1件にまとめる
+ * 項目ごとに最初の before と最後の after を残し、結果が変わらない項目は落とす
+ * @param entries 古い順
+ */
+export function mergeFieldChanges(entries: FieldChange[][]): FieldChange[] {
+  const merged = new Map<string, FieldChange>();
+  entries.flat().forEach((change) => {
+    const existing = merged.get(change.field);
+    merged.set(change.field, existing ? { ...existing, after: change.after } : { ...change });
+  });
+  return Array.from(merged.values()).filter((change) => !isSameValue(change.before, change.after));
+}
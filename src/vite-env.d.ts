@@ -5,6 +5,7 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_SUPABASE_BUCKET?: string;
+  /** Edge Function chat に使わせる LLM（openai / gemini / mock。省略時はサーバーの設定） */
 }
 
 interface ImportMeta {
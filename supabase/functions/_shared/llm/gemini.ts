@@ -0,0 +1,131 @@
+// Google Gemini（generateContent）
+// GEMINI_MODEL（既定 gemini-2.0-flash。画像も同じモデルで読める）
+
+import { LLMProvider, LLMRequest, LLMResult, LLMStreamSummary, readSseData } from './types.ts';
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+type Part = { text: string } | { inline_data: { mime_type: string; data: string } };
+
+const toFinishReason = (reason: string | undefined): LLMResult['finishReason'] =>
+  !reason || reason === 'STOP' ? 'stop' : reason === 'MAX_TOKENS' ? 'length' : 'other';
+
+const textOf = (data: any): string =>
+  (data.candidates?.[0]?.content?.parts ?? [])
+    .map((part: { text?: string }) => part.text ?? '')
+    .join('');
+
+const usageOf = (data: any): LLMResult['usage'] =>
+  data.usageMetadata
+    ? {
+        promptTokens: data.usageMetadata.promptTokenCount ?? 0,
+        completionTokens: data.usageMetadata.candidatesTokenCount ?? 0,
+      }
+    : undefined;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Gemini は画像の URL を読まないので、中身を base64 で渡す */
+const toImagePart = async (url: string, signal?: AbortSignal): Promise<Part> => {
+  const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+  if (dataUrl) {
+    return { inline_data: { mime_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`画像の読み込みに失敗しました: ${response.status}`);
+  }
+  return {
+    inline_data: {
+      mime_type: response.headers.get('Content-Type') ?? 'image/jpeg',
+      data: toBase64(new Uint8Array(await response.arrayBuffer())),
+    },
+  };
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+
+  constructor(private apiKey: string) {}
+
+  modelFor(_request: LLMRequest): string {
+    return Deno.env.get('GEMINI_MODEL') ?? 'gemini-2.0-flash';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResult> {
+    const model = this.modelFor(request);
+    const response = await this.post(request, model, 'generateContent');
+    const data = await response.json();
+    return {
+      message: textOf(data),
+      provider: this.name,
+      model,
+      finishReason: toFinishReason(data.candidates?.[0]?.finishReason),
+      usage: usageOf(data),
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, LLMStreamSummary> {
+    const model = this.modelFor(request);
+    const response = await this.post(request, model, 'streamGenerateContent?alt=sse');
+    if (!response.body) {
+      throw new Error('AI応答が空です');
+    }
+    let finishReason: LLMResult['finishReason'] = 'stop';
+    let usage: LLMResult['usage'];
+    for await (const payload of readSseData(response.body)) {
+      const data = JSON.parse(payload);
+      const text = textOf(data);
+      if (text) {
+        yield text;
+      }
+      if (data.candidates?.[0]?.finishReason) {
+        finishReason = toFinishReason(data.candidates[0].finishReason);
+      }
+      usage = usageOf(data) ?? usage;
+    }
+    return { provider: this.name, model, finishReason, usage };
+  }
+
+  private async post(request: LLMRequest, model: string, method: string): Promise<Response> {
+    const contents = await Promise.all(
+      request.messages.map(async ({ role, content, imageUrls }) => ({
+        role: role === 'assistant' ? 'model' : 'user',
+        parts: [
+          ...(content ? [{ text: content }] : []),
+          ...(await Promise.all((imageUrls ?? []).map((url) => toImagePart(url, request.signal)))),
+        ],
+      }))
+    );
+
+    const response = await fetch(`${API_BASE}/${model}:${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey,
+      },
+      body: JSON.stringify({
+        systemInstruction: { parts: [{ text: request.system }] },
+        contents,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+        },
+      }),
+      signal: request.signal,
+    });
+
+    console.log('📡 Gemini API response status:', response.status);
+    if (!response.ok) {
+      console.error('❌ Gemini API error:', await response.text());
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+    return response;
+  }
+}
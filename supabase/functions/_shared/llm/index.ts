@@ -0,0 +1,58 @@
+// LLM プロバイダーの選択
+// 環境変数 LLM_PROVIDER → APIキーのあるもの（OPENAI_API_KEY, GEMINI_API_KEY）→ モック の順
+// サーバー側の設定だけで決める（クライアントに有料のプロバイダーを選ばせない）
+
+import { GeminiProvider } from './gemini.ts';
+import { MockProvider } from './mock.ts';
+import { OpenAIProvider } from './openai.ts';
+import { LLM_PROVIDER_NAMES, LLMProvider, LLMProviderName } from './types.ts';
+
+export * from './types.ts';
+
+/** 既定の生成パラメータ（LLM_TEMPERATURE / LLM_MAX_TOKENS で変えられる） */
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1000;
+
+const isProviderName = (value: unknown): value is LLMProviderName =>
+  typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value);
+
+const requireKey = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} が設定されていません`);
+  }
+  return value;
+};
+
+const numberEnv = (key: string, fallback: number): number => {
+  const value = Number(Deno.env.get(key));
+  return Number.isFinite(value) && Deno.env.get(key) ? value : fallback;
+};
+
+export const generationDefaults = () => ({
+  temperature: numberEnv('LLM_TEMPERATURE', DEFAULT_TEMPERATURE),
+  maxTokens: numberEnv('LLM_MAX_TOKENS', DEFAULT_MAX_TOKENS),
+});
+
+export const getLLMProvider = (): LLMProvider => {
+  const configured = Deno.env.get('LLM_PROVIDER');
+  if (configured && !isProviderName(configured)) {
+    throw new Error(`LLM_PROVIDER が不正です: ${configured}`);
+  }
+
+  const name: LLMProviderName =
+    (configured as LLMProviderName | undefined) ??
+    (Deno.env.get('OPENAI_API_KEY') ? 'openai' : Deno.env.get('GEMINI_API_KEY') ? 'gemini' : 'mock');
+
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider(requireKey('OPENAI_API_KEY'));
+    case 'gemini':
+      return new GeminiProvider(requireKey('GEMINI_API_KEY'));
+    case 'mock':
+      if (!configured) {
+        console.warn('⚠️ APIキーが無いため、モックで応答します');
+      }
+      return new MockProvider();
+  }
+};
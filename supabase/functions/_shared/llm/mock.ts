@@ -0,0 +1,55 @@
+// モック（APIキー不要）
+// 最後の発言と画像の枚数をそのまま返す。応答は入力だけで決まるので、開発・テストで流れ全体を確かめられる
+
+import { LLMProvider, LLMRequest, LLMResult, LLMStreamSummary } from './types.ts';
+
+/** ストリーミングの見た目を確かめられるよう、少しずつ返す */
+const CHUNK_SIZE = 8;
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  modelFor(_request: LLMRequest): string {
+    return 'mock-echo';
+  }
+
+  complete(request: LLMRequest): Promise<LLMResult> {
+    return Promise.resolve({
+      message: this.reply(request),
+      provider: this.name,
+      model: this.modelFor(request),
+      finishReason: 'stop',
+    });
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, LLMStreamSummary> {
+    const text = this.reply(request);
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      if (request.signal?.aborted) break;
+      yield text.slice(i, i + CHUNK_SIZE);
+    }
+    return { provider: this.name, model: this.modelFor(request), finishReason: 'stop' };
+  }
+
+  private reply(request: LLMRequest): string {
+    const text = request.messages.map((message) => message.content).join('\n');
+    if (request.purpose === 'title') {
+      // 会話の書き起こしの最初の発言の先頭
+      const first = text.split('\n').find((line) => line.trim()) ?? '';
+      return `（モック）${first.replace(/^生徒:\s*/, '').slice(0, 16)}`;
+    }
+    if (request.purpose === 'summary') {
+      return `（モック要約）${text.length}文字分のやりとりを要約しました。`;
+    }
+    const last = [...request.messages].reverse().find((message) => message.role === 'user');
+    const lines = ['（モック応答です。LLM_PROVIDER を openai か gemini にすると AI が答えます）'];
+    if (last?.content) {
+      lines.push('', `> ${last.content.split('\n').join('\n> ')}`);
+    }
+    if (last?.imageUrls && last.imageUrls.length > 0) {
+      lines.push('', `画像を ${last.imageUrls.length} 枚受け取りました。`);
+    }
+    lines.push('', `（会話 ${request.messages.length} 件）`);
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,105 @@
+// OpenAI Chat Completions
+// OPENAI_MODEL（既定 gpt-4o-mini）、画像があるときは OPENAI_VISION_MODEL（既定 gpt-4o）
+
+import { LLMProvider, LLMRequest, LLMResult, LLMStreamSummary, hasImages, readSseData } from './types.ts';
+
+const ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail: 'auto' } };
+
+const toFinishReason = (reason: string | null | undefined): LLMResult['finishReason'] =>
+  reason === 'stop' ? 'stop' : reason === 'length' ? 'length' : 'other';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private apiKey: string) {}
+
+  modelFor(request: LLMRequest): string {
+    return hasImages(request)
+      ? Deno.env.get('OPENAI_VISION_MODEL') ?? 'gpt-4o'
+      : Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResult> {
+    const model = this.modelFor(request);
+    const response = await this.post(request, model, false);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    return {
+      message: choice?.message?.content ?? '',
+      provider: this.name,
+      model,
+      finishReason: toFinishReason(choice?.finish_reason),
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+        : undefined,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, LLMStreamSummary> {
+    const model = this.modelFor(request);
+    const response = await this.post(request, model, true);
+    if (!response.body) {
+      throw new Error('AI応答が空です');
+    }
+    let finishReason: LLMResult['finishReason'] = 'stop';
+    let usage: LLMResult['usage'];
+    for await (const payload of readSseData(response.body)) {
+      if (payload === '[DONE]') break;
+      const data = JSON.parse(payload);
+      const choice = data.choices?.[0];
+      if (choice?.delta?.content) {
+        yield choice.delta.content;
+      }
+      if (choice?.finish_reason) {
+        finishReason = toFinishReason(choice.finish_reason);
+      }
+      if (data.usage) {
+        usage = { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens };
+      }
+    }
+    return { provider: this.name, model, finishReason, usage };
+  }
+
+  private async post(request: LLMRequest, model: string, stream: boolean): Promise<Response> {
+    const response = await fetch(ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: request.system },
+          ...request.messages.map(({ role, content, imageUrls }) =>
+            imageUrls && imageUrls.length > 0
+              ? {
+                  role,
+                  content: [
+                    { type: 'text', text: content },
+                    ...imageUrls.map((url) => ({ type: 'image_url', image_url: { url, detail: 'auto' } })),
+                  ] as ContentPart[],
+                }
+              : { role, content }
+          ),
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    console.log('📡 OpenAI API response status:', response.status);
+    if (!response.ok) {
+      console.error('❌ OpenAI API error:', await response.text());
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+    return response;
+  }
+}
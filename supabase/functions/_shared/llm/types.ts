@@ -0,0 +1,78 @@
+// LLM プロバイダーの共通の型
+// Edge Function はプロバイダー（OpenAI / Gemini / モック）の違いを意識せず、この形だけを扱う
+
+export type LLMProviderName = 'openai' | 'gemini' | 'mock';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'gemini', 'mock'];
+
+/** 会話の1件（画像はすでに取りに行ける URL か data URL にしてある） */
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  imageUrls?: string[];
+}
+
+/** chat: 会話の応答 / title: スレッドのタイトル / summary: 会話の要約 */
+export type LLMPurpose = 'chat' | 'title' | 'summary';
+
+export interface LLMRequest {
+  /** 省略時は chat（モックが返す内容を変えるのに使う） */
+  purpose?: LLMPurpose;
+  system: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  /** 呼び出し元が接続を切ったら生成も止める */
+  signal?: AbortSignal;
+}
+
+/** 生成結果（どのプロバイダーでも同じ形） */
+export interface LLMResult {
+  message: string;
+  provider: LLMProviderName;
+  model: string;
+  /** stop: 最後まで生成した / length: 上限で打ち切った / other: それ以外（安全性フィルターなど） */
+  finishReason: 'stop' | 'length' | 'other';
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/** ストリーミングの最後に返す情報（本文は差分で送り済み） */
+export type LLMStreamSummary = Omit<LLMResult, 'message'>;
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** 画像の有無でモデルを選ぶ */
+  modelFor(request: LLMRequest): string;
+  complete(request: LLMRequest): Promise<LLMResult>;
+  /** 本文の差分を順に返し、最後に結果の情報を返す */
+  stream(request: LLMRequest): AsyncGenerator<string, LLMStreamSummary>;
+}
+
+export const hasImages = (request: LLMRequest): boolean =>
+  request.messages.some((message) => (message.imageUrls?.length ?? 0) > 0);
+
+/** SSE（text/event-stream）を data: 行の中身ごとに返す */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice('data:'.length).trim();
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -1,24 +1,199 @@
 // Supabase Edge Function: chat
-// OpenAI APIを使用して小学生向けAI家庭教師の応答を生成
+// LLM（OpenAI / Gemini / モック。_shared/llm で選ぶ）を使用してAI家庭教師の応答を生成
+// 指示（システムプロンプト）は生徒の学年と教科で prompt_templates から選ぶ（prompt.ts）
+// 応答: { message, provider, model, finishReason, usage }
+// stream: true のときは生成した分から SSE（text/event-stream）で返す
+//   data: {"delta":"..."}  … 追加のテキスト
+//   event: done           … 生成が終わった（data: { provider, model, finishReason, usage }）
+//   event: error          … 途中で失敗した（data: {"error":"..."}）
+// 画像つきのメッセージ（images）は、Storage のパスをここで署名URLにしてから画像対応のモデルに渡す
+// task: 'title' | 'summary' のときは会話の書き起こしから、スレッドのタイトル・要約（summary に前回の要約）を返す
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { LLMMessage, LLMRequest, LLMStreamSummary, generationDefaults, getLLMProvider } from '../_shared/llm/index.ts';
+import { TITLE_PROMPT, buildSystemPrompt, isHintLevel, summaryPrompt } from './prompt.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+/** 添付画像: Storage のパス、またはアップロードできなかったときの data URL */
+interface ImagePart {
+  path?: string;
+  url?: string;
+}
+
 interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  images?: ImagePart[];
 }
 
 interface RequestBody {
   messages: Message[];
   projectName?: string;
+  /** スレッドの教科（生徒の学年と教科から指示のテンプレートを選ぶ） */
+  projectId?: string;
+  /** ヒントの段階（1〜4。4 のときだけ答えを示す） */
+  hintLevel?: number;
+  /** スレッドの要約（chat では文脈、task: summary では前回の要約） */
+  summary?: string;
+  /** 省略時は会話の応答 */
+  task?: 'title' | 'summary';
+  stream?: boolean;
 }
 
+const sseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+const encoder = new TextEncoder();
+
+/** 署名URLの有効期限（LLM が画像を取りに来るまでの間だけ） */
+const SIGNED_URL_EXPIRES_IN = 600;
+/** 1回のリクエストで送る画像の上限 */
+const MAX_IMAGES = 4;
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} が設定されていません`);
+  }
+  return value;
+};
+
+/**
+ * 画像を LLM に渡せる URL にする
+ * Storage のパスは呼び出したユーザーの権限（RLS）で署名する（他人の画像は読めない）
+ */
+const resolveImageUrls = async (images: ImagePart[], userClient: SupabaseClient | null): Promise<string[]> => {
+  const paths = images.flatMap((image) => (image.path ? [image.path] : []));
+  const signedByPath = new Map<string, string>();
+  if (paths.length > 0) {
+    if (!userClient) {
+      throw new Error('画像を送るにはログインしてください');
+    }
+    const bucket = Deno.env.get('SUPABASE_BUCKET') ?? 'attachments';
+    const { data, error } = await userClient.storage
+      .from(bucket)
+      .createSignedUrls(paths, SIGNED_URL_EXPIRES_IN);
+    if (error) {
+      throw new Error(`画像URLの作成に失敗しました: ${error.message}`);
+    }
+    (data ?? []).forEach((item) => {
+      if (item.path && item.signedUrl) {
+        signedByPath.set(item.path, item.signedUrl);
+      }
+    });
+  }
+
+  return images.flatMap((image) => {
+    if (image.path) {
+      const url = signedByPath.get(image.path);
+      if (!url) {
+        console.warn('⚠️ Image not found or not allowed:', image.path);
+      }
+      return url ? [url] : [];
+    }
+    // 任意のURLは取りに行かせない（端末内の画像の data URL だけ）
+    return image.url?.startsWith('data:image/') ? [image.url] : [];
+  });
+};
+
+/**
+ * images の画像を URL にして、プロバイダー共通の形にする
+ * system はここで作るので、クライアントから来たものは使わない
+ */
+const toLLMMessages = async (messages: Message[], userClient: SupabaseClient | null): Promise<LLMMessage[]> => {
+  // 古い画像から落とす（直近の問題の写真を優先する）
+  let remaining = MAX_IMAGES;
+  const conversation = messages.filter(
+    (message): message is Message & { role: LLMMessage['role'] } => message.role !== 'system',
+  );
+  const limited = [...conversation].reverse().map((message) => {
+    const images = (message.images ?? []).slice(0, Math.max(remaining, 0));
+    remaining -= images.length;
+    return { ...message, images };
+  }).reverse();
+
+  return Promise.all(
+    limited.map(async ({ role, content, images }) => {
+      if (role !== 'user' || images.length === 0) {
+        return { role, content };
+      }
+      const imageUrls = await resolveImageUrls(images, userClient);
+      return { role, content: content || 'この画像について教えてください。', imageUrls };
+    }),
+  );
+};
+
+/** 呼び出したユーザーの権限のクライアント（RLS が効く）。ログインしていなければ null */
+const userClientOf = (req: Request): SupabaseClient | null => {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return null;
+  return createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: authHeader } },
+    auth: { persistSession: false },
+  });
+};
+
+/** タイトル・要約の長さの上限（モデルが守らなかったときに切る） */
+const TITLE_MAX_LENGTH = 30;
+const SUMMARY_MAX_LENGTH = 1000;
+
+/** タイトル・要約用に、会話を1つの書き起こしにする（画像は含めない） */
+const toTranscript = (messages: Message[]): string =>
+  messages
+    .filter((message) => message.role !== 'system' && message.content?.trim())
+    .map((message) => `${message.role === 'user' ? '生徒' : 'AI'}: ${message.content.trim()}`)
+    .join('\n');
+
+/** 1行目だけにして、かぎかっこ・記号を落とす */
+const cleanTitle = (text: string): string =>
+  (text.trim().split('\n')[0] ?? '')
+    .replace(/^[#*\s]+/, '')
+    .replace(/^(タイトル|題)[:：]\s*/, '')
+    .replace(/^[「『"']+|[」』"'。]+$/g, '')
+    .trim()
+    .slice(0, TITLE_MAX_LENGTH);
+
+const sseEvent = (event: string | null, data: unknown): Uint8Array =>
+  encoder.encode(`${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * プロバイダーが生成した差分を SSE で送る
+ * クライアントが止めた（接続を切った）ときはプロバイダーへの接続も切る
+ */
+const toClientStream = (
+  deltas: AsyncGenerator<string, LLMStreamSummary>,
+  abort: AbortController,
+): ReadableStream<Uint8Array> =>
+  new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await deltas.next();
+        if (done) {
+          controller.enqueue(sseEvent('done', value));
+          controller.close();
+          return;
+        }
+        controller.enqueue(sseEvent(null, { delta: value }));
+      } catch (error) {
+        console.error('❌ Stream error:', error);
+        controller.enqueue(sseEvent('error', { error: error instanceof Error ? error.message : 'Unknown error' }));
+        controller.close();
+      }
+    },
+    cancel() {
+      console.log('⏹ Stream cancelled by client');
+      abort.abort();
+    },
+  });
+
 serve(async (req) => {
   // CORS preflight request
   if (req.method === 'OPTIONS') {
@@ -28,9 +203,19 @@ serve(async (req) => {
   try {
     // リクエストボディを取得
     const body = await req.json();
-    console.log('📥 Received request body:', JSON.stringify(body, null, 2));
+    // data URL の画像はログに出さない
+    console.log('📥 Received request body:', JSON.stringify(body, (key, value) =>
+      key === 'url' && typeof value === 'string' ? `${value.slice(0, 32)}...` : value, 2));
     
-    const { messages, projectName }: RequestBody = body;
+    const {
+      messages,
+      projectName,
+      projectId,
+      hintLevel,
+      summary,
+      task,
+      stream,
+    }: RequestBody = body;
 
     if (!messages || messages.length === 0) {
       console.error('❌ Messages validation failed:', { messages, hasMessages: !!messages, length: messages?.length });
@@ -39,63 +224,73 @@ serve(async (req) => {
     
     console.log('✅ Messages validated:', messages.length, 'messages');
 
-    // OpenAI API キーを取得
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      throw new Error('OPENAI_API_KEY が設定されていません');
+    // プロバイダーはサーバーの設定（LLM_PROVIDER・APIキー）だけで選ぶ
+    const provider = getLLMProvider();
+
+    if (task === 'title' || task === 'summary') {
+      const result = await provider.complete({
+        purpose: task,
+        system: task === 'title' ? TITLE_PROMPT : summaryPrompt(summary),
+        messages: [{ role: 'user', content: toTranscript(messages) }],
+        temperature: 0.3,
+        maxTokens: task === 'title' ? 60 : 600,
+        signal: req.signal,
+      });
+      const message = task === 'title'
+        ? cleanTitle(result.message)
+        : result.message.trim().slice(0, SUMMARY_MAX_LENGTH);
+      if (!message) {
+        throw new Error('AI応答が空です');
+      }
+      console.log(`✅ ${task} generated successfully`);
+      return new Response(JSON.stringify({ ...result, message }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      });
     }
 
-    // システムプロンプト（小学生向け家庭教師AI）
-    const systemPrompt = `あなたは小学生向けの優しい家庭教師AIです。以下のルールを守って回答してください：
-
-1. 小学生が理解できる言葉で、わかりやすく説明する
-2. 難しい言葉を使う場合は、簡単な言葉で補足する
-3. 答えを直接教えるのではなく、考え方やヒントを与える
-4. 励ましの言葉を入れて、学習意欲を高める
-5. 具体例や図を使った説明を心がける
-6. 質問には丁寧に答え、間違いを指摘する時も優しく
-7. マークダウン形式で読みやすく整形する（見出し、箇条書き、太字など）
-${projectName ? `\n現在の学習プロジェクト: ${projectName}` : ''}`;
-
-    // OpenAI APIにリクエスト
-    console.log('🤖 Calling OpenAI API...');
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // コスト効率の良いモデル
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...messages,
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      }),
+    const userClient = userClientOf(req);
+    const llmMessages = await toLLMMessages(messages, userClient);
+    const hasImages = llmMessages.some((message) => (message.imageUrls?.length ?? 0) > 0);
+
+    // システムプロンプト（生徒の学年・教科に合うテンプレート）
+    const systemPrompt = await buildSystemPrompt({
+      client: userClient,
+      projectId,
+      projectName,
+      hasImages,
+      hintLevel: isHintLevel(hintLevel) ? hintLevel : undefined,
+      summary,
     });
 
-    console.log('📡 OpenAI API response status:', response.status);
+    // クライアントが接続を切ったら生成も止める
+    const abort = new AbortController();
+    req.signal.addEventListener('abort', () => abort.abort());
+    const request: LLMRequest = {
+      purpose: 'chat',
+      system: systemPrompt,
+      messages: llmMessages,
+      ...generationDefaults(),
+      signal: abort.signal,
+    };
+
+    console.log(`🤖 Calling ${provider.name} (${provider.modelFor(request)})...`);
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('❌ OpenAI API error:', error);
-      throw new Error(`OpenAI API error: ${response.status}`);
+    if (stream === true) {
+      return new Response(toClientStream(provider.stream(request), abort), { headers: sseHeaders, status: 200 });
     }
 
-    const data = await response.json();
-    const aiMessage = data.choices[0]?.message?.content;
+    const result = await provider.complete(request);
 
-    if (!aiMessage) {
-      console.error('❌ AI response is empty:', data);
+    if (!result.message) {
+      console.error('❌ AI response is empty:', result);
       throw new Error('AI応答が空です');
     }
     
     console.log('✅ AI response generated successfully');
 
     return new Response(
-      JSON.stringify({ message: aiMessage }),
+      JSON.stringify(result),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -0,0 +1,149 @@
+// システムプロンプトの組み立て
+// prompt_templates から、生徒の学年（students.grade）とスレッドの教科（projects.name）に合うものを選ぶ
+// その生徒の指示（講師が書いたもの）があれば、全生徒に効く既定より優先する
+// テーブルが読めないとき（ログインしていない・マイグレーション前）は、下の既定の指示を使う
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+type GradeBand = 'elementary' | 'junior_high' | 'high';
+
+interface TemplateRow {
+  student_id: string | null;
+  grade_band: GradeBand | 'all';
+  subject: string;
+  body: string;
+}
+
+/** テンプレートが無いときの指示（小学生向け） */
+const DEFAULT_PROMPT = `あなたは小学生向けの優しい家庭教師AIです。以下のルールを守って回答してください：
+
+1. 小学生が理解できる言葉で、わかりやすく説明する
+2. 難しい言葉を使う場合は、簡単な言葉で補足する
+3. 答えを直接教えるのではなく、考え方やヒントを与える
+4. 励ましの言葉を入れて、学習意欲を高める
+5. 具体例や図を使った説明を心がける
+6. 質問には丁寧に答え、間違いを指摘する時も優しく
+7. マークダウン形式で読みやすく整形する（見出し、箇条書き、太字など）`;
+
+/**
+ * ヒントの段階（1: きっかけ → 2: 解き方の方針 → 3: 似た例題 → 4: 答え）
+ * 段階はクライアントが「もっとヒント」「答えを見る」を押したときだけ上げる
+ */
+export type HintLevel = 1 | 2 | 3 | 4;
+
+export const isHintLevel = (value: unknown): value is HintLevel =>
+  value === 1 || value === 2 || value === 3 || value === 4;
+
+const HINT_RULES: Record<HintLevel, string> = {
+  1: 'ヒントの段階 1/4（きっかけ）: 答えも解き方の手順も書かない。問題のどこに注目するか、考えるきっかけになる質問を1〜2つだけ返す。',
+  2: 'ヒントの段階 2/4（解き方の方針）: 使う考え方・公式と、最初の一歩だけを示す。その先の計算や答えは書かない。',
+  3: 'ヒントの段階 3/4（似た例題）: 数字や設定を変えた似た問題を、途中の考え方とともに最後まで解いて見せる。元の問題の答えは書かない。',
+  4: 'ヒントの段階 4/4（答え）: 元の問題を途中の考え方とともに最後まで解き、答えを示す。最後に答えの確かめ方も添える。',
+};
+
+const HINT_GUARD =
+  '生徒が答えを求めても、この段階では元の問題の答えを書かない。答えが知りたいときは、画面の「もっとヒント」「答えを見る」ボタンで次の段階に進めることを伝える。';
+
+const IMAGE_RULE = '写真の問題は、まず何が書いてあるか読み取って確かめてから説明する（読めないところは聞き返す）';
+
+/** 「中1」「高校2年」「小5」などから学年帯（わからなければ小学生） */
+export const gradeBandOf = (grade?: string | null): GradeBand => {
+  const value = (grade ?? '').trim();
+  if (value.startsWith('中')) return 'junior_high';
+  if (value.startsWith('高')) return 'high';
+  return 'elementary';
+};
+
+/** 生徒の指示 → 既定の順に、それぞれその学年帯の行 → すべての学年（all）の行を探す */
+const pick = (rows: TemplateRow[], band: GradeBand, subject: string): TemplateRow | undefined => {
+  const find = (own: boolean) =>
+    rows.find((row) => !!row.student_id === own && row.grade_band === band && row.subject === subject) ??
+    rows.find((row) => !!row.student_id === own && row.grade_band === 'all' && row.subject === subject);
+  return find(true) ?? find(false);
+};
+
+interface PromptContext {
+  /** ログイン中のユーザーの権限のクライアント（無ければ既定の指示） */
+  client: SupabaseClient | null;
+  projectId?: string;
+  projectName?: string;
+  hasImages: boolean;
+  /** 段階的に助ける（省略時は段階を指定しない） */
+  hintLevel?: HintLevel;
+  /** スレッドの要約（直近のメッセージより前のやりとりも伝わるように） */
+  summary?: string;
+}
+
+export const buildSystemPrompt = async ({
+  client,
+  projectId,
+  projectName,
+  hasImages,
+  hintLevel,
+  summary,
+}: PromptContext): Promise<string> => {
+  let subject = projectName?.trim() ?? '';
+  let grade: string | null = null;
+  let studentId: string | null = null;
+  let rows: TemplateRow[] = [];
+
+  if (client) {
+    if (projectId) {
+      const { data: project, error } = await client
+        .from('projects')
+        .select('name, student_id, students(grade)')
+        .eq('id', projectId)
+        .maybeSingle();
+      if (error) {
+        console.warn('⚠️ Project lookup failed:', error.message);
+      } else if (project) {
+        subject = project.name?.trim() ?? subject;
+        const student = Array.isArray(project.students) ? project.students[0] : project.students;
+        grade = student?.grade ?? null;
+        studentId = project.student_id ?? null;
+      }
+    }
+
+    const { data, error } = await client
+      .from('prompt_templates')
+      .select('student_id, grade_band, subject, body')
+      .in('subject', subject ? ['', subject] : [''])
+      .or(studentId ? `student_id.is.null,student_id.eq.${studentId}` : 'student_id.is.null');
+    if (error) {
+      console.warn('⚠️ prompt_templates lookup failed:', error.message);
+    } else {
+      rows = (data ?? []) as TemplateRow[];
+    }
+  }
+
+  const band = gradeBandOf(grade);
+  const base = pick(rows, band, '')?.body ?? DEFAULT_PROMPT;
+  const subjectRule = subject ? pick(rows, band, subject)?.body : undefined;
+  console.log('🧭 Prompt template:', { band, subject, hasSubjectRule: !!subjectRule });
+
+  return [
+    base.trim(),
+    subjectRule ? `\n【${subject}の教え方】\n${subjectRule.trim()}` : '',
+    hasImages ? `\n${IMAGE_RULE}` : '',
+    hintLevel ? `\n【ヒントの段階】\n${HINT_RULES[hintLevel]}${hintLevel < 4 ? `\n${HINT_GUARD}` : ''}` : '',
+    subject ? `\n現在の学習プロジェクト: ${subject}` : '',
+    summary?.trim()
+      ? `\n【これまでの会話の要約】（直近のやりとりと重なることがある）\n${summary.trim()}`
+      : '',
+  ].filter(Boolean).join('\n');
+};
+
+/** スレッドのタイトル（task: title） */
+export const TITLE_PROMPT = `あなたは学習アプリの会話にタイトルを付けます。
+生徒とAI家庭教師の会話の書き起こしを読み、何を学んでいるかがわかる短いタイトルを1つだけ返してください。
+- 15文字以内の日本語の名詞句（例: 分数のわり算、三角形の面積、過去形の疑問文）
+- 「この問題」「わからない」のような内容の無い言葉は使わない
+- かぎかっこ・記号・説明は付けない`;
+
+/** スレッドの要約（task: summary）。前回の要約に新しいやりとりを書き足す */
+export const summaryPrompt = (previous?: string): string => `あなたは学習アプリの会話の要約を更新します。
+${previous?.trim() ? `これまでの要約:\n${previous.trim()}\n\n` : ''}新しいやりとりの書き起こしを読み、これまでの要約と合わせた要約を日本語で書き直してください。
+- 300文字以内
+- 取り組んでいる問題・単元、生徒がつまずいたところ、どこまで理解できたかを残す
+- 後でAIがこの要約だけを見て続きから教えられるように書く
+- 見出しや前置きは付けず、要約の本文だけを返す`;
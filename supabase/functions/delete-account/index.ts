@@ -0,0 +1,172 @@
+// Supabase Edge Function: delete-account
+// ログインしているアカウントと、そのアカウントの個人データをすべて削除して、削除した件数の受領書を返す
+// 子どものデータを扱うため、削除の依頼にサーバー側（サービスロール）で確実に応える
+// テーブルの行は SQL 関数 delete_account_data が1つのトランザクションで消し、成功した後に Storage とアカウントを消す
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/** Storage の一覧・削除の1回あたりの件数 */
+const STORAGE_PAGE_SIZE = 100;
+
+interface RequestBody {
+  confirm_email?: string;
+}
+
+type DeletionCounts = {
+  projects: number;
+  threads: number;
+  messages: number;
+  homework: number;
+  test_sets: number;
+  test_scores: number;
+  lesson_records: number;
+  record_history: number;
+  students: number;
+  relationships: number;
+  invite_codes: number;
+  storage_objects: number;
+};
+
+type DeleteAccountDataResult = {
+  counts: Omit<DeletionCounts, 'storage_objects'>;
+  kept_paths: string[];
+};
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} が設定されていません`);
+  }
+  return value;
+};
+
+// フォルダ（id が null）はたどって、prefix 以下のファイルのパスをすべて集める
+const listStoragePaths = async (
+  supabase: SupabaseClient,
+  bucket: string,
+  prefix: string,
+): Promise<string[]> => {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(prefix, { limit: STORAGE_PAGE_SIZE, offset });
+    if (error) {
+      throw new Error(`Storage の読み込みエラー: ${error.message}`);
+    }
+    for (const item of data ?? []) {
+      const path = `${prefix}/${item.name}`;
+      if (item.id) {
+        paths.push(path);
+      } else {
+        paths.push(...(await listStoragePaths(supabase, bucket, path)));
+      }
+    }
+    if (!data || data.length < STORAGE_PAGE_SIZE) break;
+  }
+  return paths;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'ログインしてください' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = requireEnv('SUPABASE_URL');
+    const supabaseAnonKey = requireEnv('SUPABASE_ANON_KEY');
+    const supabaseServiceKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+    const bucket = Deno.env.get('SUPABASE_BUCKET') ?? 'attachments';
+
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+      auth: { persistSession: false },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: 'ログインしてください' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // 確認のため、アカウントのメールアドレスを入力してもらう
+    const { confirm_email: confirmEmail }: RequestBody = await req.json();
+    if (!confirmEmail || confirmEmail.trim().toLowerCase() !== (user.email ?? '').toLowerCase()) {
+      throw new Error('確認のメールアドレスが一致しません');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false },
+    });
+    const userId = user.id;
+
+    // テーブルの行（生徒の引き継ぎも含む）。失敗したら何も消えていない
+    // 他の家庭の生徒に作った行は削除されずに残る
+    const { data, error: deleteError } = await supabase.rpc('delete_account_data', {
+      p_user_id: userId,
+    });
+    if (deleteError) {
+      throw new Error(`データの削除エラー: ${deleteError.message}`);
+    }
+    const { counts: tableCounts, kept_paths: keptPaths } = data as DeleteAccountDataResult;
+    const counts: DeletionCounts = { ...tableCounts, storage_objects: 0 };
+
+    // 添付ファイル（{userId}/ 以下。残した行が参照しているものは消さない）
+    const kept = new Set(keptPaths);
+    const paths = (await listStoragePaths(supabase, bucket, userId)).filter((path) => !kept.has(path));
+    for (let i = 0; i < paths.length; i += STORAGE_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .remove(paths.slice(i, i + STORAGE_PAGE_SIZE));
+      if (error) {
+        throw new Error(`Storage の削除エラー: ${error.message}`);
+      }
+      counts.storage_objects += data?.length ?? 0;
+    }
+
+    // 最後にアカウント（profiles は auth.users の削除で消える）
+    const { error: deleteUserError } = await supabase.auth.admin.deleteUser(userId);
+    if (deleteUserError) {
+      throw new Error(`アカウントの削除エラー: ${deleteUserError.message}`);
+    }
+
+    console.log('🗑️ Account deleted:', userId, JSON.stringify(counts));
+
+    return new Response(
+      JSON.stringify({
+        user_id: userId,
+        email: user.email,
+        deleted_at: new Date().toISOString(),
+        counts,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  }
+});
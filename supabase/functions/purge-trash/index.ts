@@ -0,0 +1,101 @@
+// Supabase Edge Function: purge-trash
+// ゴミ箱に入れてから30日を過ぎた宿題・テスト・授業記録を、添付画像ごと完全に削除する
+// GitHub Actions（.github/workflows/purge-trash.yml）から毎日呼ぶ。アプリを開かない生徒の分も消える
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-purge-token',
+};
+
+/** ゴミ箱に入れてから完全削除するまでの日数（src/services/trash.service.ts の TRASH_RETENTION_DAYS と揃える） */
+const TRASH_RETENTION_DAYS = 30;
+/** Storage の削除の1回あたりの件数 */
+const STORAGE_PAGE_SIZE = 100;
+
+type PurgeResult = {
+  counts: {
+    homework: number;
+    test_sets: number;
+    test_scores: number;
+    lesson_records: number;
+  };
+  paths: string[];
+};
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} が設定されていません`);
+  }
+  return value;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const token = requireEnv('PURGE_TRASH_TOKEN');
+    const requestToken = req.headers.get('x-purge-token');
+    if (requestToken !== token) {
+      return new Response(JSON.stringify({ error: '認証に失敗しました' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = requireEnv('SUPABASE_URL');
+    const supabaseServiceKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+    const bucket = Deno.env.get('SUPABASE_BUCKET') ?? 'attachments';
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false },
+    });
+
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    // 行は1つのトランザクションで消し、消した行が参照していた画像のパスを受け取る
+    const { data, error } = await supabase.rpc('purge_expired_trash', { p_cutoff: cutoff });
+    if (error) {
+      throw new Error(`ゴミ箱の削除エラー: ${error.message}`);
+    }
+    const { counts, paths } = data as PurgeResult;
+
+    // 画像は行を消した後に消す（失敗しても行は戻さない。参照の無い画像が残るだけ）
+    let storageObjects = 0;
+    for (let i = 0; i < paths.length; i += STORAGE_PAGE_SIZE) {
+      const { data: removed, error: removeError } = await supabase.storage
+        .from(bucket)
+        .remove(paths.slice(i, i + STORAGE_PAGE_SIZE));
+      if (removeError) {
+        console.warn('⚠️ Storage の削除に失敗:', removeError.message);
+        continue;
+      }
+      storageObjects += removed?.length ?? 0;
+    }
+
+    return new Response(
+      JSON.stringify({
+        cutoff,
+        counts: { ...counts, storage_objects: storageObjects },
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  }
+});
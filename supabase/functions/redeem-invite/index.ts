@@ -0,0 +1,230 @@
+// Supabase Edge Function: redeem-invite
+// 招待コードを確認して、ログインしているアカウントを生徒に紐付ける
+// relationships への書き込みはクライアントからはできない（RLS）ため、ここでサービスロールで行う
+// サインアップは全員が生徒になる。保護者・講師のロールはここ（招待コードを使ったとき）で付ける
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ROLE_FOR_KIND: Record<string, string> = {
+  parent: 'parent',
+  tutor: 'tutor',
+};
+
+// ロールは上げるだけ（講師が保護者のコードを使っても講師のまま）
+const ROLE_RANK: Record<string, number> = {
+  student: 0,
+  parent: 1,
+  tutor: 2,
+  admin: 3,
+};
+
+interface RequestBody {
+  code?: string;
+}
+
+const requireEnv = (key: string): string => {
+  const value = Deno.env.get(key);
+  if (!value) {
+    throw new Error(`${key} が設定されていません`);
+  }
+  return value;
+};
+
+/**
+ * 本人の生徒（ID = アカウントのID）に記録・紐付けがあるか
+ * 教科（projects）は既定の5教科が自動で作られるので見ない。チャットは教科の中のスレッドで見る
+ */
+const hasOwnStudentRecords = async (supabase: SupabaseClient, userId: string): Promise<boolean> => {
+  const queries = [
+    ...['homework', 'test_sets', 'lesson_records', 'relationships'].map((table) =>
+      supabase.from(table).select('id', { count: 'exact', head: true }).eq('student_id', userId)
+    ),
+    supabase
+      .from('threads')
+      .select('id, projects!inner(student_id)', { count: 'exact', head: true })
+      .eq('projects.student_id', userId),
+  ];
+  for (const query of queries) {
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`アカウントの確認エラー: ${error.message}`);
+    }
+    if ((count ?? 0) > 0) return true;
+  }
+  return false;
+};
+
+// 入力の揺れ（小文字・空白・ハイフン）を吸収する
+const normalizeCode = (code: unknown): string =>
+  typeof code === 'string' ? code.toUpperCase().replace(/[^A-Z0-9]/g, '') : '';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'ログインしてください' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabaseUrl = requireEnv('SUPABASE_URL');
+    const supabaseAnonKey = requireEnv('SUPABASE_ANON_KEY');
+    const supabaseServiceKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+    // 呼び出したアカウント（JWTをSupabase Authで検証する）
+    const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+      auth: { persistSession: false },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: 'ログインしてください' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { code: rawCode }: RequestBody = await req.json();
+    const code = normalizeCode(rawCode);
+    if (!code) {
+      throw new Error('招待コードを入力してください');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false },
+    });
+
+    const { data: invite, error: inviteError } = await supabase
+      .from('invite_codes')
+      .select('id, student_id, kind, expires_at, used_at')
+      .eq('code', code)
+      .maybeSingle();
+    if (inviteError) {
+      throw new Error(`招待コードの確認エラー: ${inviteError.message}`);
+    }
+    if (!invite) {
+      throw new Error('招待コードが見つかりません');
+    }
+    if (invite.used_at) {
+      throw new Error('この招待コードは使用済みです');
+    }
+    if (new Date(invite.expires_at).getTime() <= Date.now()) {
+      throw new Error('この招待コードは有効期限が切れています');
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+    const currentRole: string = profile?.role ?? 'student';
+    const invitedRole = ROLE_FOR_KIND[invite.kind];
+    const nextRole = ROLE_RANK[invitedRole] > (ROLE_RANK[currentRole] ?? 0) ? invitedRole : currentRole;
+    // 生徒として使っているアカウントは保護者・講師にしない（チャットなどが使えなくなる）
+    if (currentRole === 'student' && nextRole !== 'student' && await hasOwnStudentRecords(supabase, user.id)) {
+      throw new Error('学習の記録があるアカウントは保護者・講師にできません。別のメールアドレスで登録してください');
+    }
+
+    const { data: student } = await supabase
+      .from('students')
+      .select('id, name, owner_id, account_id')
+      .eq('id', invite.student_id)
+      .maybeSingle();
+    if (!student) {
+      throw new Error('招待された生徒が見つかりません');
+    }
+    if (student.owner_id === user.id || student.account_id === user.id) {
+      throw new Error('自分の生徒には招待コードは不要です');
+    }
+
+    const { data: existing } = await supabase
+      .from('relationships')
+      .select('id')
+      .eq('student_id', student.id)
+      .eq('member_id', user.id)
+      .maybeSingle();
+    if (existing) {
+      throw new Error('この生徒とはすでに紐付いています');
+    }
+
+    // 使用済みにする（同時に使われた場合はどちらか一方だけが通る）
+    const usedAt = new Date().toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from('invite_codes')
+      .update({ used_at: usedAt, used_by: user.id })
+      .eq('id', invite.id)
+      .is('used_at', null)
+      .gt('expires_at', usedAt)
+      .select('id')
+      .maybeSingle();
+    if (claimError) {
+      throw new Error(`招待コードの更新エラー: ${claimError.message}`);
+    }
+    if (!claimed) {
+      throw new Error('この招待コードは使用済みです');
+    }
+
+    const { error: relationshipError } = await supabase
+      .from('relationships')
+      .insert({ student_id: student.id, member_id: user.id, kind: invite.kind });
+    if (relationshipError) {
+      // 紐付けに失敗したらコードを使える状態に戻す
+      await supabase
+        .from('invite_codes')
+        .update({ used_at: null, used_by: null })
+        .eq('id', invite.id);
+      throw new Error(`紐付けの作成に失敗しました: ${relationshipError.message}`);
+    }
+
+    if (nextRole !== currentRole) {
+      const { error: roleError } = await supabase
+        .from('profiles')
+        .update({ role: nextRole, updated_at: new Date().toISOString() })
+        .eq('id', user.id);
+      if (roleError) {
+        // ロールを付けられなければ紐付けも戻す
+        await supabase.from('relationships').delete().eq('student_id', student.id).eq('member_id', user.id);
+        await supabase
+          .from('invite_codes')
+          .update({ used_at: null, used_by: null })
+          .eq('id', invite.id);
+        throw new Error(`ロールの更新に失敗しました: ${roleError.message}`);
+      }
+      if (currentRole === 'student') {
+        // サインアップで作られた本人の生徒（記録が無いことは上で確認済み）
+        const { error: selfError } = await supabase.from('students').delete().eq('id', user.id);
+        if (selfError) {
+          console.warn('⚠️ Self student cleanup failed:', selfError.message);
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ student_id: student.id, student_name: student.name, kind: invite.kind, role: nextRole }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      },
+    );
+  }
+});
@@ -0,0 +1,16 @@
+-- 楽観的排他制御（updated_at 比較）のため、更新対象テーブルに updated_at を揃える
+-- フロントは「読み込んだ時点の updated_at と一致する行だけ更新」し、0件なら競合として扱う
+
+ALTER TABLE public.homework
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE public.test_sets
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE public.lesson_records
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+-- 既存データで updated_at が空の行は created_at で埋める
+UPDATE public.homework SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE public.test_sets SET updated_at = created_at WHERE updated_at IS NULL;
+UPDATE public.lesson_records SET updated_at = created_at WHERE updated_at IS NULL;
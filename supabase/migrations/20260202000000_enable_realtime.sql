@@ -0,0 +1,16 @@
+-- 保護者・生徒・講師の端末で画面をリアルタイムに更新するため、Realtime の配信対象に追加する
+-- DELETE イベントは主キー（id）のみ届く（REPLICA IDENTITY DEFAULT）
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['homework', 'test_sets', 'test_scores', 'lesson_records'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
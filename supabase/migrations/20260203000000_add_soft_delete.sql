@@ -0,0 +1,86 @@
+-- 宿題・テスト・授業記録の論理削除（ゴミ箱）
+-- deleted_at が入った行はゴミ箱扱い。30日経過した行は Edge Function purge-trash（毎日）が添付画像ごと完全削除する
+
+ALTER TABLE public.homework
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.test_sets
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.lesson_records
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+-- 一覧（deleted_at IS NULL）とゴミ箱の期限切れ検索用
+CREATE INDEX IF NOT EXISTS idx_homework_deleted_at ON public.homework (user_id, deleted_at);
+CREATE INDEX IF NOT EXISTS idx_test_sets_deleted_at ON public.test_sets (user_id, deleted_at);
+CREATE INDEX IF NOT EXISTS idx_lesson_records_deleted_at ON public.lesson_records (user_id, deleted_at);
+
+COMMENT ON COLUMN public.homework.deleted_at IS 'ゴミ箱に入れた日時（NULL = 通常）';
+COMMENT ON COLUMN public.test_sets.deleted_at IS 'ゴミ箱に入れた日時（NULL = 通常）';
+COMMENT ON COLUMN public.lesson_records.deleted_at IS 'ゴミ箱に入れた日時（NULL = 通常）';
+
+/**
+ * 期限切れのゴミ箱の中身を完全削除する（Edge Function purge-trash から呼ぶ）
+ * 行の削除は1つのトランザクションで行い、消した行が参照していた Storage のパスを返す（画像は呼び出し側で消す）
+ * p_cutoff: この日時より前にゴミ箱に入れた行を削除する
+ * 戻り値: { counts: { homework, test_sets, test_scores, lesson_records }, paths: [...] }
+ */
+create or replace function public.purge_expired_trash(p_cutoff timestamptz)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  attachment_paths jsonb;
+  homework_count integer;
+  test_set_count integer;
+  test_score_count integer;
+  lesson_record_count integer;
+begin
+  -- 添付の列は JSON の配列（{ path, ... }）。アップロード前の画像には path が無い
+  select coalesce(jsonb_agg(distinct a.attachment ->> 'path'), '[]'::jsonb) into attachment_paths
+  from (
+    select jsonb_array_elements(coalesce(to_jsonb(h.attachments), '[]'::jsonb)) as attachment
+    from public.homework h
+    where h.deleted_at < p_cutoff
+    union all
+    select jsonb_array_elements(
+      coalesce(to_jsonb(s.problem_images), '[]'::jsonb) || coalesce(to_jsonb(s.answer_images), '[]'::jsonb)
+    )
+    from public.test_scores s
+    join public.test_sets t on t.id = s.test_set_id
+    where t.deleted_at < p_cutoff
+  ) a
+  where a.attachment ->> 'path' is not null;
+
+  delete from public.test_scores s
+  using public.test_sets t
+  where t.id = s.test_set_id
+    and t.deleted_at < p_cutoff;
+  get diagnostics test_score_count = row_count;
+
+  delete from public.test_sets where deleted_at < p_cutoff;
+  get diagnostics test_set_count = row_count;
+
+  delete from public.homework where deleted_at < p_cutoff;
+  get diagnostics homework_count = row_count;
+
+  delete from public.lesson_records where deleted_at < p_cutoff;
+  get diagnostics lesson_record_count = row_count;
+
+  return jsonb_build_object(
+    'counts', jsonb_build_object(
+      'homework', homework_count,
+      'test_sets', test_set_count,
+      'test_scores', test_score_count,
+      'lesson_records', lesson_record_count
+    ),
+    'paths', attachment_paths
+  );
+end;
+$$;
+
+-- 全生徒の行を消すため、サービスロールからだけ呼べるようにする
+revoke execute on function public.purge_expired_trash(timestamptz) from public, anon, authenticated;
+grant execute on function public.purge_expired_trash(timestamptz) to service_role;
@@ -0,0 +1,123 @@
+-- 授業記録・宿題・テストの変更履歴（追記のみの監査ログ）
+-- 作成・更新・ゴミ箱・復元・削除のたびに、誰が・いつ・どの項目を変えたかをトリガーで記録する
+-- 授業記録は給与計算の元になるため、時間の変更履歴を後から確認できるようにする
+
+create table if not exists public.record_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  table_name text not null check (table_name in ('homework', 'test_sets', 'lesson_records')),
+  record_id uuid not null,
+  action text not null check (action in ('create', 'update', 'trash', 'restore', 'delete')),
+  actor_id uuid,
+  actor_email text,
+  -- [{ "field": "start_time", "before": "18:00:00", "after": "19:00:00" }, ...]
+  changes jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_record_history_record
+  on public.record_history (table_name, record_id, created_at desc);
+create index if not exists idx_record_history_user on public.record_history (user_id, created_at desc);
+
+-- 閲覧は自分のデータの履歴のみ。書き込みはトリガーだけが行う（追記のみ・変更不可）
+alter table public.record_history enable row level security;
+
+create policy "Users can view own record_history"
+  on public.record_history for select
+  using (auth.uid() = user_id);
+
+revoke insert, update, delete on public.record_history from anon, authenticated;
+
+/**
+ * 変更履歴を記録するトリガー関数
+ * 引数（子テーブル用。親の履歴として記録する）:
+ *   tg_argv[0] 親テーブル名, tg_argv[1] 親IDのカラム, tg_argv[2] 項目名の接頭辞にするカラム（例: subject）
+ */
+create or replace function public.log_record_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  row_data jsonb := case when tg_op = 'DELETE' then to_jsonb(old) else to_jsonb(new) end;
+  is_child boolean := tg_nargs > 0;
+  target_table text := tg_table_name;
+  target_id uuid;
+  owner_id uuid;
+  prefix text := '';
+  history_action text;
+  diff jsonb := '[]'::jsonb;
+  field text;
+begin
+  if is_child then
+    target_table := tg_argv[0];
+    target_id := (row_data ->> tg_argv[1])::uuid;
+    prefix := coalesce(row_data ->> tg_argv[2], '') || '.';
+    -- 親ごと削除された（CASCADE）場合は親の削除履歴だけ残す
+    execute format('select user_id from public.%I where id = $1', target_table)
+      into owner_id using target_id;
+    if owner_id is null then
+      return null;
+    end if;
+    history_action := 'update';
+  else
+    target_id := (row_data ->> 'id')::uuid;
+    owner_id := (row_data ->> 'user_id')::uuid;
+    history_action := case tg_op
+      when 'INSERT' then 'create'
+      when 'DELETE' then 'delete'
+      else case
+        when old_row ->> 'deleted_at' is null and new_row ->> 'deleted_at' is not null then 'trash'
+        when old_row ->> 'deleted_at' is not null and new_row ->> 'deleted_at' is null then 'restore'
+        else 'update'
+      end
+    end;
+  end if;
+
+  for field in select jsonb_object_keys(old_row || new_row) loop
+    continue when field in ('id', 'user_id', 'created_at', 'updated_at', 'deleted_at');
+    continue when is_child and field in (tg_argv[1], tg_argv[2]);
+    if (old_row -> field) is distinct from (new_row -> field) then
+      diff := diff || jsonb_build_array(jsonb_build_object(
+        'field', prefix || field,
+        'before', old_row -> field,
+        'after', new_row -> field
+      ));
+    end if;
+  end loop;
+
+  -- 中身の変わらない更新（updated_at だけ等）は記録しない
+  if history_action = 'update' and diff = '[]'::jsonb then
+    return null;
+  end if;
+
+  insert into public.record_history (user_id, table_name, record_id, action, actor_id, actor_email, changes)
+  values (owner_id, target_table, target_id, history_action, auth.uid(), auth.jwt() ->> 'email', diff);
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_homework_history on public.homework;
+create trigger trg_homework_history
+  after insert or update or delete on public.homework
+  for each row execute function public.log_record_history();
+
+drop trigger if exists trg_test_sets_history on public.test_sets;
+create trigger trg_test_sets_history
+  after insert or update or delete on public.test_sets
+  for each row execute function public.log_record_history();
+
+drop trigger if exists trg_test_scores_history on public.test_scores;
+create trigger trg_test_scores_history
+  after insert or update or delete on public.test_scores
+  for each row execute function public.log_record_history('test_sets', 'test_set_id', 'subject');
+
+drop trigger if exists trg_lesson_records_history on public.lesson_records;
+create trigger trg_lesson_records_history
+  after insert or update or delete on public.lesson_records
+  for each row execute function public.log_record_history();
+
+comment on table public.record_history is '授業記録・宿題・テストの変更履歴（トリガーで追記のみ）';
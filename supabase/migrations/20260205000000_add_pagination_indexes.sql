@@ -0,0 +1,17 @@
+-- タイムラインのページ読み込み（日付＋IDのカーソル）用のインデックス
+-- 並び順: 日付の新しい順 → 同じ日付はIDの降順。ゴミ箱の行は一覧に出さないため除く
+
+CREATE INDEX IF NOT EXISTS idx_homework_timeline
+  ON public.homework (user_id, assigned_at DESC NULLS LAST, id DESC)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lesson_records_timeline
+  ON public.lesson_records (user_id, date DESC NULLS LAST, id DESC)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_test_sets_timeline
+  ON public.test_sets (user_id, date DESC NULLS LAST, id DESC)
+  WHERE deleted_at IS NULL;
+
+-- テストの点数は親と結合して読むため、親IDで引けるようにする
+CREATE INDEX IF NOT EXISTS idx_test_scores_test_set_id ON public.test_scores (test_set_id);
@@ -0,0 +1,247 @@
+-- ロール（生徒・保護者・講師・管理者）と、講師 ↔ 生徒 ↔ 保護者 の関係
+-- これまでは auth.uid() = user_id のみ許可していたため、講師と保護者が1つのログインを共有していた
+-- データの持ち主は引き続き生徒（user_id）。講師・保護者は relationships 経由で生徒のデータにアクセスする
+
+-- ========== プロフィール（ロール） ==========
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  display_name text,
+  role text not null default 'student' check (role in ('student', 'parent', 'tutor', 'admin')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- 既存のアカウントは生徒として扱う（自分のデータはこれまでどおりすべて編集できる）
+insert into public.profiles (id, email)
+select id, email from auth.users
+on conflict (id) do nothing;
+
+-- サインアップ時にプロフィールを作る
+-- ロールは常に生徒。user_metadata は本人が書き換えられるので読まない
+-- 保護者・講師は招待コード（Edge Function redeem-invite）で、管理者は管理者が付与する
+create or replace function public.handle_new_user_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, role)
+  values (new.id, new.email, 'student')
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_profile on auth.users;
+create trigger on_auth_user_created_profile
+  after insert on auth.users
+  for each row execute function public.handle_new_user_profile();
+
+-- ========== 関係（生徒を中心に、講師・保護者を紐付ける） ==========
+
+create table if not exists public.relationships (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.profiles (id) on delete cascade,
+  member_id uuid not null references public.profiles (id) on delete cascade,
+  kind text not null check (kind in ('tutor', 'parent')),
+  created_at timestamptz not null default now(),
+  unique (student_id, member_id),
+  check (student_id <> member_id)
+);
+
+create index if not exists idx_relationships_member on public.relationships (member_id);
+create index if not exists idx_relationships_student on public.relationships (student_id);
+
+-- ========== RLS 用の関数 ==========
+-- security definer: ポリシーの中から profiles / relationships を読んでも再帰しないようにする
+
+create or replace function public.app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.app_role() = 'admin', false);
+$$;
+
+-- 生徒のデータを読めるか（本人・紐付いた講師と保護者・管理者）
+create or replace function public.can_read_student(student uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() = student
+    or public.is_admin()
+    or exists (
+      select 1 from public.relationships r
+      where r.student_id = student and r.member_id = auth.uid()
+    );
+$$;
+
+-- 生徒のデータを書けるか（本人・紐付いた講師・管理者。保護者は読み取りのみ）
+create or replace function public.can_write_student(student uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() = student
+    or public.is_admin()
+    or exists (
+      select 1 from public.relationships r
+      where r.student_id = student and r.member_id = auth.uid() and r.kind = 'tutor'
+    );
+$$;
+
+-- ========== profiles / relationships のポリシー ==========
+
+alter table public.profiles enable row level security;
+
+create policy "Users can view related profiles"
+  on public.profiles for select
+  using (
+    id = auth.uid()
+    or public.is_admin()
+    or exists (
+      select 1 from public.relationships r
+      where (r.student_id = auth.uid() and r.member_id = profiles.id)
+        or (r.member_id = auth.uid() and r.student_id = profiles.id)
+    )
+  );
+
+-- 表示名は本人が変えられる。ロールは本人では変えられない（管理者のみ）
+create policy "Users can update own profile"
+  on public.profiles for update
+  using (id = auth.uid())
+  with check (id = auth.uid() and role = public.app_role());
+
+create policy "Admins can update profiles"
+  on public.profiles for update
+  using (public.is_admin())
+  with check (public.is_admin());
+
+alter table public.relationships enable row level security;
+
+create policy "Users can view own relationships"
+  on public.relationships for select
+  using (student_id = auth.uid() or member_id = auth.uid() or public.is_admin());
+
+-- 紐付けの作成・解除は管理者のみ（招待コード経由はサーバー側で行う）
+create policy "Admins can manage relationships"
+  on public.relationships for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- ========== 生徒データのポリシー（既存の「自分の行のみ」に追加） ==========
+
+-- 宿題
+create policy "Members can view linked students' homework"
+  on public.homework for select
+  using (public.can_read_student(user_id));
+
+create policy "Tutors can insert linked students' homework"
+  on public.homework for insert
+  with check (public.can_write_student(user_id));
+
+create policy "Tutors can update linked students' homework"
+  on public.homework for update
+  using (public.can_write_student(user_id))
+  with check (public.can_write_student(user_id));
+
+create policy "Tutors can delete linked students' homework"
+  on public.homework for delete
+  using (public.can_write_student(user_id));
+
+-- 授業記録（保護者は読み取りのみ）
+create policy "Members can view linked students' lesson_records"
+  on public.lesson_records for select
+  using (public.can_read_student(user_id));
+
+create policy "Tutors can insert linked students' lesson_records"
+  on public.lesson_records for insert
+  with check (public.can_write_student(user_id));
+
+create policy "Tutors can update linked students' lesson_records"
+  on public.lesson_records for update
+  using (public.can_write_student(user_id))
+  with check (public.can_write_student(user_id));
+
+create policy "Tutors can delete linked students' lesson_records"
+  on public.lesson_records for delete
+  using (public.can_write_student(user_id));
+
+-- テスト
+create policy "Members can view linked students' test_sets"
+  on public.test_sets for select
+  using (public.can_read_student(user_id));
+
+create policy "Tutors can insert linked students' test_sets"
+  on public.test_sets for insert
+  with check (public.can_write_student(user_id));
+
+create policy "Tutors can update linked students' test_sets"
+  on public.test_sets for update
+  using (public.can_write_student(user_id))
+  with check (public.can_write_student(user_id));
+
+create policy "Tutors can delete linked students' test_sets"
+  on public.test_sets for delete
+  using (public.can_write_student(user_id));
+
+-- テストの点数（親のテストの持ち主で判定する）
+alter table public.test_scores enable row level security;
+
+create policy "Members can view linked students' test_scores"
+  on public.test_scores for select
+  using (
+    exists (
+      select 1 from public.test_sets s
+      where s.id = test_scores.test_set_id and public.can_read_student(s.user_id)
+    )
+  );
+
+create policy "Tutors can manage linked students' test_scores"
+  on public.test_scores for all
+  using (
+    exists (
+      select 1 from public.test_sets s
+      where s.id = test_scores.test_set_id and public.can_write_student(s.user_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.test_sets s
+      where s.id = test_scores.test_set_id and public.can_write_student(s.user_id)
+    )
+  );
+
+-- 教科（宿題の教科名を表示するため、紐付いたメンバーは読める）
+create policy "Members can view linked students' projects"
+  on public.projects for select
+  using (public.can_read_student(user_id));
+
+-- 変更履歴
+drop policy if exists "Users can view own record_history" on public.record_history;
+create policy "Members can view linked students' record_history"
+  on public.record_history for select
+  using (public.can_read_student(user_id));
+
+comment on table public.profiles is 'アカウントのロール（student / parent / tutor / admin）';
+comment on table public.relationships is '生徒と講師・保護者の紐付け（kind = tutor は編集可、parent は閲覧のみ）';
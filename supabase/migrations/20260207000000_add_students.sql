@@ -0,0 +1,408 @@
+-- 生徒（データの持ち主）を独立させ、講師が複数の生徒を受け持てるようにする
+-- これまでは user_id（ログインしたアカウント）＝生徒だったため、講師が生徒ごとにデータを分けられなかった
+-- 既存データは、アカウントと同じIDの生徒を作って student_id = user_id で移行する
+-- user_id は引き続き「作成したアカウント」を表す
+
+-- ========== 生徒 ==========
+
+create table if not exists public.students (
+  id uuid primary key default gen_random_uuid(),
+  -- 登録したアカウント（講師が作った生徒は講師、生徒本人のアカウントは本人）
+  owner_id uuid not null references public.profiles (id) on delete cascade,
+  -- 生徒本人のログイン（講師が登録しただけの生徒は null）
+  account_id uuid references public.profiles (id) on delete set null,
+  name text not null,
+  grade text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_students_owner on public.students (owner_id);
+create unique index if not exists idx_students_account on public.students (account_id)
+  where account_id is not null;
+
+-- 既存のアカウント（生徒ロール・データを持っている・紐付けの生徒側）を、同じIDの生徒にする
+insert into public.students (id, owner_id, account_id, name)
+select p.id, p.id, p.id, coalesce(p.display_name, split_part(p.email, '@', 1), '生徒')
+from public.profiles p
+where p.role = 'student'
+  or exists (select 1 from public.projects t where t.user_id = p.id)
+  or exists (select 1 from public.homework t where t.user_id = p.id)
+  or exists (select 1 from public.test_sets t where t.user_id = p.id)
+  or exists (select 1 from public.lesson_records t where t.user_id = p.id)
+  or exists (select 1 from public.relationships r where r.student_id = p.id)
+on conflict (id) do nothing;
+
+-- サインアップ時: 生徒のプロフィールと本人の生徒を作る（ロールは常に生徒。20260206000000 と同じ）
+-- 招待コードで保護者・講師になったときは、記録の無い本人の生徒を redeem-invite が消す
+create or replace function public.handle_new_user_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, role)
+  values (new.id, new.email, 'student')
+  on conflict (id) do nothing;
+
+  insert into public.students (id, owner_id, account_id, name)
+  values (new.id, new.id, new.id, coalesce(split_part(new.email, '@', 1), '生徒'))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+-- ========== 生徒ごとのデータ ==========
+
+alter table public.projects add column if not exists student_id uuid references public.students (id) on delete cascade;
+alter table public.homework add column if not exists student_id uuid references public.students (id) on delete cascade;
+alter table public.test_sets add column if not exists student_id uuid references public.students (id) on delete cascade;
+alter table public.lesson_records add column if not exists student_id uuid references public.students (id) on delete cascade;
+
+update public.projects set student_id = user_id where student_id is null;
+update public.homework set student_id = user_id where student_id is null;
+update public.test_sets set student_id = user_id where student_id is null;
+update public.lesson_records set student_id = user_id where student_id is null;
+
+alter table public.projects alter column student_id set not null;
+alter table public.homework alter column student_id set not null;
+alter table public.test_sets alter column student_id set not null;
+alter table public.lesson_records alter column student_id set not null;
+
+create index if not exists idx_projects_student on public.projects (student_id);
+
+-- タイムラインのページ読み込みを生徒単位に（20260205000000 の user_id 版と同じ並び）
+create index if not exists idx_homework_student_timeline
+  on public.homework (student_id, assigned_at desc nulls last, id desc)
+  where deleted_at is null;
+
+create index if not exists idx_lesson_records_student_timeline
+  on public.lesson_records (student_id, date desc nulls last, id desc)
+  where deleted_at is null;
+
+create index if not exists idx_test_sets_student_timeline
+  on public.test_sets (student_id, date desc nulls last, id desc)
+  where deleted_at is null;
+
+-- ========== 紐付けは生徒（students）を指す ==========
+-- 既存の紐付けの student_id はアカウントのID＝同じIDの生徒なので、そのまま付け替えられる
+
+alter table public.relationships drop constraint if exists relationships_student_id_fkey;
+alter table public.relationships
+  add constraint relationships_student_id_fkey
+  foreign key (student_id) references public.students (id) on delete cascade;
+
+-- ========== RLS 用の関数（生徒IDで判定する） ==========
+
+-- 生徒のデータを読めるか（登録した講師・本人・紐付いた講師と保護者・管理者）
+create or replace function public.can_read_student(student uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    or exists (
+      select 1 from public.students s
+      where s.id = student and (s.owner_id = auth.uid() or s.account_id = auth.uid())
+    )
+    or exists (
+      select 1 from public.relationships r
+      where r.student_id = student and r.member_id = auth.uid()
+    );
+$$;
+
+-- 生徒のデータを書けるか（登録した講師・本人・紐付いた講師・管理者。保護者は読み取りのみ）
+create or replace function public.can_write_student(student uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    or exists (
+      select 1 from public.students s
+      where s.id = student and (s.owner_id = auth.uid() or s.account_id = auth.uid())
+    )
+    or exists (
+      select 1 from public.relationships r
+      where r.student_id = student and r.member_id = auth.uid() and r.kind = 'tutor'
+    );
+$$;
+
+-- ========== students のポリシー ==========
+
+alter table public.students enable row level security;
+
+create policy "Members can view accessible students"
+  on public.students for select
+  using (public.can_read_student(id));
+
+-- 講師・保護者・管理者は自分が登録する生徒を作れる
+-- 生徒ロールは本人の生徒（ID = アカウントのID）だけ（サインアップ時に作れなかった古いアカウント用）
+create policy "Tutors can insert own students"
+  on public.students for insert
+  with check (
+    owner_id = auth.uid()
+    and (
+      public.app_role() in ('tutor', 'parent', 'admin')
+      or (id = auth.uid() and account_id = auth.uid())
+    )
+  );
+
+create policy "Owners can update students"
+  on public.students for update
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Account holders can update own student"
+  on public.students for update
+  using (account_id = auth.uid())
+  with check (account_id = auth.uid());
+
+create policy "Admins can update students"
+  on public.students for update
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- 持ち主（owner_id）は画面からは変えられない（引き継ぎはサービスロールの redeem-invite・delete-account が行う）
+create or replace function public.prevent_student_owner_change()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.owner_id is distinct from old.owner_id and auth.uid() is not null and not public.is_admin() then
+    raise exception '生徒の持ち主は変更できません';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_students_owner on public.students;
+create trigger trg_students_owner
+  before update on public.students
+  for each row execute function public.prevent_student_owner_change();
+
+create policy "Owners can delete students"
+  on public.students for delete
+  using (owner_id = auth.uid() or public.is_admin());
+
+-- ========== 生徒データのポリシーを student_id で張り直す ==========
+-- 「自分の行のみ」（user_id = auth.uid()）のポリシーはすべて外し、生徒の権限（can_read_student / can_write_student）だけで判定する
+-- 残すと、他の生徒の student_id で書き込めたり、紐付けを外された講師・保護者が自分の作った行を読み書きできてしまう
+
+drop policy if exists "Users can view own projects" on public.projects;
+drop policy if exists "Users can insert own projects" on public.projects;
+drop policy if exists "Users can update own projects" on public.projects;
+drop policy if exists "Users can delete own projects" on public.projects;
+drop policy if exists "Users can view own homeworks" on public.homework;
+drop policy if exists "Users can insert own homeworks" on public.homework;
+drop policy if exists "Users can update own homeworks" on public.homework;
+drop policy if exists "Users can delete own homeworks" on public.homework;
+drop policy if exists "Users can view own homework" on public.homework;
+drop policy if exists "Users can insert own homework" on public.homework;
+drop policy if exists "Users can update own homework" on public.homework;
+drop policy if exists "Users can delete own homework" on public.homework;
+drop policy if exists "Users can view own lesson_records" on public.lesson_records;
+drop policy if exists "Users can insert own lesson_records" on public.lesson_records;
+drop policy if exists "Users can update own lesson_records" on public.lesson_records;
+drop policy if exists "Users can delete own lesson_records" on public.lesson_records;
+drop policy if exists "Users can view own test_sets" on public.test_sets;
+drop policy if exists "Users can insert own test_sets" on public.test_sets;
+drop policy if exists "Users can update own test_sets" on public.test_sets;
+drop policy if exists "Users can delete own test_sets" on public.test_sets;
+
+-- 宿題
+drop policy if exists "Members can view linked students' homework" on public.homework;
+drop policy if exists "Tutors can insert linked students' homework" on public.homework;
+drop policy if exists "Tutors can update linked students' homework" on public.homework;
+drop policy if exists "Tutors can delete linked students' homework" on public.homework;
+
+create policy "Members can view students' homework"
+  on public.homework for select
+  using (public.can_read_student(student_id));
+
+create policy "Writers can insert students' homework"
+  on public.homework for insert
+  with check (user_id = auth.uid() and public.can_write_student(student_id));
+
+create policy "Writers can update students' homework"
+  on public.homework for update
+  using (public.can_write_student(student_id))
+  with check (public.can_write_student(student_id));
+
+create policy "Writers can delete students' homework"
+  on public.homework for delete
+  using (public.can_write_student(student_id));
+
+-- 授業記録（保護者は読み取りのみ）
+drop policy if exists "Members can view linked students' lesson_records" on public.lesson_records;
+drop policy if exists "Tutors can insert linked students' lesson_records" on public.lesson_records;
+drop policy if exists "Tutors can update linked students' lesson_records" on public.lesson_records;
+drop policy if exists "Tutors can delete linked students' lesson_records" on public.lesson_records;
+
+create policy "Members can view students' lesson_records"
+  on public.lesson_records for select
+  using (public.can_read_student(student_id));
+
+create policy "Writers can insert students' lesson_records"
+  on public.lesson_records for insert
+  with check (user_id = auth.uid() and public.can_write_student(student_id));
+
+create policy "Writers can update students' lesson_records"
+  on public.lesson_records for update
+  using (public.can_write_student(student_id))
+  with check (public.can_write_student(student_id));
+
+create policy "Writers can delete students' lesson_records"
+  on public.lesson_records for delete
+  using (public.can_write_student(student_id));
+
+-- テスト
+drop policy if exists "Members can view linked students' test_sets" on public.test_sets;
+drop policy if exists "Tutors can insert linked students' test_sets" on public.test_sets;
+drop policy if exists "Tutors can update linked students' test_sets" on public.test_sets;
+drop policy if exists "Tutors can delete linked students' test_sets" on public.test_sets;
+
+create policy "Members can view students' test_sets"
+  on public.test_sets for select
+  using (public.can_read_student(student_id));
+
+create policy "Writers can insert students' test_sets"
+  on public.test_sets for insert
+  with check (user_id = auth.uid() and public.can_write_student(student_id));
+
+create policy "Writers can update students' test_sets"
+  on public.test_sets for update
+  using (public.can_write_student(student_id))
+  with check (public.can_write_student(student_id));
+
+create policy "Writers can delete students' test_sets"
+  on public.test_sets for delete
+  using (public.can_write_student(student_id));
+
+-- テストの点数（親のテストの生徒で判定する）
+drop policy if exists "Members can view linked students' test_scores" on public.test_scores;
+drop policy if exists "Tutors can manage linked students' test_scores" on public.test_scores;
+
+create policy "Members can view students' test_scores"
+  on public.test_scores for select
+  using (
+    exists (
+      select 1 from public.test_sets s
+      where s.id = test_scores.test_set_id and public.can_read_student(s.student_id)
+    )
+  );
+
+create policy "Writers can manage students' test_scores"
+  on public.test_scores for all
+  using (
+    exists (
+      select 1 from public.test_sets s
+      where s.id = test_scores.test_set_id and public.can_write_student(s.student_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.test_sets s
+      where s.id = test_scores.test_set_id and public.can_write_student(s.student_id)
+    )
+  );
+
+-- 教科（生徒ごと。宿題・テストの教科名を表示するため、紐付いたメンバーは読める）
+drop policy if exists "Members can view linked students' projects" on public.projects;
+
+create policy "Members can view students' projects"
+  on public.projects for select
+  using (public.can_read_student(student_id));
+
+create policy "Writers can insert students' projects"
+  on public.projects for insert
+  with check (user_id = auth.uid() and public.can_write_student(student_id));
+
+create policy "Writers can update students' projects"
+  on public.projects for update
+  using (public.can_write_student(student_id))
+  with check (public.can_write_student(student_id));
+
+create policy "Writers can delete students' projects"
+  on public.projects for delete
+  using (public.can_write_student(student_id));
+
+-- ========== 変更履歴 ==========
+-- record_history.user_id は「データの持ち主」なので、生徒IDを記録する
+-- 既存の履歴は user_id = 生徒ID（移行前のアカウント＝同じIDの生徒）のまま使える
+
+create or replace function public.log_record_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op = 'INSERT' then '{}'::jsonb else to_jsonb(old) end;
+  new_row jsonb := case when tg_op = 'DELETE' then '{}'::jsonb else to_jsonb(new) end;
+  row_data jsonb := case when tg_op = 'DELETE' then to_jsonb(old) else to_jsonb(new) end;
+  is_child boolean := tg_nargs > 0;
+  target_table text := tg_table_name;
+  target_id uuid;
+  owner_id uuid;
+  prefix text := '';
+  history_action text;
+  diff jsonb := '[]'::jsonb;
+  field text;
+begin
+  if is_child then
+    target_table := tg_argv[0];
+    target_id := (row_data ->> tg_argv[1])::uuid;
+    prefix := coalesce(row_data ->> tg_argv[2], '') || '.';
+    -- 親ごと削除された（CASCADE）場合は親の削除履歴だけ残す
+    execute format('select coalesce(student_id, user_id) from public.%I where id = $1', target_table)
+      into owner_id using target_id;
+    if owner_id is null then
+      return null;
+    end if;
+    history_action := 'update';
+  else
+    target_id := (row_data ->> 'id')::uuid;
+    owner_id := coalesce(row_data ->> 'student_id', row_data ->> 'user_id')::uuid;
+    history_action := case tg_op
+      when 'INSERT' then 'create'
+      when 'DELETE' then 'delete'
+      else case
+        when old_row ->> 'deleted_at' is null and new_row ->> 'deleted_at' is not null then 'trash'
+        when old_row ->> 'deleted_at' is not null and new_row ->> 'deleted_at' is null then 'restore'
+        else 'update'
+      end
+    end;
+  end if;
+
+  for field in select jsonb_object_keys(old_row || new_row) loop
+    continue when field in ('id', 'user_id', 'student_id', 'created_at', 'updated_at', 'deleted_at');
+    continue when is_child and field in (tg_argv[1], tg_argv[2]);
+    if (old_row -> field) is distinct from (new_row -> field) then
+      diff := diff || jsonb_build_array(jsonb_build_object(
+        'field', prefix || field,
+        'before', old_row -> field,
+        'after', new_row -> field
+      ));
+    end if;
+  end loop;
+
+  -- 中身の変わらない更新（updated_at だけ等）は記録しない
+  if history_action = 'update' and diff = '[]'::jsonb then
+    return null;
+  end if;
+
+  insert into public.record_history (user_id, table_name, record_id, action, actor_id, actor_email, changes)
+  values (owner_id, target_table, target_id, history_action, auth.uid(), auth.jwt() ->> 'email', diff);
+  return null;
+end;
+$$;
+
+comment on table public.students is '生徒（宿題・テスト・授業記録・教科の持ち主。owner_id = 登録したアカウント）';
+comment on column public.record_history.user_id is 'データの持ち主（生徒ID）';
@@ -0,0 +1,72 @@
+-- 招待コード（保護者・講師のアカウントを生徒に紐付ける）
+-- 生徒本人・登録した講師が発行し、受け取った側が /join/:code かログイン画面で使う
+-- 使う処理（紐付けの作成）は Edge Function redeem-invite がサービスロールで行う
+-- クライアントからは relationships に書き込めない（RLS）ので、コードを偽造しても紐付けは作れない
+
+-- ========== コードの生成 ==========
+-- 紛らわしい文字（I / O / 0 / 1）を除いた32文字から8文字
+
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql
+volatile
+set search_path = public, extensions
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  bytes bytea := gen_random_bytes(8);
+  result text := '';
+begin
+  for i in 0..7 loop
+    result := result || substr(alphabet, (get_byte(bytes, i) % 32) + 1, 1);
+  end loop;
+  return result;
+end;
+$$;
+
+-- ========== 招待コード ==========
+
+create table if not exists public.invite_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique default public.generate_invite_code(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  -- 紐付けの種類（relationships.kind と同じ。parent は閲覧のみ、tutor は編集可）
+  kind text not null default 'parent' check (kind in ('tutor', 'parent')),
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  -- 有効期限（発行から24時間）
+  expires_at timestamptz not null default now() + interval '24 hours',
+  -- 使われた日時とアカウント（1回だけ使える）
+  used_at timestamptz,
+  used_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_invite_codes_student on public.invite_codes (student_id, created_at desc);
+
+-- ========== ポリシー ==========
+
+alter table public.invite_codes enable row level security;
+
+-- 生徒のデータを書ける人（本人・登録した講師・紐付いた講師・管理者）が発行・確認・取り消しできる
+create policy "Writers can view students' invite_codes"
+  on public.invite_codes for select
+  using (public.can_write_student(student_id));
+
+-- 未使用で、有効期限が既定（24時間）以内のものだけ発行できる
+create policy "Writers can insert students' invite_codes"
+  on public.invite_codes for insert
+  with check (
+    created_by = auth.uid()
+    and public.can_write_student(student_id)
+    and used_at is null
+    and used_by is null
+    and expires_at <= now() + interval '24 hours'
+  );
+
+create policy "Writers can delete students' invite_codes"
+  on public.invite_codes for delete
+  using (public.can_write_student(student_id));
+
+-- 更新（使用済みにする）は redeem-invite のみ（サービスロールは RLS を通らない）
+
+comment on table public.invite_codes is '保護者・講師を生徒に紐付ける招待コード（1回限り・24時間で失効）';
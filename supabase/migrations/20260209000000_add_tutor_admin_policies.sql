@@ -0,0 +1,23 @@
+-- 講師マスタ（tutors）と教科ごとの時給履歴（project_tutors）を管理画面（/admin）から編集する
+-- これまで RLS が無く、Supabase のダッシュボードでしか編集していなかった
+-- 管理者（profiles.role = 'admin'）だけが読み書きできる
+
+alter table public.tutors enable row level security;
+alter table public.project_tutors enable row level security;
+
+drop policy if exists "Admins can manage tutors" on public.tutors;
+drop policy if exists "Admins can manage project_tutors" on public.project_tutors;
+
+create policy "Admins can manage tutors"
+  on public.tutors for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- 時給を変えるときは行を更新せず、新しい effective_from の行を追加する（過去の授業の時給は変わらない）
+-- 同じ日の行は登録し直し（upsert）で直せる
+create policy "Admins can manage project_tutors"
+  on public.project_tutors for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- calculate_monthly_tutor_payroll は呼び出した人の権限で読むため、管理者以外は結果が空になる
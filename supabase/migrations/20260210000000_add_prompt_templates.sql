@@ -0,0 +1,103 @@
+-- AIチャットの指示（システムプロンプト）のテンプレート
+-- これまで Edge Function chat に「小学生向け」の1つだけが書かれていて、中学生（中1など）や教科ごとの教え方に合わせられなかった
+-- 学年帯（grade_band）と教科（subject）ごとに持ち、設定 → AIの指示 から編集する
+--   全生徒に効く既定（student_id = null）は管理者だけ、生徒ごとの指示（student_id あり）は受け持つ講師が編集する
+-- chat は生徒の学年（students.grade）とスレッドの教科（projects.name）から自動で選ぶ（生徒ごとの指示 → 既定 の順）
+--   1. 学年帯の共通の指示（subject = ''。無ければ grade_band = 'all'）
+--   2. 教科の指示（その学年帯 → 'all' の順。subject は教科名と同じ文字列）
+
+create table if not exists public.prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  -- 生徒ごとの指示（null は全生徒に効く既定）
+  student_id uuid references public.students (id) on delete cascade,
+  -- all: すべての学年 / elementary: 小学生 / junior_high: 中学生 / high: 高校生
+  grade_band text not null check (grade_band in ('all', 'elementary', 'junior_high', 'high')),
+  -- 教科名（projects.name と同じ）。'' は学年帯の共通の指示
+  subject text not null default '',
+  body text not null check (length(trim(body)) > 0),
+  updated_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- 既定（student_id = null）も (grade_band, subject) ごとに1件
+create unique index if not exists idx_prompt_templates_student_band_subject
+  on public.prompt_templates (student_id, grade_band, subject) nulls not distinct;
+
+-- ========== ポリシー ==========
+
+alter table public.prompt_templates enable row level security;
+
+drop policy if exists "Signed-in users can view prompt_templates" on public.prompt_templates;
+drop policy if exists "Tutors can manage prompt_templates" on public.prompt_templates;
+drop policy if exists "Admins can manage prompt_templates" on public.prompt_templates;
+drop policy if exists "Tutors can manage student prompt_templates" on public.prompt_templates;
+
+-- chat はログイン中のユーザーの権限で読む（生徒のチャットでも使う）。生徒ごとの指示はその生徒を見られる人だけ
+create policy "Signed-in users can view prompt_templates"
+  on public.prompt_templates for select
+  using (auth.uid() is not null and (student_id is null or public.can_read_student(student_id)));
+
+-- 既定（全生徒のチャットに効く）を含め、管理者はすべて編集できる
+create policy "Admins can manage prompt_templates"
+  on public.prompt_templates for all
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- 講師は受け持つ生徒の指示だけ編集できる（既定は変えられない）
+create policy "Tutors can manage student prompt_templates"
+  on public.prompt_templates for all
+  using (student_id is not null and public.app_role() = 'tutor' and public.can_write_student(student_id))
+  with check (student_id is not null and public.app_role() = 'tutor' and public.can_write_student(student_id));
+
+-- ========== 初期のテンプレート ==========
+
+insert into public.prompt_templates (grade_band, subject, body) values
+(
+  'elementary', '',
+  'あなたは小学生向けの優しい家庭教師AIです。以下のルールを守って回答してください：
+
+1. 小学生が理解できる言葉で、わかりやすく説明する
+2. 難しい言葉を使う場合は、簡単な言葉で補足する
+3. 答えを直接教えるのではなく、考え方やヒントを与える
+4. 励ましの言葉を入れて、学習意欲を高める
+5. 具体例や図を使った説明を心がける
+6. 質問には丁寧に答え、間違いを指摘する時も優しく
+7. マークダウン形式で読みやすく整形する（見出し、箇条書き、太字など）'
+),
+(
+  'junior_high', '',
+  'あなたは中学生向けの家庭教師AIです。以下のルールを守って回答してください：
+
+1. 中学校の教科書の用語を使い、初めて出てくる用語は短く説明する
+2. 答えを直接教えるのではなく、まず考え方の方針を示して本人に考えさせる
+3. 定期テストや高校入試で問われる形にも触れる
+4. 間違いは理由をはっきり伝え、次に気をつける点をまとめる
+5. マークダウン形式で読みやすく整形する（見出し、箇条書き、太字など）'
+),
+(
+  'high', '',
+  'あなたは高校生向けの家庭教師AIです。以下のルールを守って回答してください：
+
+1. 正確な用語を使い、定義や前提を明らかにして説明する
+2. 答えを直接教えるのではなく、方針・途中の考え方を本人に考えさせる
+3. 大学入試での出題のされ方や、関連する単元とのつながりにも触れる
+4. マークダウン形式で読みやすく整形する（見出し、箇条書き、太字など）'
+),
+(
+  'all', '算数',
+  '算数の問題は、式と計算を1行ずつ分けて、一歩ずつ確かめながら進める。図や具体的な数での例を使う。'
+),
+(
+  'all', '数学',
+  '数学の問題は、途中式を省かずに1行ずつ書き、それぞれの行で何をしたか（移項・代入など）を短く添える。最後に答えを確かめる方法（代入して確認など）も示す。'
+),
+(
+  'all', '英語',
+  '英語は、文法の説明（時制・語順・品詞など）を日本語で行い、例文を英語と日本語訳で示す。単語は発音のヒントや使い方の例も添える。'
+),
+(
+  'all', '国語',
+  '国語は、本文のどこに根拠があるかを示してから考えさせる。漢字や言葉の意味は、例文を使って説明する。'
+)
+on conflict (student_id, grade_band, subject) do nothing;
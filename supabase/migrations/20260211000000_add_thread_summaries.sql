@@ -0,0 +1,6 @@
+-- スレッドの要約（AIが会話の進みに合わせて書き足す）
+-- ドロワーのスレッド一覧に表示し、AIへの文脈にも使う（直近20件より前のやりとりも要約として伝わる）
+-- summary_until: 要約に含めた最後のメッセージの created_at（これより後のメッセージがまだ要約されていない）
+
+alter table public.threads add column if not exists summary text;
+alter table public.threads add column if not exists summary_until timestamptz;
@@ -0,0 +1,107 @@
+-- テスト（test_sets）と教科ごとの点数（test_scores）を1つのトランザクションで保存する
+-- これまではフロントから「親の更新 → 子の削除 → 子の作成」を別々に送っていたため、
+-- 途中で失敗すると親だけ更新された状態が残り、outbox の再送が自分の書き込みを競合と見なして止まっていた
+-- 作成も同じ関数で行う（親だけ作られて点数の無いテストが残らないように）
+-- 子は教科（subject）で突き合わせ、同じ教科の行はその場で更新する（全件を消して作り直すと、
+-- 変更履歴に毎回すべての点数の削除と追加が残るため。値の変わらない更新は履歴に残らない）
+
+/**
+ * 親を作成または更新し、子を差し替える（RLS はそのまま効く）
+ * 子: 無くなった教科は削除、同じ教科は更新（ID は既存のまま）、新しい教科は作成
+ * p_parent: 更新する項目（date / name / grade / memo / deleted_at / updated_at。無い項目は変えない）
+ *           作成時は行全体（user_id / student_id / created_at も含む）
+ * p_children: 新しい子の一覧（test_scores の形）
+ * p_expected_updated_at: 読み込んだ時点の updated_at。食い違えば何も変えずに null を返す（競合）
+ * p_create: true なら親を p_id で作成する（同じ ID の行があればエラー）
+ * 戻り値: 保存した親の行に test_scores（子の一覧）を足したもの
+ */
+create or replace function public.save_test_set(
+  p_id uuid,
+  p_parent jsonb,
+  p_children jsonb,
+  p_expected_updated_at timestamptz default null,
+  p_create boolean default false
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  current_row public.test_sets;
+  next_row public.test_sets;
+begin
+  if p_create then
+    insert into public.test_sets (
+      id, user_id, student_id, date, name, grade, memo, created_at, updated_at, deleted_at
+    )
+    select
+      p_id, r.user_id, r.student_id, r.date, r.name, r.grade, r.memo,
+      coalesce(r.created_at, now()), coalesce(r.updated_at, now()), r.deleted_at
+    from jsonb_populate_record(null::public.test_sets, p_parent) r;
+  else
+    select * into current_row
+    from public.test_sets
+    where id = p_id
+      and (p_expected_updated_at is null or updated_at = p_expected_updated_at)
+    for update;
+    if not found then
+      return null;
+    end if;
+
+    next_row := jsonb_populate_record(current_row, p_parent);
+    update public.test_sets set
+      date = next_row.date,
+      name = next_row.name,
+      grade = next_row.grade,
+      memo = next_row.memo,
+      deleted_at = next_row.deleted_at,
+      updated_at = coalesce((p_parent ->> 'updated_at')::timestamptz, now())
+    where id = p_id;
+  end if;
+
+  delete from public.test_scores s
+  where s.test_set_id = p_id
+    and not exists (
+      select 1 from jsonb_populate_recordset(null::public.test_scores, p_children) c
+      where c.subject = s.subject
+    );
+
+  update public.test_scores s set
+    score = c.score,
+    average = c.average,
+    max_score = c.max_score,
+    rank = c.rank,
+    deviation = c.deviation,
+    problem_images = c.problem_images,
+    answer_images = c.answer_images
+  from jsonb_populate_recordset(null::public.test_scores, p_children) c
+  where s.test_set_id = p_id
+    and s.subject = c.subject
+    and (s.score, s.average, s.max_score, s.rank, s.deviation, s.problem_images, s.answer_images)
+      is distinct from (c.score, c.average, c.max_score, c.rank, c.deviation, c.problem_images, c.answer_images);
+
+  insert into public.test_scores (
+    id, test_set_id, subject, score, average, max_score, rank, deviation,
+    problem_images, answer_images, created_at
+  )
+  select
+    c.id, p_id, c.subject, c.score, c.average, c.max_score, c.rank, c.deviation,
+    c.problem_images, c.answer_images, coalesce(c.created_at, now())
+  from jsonb_populate_recordset(null::public.test_scores, p_children) c
+  where not exists (
+    select 1 from public.test_scores s where s.test_set_id = p_id and s.subject = c.subject
+  );
+
+  return (
+    select to_jsonb(s) || jsonb_build_object(
+      'test_scores',
+      coalesce((select jsonb_agg(to_jsonb(c)) from public.test_scores c where c.test_set_id = p_id), '[]'::jsonb)
+    )
+    from public.test_sets s
+    where s.id = p_id
+  );
+end;
+$$;
+
+grant execute on function public.save_test_set(uuid, jsonb, jsonb, timestamptz, boolean) to authenticated;
@@ -0,0 +1,152 @@
+-- アカウントの個人データを1つのトランザクションで削除する（Edge Function delete-account から呼ぶ）
+-- これまでは Edge Function からテーブルごとに十数回に分けて削除していたため、
+-- 途中で失敗すると一部のデータだけが消えた状態が残っていた
+-- Storage の添付ファイルとアカウント（auth.users）は、この関数が成功した後に Edge Function が消す
+
+/**
+ * アカウントの個人データを削除する
+ * 削除する生徒: 本人の生徒と、自分が登録した（ログインを持たない）生徒
+ * 他のアカウントがログインに使っている生徒は削除せず、そのアカウントに引き継ぐ
+ * 削除するのは上の生徒のデータだけ。講師・保護者として他の家庭の生徒に作った行は残し、
+ * 作成者（user_id）をその生徒の持ち主に付け替える（授業記録は給与の計算にも使うため）
+ * 戻り値: { counts: テーブルごとの削除件数（projects / threads / messages / homework / test_sets / test_scores /
+ *         lesson_records / record_history / students / relationships / invite_codes）,
+ *         kept_paths: 残した行が参照している Storage のパス（Edge Function はこれを消さない） }
+ */
+create or replace function public.delete_account_data(p_user_id uuid)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  student_ids uuid[];
+  project_ids uuid[];
+  thread_ids uuid[];
+  test_set_ids uuid[];
+  kept_paths jsonb;
+  counts jsonb := '{}'::jsonb;
+  deleted integer;
+begin
+  update public.students
+  set owner_id = account_id
+  where owner_id = p_user_id
+    and account_id is not null
+    and account_id <> p_user_id;
+
+  select coalesce(array_agg(id), '{}') into student_ids
+  from public.students
+  where owner_id = p_user_id or account_id = p_user_id;
+
+  -- 他の家庭の生徒に作った行は残す。そこに添付した画像も消さない
+  select coalesce(jsonb_agg(distinct a.attachment ->> 'path'), '[]'::jsonb) into kept_paths
+  from (
+    select jsonb_array_elements(coalesce(to_jsonb(h.attachments), '[]'::jsonb)) as attachment
+    from public.homework h
+    where h.user_id = p_user_id and h.student_id <> all (student_ids)
+    union all
+    select jsonb_array_elements(
+      coalesce(to_jsonb(sc.problem_images), '[]'::jsonb) || coalesce(to_jsonb(sc.answer_images), '[]'::jsonb)
+    )
+    from public.test_scores sc
+    join public.test_sets t on t.id = sc.test_set_id
+    where t.user_id = p_user_id and t.student_id <> all (student_ids)
+    union all
+    select jsonb_array_elements(coalesce(to_jsonb(m.attachments), '[]'::jsonb))
+    from public.messages m
+    join public.threads th on th.id = m.thread_id
+    join public.projects pr on pr.id = th.project_id
+    where th.user_id = p_user_id and pr.student_id <> all (student_ids)
+  ) a
+  where a.attachment ->> 'path' is not null;
+
+  -- 作成者はその生徒の持ち主にする
+  update public.projects t set user_id = st.owner_id
+  from public.students st
+  where st.id = t.student_id and t.user_id = p_user_id and t.student_id <> all (student_ids);
+  update public.test_sets t set user_id = st.owner_id
+  from public.students st
+  where st.id = t.student_id and t.user_id = p_user_id and t.student_id <> all (student_ids);
+  update public.homework t set user_id = st.owner_id
+  from public.students st
+  where st.id = t.student_id and t.user_id = p_user_id and t.student_id <> all (student_ids);
+  update public.lesson_records t set user_id = st.owner_id
+  from public.students st
+  where st.id = t.student_id and t.user_id = p_user_id and t.student_id <> all (student_ids);
+  update public.threads t set user_id = st.owner_id
+  from public.projects pr
+  join public.students st on st.id = pr.student_id
+  where pr.id = t.project_id and t.user_id = p_user_id and pr.student_id <> all (student_ids);
+
+  -- テスト（点数を先に）
+  select coalesce(array_agg(id), '{}') into test_set_ids
+  from public.test_sets
+  where student_id = any (student_ids);
+
+  delete from public.test_scores where test_set_id = any (test_set_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('test_scores', deleted);
+
+  delete from public.test_sets where id = any (test_set_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('test_sets', deleted);
+
+  -- チャット（メッセージはスレッド経由でしか辿れない）
+  select coalesce(array_agg(id), '{}') into project_ids
+  from public.projects
+  where student_id = any (student_ids);
+
+  -- 教科の無いスレッドは作った本人のもの
+  select coalesce(array_agg(id), '{}') into thread_ids
+  from public.threads
+  where project_id = any (project_ids)
+    or (project_id is null and user_id = p_user_id);
+
+  delete from public.messages where thread_id = any (thread_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('messages', deleted);
+
+  delete from public.threads where id = any (thread_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('threads', deleted);
+
+  delete from public.homework where student_id = any (student_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('homework', deleted);
+
+  delete from public.lesson_records where student_id = any (student_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('lesson_records', deleted);
+
+  delete from public.projects where id = any (project_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('projects', deleted);
+
+  -- 変更履歴（上の削除で記録された分も含む）。他の生徒の履歴に残る自分の名前は消す
+  delete from public.record_history where user_id = p_user_id or user_id = any (student_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('record_history', deleted);
+
+  update public.record_history
+  set actor_id = null, actor_email = null
+  where actor_id = p_user_id;
+
+  delete from public.invite_codes where created_by = p_user_id or student_id = any (student_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('invite_codes', deleted);
+
+  delete from public.relationships where member_id = p_user_id or student_id = any (student_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('relationships', deleted);
+
+  delete from public.students where id = any (student_ids);
+  get diagnostics deleted = row_count;
+  counts := counts || jsonb_build_object('students', deleted);
+
+  return jsonb_build_object('counts', counts, 'kept_paths', kept_paths);
+end;
+$$;
+
+-- 他人のデータも消せるため、サービスロールからだけ呼べるようにする
+revoke execute on function public.delete_account_data(uuid) from public, anon, authenticated;
+grant execute on function public.delete_account_data(uuid) to service_role;
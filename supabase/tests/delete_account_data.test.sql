@@ -0,0 +1,78 @@
+-- delete_account_data: 講師がアカウントを削除しても、他の家庭の生徒のデータは消えない
+-- 実行: supabase test db
+
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+-- 講師（自分で登録した生徒が1人）と、その講師が受け持つ他の家庭の生徒
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-0000000000a1', 'tutor@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'parent@example.com');
+update public.profiles set role = 'tutor' where id = '00000000-0000-0000-0000-0000000000a1';
+update public.profiles set role = 'parent' where id = '00000000-0000-0000-0000-0000000000b1';
+
+insert into public.students (id, owner_id, name) values
+  ('00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a1', '講師の生徒'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000b1', '他の家庭の生徒');
+insert into public.relationships (student_id, member_id, kind) values
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a1', 'tutor');
+
+-- 講師が作った行（講師の生徒の分と、他の家庭の生徒の分）
+insert into public.projects (id, user_id, student_id, name) values
+  ('00000000-0000-0000-0000-0000000000a3', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2', '数学'),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', '数学');
+insert into public.threads (id, user_id, project_id, title) values
+  ('00000000-0000-0000-0000-0000000000b4', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b3', '質問');
+insert into public.homework (id, user_id, student_id, project_id, title, detail, status) values
+  ('00000000-0000-0000-0000-0000000000a5', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000a2', '00000000-0000-0000-0000-0000000000a3', '計算ドリル', '', 'todo'),
+  ('00000000-0000-0000-0000-0000000000b5', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000b3', '計算ドリル', '', 'todo');
+insert into public.lesson_records (id, user_id, student_id, date, duration, content) values
+  ('00000000-0000-0000-0000-0000000000b6', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', '2026-02-01', 60, '方程式');
+insert into public.test_sets (id, user_id, student_id, date, name) values
+  ('00000000-0000-0000-0000-0000000000b7', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b2', '2026-02-01', '期末テスト');
+
+select lives_ok(
+  $$ select public.delete_account_data('00000000-0000-0000-0000-0000000000a1') $$,
+  '講師のデータを削除できる'
+);
+
+select is(
+  (select count(*)::int from public.homework where student_id = '00000000-0000-0000-0000-0000000000a2'),
+  0,
+  '講師の生徒の宿題は削除される'
+);
+select is(
+  (select count(*)::int from public.students where id = '00000000-0000-0000-0000-0000000000a2'),
+  0,
+  '講師の生徒は削除される'
+);
+select is(
+  (select user_id from public.lesson_records where id = '00000000-0000-0000-0000-0000000000b6'),
+  '00000000-0000-0000-0000-0000000000b1'::uuid,
+  '他の家庭の生徒の授業記録は残り、作成者は生徒の持ち主になる'
+);
+select is(
+  (select user_id from public.homework where id = '00000000-0000-0000-0000-0000000000b5'),
+  '00000000-0000-0000-0000-0000000000b1'::uuid,
+  '他の家庭の生徒の宿題は残る'
+);
+select is(
+  (select count(*)::int from public.test_sets where id = '00000000-0000-0000-0000-0000000000b7'),
+  1,
+  '他の家庭の生徒のテストは残る'
+);
+select is(
+  (select user_id from public.threads where id = '00000000-0000-0000-0000-0000000000b4'),
+  '00000000-0000-0000-0000-0000000000b1'::uuid,
+  '他の家庭の生徒の教科のスレッドは残る'
+);
+select is(
+  (select count(*)::int from public.relationships where member_id = '00000000-0000-0000-0000-0000000000a1'),
+  0,
+  '講師の紐付けは削除される'
+);
+
+select * from finish();
+rollback;